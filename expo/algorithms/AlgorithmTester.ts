@@ -2,6 +2,20 @@
 // ALGORITHM TESTING & PERFORMANCE ANALYSIS SYSTEM
 // ============================================================================
 
+import { BacktestEngine, EquityPoint, equityCurveStats } from './BacktestEngine';
+import { SimulatedClock } from './Clock';
+import { CorrelatedMarketSimulator, DEFAULT_TRANSITIONS, SimulatedAsset, uniformCorrelation } from './CorrelatedMarketSimulator';
+import { MonteCarloAnalyzer, MonteCarloDistribution, MonteCarloOptions, MonteCarloResult } from './MonteCarloAnalyzer';
+import { BotConfig, MarketData } from './MomentumTradingBot';
+import { MarketDataGuard } from './MarketDataGuard';
+import { GridSearchResult, OptimizerOptions, ParameterOptimizer, ParameterSpace } from './ParameterOptimizer';
+import { createRandom, deriveSeed, randomSeed } from './Random';
+import { RiskManager, RiskMetrics } from './RiskManager';
+import { DEFAULT_SCENARIO_PARAMS, generateScenarioData, SCENARIO_SYMBOLS, ScenarioParams } from './ScenarioGenerator';
+import { strategyRegistry } from './StrategyRegistry';
+import { AnyTradingBot, BotType } from './TradingBot';
+import { WalkForwardAnalyzer, WalkForwardOptions, WalkForwardReport } from './WalkForwardAnalyzer';
+
 export interface TestScenario {
   name: string;
   description: string;
@@ -9,6 +23,9 @@ export interface TestScenario {
   expectedOutcome: string;
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
   duration: number; // days
+  // Set on generated scenarios; the same seed and params regenerate the data
+  seed?: number;
+  params?: ScenarioParams;
 }
 
 export interface PerformanceMetrics {
@@ -49,6 +66,10 @@ export interface TestResult {
     reason: string;
   }>;
   riskMetrics: RiskMetrics;
+  // Outcome distributions from resampled trades and bar returns
+  monteCarlo: MonteCarloResult;
+  // Pass to AlgorithmTesterOptions.seed to replay this run exactly
+  seed: number;
   passed: boolean;
   score: number; // 0-100
   issues: string[];
@@ -64,29 +85,46 @@ export interface EdgeCaseTest {
   criticalLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
 }
 
+export interface AlgorithmTesterOptions {
+  // Drives scenario data and Monte Carlo draws; a fresh seed is picked when omitted
+  seed?: number;
+  scenarioOverrides?: Partial<ScenarioParams>;
+  monteCarlo?: MonteCarloOptions;
+}
+
 export class AlgorithmTester {
   private riskManager: RiskManager;
+  private seed: number;
+  private scenarioOverrides: Partial<ScenarioParams>;
+  private startTime: number;
+  private monteCarloOptions: MonteCarloOptions;
   private testResults: TestResult[] = [];
   private edgeCaseResults: Array<{test: EdgeCaseTest, passed: boolean, issues: string[]}> = [];
 
-  constructor(riskManager: RiskManager) {
+  constructor(riskManager: RiskManager, options: AlgorithmTesterOptions = {}) {
     this.riskManager = riskManager;
+    this.seed = options.seed ?? randomSeed();
+    this.scenarioOverrides = options.scenarioOverrides || {};
+    this.startTime = this.scenarioOverrides.startTime ?? DEFAULT_SCENARIO_PARAMS.startTime;
+    this.monteCarloOptions = options.monteCarlo || {};
   }
 
-  // Run comprehensive algorithm tests
-  async runAlgorithmTests(): Promise<TestResult[]> {
+  getSeed(): number {
+    return this.seed;
+  }
+
+  // Run comprehensive algorithm tests. Pass scenarios (e.g. from
+  // HistoricalDataImporter) to test on them instead of the synthetic set.
+  async runAlgorithmTests(scenarios: TestScenario[] = this.generateTestScenarios()): Promise<TestResult[]> {
     console.log('Starting comprehensive algorithm testing...');
     
-    const scenarios = this.generateTestScenarios();
     const results: TestResult[] = [];
 
     for (const scenario of scenarios) {
       console.log(`Testing scenario: ${scenario.name}`);
       
-      // Test each algorithm
-      const algorithms = ['momentum', 'dca', 'staking', 'cci'];
-      
-      for (const algorithm of algorithms) {
+      // Test each registered algorithm
+      for (const algorithm of strategyRegistry.types()) {
         const result = await this.testAlgorithm(algorithm, scenario);
         results.push(result);
         this.testResults.push(result);
@@ -102,140 +140,220 @@ export class AlgorithmTester {
     return results;
   }
 
-  private generateTestScenarios(): TestScenario[] {
-    return [
+  // Grid-search an algorithm's parameters on the same scenarios and risk limits
+  // the tests use, starting from the test bot configuration
+  async optimizeAlgorithm(
+    algorithm: BotType,
+    space: ParameterSpace,
+    options: OptimizerOptions = {},
+    scenarios: TestScenario[] = this.generateTestScenarios(),
+  ): Promise<GridSearchResult> {
+    const optimizer = new ParameterOptimizer();
+    return optimizer.optimize(this.createBotConfig(algorithm), space, scenarios, {
+      ...options,
+      backtest: { initialBalance: 10000, riskLimits: this.riskManager.getRiskLimits(), ...options.backtest },
+    });
+  }
+
+  // Walk-forward validation per strategy: parameters are tuned on rolling
+  // in-sample windows and scored only on the out-of-sample windows after them
+  async runWalkForward(
+    spaces: Partial<Record<BotType, ParameterSpace>>,
+    marketData: MarketData[],
+    options: WalkForwardOptions,
+  ): Promise<WalkForwardReport[]> {
+    const analyzer = new WalkForwardAnalyzer();
+    const reports: WalkForwardReport[] = [];
+
+    for (const [algorithm, space] of Object.entries(spaces) as [BotType, ParameterSpace][]) {
+      console.log(`Walk-forward testing: ${algorithm}`);
+      reports.push(await analyzer.analyze(this.createBotConfig(algorithm), space, marketData, {
+        ...options,
+        backtest: { initialBalance: 10000, riskLimits: this.riskManager.getRiskLimits(), ...options.backtest },
+      }));
+    }
+
+    return reports;
+  }
+
+  // Synthetic scenarios from the seeded generator. Overrides apply on top of
+  // every preset (e.g. { symbols: 3, barIntervalMs: 15 * 60 * 1000 }); the
+  // same seed and overrides always produce the same data.
+  generateTestScenarios(seed: number = this.seed, overrides: Partial<ScenarioParams> = this.scenarioOverrides): TestScenario[] {
+    const presets: (Omit<TestScenario, 'marketData' | 'seed' | 'params'> & { params: Partial<ScenarioParams> })[] = [
       // Bull Market Scenarios
       {
         name: 'Strong Bull Market',
         description: 'Sustained upward trend with moderate volatility',
-        marketData: this.generateBullMarketData(30),
         expectedOutcome: 'Positive returns with momentum and CCI bots performing well',
         riskLevel: 'LOW',
         duration: 30,
+        params: { drift: 2, volatility: 3 },
       },
       {
         name: 'Volatile Bull Market',
         description: 'Bull market with high volatility and corrections',
-        marketData: this.generateVolatileBullMarketData(30),
         expectedOutcome: 'Positive returns but with higher drawdowns',
         riskLevel: 'MEDIUM',
         duration: 30,
+        params: { drift: 2, volatility: 8, jumpIntensity: 0.5, jumpSize: 5, baseVolume: 1500000, volumeVariation: 0.33 },
       },
       
       // Bear Market Scenarios
       {
         name: 'Strong Bear Market',
         description: 'Sustained downward trend',
-        marketData: this.generateBearMarketData(30),
         expectedOutcome: 'DCA bot should perform best, others should minimize losses',
         riskLevel: 'HIGH',
         duration: 30,
+        params: { drift: -2, volatility: 3 },
       },
       {
         name: 'Crash Scenario',
         description: 'Sudden market crash with extreme volatility',
-        marketData: this.generateCrashScenarioData(7),
         expectedOutcome: 'All bots should trigger stop-losses and minimize losses',
         riskLevel: 'HIGH',
         duration: 7,
+        params: {
+          volatility: 5,
+          baseVolume: 3000000,
+          volumeVariation: 0.33,
+          events: [
+            { startHour: 12, hours: 12, returnPct: -60 }, // Rapid decline
+            { startHour: 24, hours: 144, returnPct: 40 }, // Gradual recovery
+          ],
+        },
       },
       
       // Sideways Market Scenarios
       {
         name: 'Sideways Market',
         description: 'Range-bound market with low volatility',
-        marketData: this.generateSidewaysMarketData(30),
-        expectedOutcome: 'Staking bot should perform best, others should break even',
+        expectedOutcome: 'Staking, grid and mean-reversion bots should perform best, others should break even',
         riskLevel: 'LOW',
         duration: 30,
+        params: { volatility: 1, range: [0.9, 1.1], baseVolume: 650000, volumeVariation: 0.23 },
       },
       {
         name: 'High Volatility Sideways',
         description: 'Range-bound market with high volatility',
-        marketData: this.generateVolatileSidewaysData(30),
         expectedOutcome: 'Mixed results depending on timing',
         riskLevel: 'MEDIUM',
         duration: 30,
+        params: { volatility: 6, range: [0.7, 1.3], baseVolume: 1400000, volumeVariation: 0.3 },
       },
       
       // Extreme Scenarios
       {
         name: 'Flash Crash Recovery',
         description: 'Sudden crash followed by quick recovery',
-        marketData: this.generateFlashCrashData(3),
         expectedOutcome: 'Bots should recover losses quickly',
         riskLevel: 'HIGH',
         duration: 3,
+        params: {
+          volatility: 1.5,
+          events: [
+            { startHour: 12, hours: 1, returnPct: -50 }, // 50% drop
+            { startHour: 13, hours: 5, returnPct: 61 }, // ~10% recovery per hour
+          ],
+        },
       },
       {
         name: 'Low Liquidity Market',
         description: 'Market with very low trading volume',
-        marketData: this.generateLowLiquidityData(30),
         expectedOutcome: 'Reduced trading activity, higher slippage',
         riskLevel: 'MEDIUM',
         duration: 30,
+        params: { volatility: 2, baseVolume: 35000, volumeVariation: 0.7 },
       },
     ];
+
+    const scenarios = presets.map(preset => {
+      const params: ScenarioParams = { ...DEFAULT_SCENARIO_PARAMS, ...preset.params, ...overrides };
+      return {
+        name: preset.name,
+        description: preset.description,
+        marketData: generateScenarioData(params, preset.duration, deriveSeed(seed, preset.name)),
+        expectedOutcome: preset.expectedOutcome,
+        riskLevel: preset.riskLevel,
+        duration: preset.duration,
+        seed,
+        params,
+      };
+    });
+
+    return [...scenarios, ...this.generateCorrelatedScenarios(seed, overrides)];
   }
 
-  private async testAlgorithm(algorithm: string, scenario: TestScenario): Promise<TestResult> {
-    const bot = this.createBotInstance(algorithm);
-    const trades: TestResult['trades'] = [];
-    let portfolioValue = 10000; // Starting with $10k
-    const positions: Position[] = [];
-
-    // Simulate trading over the scenario duration
-    for (let i = 0; i < scenario.marketData.length; i++) {
-      const currentData = scenario.marketData.slice(0, i + 1);
-      const signals = bot.analyzeMarket(currentData);
-
-      // Process signals
-      for (const signal of signals) {
-        // Validate signal with risk manager
-        const validation = this.riskManager.validateSignal(signal, positions, currentData);
-        
-        if (validation.approved) {
-          const quantity = validation.adjustedQuantity || signal.quantity;
-          
-          // Execute trade
-          const trade = {
-            timestamp: signal.timestamp,
-            action: signal.action,
-            symbol: signal.symbol,
-            price: signal.price,
-            quantity,
-            pnl: 0, // Will be calculated later
-            reason: signal.reason,
-          };
-
-          // Update position
-          bot.updatePosition(signal.symbol, signal.action, quantity, signal.price);
-          
-          // Calculate PnL for sell trades
-          if (signal.action === 'SELL') {
-            const position = positions.find(p => p.symbol === signal.symbol);
-            if (position) {
-              trade.pnl = (signal.price - position.entryPrice) * quantity;
-            }
-          }
+  // Multi-asset scenarios with correlated returns and regime switches, so the
+  // correlation limits and portfolio-level risk checks see realistic data
+  private generateCorrelatedScenarios(seed: number, overrides: Partial<ScenarioParams>): TestScenario[] {
+    const volatilityMultipliers: Record<string, number> = { BTC: 1, ETH: 1.2, SOL: 1.6, ADA: 1.5, DOT: 1.4 };
+    const assets: SimulatedAsset[] = SCENARIO_SYMBOLS.map(({ symbol, price, supply }) => ({
+      symbol,
+      startPrice: price,
+      supply,
+      volatilityMultiplier: volatilityMultipliers[symbol],
+    }));
+    const timing = {
+      barIntervalMs: overrides.barIntervalMs ?? DEFAULT_SCENARIO_PARAMS.barIntervalMs,
+      startTime: overrides.startTime ?? DEFAULT_SCENARIO_PARAMS.startTime,
+    };
 
-          trades.push(trade);
-        }
-      }
+    const regimeSwitching = new CorrelatedMarketSimulator(
+      { assets, correlation: uniformCorrelation(assets.length, 0.7), initialRegime: 'BULL', ...timing },
+      deriveSeed(seed, 'Correlated Regime Switching'),
+    ).simulate(60);
+    const contagion = new CorrelatedMarketSimulator(
+      {
+        assets,
+        correlation: uniformCorrelation(assets.length, 0.9),
+        initialRegime: 'BEAR',
+        transitions: { ...DEFAULT_TRANSITIONS, BEAR: { BULL: 0.02, SIDEWAYS: 0.05 } },
+        ...timing,
+      },
+      deriveSeed(seed, 'Risk-Off Contagion'),
+    ).simulate(30);
 
-      // Update positions
-      const botPositions = bot.getPositions();
-      positions.length = 0;
-      positions.push(...botPositions);
+    return [
+      {
+        name: 'Correlated Regime Switching',
+        description: 'Five correlated assets cycling through bull, bear and sideways regimes',
+        marketData: regimeSwitching.marketData,
+        expectedOutcome: 'Bots should adapt to regime changes without concentrating in correlated positions',
+        riskLevel: 'MEDIUM',
+        duration: 60,
+        seed,
+      },
+      {
+        name: 'Risk-Off Contagion',
+        description: 'Highly correlated sell-off across all assets',
+        marketData: contagion.marketData,
+        expectedOutcome: 'Diversification fails; correlation limits should cap total exposure',
+        riskLevel: 'HIGH',
+        duration: 30,
+        seed,
+      },
+    ];
+  }
 
-      // Update portfolio value
-      portfolioValue = this.calculatePortfolioValue(positions, currentData);
-      this.riskManager.updatePerformanceHistory(portfolioValue);
-    }
+  private async testAlgorithm(algorithm: BotType, scenario: TestScenario): Promise<TestResult> {
+    // Bars replay through the event-driven engine on a simulated clock, with
+    // orders filled on a paper exchange (fees, slippage, partial fills)
+    const engine = new BacktestEngine({
+      initialBalance: 10000, // Starting with $10k
+      riskLimits: this.riskManager.getRiskLimits(),
+    });
+    const backtest = engine.run(this.createBotConfig(algorithm), scenario.marketData);
 
     // Calculate performance metrics
-    const performance = this.calculatePerformanceMetrics(trades, portfolioValue, 10000);
-    const riskMetrics = this.riskManager.calculateRiskMetrics(positions, scenario.marketData);
+    const performance = this.calculatePerformanceMetrics(backtest.trades, backtest.equityCurve, backtest.initialBalance);
+    const riskMetrics = backtest.riskMetrics;
+    const seed = scenario.seed ?? this.seed;
+    const monteCarlo = new MonteCarloAnalyzer({
+      random: createRandom(deriveSeed(seed, `${scenario.name}/${algorithm}`)),
+      ...this.monteCarloOptions,
+    }).analyze(backtest.trades, backtest.equityCurve, backtest.initialBalance);
     
     // Evaluate test results
     const evaluation = this.evaluateTestResult(algorithm, scenario, performance, riskMetrics);
@@ -244,8 +362,10 @@ export class AlgorithmTester {
       scenario,
       algorithm,
       performance,
-      trades,
+      trades: backtest.trades,
       riskMetrics,
+      monteCarlo,
+      seed,
       passed: evaluation.passed,
       score: evaluation.score,
       issues: evaluation.issues,
@@ -253,12 +373,11 @@ export class AlgorithmTester {
     };
   }
 
-  private createBotInstance(algorithm: string): any {
-    // Create bot instances for testing
-    const config: BotConfig = {
+  private createBotConfig(algorithm: BotType): BotConfig {
+    return {
       id: 'test-bot',
       name: 'Test Bot',
-      type: algorithm as any,
+      type: algorithm,
       allocation: 10000,
       stopLoss: 5,
       takeProfit: 15,
@@ -267,30 +386,15 @@ export class AlgorithmTester {
       riskLevel: 'MODERATE',
       enabledAssets: ['BTC', 'ETH', 'SOL', 'ADA', 'DOT'],
     };
+  }
 
-    switch (algorithm) {
-      case 'momentum':
-        return new MomentumTradingBot(config);
-      case 'dca':
-        const dcaSchedule: DCASchedule = {
-          frequency: 'DAILY',
-          interval: 24,
-          amount: 100,
-          startDate: Date.now(),
-        };
-        return new DCATradingBot(config, dcaSchedule);
-      case 'staking':
-        return new SmartStakingBot(config);
-      case 'cci':
-        return new CCIMarketBot(config);
-      default:
-        throw new Error(`Unknown algorithm: ${algorithm}`);
-    }
+  private createBotInstance(algorithm: BotType): AnyTradingBot {
+    // Create bot instances for testing
+    return strategyRegistry.create(this.createBotConfig(algorithm));
   }
 
-  private calculatePerformanceMetrics(trades: TestResult['trades'], finalValue: number, initialValue: number): PerformanceMetrics {
-    const totalReturn = ((finalValue - initialValue) / initialValue) * 100;
-    const annualizedReturn = Math.pow(1 + totalReturn / 100, 365 / 30) - 1; // Assuming 30-day test
+  private calculatePerformanceMetrics(trades: TestResult['trades'], equityCurve: EquityPoint[], initialValue: number): PerformanceMetrics {
+    const stats = equityCurveStats(equityCurve, initialValue);
     
     const sellTrades = trades.filter(t => t.action === 'SELL');
     const winningTrades = sellTrades.filter(t => t.pnl > 0);
@@ -304,25 +408,8 @@ export class AlgorithmTester {
     
     const profitFactor = Math.abs(averageLoss) > 0 ? Math.abs(averageWin / averageLoss) : 0;
     
-    // Calculate volatility (simplified)
-    const returns = [];
-    for (let i = 1; i < trades.length; i++) {
-      const ret = (trades[i].price - trades[i - 1].price) / trades[i - 1].price;
-      returns.push(ret);
-    }
-    const volatility = returns.length > 0 ? Math.sqrt(returns.reduce((sum, ret) => sum + ret * ret, 0) / returns.length) * 100 : 0;
-    
-    // Calculate Sharpe ratio (simplified)
-    const meanReturn = returns.reduce((a, b) => a + b, 0) / returns.length;
-    const sharpeRatio = volatility > 0 ? (meanReturn - 0.02/365) / (volatility/100) : 0;
-    
     return {
-      totalReturn,
-      annualizedReturn: annualizedReturn * 100,
-      maxDrawdown: this.calculateMaxDrawdown(trades),
-      sharpeRatio,
-      sortinoRatio: 0, // Simplified
-      calmarRatio: 0, // Simplified
+      ...stats,
       winRate,
       profitFactor,
       averageWin,
@@ -333,7 +420,6 @@ export class AlgorithmTester {
       winningTrades: winningTrades.length,
       losingTrades: losingTrades.length,
       averageTradeDuration: 24, // Simplified
-      volatility,
       beta: 1.0, // Simplified
       alpha: 0, // Simplified
       informationRatio: 0, // Simplified
@@ -341,36 +427,6 @@ export class AlgorithmTester {
     };
   }
 
-  private calculateMaxDrawdown(trades: TestResult['trades']): number {
-    let maxDrawdown = 0;
-    let peak = 0;
-    let currentValue = 10000; // Starting value
-    
-    for (const trade of trades) {
-      if (trade.action === 'BUY') {
-        currentValue -= trade.price * trade.quantity;
-      } else {
-        currentValue += trade.price * trade.quantity;
-      }
-      
-      if (currentValue > peak) {
-        peak = currentValue;
-      } else {
-        const drawdown = (peak - currentValue) / peak;
-        maxDrawdown = Math.max(maxDrawdown, drawdown);
-      }
-    }
-    
-    return maxDrawdown * 100;
-  }
-
-  private calculatePortfolioValue(positions: Position[], marketData: MarketData[]): number {
-    return positions.reduce((total, position) => {
-      const assetData = marketData.find(d => d.symbol === position.symbol);
-      return total + (assetData ? position.quantity * assetData.price : position.value);
-    }, 0);
-  }
-
   private evaluateTestResult(algorithm: string, scenario: TestScenario, performance: PerformanceMetrics, riskMetrics: RiskMetrics): {
     passed: boolean;
     score: number;
@@ -409,6 +465,26 @@ export class AlgorithmTester {
           score += 20;
         }
         break;
+
+      // Ranges are what grids and mean reversion are built for
+      case 'Sideways Market':
+      case 'High Volatility Sideways':
+        if (algorithm === 'grid') {
+          if (performance.totalReturn < 0) {
+            issues.push('Grid lost money in a range-bound market');
+            recommendations.push('Match the grid range and level count to the market range');
+          } else {
+            score += 20;
+          }
+        } else if (algorithm === 'meanReversion') {
+          if (performance.totalReturn < 0) {
+            issues.push('Mean reversion lost money in a range-bound market');
+            recommendations.push('Widen the entry band or tighten the trend filter');
+          } else {
+            score += 20;
+          }
+        }
+        break;
     }
 
     // General performance evaluation
@@ -522,14 +598,15 @@ export class AlgorithmTester {
     let passed = true;
 
     try {
-      // Test each algorithm with edge case data
-      const algorithms = ['momentum', 'dca', 'staking', 'cci'];
-      
-      for (const algorithm of algorithms) {
+      // Test each registered algorithm with edge case data
+      for (const algorithm of strategyRegistry.types()) {
         const bot = this.createBotInstance(algorithm);
+        // Screened as the runtime would, as of the newest quote in the test data
+        const guard = new MarketDataGuard({}, new SimulatedClock(Math.max(...edgeCase.testData.map(data => data.timestamp))));
         
         try {
-          const signals = bot.analyzeMarket(edgeCase.testData);
+          const { clean, blocked } = guard.inspect(edgeCase.testData);
+          const signals = bot.analyzeMarket(clean).filter(signal => !blocked.has(signal.symbol));
           
           // Check for expected behavior
           switch (edgeCase.name) {
@@ -568,13 +645,13 @@ export class AlgorithmTester {
             // Expected to handle gracefully
             console.log(`${algorithm} bot handled missing data gracefully`);
           } else {
-            issues.push(`${algorithm} bot crashed: ${error.message}`);
+            issues.push(`${algorithm} bot crashed: ${error instanceof Error ? error.message : String(error)}`);
             passed = false;
           }
         }
       }
     } catch (error) {
-      issues.push(`Edge case test failed: ${error.message}`);
+      issues.push(`Edge case test failed: ${error instanceof Error ? error.message : String(error)}`);
       passed = false;
     }
 
@@ -623,208 +700,12 @@ export class AlgorithmTester {
   }
 
   // Data generation methods for testing
-  private generateBullMarketData(days: number): MarketData[] {
-    const data: MarketData[] = [];
-    let price = 100;
-    
-    for (let i = 0; i < days * 24; i++) {
-      price += (Math.random() - 0.3) * 2; // Slight upward bias
-      data.push({
-        symbol: 'BTC',
-        price: Math.max(50, price),
-        volume: 1000000 + Math.random() * 500000,
-        timestamp: Date.now() + i * 60 * 60 * 1000,
-        change24h: (Math.random() - 0.3) * 10,
-        change1h: (Math.random() - 0.3) * 2,
-        high24h: price * 1.05,
-        low24h: price * 0.95,
-        marketCap: price * 19000000,
-      });
-    }
-    
-    return data;
-  }
-
-  private generateBearMarketData(days: number): MarketData[] {
-    const data: MarketData[] = [];
-    let price = 100;
-    
-    for (let i = 0; i < days * 24; i++) {
-      price += (Math.random() - 0.7) * 2; // Downward bias
-      data.push({
-        symbol: 'BTC',
-        price: Math.max(20, price),
-        volume: 1000000 + Math.random() * 500000,
-        timestamp: Date.now() + i * 60 * 60 * 1000,
-        change24h: (Math.random() - 0.7) * 10,
-        change1h: (Math.random() - 0.7) * 2,
-        high24h: price * 1.02,
-        low24h: price * 0.98,
-        marketCap: price * 19000000,
-      });
-    }
-    
-    return data;
-  }
-
-  private generateVolatileBullMarketData(days: number): MarketData[] {
-    const data: MarketData[] = [];
-    let price = 100;
-    
-    for (let i = 0; i < days * 24; i++) {
-      const volatility = Math.random() * 5; // High volatility
-      price += (Math.random() - 0.2) * volatility; // Slight upward bias with high volatility
-      data.push({
-        symbol: 'BTC',
-        price: Math.max(30, price),
-        volume: 1000000 + Math.random() * 1000000,
-        timestamp: Date.now() + i * 60 * 60 * 1000,
-        change24h: (Math.random() - 0.2) * 20,
-        change1h: (Math.random() - 0.2) * 5,
-        high24h: price * 1.1,
-        low24h: price * 0.9,
-        marketCap: price * 19000000,
-      });
-    }
-    
-    return data;
-  }
-
-  private generateCrashScenarioData(days: number): MarketData[] {
-    const data: MarketData[] = [];
-    let price = 100;
-    
-    for (let i = 0; i < days * 24; i++) {
-      if (i < 12) { // First 12 hours - normal market
-        price += (Math.random() - 0.5) * 1;
-      } else if (i < 24) { // Next 12 hours - crash
-        price -= Math.random() * 10; // Rapid decline
-      } else { // Recovery
-        price += Math.random() * 2; // Gradual recovery
-      }
-      
-      data.push({
-        symbol: 'BTC',
-        price: Math.max(10, price),
-        volume: 2000000 + Math.random() * 2000000, // High volume during crash
-        timestamp: Date.now() + i * 60 * 60 * 1000,
-        change24h: i < 24 ? -50 + Math.random() * 20 : (Math.random() - 0.5) * 10,
-        change1h: (Math.random() - 0.5) * 5,
-        high24h: price * 1.2,
-        low24h: price * 0.8,
-        marketCap: price * 19000000,
-      });
-    }
-    
-    return data;
-  }
-
-  private generateSidewaysMarketData(days: number): MarketData[] {
-    const data: MarketData[] = [];
-    let price = 100;
-    
-    for (let i = 0; i < days * 24; i++) {
-      price += (Math.random() - 0.5) * 0.5; // Low volatility, no trend
-      price = Math.max(90, Math.min(110, price)); // Keep in range
-      
-      data.push({
-        symbol: 'BTC',
-        price,
-        volume: 500000 + Math.random() * 300000, // Lower volume
-        timestamp: Date.now() + i * 60 * 60 * 1000,
-        change24h: (Math.random() - 0.5) * 2,
-        change1h: (Math.random() - 0.5) * 0.5,
-        high24h: price * 1.02,
-        low24h: price * 0.98,
-        marketCap: price * 19000000,
-      });
-    }
-    
-    return data;
-  }
-
-  private generateVolatileSidewaysData(days: number): MarketData[] {
-    const data: MarketData[] = [];
-    let price = 100;
-    
-    for (let i = 0; i < days * 24; i++) {
-      price += (Math.random() - 0.5) * 3; // High volatility, no trend
-      price = Math.max(70, Math.min(130, price)); // Wider range
-      
-      data.push({
-        symbol: 'BTC',
-        price,
-        volume: 1000000 + Math.random() * 800000,
-        timestamp: Date.now() + i * 60 * 60 * 1000,
-        change24h: (Math.random() - 0.5) * 15,
-        change1h: (Math.random() - 0.5) * 3,
-        high24h: price * 1.05,
-        low24h: price * 0.95,
-        marketCap: price * 19000000,
-      });
-    }
-    
-    return data;
-  }
-
-  private generateFlashCrashData(days: number): MarketData[] {
-    const data: MarketData[] = [];
-    let price = 100;
-    
-    for (let i = 0; i < days * 24; i++) {
-      if (i === 12) { // Flash crash at hour 12
-        price *= 0.5; // 50% drop
-      } else if (i > 12 && i < 18) { // Quick recovery
-        price *= 1.1; // 10% recovery per hour
-      } else {
-        price += (Math.random() - 0.5) * 1;
-      }
-      
-      data.push({
-        symbol: 'BTC',
-        price: Math.max(20, price),
-        volume: i === 12 ? 5000000 : 1000000 + Math.random() * 500000,
-        timestamp: Date.now() + i * 60 * 60 * 1000,
-        change24h: i === 12 ? -50 : (Math.random() - 0.5) * 10,
-        change1h: i === 12 ? -50 : (Math.random() - 0.5) * 2,
-        high24h: price * 1.1,
-        low24h: price * 0.9,
-        marketCap: price * 19000000,
-      });
-    }
-    
-    return data;
-  }
-
-  private generateLowLiquidityData(days: number): MarketData[] {
-    const data: MarketData[] = [];
-    let price = 100;
-    
-    for (let i = 0; i < days * 24; i++) {
-      price += (Math.random() - 0.5) * 1;
-      
-      data.push({
-        symbol: 'BTC',
-        price: Math.max(50, price),
-        volume: 10000 + Math.random() * 50000, // Very low volume
-        timestamp: Date.now() + i * 60 * 60 * 1000,
-        change24h: (Math.random() - 0.5) * 5,
-        change1h: (Math.random() - 0.5) * 1,
-        high24h: price * 1.1,
-        low24h: price * 0.9,
-        marketCap: price * 19000000,
-      });
-    }
-    
-    return data;
-  }
-
   private generateZeroVolumeData(): MarketData[] {
     return [{
       symbol: 'BTC',
       price: 100,
       volume: 0, // Zero volume
-      timestamp: Date.now(),
+      timestamp: this.startTime,
       change24h: 0,
       change1h: 0,
       high24h: 100,
@@ -839,7 +720,7 @@ export class AlgorithmTester {
         symbol: 'BTC',
         price: 100,
         volume: 1000000,
-        timestamp: Date.now(),
+        timestamp: this.startTime,
         change24h: 0,
         change1h: 0,
         high24h: 100,
@@ -850,7 +731,7 @@ export class AlgorithmTester {
         symbol: 'BTC',
         price: 1100, // 1000% spike
         volume: 1000000,
-        timestamp: Date.now() + 60 * 60 * 1000,
+        timestamp: this.startTime + 60 * 60 * 1000,
         change24h: 1000,
         change1h: 1000,
         high24h: 1100,
@@ -865,7 +746,7 @@ export class AlgorithmTester {
       symbol: 'BTC',
       price: 100,
       volume: 1000000,
-      timestamp: Date.now(),
+      timestamp: this.startTime,
       change24h: 0,
       change1h: 0,
       high24h: 100,
@@ -879,7 +760,7 @@ export class AlgorithmTester {
       symbol: 'BTC',
       price: -100, // Negative price
       volume: 1000000,
-      timestamp: Date.now(),
+      timestamp: this.startTime,
       change24h: 0,
       change1h: 0,
       high24h: 100,
@@ -890,19 +771,20 @@ export class AlgorithmTester {
 
   private generateRapidSignalData(): MarketData[] {
     const data: MarketData[] = [];
+    const random = createRandom(deriveSeed(this.seed, 'Infinite Loop Prevention'));
     let price = 100;
     
     // Generate rapid price changes to trigger many signals
     for (let i = 0; i < 100; i++) {
-      price += (Math.random() - 0.5) * 10;
+      price += (random() - 0.5) * 10;
       
       data.push({
         symbol: 'BTC',
         price: Math.max(50, price),
         volume: 1000000,
-        timestamp: Date.now() + i * 1000, // 1 second intervals
-        change24h: (Math.random() - 0.5) * 20,
-        change1h: (Math.random() - 0.5) * 10,
+        timestamp: this.startTime + i * 1000, // 1 second intervals
+        change24h: (random() - 0.5) * 20,
+        change1h: (random() - 0.5) * 10,
         high24h: price * 1.1,
         low24h: price * 0.9,
         marketCap: price * 19000000,
@@ -949,6 +831,19 @@ export class AlgorithmTester {
       report.push(`  Average Max Drawdown: ${avgDrawdown.toFixed(2)}%`);
       report.push(`  Average Win Rate: ${avgWinRate.toFixed(2)}%`);
       report.push(`  Pass Rate: ${results.filter(r => r.passed).length / results.length * 100}%`);
+
+      // Monte Carlo bands averaged across scenarios
+      const bootstrapped = results
+        .map(r => r.monteCarlo.blockBootstrap)
+        .filter((d): d is MonteCarloDistribution => d !== null);
+      if (bootstrapped.length > 0) {
+        const avgBand = (pick: (d: MonteCarloDistribution) => number) =>
+          bootstrapped.reduce((sum, d) => sum + pick(d), 0) / bootstrapped.length;
+        report.push(`  Monte Carlo Return (5th/50th/95th): ${avgBand(d => d.finalReturn.p5).toFixed(2)}% / ${avgBand(d => d.finalReturn.p50).toFixed(2)}% / ${avgBand(d => d.finalReturn.p95).toFixed(2)}%`);
+        report.push(`  Monte Carlo Max Drawdown (50th/95th): ${avgBand(d => d.maxDrawdown.p50).toFixed(2)}% / ${avgBand(d => d.maxDrawdown.p95).toFixed(2)}%`);
+        report.push(`  Monte Carlo Time to Recovery (50th/95th): ${avgBand(d => d.timeToRecovery.p50).toFixed(1)}h / ${avgBand(d => d.timeToRecovery.p95).toFixed(1)}h`);
+        report.push(`  Probability of Loss: ${avgBand(d => d.probabilityOfLoss).toFixed(1)}%`);
+      }
       report.push('');
     });
     
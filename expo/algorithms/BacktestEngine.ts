@@ -0,0 +1,290 @@
+// ============================================================================
+// EVENT-DRIVEN BACKTEST ENGINE
+// ============================================================================
+
+import { SimulatedClock } from './Clock';
+import { MarketDataAnomaly, MarketDataGuard, MarketDataGuardConfig } from './MarketDataGuard';
+import { BotConfig, MarketData, Position, TradingSignal } from './MomentumTradingBot';
+import { DEFAULT_PAPER_EXCHANGE_CONFIG, Fill, PaperExchange, PaperExchangeConfig } from './PaperExchange';
+import { DEFAULT_RISK_LIMITS, RiskLimits, RiskManager, RiskMetrics } from './RiskManager';
+import { strategyRegistry } from './StrategyRegistry';
+import { AnyTradingBot, BotType, closingDirection, groupSignals, TradeAction } from './TradingBot';
+
+// SAME_BAR fills signals at the close that produced them; NEXT_BAR (the default)
+// waits for the following bar's quote so a strategy never trades on a price it
+// could not have reacted to in time.
+export type FillTiming = 'SAME_BAR' | 'NEXT_BAR';
+
+export interface BacktestOptions {
+  initialBalance?: number;
+  riskLimits?: RiskLimits;
+  exchangeConfig?: Partial<Omit<PaperExchangeConfig, 'initialBalances'>>;
+  fillTiming?: FillTiming;
+  // Leading bars that only prime the bot's history: their signals are
+  // discarded and they are left out of the equity curve
+  warmupBars?: number;
+  // Screening of each bar before the bot sees it; by default a gap is a
+  // silence of more than five typical bar intervals
+  marketDataGuard?: Partial<MarketDataGuardConfig>;
+}
+
+// Every symbol's quote at one point in time
+export interface BacktestBar {
+  timestamp: number;
+  quotes: MarketData[];
+}
+
+export interface BacktestTrade {
+  timestamp: number;
+  action: TradeAction;
+  symbol: string;
+  price: number;
+  quantity: number;
+  fee: number;
+  pnl: number; // realized on fills that close a position, net of fees; others carry -fee
+  reason: string;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+}
+
+// Return and risk figures of an equity curve, in percent where applicable,
+// annualized over the curve's actual time span and bar frequency
+export interface EquityCurveStats {
+  totalReturn: number;
+  annualizedReturn: number;
+  volatility: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  calmarRatio: number;
+  maxDrawdown: number;
+}
+
+export interface BacktestResult {
+  algorithm: BotType;
+  initialBalance: number;
+  finalEquity: number;
+  totalFees: number;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  positions: Position[];
+  riskMetrics: RiskMetrics;
+  startTime: number;
+  endTime: number;
+  bars: number;
+  rejectedOrders: number;
+  anomalies: MarketDataAnomaly[]; // newest first
+}
+
+// Replays bars in time order against a bot driven by a simulated clock. Each
+// bar is delivered once with the quotes of every symbol at that timestamp;
+// bots keep their own history, so a run is linear in the number of bars.
+export class BacktestEngine {
+  private options: Required<Omit<BacktestOptions, 'exchangeConfig' | 'marketDataGuard'>> &
+    Pick<BacktestOptions, 'exchangeConfig' | 'marketDataGuard'>;
+
+  constructor(options: BacktestOptions = {}) {
+    this.options = {
+      initialBalance: options.initialBalance ?? 10000,
+      riskLimits: options.riskLimits || DEFAULT_RISK_LIMITS,
+      exchangeConfig: options.exchangeConfig,
+      fillTiming: options.fillTiming || 'NEXT_BAR',
+      warmupBars: options.warmupBars ?? 0,
+      marketDataGuard: options.marketDataGuard,
+    };
+  }
+
+  // Groups a flat quote stream into bars; a later quote for the same symbol and
+  // timestamp replaces the earlier one
+  static toBars(marketData: MarketData[]): BacktestBar[] {
+    const byTimestamp = new Map<number, Map<string, MarketData>>();
+    marketData.forEach(data => {
+      const quotes = byTimestamp.get(data.timestamp) || new Map<string, MarketData>();
+      quotes.set(data.symbol, data);
+      byTimestamp.set(data.timestamp, quotes);
+    });
+
+    return Array.from(byTimestamp.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([timestamp, quotes]) => ({ timestamp, quotes: Array.from(quotes.values()) }));
+  }
+
+  run(config: BotConfig, marketData: MarketData[]): BacktestResult {
+    const allBars = BacktestEngine.toBars(marketData);
+    const warmup = allBars.slice(0, this.options.warmupBars);
+    const bars = allBars.slice(warmup.length);
+    if (bars.length === 0) {
+      throw new Error('Backtest needs at least one bar of market data after warm-up');
+    }
+
+    const clock = new SimulatedClock(allBars[0].timestamp);
+    const bot = strategyRegistry.create(config, clock);
+    const guard = new MarketDataGuard(
+      { maxGapMs: 5 * BacktestEngine.barInterval(allBars), ...this.options.marketDataGuard },
+      clock,
+    );
+    warmup.forEach(bar => {
+      clock.set(bar.timestamp);
+      bot.analyzeMarket(guard.inspect(bar.quotes).clean);
+    });
+
+    const riskManager = new RiskManager(this.options.riskLimits, clock);
+    const quoteCurrency = this.options.exchangeConfig?.quoteCurrency ?? DEFAULT_PAPER_EXCHANGE_CONFIG.quoteCurrency;
+    const exchange = new PaperExchange(
+      { ...this.options.exchangeConfig, initialBalances: { [quoteCurrency]: this.options.initialBalance } },
+      clock,
+    );
+
+    const trades: BacktestTrade[] = [];
+    const equityCurve: EquityPoint[] = [];
+    let pending: TradingSignal[] = [];
+    let rejectedOrders = 0;
+    let totalFees = 0;
+
+    exchange.onFill(fill => {
+      trades.push(this.recordFill(bot, fill));
+      totalFees += fill.fee;
+    });
+
+    const submit = (signals: TradingSignal[], quotes: MarketData[]) => {
+      groupSignals(signals.filter(signal => signal.action !== 'HOLD')).forEach(legs => {
+        const sized = legs.map(signal => {
+          const validation = riskManager.validateSignal(signal, bot.getNormalizedPositions(), quotes, exchange.getEquity());
+          let quantity = validation.approved ? validation.adjustedQuantity ?? signal.quantity : 0;
+          if (signal.action === 'SELL' && !signal.short && quantity) {
+            quantity = Math.min(quantity, exchange.getBalance(signal.symbol));
+          }
+          return { signal, quantity };
+        });
+        if (sized.some(({ quantity }) => !(quantity > 0))) return;
+
+        // A leg cut back by the risk limits shrinks the whole group
+        const scale = Math.min(...sized.map(({ signal, quantity }) => quantity / signal.quantity));
+        const orders = exchange.executeSignalGroup(sized.length === 1
+          ? sized
+          : sized.map(({ signal }) => ({ signal, quantity: signal.quantity * scale })));
+        if (orders.some(order => order.status === 'REJECTED')) {
+          rejectedOrders++;
+        }
+      });
+    };
+
+    bars.forEach(bar => {
+      clock.set(bar.timestamp);
+      riskManager.updateReturnHistory(bar.quotes);
+      exchange.updateMarket(bar.quotes);
+
+      if (pending.length > 0) {
+        submit(pending, bar.quotes);
+        pending = [];
+      }
+
+      // The exchange trades on every quote; the bot only sees the screened ones
+      const { clean, blocked } = guard.inspect(bar.quotes);
+      // Dropping a blocked leg leaves its group incomplete, so submit skips it
+      const signals = bot.analyzeMarket(clean).filter(signal => !blocked.has(signal.symbol));
+      if (this.options.fillTiming === 'SAME_BAR') {
+        submit(signals, bar.quotes);
+      } else {
+        pending = signals;
+      }
+
+      const equity = exchange.getEquity();
+      riskManager.updatePerformanceHistory(equity);
+      equityCurve.push({ timestamp: bar.timestamp, equity });
+    });
+
+    const positions = bot.getNormalizedPositions();
+    const lastQuotes = bars[bars.length - 1].quotes;
+
+    return {
+      algorithm: config.type,
+      initialBalance: this.options.initialBalance,
+      finalEquity: exchange.getEquity(),
+      totalFees,
+      trades,
+      equityCurve,
+      positions,
+      riskMetrics: riskManager.calculateRiskMetrics(positions, lastQuotes),
+      startTime: bars[0].timestamp,
+      endTime: bars[bars.length - 1].timestamp,
+      bars: bars.length,
+      rejectedOrders,
+      anomalies: guard.getRecentAnomalies(),
+    };
+  }
+
+  // Median spacing between bars
+  private static barInterval(bars: BacktestBar[]): number {
+    const spacings = bars.slice(1).map((bar, i) => bar.timestamp - bars[i].timestamp).sort((a, b) => a - b);
+    return spacings.length > 0 ? spacings[Math.floor(spacings.length / 2)] : 0;
+  }
+
+  private recordFill(bot: AnyTradingBot, fill: Fill): BacktestTrade {
+    const position = bot.getNormalizedPositions().find(p => p.symbol === fill.symbol);
+    const direction = closingDirection(position, fill.side);
+    bot.updatePosition(fill.symbol, fill.side, fill.quantity, fill.price);
+
+    return {
+      timestamp: fill.timestamp,
+      action: fill.side,
+      symbol: fill.symbol,
+      price: fill.price,
+      quantity: fill.quantity,
+      fee: fill.fee,
+      pnl: direction && position ? direction * (fill.price - position.entryPrice) * fill.quantity - fill.fee : -fill.fee,
+      reason: fill.reason || '',
+    };
+  }
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const RISK_FREE_RATE = 0.02;
+
+export function equityCurveStats(equityCurve: EquityPoint[], initialValue: number): EquityCurveStats {
+  const finalValue = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : initialValue;
+  const totalReturn = ((finalValue - initialValue) / initialValue) * 100;
+  const spanMs = equityCurve.length > 1 ? equityCurve[equityCurve.length - 1].timestamp - equityCurve[0].timestamp : 0;
+  const years = spanMs / YEAR_MS;
+  // Compounding a return over less than a day blows up, so short spans stay
+  // simple; a loss beyond the whole stake (shorts) compounds as a total loss
+  const growth = Math.max(0, 1 + totalReturn / 100);
+  const annualizedReturn = years >= 1 / 365 ? Math.pow(growth, 1 / years) - 1 : totalReturn / 100;
+
+  // Per-bar equity returns, annualized by the bar frequency
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const previous = equityCurve[i - 1].equity;
+    if (previous > 0) returns.push((equityCurve[i].equity - previous) / previous);
+  }
+  const periodsPerYear = returns.length > 0 && spanMs > 0 ? (returns.length / spanMs) * YEAR_MS : 365;
+  const meanReturn = returns.length > 0 ? returns.reduce((a, b) => a + b, 0) / returns.length : 0;
+  const stdDev = returns.length > 1
+    ? Math.sqrt(returns.reduce((sum, ret) => sum + Math.pow(ret - meanReturn, 2), 0) / (returns.length - 1))
+    : 0;
+  const downside = returns.filter(ret => ret < 0);
+  const downsideDev = downside.length > 0 ? Math.sqrt(downside.reduce((sum, ret) => sum + ret * ret, 0) / returns.length) : 0;
+  const excessReturn = meanReturn * periodsPerYear - RISK_FREE_RATE;
+
+  let maxDrawdown = 0;
+  let peak = 0;
+  equityCurve.forEach(point => {
+    if (point.equity > peak) {
+      peak = point.equity;
+    } else if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak);
+    }
+  });
+
+  return {
+    totalReturn,
+    annualizedReturn: annualizedReturn * 100,
+    volatility: stdDev * Math.sqrt(periodsPerYear) * 100,
+    sharpeRatio: stdDev > 0 ? excessReturn / (stdDev * Math.sqrt(periodsPerYear)) : 0,
+    sortinoRatio: downsideDev > 0 ? excessReturn / (downsideDev * Math.sqrt(periodsPerYear)) : 0,
+    calmarRatio: maxDrawdown > 0 ? (annualizedReturn * 100) / (maxDrawdown * 100) : 0,
+    maxDrawdown: maxDrawdown * 100,
+  };
+}
@@ -2,6 +2,13 @@
 // CCI (COMMODITY CHANNEL INDEX) MARKET BOT ALGORITHM
 // ============================================================================
 
+import { BotConfig, BotPerformance, MarketData, Position, TradingSignal } from './MomentumTradingBot';
+import { Clock, systemClock } from './Clock';
+import { CCI } from './indicators/Oscillators';
+import { linearRegression } from './indicators/Trend';
+import { PositionSizer } from './PositionSizer';
+import { TradingBot } from './TradingBot';
+
 export interface CCIData {
   symbol: string;
   timestamp: number;
@@ -42,17 +49,21 @@ export interface CCIConfig {
   trendConfirmationPeriod: number; // Period for trend confirmation
 }
 
-export class CCIMarketBot {
+export class CCIMarketBot implements TradingBot<CCIPosition> {
   private config: BotConfig;
+  private clock: Clock;
   private cciConfig: CCIConfig;
   private positions: Map<string, CCIPosition> = new Map();
   private performance: BotPerformance;
   private priceHistory: Map<string, CCIData[]> = new Map();
+  private cciIndicators: Map<string, CCI> = new Map();
   private lastAnalysis: number = 0;
+  private sizer: PositionSizer;
   private static readonly MAX_HISTORY = 50; // period + maPeriod + buffer
 
-  constructor(config: BotConfig, cciConfig?: Partial<CCIConfig>) {
+  constructor(config: BotConfig, cciConfig?: Partial<CCIConfig>, clock: Clock = systemClock) {
     this.config = config;
+    this.clock = clock;
     this.cciConfig = {
       period: 20,
       overboughtLevel: 100,
@@ -64,6 +75,7 @@ export class CCIMarketBot {
       trendConfirmationPeriod: 10,
       ...cciConfig,
     };
+    this.sizer = new PositionSizer(config.sizing, config.maxPositions);
     this.performance = {
       totalPnL: 0,
       totalPnLPercentage: 0,
@@ -71,14 +83,14 @@ export class CCIMarketBot {
       totalTrades: 0,
       maxDrawdown: 0,
       sharpeRatio: 0,
-      lastUpdate: Date.now(),
+      lastUpdate: this.clock.now(),
     };
   }
 
   // Main CCI analysis algorithm
   analyzeMarket(marketData: MarketData[]): TradingSignal[] {
     const signals: TradingSignal[] = [];
-    const now = Date.now();
+    const now = this.clock.now();
     
     // Update price history and calculate CCI
     marketData.forEach(data => {
@@ -86,7 +98,7 @@ export class CCIMarketBot {
     });
 
     // Analyze each asset for CCI signals
-    this.config.enabledAssets.forEach(symbol => {
+    this.config.enabledAssets.forEach((symbol: string) => {
       const cciData = this.calculateCCI(symbol);
       if (!cciData) return;
 
@@ -127,6 +139,11 @@ export class CCIMarketBot {
     };
 
     history.push(cciData);
+
+    if (!this.cciIndicators.has(marketData.symbol)) {
+      this.cciIndicators.set(marketData.symbol, new CCI(this.cciConfig.period));
+    }
+    this.cciIndicators.get(marketData.symbol)!.update(cciData);
     
     // Keep only necessary history (period + maPeriod + buffer) using splice pruning
     const maxHistory = Math.max(CCIMarketBot.MAX_HISTORY, this.cciConfig.period + this.cciConfig.maPeriod + 10);
@@ -143,8 +160,7 @@ export class CCIMarketBot {
 
     const latest = history[history.length - 1];
     
-    // Calculate CCI
-    const cci = this.computeCCI(history);
+    const cci = this.cciIndicators.get(symbol)?.value() ?? 0;
     latest.cci = cci;
     
     // Calculate CCI moving average
@@ -163,24 +179,6 @@ export class CCIMarketBot {
     return latest;
   }
 
-  private computeCCI(history: CCIData[]): number {
-    const period = this.cciConfig.period;
-    const recent = history.slice(-period);
-    
-    // Calculate Typical Price (TP) for each period
-    const typicalPrices = recent.map(data => (data.high + data.low + data.close) / 3);
-    
-    // Calculate Simple Moving Average of TP
-    const smaTP = typicalPrices.reduce((sum, tp) => sum + tp, 0) / period;
-    
-    // Calculate Mean Deviation
-    const meanDeviation = typicalPrices.reduce((sum, tp) => sum + Math.abs(tp - smaTP), 0) / period;
-    
-    // Calculate CCI
-    const currentTP = typicalPrices[typicalPrices.length - 1];
-    return meanDeviation !== 0 ? (currentTP - smaTP) / (0.015 * meanDeviation) : 0;
-  }
-
   private calculateCCIMA(history: CCIData[]): number {
     const maPeriod = this.cciConfig.maPeriod;
     const recent = history.slice(-maPeriod);
@@ -240,30 +238,7 @@ export class CCIMarketBot {
     const recent = history.slice(-confirmationPeriod);
     const prices = recent.map(data => data.close);
     
-    // Calculate R-squared for trend strength
-    const n = prices.length;
-    const sumX = (n - 1) * n / 2;
-    const sumY = prices.reduce((a, b) => a + b, 0);
-    let sumXY = 0;
-    let sumXX = 0;
-    for (let i = 0; i < n; i++) {
-      sumXY += i * prices[i];
-      sumXX += i * i;
-    }
-    
-    const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-    const meanY = sumY / n;
-    
-    let ssRes = 0;
-    let ssTot = 0;
-    
-    for (let i = 0; i < n; i++) {
-      const predicted = slope * i;
-      ssRes += Math.pow(prices[i] - predicted, 2);
-      ssTot += Math.pow(prices[i] - meanY, 2);
-    }
-    
-    const rSquared = ssTot > 0 ? 1 - (ssRes / ssTot) : 0;
+    const { rSquared } = linearRegression(prices);
     return Math.max(0, Math.min(100, rSquared * 100));
   }
 
@@ -345,8 +320,16 @@ export class CCIMarketBot {
     }
     
     if (confidence >= 60) {
-      const allocation = this.config.allocation / this.config.maxPositions;
-      const quantity = allocation / cciData.price;
+      const closes = (history: CCIData[] | undefined) => (history || []).map(data => data.close);
+      const quantity = this.sizer.targetQuantity({
+        price: cciData.price,
+        equity: this.config.allocation,
+        prices: closes(this.priceHistory.get(symbol)),
+        peerPrices: Array.from(this.positions.keys())
+          .filter(held => held !== symbol)
+          .map(held => closes(this.priceHistory.get(held))),
+      });
+      if (quantity <= 0) return null;
       
       return {
         action: 'BUY',
@@ -355,7 +338,7 @@ export class CCIMarketBot {
         price: cciData.price,
         quantity,
         reason: `CCI oversold: ${cciData.cci.toFixed(2)}, Trend: ${cciData.trend}, Strength: ${cciData.strength.toFixed(1)}%`,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
         riskLevel,
       };
     }
@@ -379,7 +362,7 @@ export class CCIMarketBot {
         price: cciData.price,
         quantity: position.quantity,
         reason: `Stop-loss triggered: ${position.pnlPercentage.toFixed(2)}% loss`,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
         riskLevel: 'HIGH',
       };
     }
@@ -393,7 +376,7 @@ export class CCIMarketBot {
         price: cciData.price,
         quantity: position.quantity,
         reason: `Take-profit triggered: ${position.pnlPercentage.toFixed(2)}% gain`,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
         riskLevel: 'LOW',
       };
     }
@@ -424,7 +407,7 @@ export class CCIMarketBot {
         price: cciData.price,
         quantity: position.quantity,
         reason: `CCI overbought: ${cciData.cci.toFixed(2)}, Trend: ${cciData.trend}`,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
         riskLevel,
       };
     }
@@ -532,7 +515,7 @@ export class CCIMarketBot {
           pnl: 0,
           pnlPercentage: 0,
           entrySignal: 'CCI Oversold',
-          entryTimestamp: Date.now(),
+          entryTimestamp: this.clock.now(),
           stopLoss: price * (1 - this.config.stopLoss / 100),
           takeProfit: this.config.takeProfit ? price * (1 + this.config.takeProfit / 100) : 0,
           status: 'ACTIVE',
@@ -540,6 +523,7 @@ export class CCIMarketBot {
       }
     } else if (action === 'SELL') {
       if (currentPosition) {
+        this.sizer.recordTrade(((price - currentPosition.entryPrice) / currentPosition.entryPrice) * 100);
         const remainingQuantity = currentPosition.quantity - quantity;
         if (remainingQuantity <= 0.001) {
           this.positions.delete(symbol);
@@ -576,7 +560,7 @@ export class CCIMarketBot {
       totalTrades,
       maxDrawdown: this.calculateMaxDrawdown(),
       sharpeRatio: this.calculateSharpeRatio(),
-      lastUpdate: Date.now(),
+      lastUpdate: this.clock.now(),
     };
   }
 
@@ -600,7 +584,7 @@ export class CCIMarketBot {
 
   private calculateSharpeRatio(): number {
     // Simplified Sharpe ratio calculation
-    const returns = [];
+    const returns: number[] = [];
     
     this.positions.forEach(position => {
       const returnRate = position.pnlPercentage / 100;
@@ -622,6 +606,18 @@ export class CCIMarketBot {
     return Array.from(this.positions.values());
   }
 
+  getNormalizedPositions(): Position[] {
+    return this.getPositions().map(position => ({
+      symbol: position.symbol,
+      quantity: position.quantity,
+      entryPrice: position.entryPrice,
+      currentPrice: position.currentPrice,
+      pnl: position.pnl,
+      pnlPercentage: position.pnlPercentage,
+      timestamp: position.entryTimestamp,
+    }));
+  }
+
   getPerformance(): BotPerformance {
     return this.performance;
   }
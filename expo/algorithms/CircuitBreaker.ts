@@ -0,0 +1,170 @@
+// ============================================================================
+// CIRCUIT BREAKERS & KILL SWITCH STATE
+// ============================================================================
+
+import { Clock, systemClock } from './Clock';
+
+export type BreakerTrigger = 'MANUAL' | 'DAILY_LOSS' | 'SLIPPAGE' | 'STALE_DATA' | 'EXECUTION_ERRORS';
+
+export interface CircuitBreakerConfig {
+  dailyLossLimit: number; // % of equity at the start of the UTC day
+  maxSlippage: number; // fraction between a taker fill and the quote it filled against
+  maxSlippageEvents: number; // abnormal fills within slippageWindowMs before tripping
+  slippageWindowMs: number;
+  staleDataMs: number; // newest quote older than this halts trading
+  maxConsecutiveErrors: number;
+  cooldownMs: number; // minimum halt before an automatic trip can be re-armed
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  dailyLossLimit: 5,
+  maxSlippage: 0.02,
+  maxSlippageEvents: 3,
+  slippageWindowMs: 60 * 60 * 1000,
+  staleDataMs: 10 * 60 * 1000,
+  maxConsecutiveErrors: 5,
+  cooldownMs: 30 * 60 * 1000,
+};
+
+export interface CircuitBreakerState {
+  status: 'ARMED' | 'TRIPPED';
+  trigger?: BreakerTrigger;
+  reason?: string;
+  trippedAt?: number;
+  cooldownUntil?: number;
+  canRearm: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Watches the runtime for conditions that should stop all trading. Once
+// tripped it stays tripped: nothing re-arms it except an explicit rearm(),
+// which is refused until the cooldown has passed. A manual trip (the kill
+// switch) has no cooldown.
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private clock: Clock;
+  private state: CircuitBreakerState = { status: 'ARMED', canRearm: false };
+  private day: number = -1;
+  private dayStartEquity: Map<string, number> = new Map();
+  private slippageEvents: number[] = [];
+  private consecutiveErrors: number = 0;
+  private listeners: Set<(state: CircuitBreakerState) => void> = new Set();
+
+  constructor(config: Partial<CircuitBreakerConfig> = {}, clock: Clock = systemClock) {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+    this.clock = clock;
+  }
+
+  isTripped(): boolean {
+    return this.state.status === 'TRIPPED';
+  }
+
+  trip(trigger: BreakerTrigger, reason: string): void {
+    if (this.isTripped()) return;
+    const now = this.clock.now();
+    this.state = {
+      status: 'TRIPPED',
+      trigger,
+      reason,
+      trippedAt: now,
+      cooldownUntil: trigger === 'MANUAL' ? now : now + this.config.cooldownMs,
+      canRearm: trigger === 'MANUAL',
+    };
+    this.listeners.forEach(listener => listener(this.getState()));
+  }
+
+  // Returns false while the cooldown is still running
+  rearm(): boolean {
+    if (!this.isTripped()) return true;
+    if (this.clock.now() < (this.state.cooldownUntil ?? 0)) return false;
+
+    this.state = { status: 'ARMED', canRearm: false };
+    this.slippageEvents = [];
+    this.consecutiveErrors = 0;
+    // Today's loss is measured afresh from the equity at re-arm
+    this.dayStartEquity.clear();
+    return true;
+  }
+
+  // Equity per account; accounts that appear mid-day start their baseline
+  // then, and removed accounts drop out, so adding or stopping bots is never
+  // mistaken for a loss
+  recordEquity(equityByAccount: Map<string, number>): void {
+    const day = Math.floor(this.clock.now() / DAY_MS);
+    if (day !== this.day) {
+      this.day = day;
+      this.dayStartEquity.clear();
+    }
+
+    let start = 0;
+    let current = 0;
+    Array.from(this.dayStartEquity.keys()).forEach(accountId => {
+      if (!equityByAccount.has(accountId)) this.dayStartEquity.delete(accountId);
+    });
+    equityByAccount.forEach((equity, accountId) => {
+      if (!this.dayStartEquity.has(accountId)) this.dayStartEquity.set(accountId, equity);
+      start += this.dayStartEquity.get(accountId)!;
+      current += equity;
+    });
+
+    const loss = start > 0 ? ((start - current) / start) * 100 : 0;
+    if (loss > this.config.dailyLossLimit) {
+      this.trip('DAILY_LOSS', `Daily loss ${loss.toFixed(2)}% exceeds ${this.config.dailyLossLimit}%`);
+    }
+  }
+
+  recordFill(fillPrice: number, quotePrice: number): void {
+    if (!(quotePrice > 0)) return;
+    const slippage = Math.abs(fillPrice - quotePrice) / quotePrice;
+    if (slippage <= this.config.maxSlippage) return;
+
+    const now = this.clock.now();
+    this.slippageEvents = this.slippageEvents.filter(time => now - time < this.config.slippageWindowMs);
+    this.slippageEvents.push(now);
+    if (this.slippageEvents.length >= this.config.maxSlippageEvents) {
+      this.trip(
+        'SLIPPAGE',
+        `${this.slippageEvents.length} fills slipped more than ${(this.config.maxSlippage * 100).toFixed(1)}% (last ${(slippage * 100).toFixed(2)}%)`,
+      );
+    }
+  }
+
+  // Timestamp of the newest quote available, or undefined when there is none
+  recordMarketData(latestTimestamp: number | undefined): void {
+    if (latestTimestamp === undefined) return;
+    const age = this.clock.now() - latestTimestamp;
+    if (age > this.config.staleDataMs) {
+      this.trip('STALE_DATA', `Newest market data is ${Math.round(age / 1000)}s old`);
+    }
+  }
+
+  recordExecutionError(message: string): void {
+    this.consecutiveErrors++;
+    if (this.consecutiveErrors >= this.config.maxConsecutiveErrors) {
+      this.trip('EXECUTION_ERRORS', `${this.consecutiveErrors} consecutive execution errors, last: ${message}`);
+    }
+  }
+
+  recordExecutionSuccess(): void {
+    this.consecutiveErrors = 0;
+  }
+
+  getState(): CircuitBreakerState {
+    return {
+      ...this.state,
+      canRearm: this.isTripped() && this.clock.now() >= (this.state.cooldownUntil ?? 0),
+    };
+  }
+
+  getConfig(): CircuitBreakerConfig {
+    return this.config;
+  }
+
+  onTrip(listener: (state: CircuitBreakerState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
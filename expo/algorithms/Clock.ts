@@ -0,0 +1,42 @@
+// ============================================================================
+// CLOCK ABSTRACTION
+// ============================================================================
+
+// Bots, the risk manager and the paper exchange read time through a Clock so
+// schedules (DCA purchases, rebalance throttles, staking locks) follow
+// simulated time in backtests and tests.
+export interface Clock {
+  now(): number;
+}
+
+export class SystemClock implements Clock {
+  now(): number {
+    return Date.now();
+  }
+}
+
+// Time only moves when told to; it never runs backwards
+export class SimulatedClock implements Clock {
+  private current: number;
+
+  constructor(start: number = 0) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  set(time: number): void {
+    if (time < this.current) {
+      throw new Error(`SimulatedClock cannot move backwards (${time} < ${this.current})`);
+    }
+    this.current = time;
+  }
+
+  advance(ms: number): void {
+    this.set(this.current + ms);
+  }
+}
+
+export const systemClock: Clock = new SystemClock();
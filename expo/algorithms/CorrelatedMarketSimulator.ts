@@ -0,0 +1,261 @@
+// ============================================================================
+// CORRELATED MULTI-ASSET MARKET SIMULATOR
+// ============================================================================
+
+import { MarketData } from './MomentumTradingBot';
+import { createRandom, normal, RandomSource } from './Random';
+
+export type MarketRegime = 'BULL' | 'BEAR' | 'SIDEWAYS';
+
+export interface RegimeParams {
+  drift: number; // expected return per day, %
+  volatility: number; // daily standard deviation of returns, %
+  volumeMultiplier: number;
+}
+
+export interface SimulatedAsset {
+  symbol: string;
+  startPrice: number;
+  supply: number;
+  // Scales the regime volatility; alts swing harder than BTC
+  volatilityMultiplier?: number;
+  baseVolume?: number; // USD per bar
+}
+
+export interface CorrelatedSimulatorConfig {
+  assets: SimulatedAsset[];
+  // Row/column order follows assets; symmetric with a unit diagonal
+  correlation: number[][];
+  regimes: Record<MarketRegime, RegimeParams>;
+  // Probability of moving from one regime to another within a day; the
+  // remainder of each row is the chance of staying
+  transitions: Record<MarketRegime, Partial<Record<MarketRegime, number>>>;
+  initialRegime: MarketRegime;
+  barIntervalMs: number;
+  startTime: number;
+}
+
+export interface RegimeChange {
+  timestamp: number;
+  regime: MarketRegime;
+}
+
+export interface SimulationResult {
+  marketData: MarketData[];
+  regimes: RegimeChange[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const REGIMES: MarketRegime[] = ['BULL', 'BEAR', 'SIDEWAYS'];
+
+export const DEFAULT_REGIMES: Record<MarketRegime, RegimeParams> = {
+  BULL: { drift: 1.5, volatility: 3, volumeMultiplier: 1.2 },
+  BEAR: { drift: -2, volatility: 5, volumeMultiplier: 1.6 },
+  SIDEWAYS: { drift: 0, volatility: 1.5, volumeMultiplier: 0.7 },
+};
+
+export const DEFAULT_TRANSITIONS: Record<MarketRegime, Partial<Record<MarketRegime, number>>> = {
+  BULL: { BEAR: 0.03, SIDEWAYS: 0.07 },
+  BEAR: { BULL: 0.05, SIDEWAYS: 0.1 },
+  SIDEWAYS: { BULL: 0.08, BEAR: 0.05 },
+};
+
+// Lower-triangular L with L * L^T = matrix; throws when the matrix is not
+// positive definite (an impossible set of correlations)
+export function choleskyDecompose(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array<number>(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= lower[i][k] * lower[j][k];
+      }
+      if (i === j) {
+        if (sum <= 1e-12) {
+          throw new Error('Correlation matrix is not positive definite');
+        }
+        lower[i][j] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+
+  return lower;
+}
+
+// Every pair at the same correlation
+export function uniformCorrelation(size: number, rho: number): number[][] {
+  return Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 1 : rho)));
+}
+
+// Steps all assets together: one regime drives every drift and volatility,
+// and the Cholesky factor of the correlation matrix turns independent normal
+// draws into correlated returns. Bars carry a 24h high/low built from intrabar
+// ranges and volume that rises with the size of the move. Use simulate() for a
+// whole scenario or next() to feed a live consumer bar by bar.
+export class CorrelatedMarketSimulator {
+  private config: CorrelatedSimulatorConfig;
+  private random: RandomSource;
+  private cholesky: number[][];
+  private regime: MarketRegime;
+  private barIndex: number = 0;
+  private prices: number[];
+  private history: { close: number; high: number; low: number }[][];
+  private barsPerHour: number;
+  private barsPerDay: number;
+
+  constructor(config: Partial<CorrelatedSimulatorConfig> & Pick<CorrelatedSimulatorConfig, 'assets'>, seed: number) {
+    const size = config.assets.length;
+    this.config = {
+      correlation: uniformCorrelation(size, 0.6),
+      regimes: DEFAULT_REGIMES,
+      transitions: DEFAULT_TRANSITIONS,
+      initialRegime: 'SIDEWAYS',
+      barIntervalMs: HOUR_MS,
+      startTime: Date.UTC(2025, 0, 1),
+      ...config,
+    };
+    this.validate();
+
+    this.random = createRandom(seed);
+    this.cholesky = choleskyDecompose(this.config.correlation);
+    this.regime = this.config.initialRegime;
+    this.prices = this.config.assets.map(asset => asset.startPrice);
+    this.history = this.config.assets.map(() => []);
+    this.barsPerHour = Math.max(1, Math.round(HOUR_MS / this.config.barIntervalMs));
+    this.barsPerDay = Math.max(1, Math.round(DAY_MS / this.config.barIntervalMs));
+  }
+
+  getRegime(): MarketRegime {
+    return this.regime;
+  }
+
+  simulate(days: number): SimulationResult {
+    const barCount = Math.max(1, Math.round((days * DAY_MS) / this.config.barIntervalMs));
+    const marketData: MarketData[] = [];
+    const regimes: RegimeChange[] = [];
+
+    for (let i = 0; i < barCount; i++) {
+      const before = this.regime;
+      const quotes = this.next();
+      if (i === 0 || this.regime !== before) {
+        regimes.push({ timestamp: quotes[0].timestamp, regime: this.regime });
+      }
+      marketData.push(...quotes);
+    }
+
+    return { marketData, regimes };
+  }
+
+  // Advances one bar and returns a quote per asset
+  next(): MarketData[] {
+    const dt = this.config.barIntervalMs / DAY_MS;
+    if (this.barIndex > 0) this.transition(dt);
+
+    const params = this.config.regimes[this.regime];
+    const shocks = this.correlatedShocks();
+    const timestamp = this.config.startTime + this.barIndex * this.config.barIntervalMs;
+
+    const quotes = this.config.assets.map((asset, i) => {
+      const volatility = (params.volatility / 100) * (asset.volatilityMultiplier ?? 1);
+      const barVolatility = volatility * Math.sqrt(dt);
+      const open = this.prices[i];
+      const logReturn = this.barIndex === 0
+        ? 0
+        : (params.drift / 100) * dt - (volatility * volatility * dt) / 2 + barVolatility * shocks[i];
+      const close = open * Math.exp(logReturn);
+      this.prices[i] = close;
+
+      // Intrabar range extends past the open/close by a fraction of the bar volatility
+      const high = Math.max(open, close) * (1 + Math.abs(normal(this.random)) * barVolatility * 0.5);
+      const low = Math.min(open, close) * (1 - Math.abs(normal(this.random)) * barVolatility * 0.5);
+      const history = this.history[i];
+      history.push({ close, high, low });
+      if (history.length > this.barsPerDay + 1) history.shift();
+
+      const hourAgo = history[Math.max(0, history.length - 1 - this.barsPerHour)].close;
+      const dayAgo = history[Math.max(0, history.length - 1 - this.barsPerDay)].close;
+      const lastDay = history.slice(-this.barsPerDay);
+      // Volume scales with the size of the move relative to normal, with lognormal noise
+      const surprise = barVolatility > 0 ? Math.abs(logReturn) / barVolatility : 0;
+      const volume = (asset.baseVolume ?? 1000000) * params.volumeMultiplier * (1 + surprise) * Math.exp(0.25 * normal(this.random));
+
+      return {
+        symbol: asset.symbol,
+        price: close,
+        volume,
+        timestamp,
+        change24h: (close / dayAgo - 1) * 100,
+        change1h: (close / hourAgo - 1) * 100,
+        high24h: Math.max(...lastDay.map(bar => bar.high)),
+        low24h: Math.min(...lastDay.map(bar => bar.low)),
+        marketCap: close * asset.supply,
+      };
+    });
+
+    this.barIndex++;
+    return quotes;
+  }
+
+  // Bar-by-bar source for the bot runtime: every call advances the market by
+  // one bar and returns the requested symbols
+  asMarketDataSource(): (symbols: string[]) => Promise<MarketData[]> {
+    return async symbols => {
+      const wanted = new Set(symbols.map(symbol => symbol.toUpperCase()));
+      return this.next().filter(quote => wanted.has(quote.symbol));
+    };
+  }
+
+  private correlatedShocks(): number[] {
+    const independent = this.config.assets.map(() => normal(this.random));
+    return this.cholesky.map(row => row.reduce((sum, weight, k) => sum + weight * independent[k], 0));
+  }
+
+  private transition(dt: number): void {
+    const row = this.config.transitions[this.regime];
+    const roll = this.random();
+    let cumulative = 0;
+    for (const target of REGIMES) {
+      const daily = row[target];
+      if (target === this.regime || !daily) continue;
+      // Convert the daily probability to this bar's length
+      cumulative += 1 - Math.pow(1 - daily, dt);
+      if (roll < cumulative) {
+        this.regime = target;
+        return;
+      }
+    }
+  }
+
+  private validate(): void {
+    const { assets, correlation, transitions } = this.config;
+    if (assets.length === 0) {
+      throw new Error('Simulator needs at least one asset');
+    }
+    if (correlation.length !== assets.length || correlation.some(row => row.length !== assets.length)) {
+      throw new Error(`Correlation matrix must be ${assets.length}x${assets.length}`);
+    }
+    correlation.forEach((row, i) => {
+      if (Math.abs(row[i] - 1) > 1e-9) {
+        throw new Error('Correlation matrix diagonal must be 1');
+      }
+      row.forEach((value, j) => {
+        if (value < -1 || value > 1 || Math.abs(value - correlation[j][i]) > 1e-9) {
+          throw new Error('Correlation matrix must be symmetric with values in [-1, 1]');
+        }
+      });
+    });
+    REGIMES.forEach(regime => {
+      const leaving = Object.entries(transitions[regime] || {})
+        .filter(([target]) => target !== regime)
+        .reduce((sum, [, probability]) => sum + (probability || 0), 0);
+      if (leaving > 1) {
+        throw new Error(`Transition probabilities out of ${regime} exceed 1`);
+      }
+    });
+  }
+}
@@ -2,6 +2,12 @@
 // DCA (DOLLAR-COST AVERAGING) TRADING BOT ALGORITHM
 // ============================================================================
 
+import { BotConfig, BotPerformance, MarketData, Position, TradingSignal } from './MomentumTradingBot';
+import { Clock, systemClock } from './Clock';
+import { simpleReturns, standardDeviation } from './indicators/Volatility';
+import { PositionSizer } from './PositionSizer';
+import { TradingBot } from './TradingBot';
+
 export interface DCASchedule {
   frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'CUSTOM';
   interval: number; // hours for custom frequency
@@ -29,18 +35,25 @@ export interface DCAPosition {
   nextPurchase: number;
 }
 
-export class DCATradingBot {
+export class DCATradingBot implements TradingBot<DCAPosition> {
   private config: BotConfig;
+  private clock: Clock;
   private schedule: DCASchedule;
   private positions: Map<string, DCAPosition> = new Map();
   private performance: BotPerformance;
   private marketData: Map<string, MarketData[]> = new Map();
+  // Caps each position at its target size
+  private sizer: PositionSizer;
   private static readonly MAX_HISTORY = 1000;
   private static readonly PRUNE_CHUNK = 200;
 
-  constructor(config: BotConfig, schedule: DCASchedule) {
+  constructor(config: BotConfig, schedule: DCASchedule, clock: Clock = systemClock) {
     this.config = config;
+    this.clock = clock;
     this.schedule = schedule;
+    // DCA accumulates into each asset until it fills its slice of the
+    // allocation, so the per-position cap defaults to the whole slice
+    this.sizer = new PositionSizer({ maxPositionFraction: 1, ...config.sizing }, config.maxPositions);
     this.performance = {
       totalPnL: 0,
       totalPnLPercentage: 0,
@@ -48,14 +61,14 @@ export class DCATradingBot {
       totalTrades: 0,
       maxDrawdown: 0,
       sharpeRatio: 0,
-      lastUpdate: Date.now(),
+      lastUpdate: this.clock.now(),
     };
   }
 
   // Main DCA algorithm - optimized for consistent purchasing
   analyzeMarket(marketData: MarketData[]): TradingSignal[] {
     const signals: TradingSignal[] = [];
-    const now = Date.now();
+    const now = this.clock.now();
     
     // Update market data
     marketData.forEach(data => {
@@ -72,7 +85,7 @@ export class DCATradingBot {
     });
 
     // Check each enabled asset for DCA opportunities
-    this.config.enabledAssets.forEach(symbol => {
+    this.config.enabledAssets.forEach((symbol: string) => {
       const position = this.positions.get(symbol);
       const assetData = marketData.find(d => d.symbol === symbol);
       
@@ -145,8 +158,21 @@ export class DCATradingBot {
     const amount = this.schedule.amount;
     const quantity = amount / assetData.price;
     
+    // Room left under the position's target size
+    const closes = (history: MarketData[] | undefined) => (history || []).map(data => data.price);
+    const target = this.sizer.targetNotional({
+      price: assetData.price,
+      equity: this.config.allocation,
+      prices: closes(this.marketData.get(symbol)),
+      peerPrices: Array.from(this.positions.keys())
+        .filter(held => held !== symbol)
+        .map(held => closes(this.marketData.get(held))),
+    });
+    const held = position ? position.totalQuantity * assetData.price : 0;
+
     // Apply dynamic sizing based on market conditions
-    const adjustedAmount = this.applyDynamicSizing(amount, assetData, position);
+    const adjustedAmount = Math.min(this.applyDynamicSizing(amount, assetData, position), target - held);
+    if (adjustedAmount <= 0) return null;
     const adjustedQuantity = adjustedAmount / assetData.price;
 
     // Calculate confidence based on market conditions
@@ -159,7 +185,7 @@ export class DCATradingBot {
       price: assetData.price,
       quantity: adjustedQuantity,
       reason: `DCA purchase - ${this.schedule.frequency.toLowerCase()} schedule`,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       riskLevel: this.calculateRiskLevel(assetData, position),
     };
   }
@@ -294,7 +320,7 @@ export class DCATradingBot {
         price: assetData.price,
         quantity: position.totalQuantity,
         reason: `Emergency stop-loss triggered: ${totalPnLPercentage.toFixed(2)}% loss`,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
         riskLevel: 'HIGH',
       };
     }
@@ -319,7 +345,7 @@ export class DCATradingBot {
       price: assetData.price,
       quantity: position.totalQuantity,
       reason: `Take-profit triggered: ${((assetData.price * position.totalQuantity - position.totalInvested) / position.totalInvested * 100).toFixed(2)}% gain`,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       riskLevel: 'LOW',
     };
   }
@@ -328,17 +354,7 @@ export class DCATradingBot {
     const history = this.marketData.get(symbol);
     if (!history || history.length < 10) return 0;
 
-    const prices = history.slice(-20).map(d => d.price);
-    const returns = [];
-    
-    for (let i = 1; i < prices.length; i++) {
-      returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
-    }
-    
-    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
-    const variance = returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) / returns.length;
-    
-    return Math.sqrt(variance);
+    return standardDeviation(simpleReturns(history.slice(-20).map(d => d.price)));
   }
 
   private calculateVolumeRatio(symbol: string): number {
@@ -355,6 +371,7 @@ export class DCATradingBot {
   // Update position after trade execution
   updatePosition(symbol: string, action: 'BUY' | 'SELL', quantity: number, price: number): void {
     const currentPosition = this.positions.get(symbol);
+    const now = this.clock.now();
     
     if (action === 'BUY') {
       const amount = quantity * price;
@@ -376,14 +393,14 @@ export class DCATradingBot {
           purchases: [
             ...currentPosition.purchases,
             {
-              date: Date.now(),
+              date: now,
               price,
               quantity,
               amount,
             }
           ],
-          lastPurchase: Date.now(),
-          nextPurchase: Date.now() + this.getIntervalMs(),
+          lastPurchase: now,
+          nextPurchase: now + this.getIntervalMs(),
         });
       } else {
         // Create new position
@@ -396,17 +413,18 @@ export class DCATradingBot {
           totalPnL: 0,
           totalPnLPercentage: 0,
           purchases: [{
-            date: Date.now(),
+            date: now,
             price,
             quantity,
             amount,
           }],
-          lastPurchase: Date.now(),
-          nextPurchase: Date.now() + this.getIntervalMs(),
+          lastPurchase: now,
+          nextPurchase: now + this.getIntervalMs(),
         });
       }
     } else if (action === 'SELL') {
       if (currentPosition) {
+        this.sizer.recordTrade(((price - currentPosition.averagePrice) / currentPosition.averagePrice) * 100);
         // Close position
         this.positions.delete(symbol);
       }
@@ -438,7 +456,7 @@ export class DCATradingBot {
       totalTrades,
       maxDrawdown: this.calculateMaxDrawdown(),
       sharpeRatio: this.calculateSharpeRatio(),
-      lastUpdate: Date.now(),
+      lastUpdate: this.clock.now(),
     };
   }
 
@@ -463,7 +481,7 @@ export class DCATradingBot {
   private calculateSharpeRatio(): number {
     // Simplified Sharpe ratio calculation
     // In production, calculate based on historical returns and risk-free rate
-    const returns = [];
+    const returns: number[] = [];
     
     this.positions.forEach(position => {
       if (position.purchases.length > 1) {
@@ -489,6 +507,18 @@ export class DCATradingBot {
     return Array.from(this.positions.values());
   }
 
+  getNormalizedPositions(): Position[] {
+    return this.getPositions().map(position => ({
+      symbol: position.symbol,
+      quantity: position.totalQuantity,
+      entryPrice: position.averagePrice,
+      currentPrice: position.totalQuantity > 0 ? position.currentValue / position.totalQuantity : position.averagePrice,
+      pnl: position.totalPnL,
+      pnlPercentage: position.totalPnLPercentage,
+      timestamp: position.lastPurchase,
+    }));
+  }
+
   getPerformance(): BotPerformance {
     return this.performance;
   }
@@ -0,0 +1,431 @@
+// ============================================================================
+// GRID TRADING BOT ALGORITHM
+// ============================================================================
+
+import { BotConfig, BotPerformance, MarketData, Position, TradingSignal } from './MomentumTradingBot';
+import { Clock, systemClock } from './Clock';
+import { TradingBot } from './TradingBot';
+
+export type GridSpacing = 'ARITHMETIC' | 'GEOMETRIC';
+// What happens once the price leaves the range by more than stopBuffer:
+// PAUSE stops buying until it returns, STOP sells out and retires the grid,
+// RECENTER sells out and rebuilds the same-width grid around the new price
+export type GridBreakoutAction = 'PAUSE' | 'STOP' | 'RECENTER';
+
+export interface GridConfig {
+  lowerPrice: number; // 0 = rangePercent below the first price seen
+  upperPrice: number; // 0 = rangePercent above the first price seen
+  rangePercent: number;
+  gridCount: number; // buy/sell pairs between the bounds
+  spacing: GridSpacing;
+  breakoutAction: GridBreakoutAction;
+  stopBuffer: number; // % beyond a bound before the breakout action applies
+}
+
+export const DEFAULT_GRID_CONFIG: GridConfig = {
+  lowerPrice: 0,
+  upperPrice: 0,
+  rangePercent: 10,
+  gridCount: 10,
+  spacing: 'ARITHMETIC',
+  breakoutAction: 'PAUSE',
+  stopBuffer: 2,
+};
+
+// One rung of the ladder: buys at buyPrice, sells what it bought at the next
+// level up, then re-arms
+export interface GridLevel {
+  index: number;
+  buyPrice: number;
+  sellPrice: number;
+  state: 'ARMED' | 'BUYING' | 'HOLDING' | 'SELLING';
+  quantity: number; // held
+  pending: number; // quantity still expected from the outstanding signal
+  costBasis: number; // average buy price of what is held
+  profit: number; // realized, before fees
+  roundTrips: number;
+  wins: number;
+}
+
+export interface GridPosition {
+  symbol: string;
+  lowerPrice: number;
+  upperPrice: number;
+  status: 'ACTIVE' | 'PAUSED' | 'STOPPED';
+  levels: GridLevel[];
+  currentPrice: number;
+  createdAt: number;
+  lastTrade: number;
+}
+
+// A ladder of buy levels between two bounds per asset. The ladder is kept by
+// the bot rather than resting on the exchange: a level signals when the price
+// crosses it and re-arms on the fill reported through updatePosition(), so a
+// paused bot, a kill switch or a risk veto never leaves orphaned orders
+// behind. A level whose signal was not filled by the next analysis goes back
+// to waiting for its price.
+export class GridTradingBot implements TradingBot<GridPosition> {
+  private static readonly DUST = 1e-9;
+
+  private config: BotConfig;
+  private clock: Clock;
+  private gridConfig: GridConfig;
+  private grids: Map<string, GridPosition> = new Map();
+  private performance: BotPerformance;
+  private fills: number = 0;
+  private peakPnL: number = 0;
+  private maxDrawdown: number = 0;
+
+  constructor(config: BotConfig, gridConfig?: Partial<GridConfig>, clock: Clock = systemClock) {
+    this.config = config;
+    this.clock = clock;
+    this.gridConfig = { ...DEFAULT_GRID_CONFIG, ...gridConfig };
+    this.gridConfig.gridCount = Math.max(2, Math.min(200, Math.round(this.gridConfig.gridCount)));
+    this.performance = {
+      totalPnL: 0,
+      totalPnLPercentage: 0,
+      winRate: 0,
+      totalTrades: 0,
+      maxDrawdown: 0,
+      sharpeRatio: 0,
+      lastUpdate: this.clock.now(),
+    };
+  }
+
+  analyzeMarket(marketData: MarketData[]): TradingSignal[] {
+    const signals: TradingSignal[] = [];
+    const latest = new Map<string, MarketData>();
+    marketData.forEach(data => latest.set(data.symbol, data));
+
+    this.config.enabledAssets.forEach((symbol: string) => {
+      const data = latest.get(symbol);
+      if (!data || !(data.price > 0)) return;
+
+      let grid = this.grids.get(symbol);
+      if (!grid) {
+        grid = this.createGrid(symbol, data.price);
+        this.grids.set(symbol, grid);
+      }
+      this.settlePending(grid);
+      grid.currentPrice = data.price;
+      if (grid.status === 'STOPPED') {
+        // Retried until the exit has gone through
+        const exit = this.exitAll(grid, 'Grid stopped: selling remaining holdings');
+        if (exit) signals.push(exit);
+        return;
+      }
+
+      const exit = this.checkBreakout(grid);
+      if (exit) {
+        signals.push(exit);
+        return;
+      }
+      signals.push(...this.generateGridSignals(grid));
+    });
+
+    this.updatePerformance();
+    return signals;
+  }
+
+  private createGrid(symbol: string, price: number): GridPosition {
+    const { lowerPrice, upperPrice, rangePercent } = this.gridConfig;
+    const explicit = lowerPrice > 0 && upperPrice > lowerPrice;
+    const lower = explicit ? lowerPrice : price * (1 - rangePercent / 100);
+    const upper = explicit ? upperPrice : price * (1 + rangePercent / 100);
+    const now = this.clock.now();
+
+    return {
+      symbol,
+      lowerPrice: lower,
+      upperPrice: upper,
+      status: 'ACTIVE',
+      levels: this.buildLevels(lower, upper),
+      currentPrice: price,
+      createdAt: now,
+      lastTrade: now,
+    };
+  }
+
+  private buildLevels(lower: number, upper: number): GridLevel[] {
+    const count = this.gridConfig.gridCount;
+    const prices = Array.from({ length: count + 1 }, (_, i) =>
+      this.gridConfig.spacing === 'GEOMETRIC'
+        ? lower * Math.pow(upper / lower, i / count)
+        : lower + ((upper - lower) * i) / count,
+    );
+
+    return prices.slice(0, count).map((buyPrice, index) => ({
+      index,
+      buyPrice,
+      sellPrice: prices[index + 1],
+      state: 'ARMED' as const,
+      quantity: 0,
+      pending: 0,
+      costBasis: 0,
+      profit: 0,
+      roundTrips: 0,
+      wins: 0,
+    }));
+  }
+
+  // Signals the runtime did not (fully) fill are dropped: the level keeps what
+  // it got and waits for its price again
+  private settlePending(grid: GridPosition): void {
+    grid.levels.forEach(level => {
+      if (level.state === 'BUYING' || level.state === 'SELLING') {
+        level.state = level.quantity > GridTradingBot.DUST ? 'HOLDING' : 'ARMED';
+        level.pending = 0;
+      }
+    });
+  }
+
+  private checkBreakout(grid: GridPosition): TradingSignal | null {
+    const price = grid.currentPrice;
+    const buffer = this.gridConfig.stopBuffer / 100;
+    const below = price < grid.lowerPrice * (1 - buffer);
+    const above = price > grid.upperPrice * (1 + buffer);
+
+    if (!below && !above) {
+      if (grid.status === 'PAUSED' && price >= grid.lowerPrice && price <= grid.upperPrice) {
+        grid.status = 'ACTIVE';
+      }
+      return null;
+    }
+
+    const direction = below ? 'below' : 'above';
+    const bound = below ? grid.lowerPrice : grid.upperPrice;
+    switch (this.gridConfig.breakoutAction) {
+      case 'STOP':
+        grid.status = 'STOPPED';
+        return this.exitAll(grid, `Grid stopped: price ${price.toFixed(2)} broke ${direction} ${bound.toFixed(2)}`);
+      case 'RECENTER': {
+        grid.status = 'PAUSED';
+        // Sold out first; the grid is rebuilt once nothing is left
+        const exit = this.exitAll(grid, `Grid recentering: price ${price.toFixed(2)} broke ${direction} ${bound.toFixed(2)}`);
+        if (exit) return exit;
+        this.recenter(grid);
+        return null;
+      }
+      default:
+        grid.status = 'PAUSED';
+        return null;
+    }
+  }
+
+  // Same width relative to the middle of the range, centered on the current price
+  private recenter(grid: GridPosition): void {
+    const middle = this.gridConfig.spacing === 'GEOMETRIC'
+      ? Math.sqrt(grid.lowerPrice * grid.upperPrice)
+      : (grid.lowerPrice + grid.upperPrice) / 2;
+    const scale = grid.currentPrice / middle;
+    const previous = grid.levels;
+
+    grid.lowerPrice *= scale;
+    grid.upperPrice *= scale;
+    grid.levels = this.buildLevels(grid.lowerPrice, grid.upperPrice);
+    // Realized results stay with the grid across rebuilds
+    previous.forEach((level, i) => {
+      grid.levels[i].profit = level.profit;
+      grid.levels[i].roundTrips = level.roundTrips;
+      grid.levels[i].wins = level.wins;
+    });
+    grid.status = 'ACTIVE';
+  }
+
+  private exitAll(grid: GridPosition, reason: string): TradingSignal | null {
+    const holding = grid.levels.filter(level => level.state === 'HOLDING');
+    const quantity = holding.reduce((sum, level) => sum + level.quantity, 0);
+    if (quantity <= GridTradingBot.DUST) return null;
+
+    holding.forEach(level => {
+      level.state = 'SELLING';
+      level.pending = level.quantity;
+    });
+    return {
+      action: 'SELL',
+      symbol: grid.symbol,
+      confidence: 95,
+      price: grid.currentPrice,
+      quantity,
+      reason,
+      timestamp: this.clock.now(),
+      riskLevel: 'HIGH',
+    };
+  }
+
+  private generateGridSignals(grid: GridPosition): TradingSignal[] {
+    const signals: TradingSignal[] = [];
+    const price = grid.currentPrice;
+    const now = this.clock.now();
+
+    // Every level the price has reached sells; several crossed at once go out as one order
+    const sells = grid.levels.filter(level => level.state === 'HOLDING' && price >= level.sellPrice);
+    if (sells.length > 0) {
+      sells.forEach(level => {
+        level.state = 'SELLING';
+        level.pending = level.quantity;
+      });
+      signals.push({
+        action: 'SELL',
+        symbol: grid.symbol,
+        confidence: 80,
+        price,
+        quantity: sells.reduce((sum, level) => sum + level.quantity, 0),
+        reason: `Grid sell: ${sells.length} level(s) up to ${sells[sells.length - 1].sellPrice.toFixed(2)}`,
+        timestamp: now,
+        riskLevel: 'LOW',
+      });
+    }
+
+    if (grid.status !== 'ACTIVE') return signals;
+
+    const buys = grid.levels.filter(level => level.state === 'ARMED' && price <= level.buyPrice);
+    if (buys.length > 0) {
+      const quantityPerLevel = this.levelNotional() / price;
+      buys.forEach(level => {
+        level.state = 'BUYING';
+        level.pending = quantityPerLevel;
+      });
+      signals.push({
+        action: 'BUY',
+        symbol: grid.symbol,
+        confidence: 75,
+        price,
+        quantity: quantityPerLevel * buys.length,
+        reason: `Grid buy: ${buys.length} level(s) down to ${buys[0].buyPrice.toFixed(2)}`,
+        timestamp: now,
+        riskLevel: buys.length > this.gridConfig.gridCount / 2 ? 'MEDIUM' : 'LOW',
+      });
+    }
+
+    return signals;
+  }
+
+  // Allocation is split evenly over every level of every asset
+  private levelNotional(): number {
+    return this.config.allocation / Math.max(1, this.config.enabledAssets.length) / this.gridConfig.gridCount;
+  }
+
+  // Fills go to the levels that asked for them, lowest first; sells nobody
+  // asked for (emergency exits) come out of the highest levels held
+  updatePosition(symbol: string, action: 'BUY' | 'SELL', quantity: number, price: number): void {
+    const grid = this.grids.get(symbol);
+    if (!grid) return;
+    let remaining = quantity;
+
+    if (action === 'BUY') {
+      grid.levels
+        .filter(level => level.state === 'BUYING')
+        .forEach(level => {
+          const filled = Math.min(remaining, level.pending);
+          if (filled <= 0) return;
+          level.costBasis = (level.costBasis * level.quantity + price * filled) / (level.quantity + filled);
+          level.quantity += filled;
+          level.pending -= filled;
+          remaining -= filled;
+        });
+    } else {
+      const requested = grid.levels.filter(level => level.state === 'SELLING');
+      const held = grid.levels.filter(level => level.state === 'HOLDING').reverse();
+      [...requested, ...held].forEach(level => {
+        const filled = Math.min(remaining, level.quantity);
+        if (filled <= 0) return;
+        const profit = (price - level.costBasis) * filled;
+        level.profit += profit;
+        level.quantity -= filled;
+        level.pending = Math.max(0, level.pending - filled);
+        remaining -= filled;
+        if (level.quantity <= GridTradingBot.DUST) {
+          level.quantity = 0;
+          level.roundTrips++;
+          if (profit > 0) level.wins++;
+          level.state = 'ARMED';
+        }
+      });
+    }
+
+    this.fills++;
+    grid.lastTrade = this.clock.now();
+    this.updatePerformance();
+  }
+
+  private updatePerformance(): void {
+    let realized = 0;
+    let unrealized = 0;
+    let roundTrips = 0;
+    let wins = 0;
+    const tripReturns: number[] = [];
+
+    this.grids.forEach(grid => {
+      grid.levels.forEach(level => {
+        realized += level.profit;
+        unrealized += (grid.currentPrice - level.costBasis) * level.quantity;
+        roundTrips += level.roundTrips;
+        wins += level.wins;
+        if (level.roundTrips > 0) tripReturns.push(level.profit / level.roundTrips / this.levelNotional());
+      });
+    });
+
+    const totalPnL = realized + unrealized;
+    this.peakPnL = Math.max(this.peakPnL, totalPnL);
+    if (this.config.allocation > 0) {
+      this.maxDrawdown = Math.max(this.maxDrawdown, ((this.peakPnL - totalPnL) / this.config.allocation) * 100);
+    }
+
+    this.performance = {
+      totalPnL,
+      totalPnLPercentage: this.config.allocation > 0 ? (totalPnL / this.config.allocation) * 100 : 0,
+      winRate: roundTrips > 0 ? (wins / roundTrips) * 100 : 0,
+      totalTrades: this.fills,
+      maxDrawdown: this.maxDrawdown,
+      sharpeRatio: this.calculateSharpeRatio(tripReturns),
+      lastUpdate: this.clock.now(),
+    };
+  }
+
+  // Average round-trip return of each level that completed one
+  private calculateSharpeRatio(returns: number[]): number {
+    if (returns.length < 2) return 0;
+    const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+    const stdDev = Math.sqrt(returns.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / returns.length);
+    return stdDev > 0 ? mean / stdDev : 0;
+  }
+
+  getPositions(): GridPosition[] {
+    return Array.from(this.grids.values());
+  }
+
+  getNormalizedPositions(): Position[] {
+    const positions: Position[] = [];
+    this.grids.forEach(grid => {
+      const held = grid.levels.filter(level => level.quantity > 0);
+      const quantity = held.reduce((sum, level) => sum + level.quantity, 0);
+      if (quantity <= GridTradingBot.DUST) return;
+
+      const cost = held.reduce((sum, level) => sum + level.costBasis * level.quantity, 0);
+      const entryPrice = cost / quantity;
+      positions.push({
+        symbol: grid.symbol,
+        quantity,
+        entryPrice,
+        currentPrice: grid.currentPrice,
+        pnl: (grid.currentPrice - entryPrice) * quantity,
+        pnlPercentage: ((grid.currentPrice - entryPrice) / entryPrice) * 100,
+        timestamp: grid.lastTrade,
+      });
+    });
+    return positions;
+  }
+
+  getPerformance(): BotPerformance {
+    return this.performance;
+  }
+
+  getConfig(): BotConfig {
+    return this.config;
+  }
+
+  getGridConfig(): GridConfig {
+    return this.gridConfig;
+  }
+}
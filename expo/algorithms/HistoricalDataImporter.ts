@@ -0,0 +1,374 @@
+// ============================================================================
+// HISTORICAL OHLCV IMPORT FOR BACKTESTS
+// ============================================================================
+
+import { TestScenario } from './AlgorithmTester';
+import { MarketData } from './MomentumTradingBot';
+
+export interface OHLCVBar {
+  symbol: string;
+  openTime: number;
+  closeTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // quote (USD) notional
+}
+
+// Header names in the CSV for each field. Only close and timestamp are required;
+// missing open/high/low fall back to close and a missing volume to 0.
+export interface ColumnMapping {
+  timestamp: string;
+  open?: string;
+  high?: string;
+  low?: string;
+  close: string;
+  volume?: string;
+  symbol?: string;
+}
+
+export interface ImportOptions {
+  name: string;
+  description?: string;
+  expectedOutcome?: string;
+  riskLevel?: TestScenario['riskLevel']; // derived from realized volatility when omitted
+  symbol?: string; // used when the file has no symbol column
+  columns?: Partial<ColumnMapping>;
+  delimiter?: string;
+  volumeInBaseUnits?: boolean; // multiply volume by close to get quote notional
+  sortByTime?: boolean; // reorder instead of rejecting out-of-order rows
+  maxGapMultiple?: number; // gaps wider than this many typical intervals are flagged
+}
+
+export interface ImportIssue {
+  severity: 'ERROR' | 'WARNING';
+  row: number; // 1-based data row, 0 for file-level issues
+  message: string;
+}
+
+export interface ImportResult {
+  scenario: TestScenario | null; // null when any ERROR was found
+  bars: OHLCVBar[];
+  issues: ImportIssue[];
+}
+
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = {
+  timestamp: 'timestamp',
+  open: 'open',
+  high: 'high',
+  low: 'low',
+  close: 'close',
+  volume: 'volume',
+  symbol: 'symbol',
+};
+
+interface RawRow {
+  row: number;
+  symbol: string;
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export class HistoricalDataImporter {
+  // CSV with a header row; column names are resolved through options.columns
+  importCsv(contents: string, options: ImportOptions): ImportResult {
+    const delimiter = options.delimiter || ',';
+    const columns = { ...DEFAULT_COLUMN_MAPPING, ...options.columns };
+    const lines = contents.split(/\r?\n/).filter(line => line.trim().length > 0);
+    if (lines.length < 2) {
+      return this.fail('File has no data rows');
+    }
+
+    const header = lines[0].split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ''));
+    const index = (name?: string) => (name ? header.indexOf(name) : -1);
+    const missing = [columns.timestamp, columns.close].filter(name => index(name) === -1);
+    if (missing.length > 0) {
+      return this.fail(`Missing required columns: ${missing.join(', ')}`);
+    }
+
+    const records = lines.slice(1).map(line => {
+      const cells = line.split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ''));
+      const record: Record<string, string> = {};
+      (Object.keys(columns) as (keyof ColumnMapping)[]).forEach(field => {
+        const i = index(columns[field]);
+        if (i !== -1) record[field] = cells[i] ?? '';
+      });
+      return record;
+    });
+
+    return this.build(records, options);
+  }
+
+  // JSON array of objects keyed by the mapped column names, or a string holding one
+  importJson(contents: string | Record<string, unknown>[], options: ImportOptions): ImportResult {
+    let rows: unknown;
+    try {
+      rows = typeof contents === 'string' ? JSON.parse(contents) : contents;
+    } catch (error) {
+      return this.fail(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return this.fail('JSON must be a non-empty array of rows');
+    }
+
+    const columns = { ...DEFAULT_COLUMN_MAPPING, ...options.columns };
+    const records = rows.map(row => {
+      const record: Record<string, string> = {};
+      (Object.keys(columns) as (keyof ColumnMapping)[]).forEach(field => {
+        const key = columns[field];
+        const value = key && row && typeof row === 'object' ? (row as Record<string, unknown>)[key] : undefined;
+        if (value !== undefined && value !== null) record[field] = String(value);
+      });
+      return record;
+    });
+
+    return this.build(records, options);
+  }
+
+  private build(records: Record<string, string>[], options: ImportOptions): ImportResult {
+    const issues: ImportIssue[] = [];
+    const rows: RawRow[] = [];
+
+    records.forEach((record, i) => {
+      const row = i + 1;
+      const timestamp = parseTimestamp(record.timestamp);
+      const close = Number(record.close);
+      const symbol = (record.symbol || options.symbol || '').toUpperCase();
+
+      if (!symbol) {
+        issues.push({ severity: 'ERROR', row, message: 'No symbol column and no default symbol given' });
+        return;
+      }
+      if (timestamp === null) {
+        issues.push({ severity: 'ERROR', row, message: `Unparseable timestamp "${record.timestamp ?? ''}"` });
+        return;
+      }
+
+      const open = record.open !== undefined && record.open !== '' ? Number(record.open) : close;
+      const high = record.high !== undefined && record.high !== '' ? Number(record.high) : Math.max(open, close);
+      const low = record.low !== undefined && record.low !== '' ? Number(record.low) : Math.min(open, close);
+      const rawVolume = record.volume !== undefined && record.volume !== '' ? Number(record.volume) : 0;
+
+      if ([open, high, low, close, rawVolume].some(value => !isFinite(value))) {
+        issues.push({ severity: 'ERROR', row, message: 'Non-numeric price or volume' });
+        return;
+      }
+      if (open <= 0 || high <= 0 || low <= 0 || close <= 0) {
+        issues.push({ severity: 'ERROR', row, message: 'Prices must be positive' });
+        return;
+      }
+      if (rawVolume < 0) {
+        issues.push({ severity: 'ERROR', row, message: 'Volume must not be negative' });
+        return;
+      }
+      if (high < low) {
+        issues.push({ severity: 'ERROR', row, message: `High ${high} is below low ${low}` });
+        return;
+      }
+      if (open > high || open < low || close > high || close < low) {
+        issues.push({ severity: 'WARNING', row, message: 'Open/close outside the high-low range' });
+      }
+
+      rows.push({
+        row,
+        symbol,
+        timestamp,
+        open,
+        high,
+        low,
+        close,
+        volume: options.volumeInBaseUnits ? rawVolume * close : rawVolume,
+      });
+    });
+
+    const bars: OHLCVBar[] = [];
+    groupBySymbol(rows).forEach((series, symbol) => {
+      issues.push(...this.checkOrdering(series, symbol, options));
+      bars.push(...toBars(series));
+    });
+
+    if (bars.length === 0 && !issues.some(issue => issue.severity === 'ERROR')) {
+      issues.push({ severity: 'ERROR', row: 0, message: 'No usable rows' });
+    }
+
+    const hasErrors = issues.some(issue => issue.severity === 'ERROR');
+    return {
+      scenario: hasErrors ? null : this.toScenario(bars, options),
+      bars,
+      issues,
+    };
+  }
+
+  // Sorts in place when allowed, then flags duplicates and gaps
+  private checkOrdering(series: RawRow[], symbol: string, options: ImportOptions): ImportIssue[] {
+    const issues: ImportIssue[] = [];
+
+    for (let i = 1; i < series.length; i++) {
+      if (series[i].timestamp < series[i - 1].timestamp) {
+        if (options.sortByTime) {
+          issues.push({ severity: 'WARNING', row: 0, message: `${symbol}: rows were out of order and have been sorted` });
+          series.sort((a, b) => a.timestamp - b.timestamp);
+        } else {
+          issues.push({ severity: 'ERROR', row: series[i].row, message: `${symbol}: timestamp earlier than the previous row` });
+        }
+        break;
+      }
+    }
+
+    const intervals: number[] = [];
+    for (let i = 1; i < series.length; i++) {
+      const interval = series[i].timestamp - series[i - 1].timestamp;
+      if (interval === 0) {
+        issues.push({ severity: 'ERROR', row: series[i].row, message: `${symbol}: duplicate timestamp` });
+      } else if (interval > 0) {
+        intervals.push(interval);
+      }
+    }
+
+    const typical = median(intervals);
+    const maxGap = typical * (options.maxGapMultiple ?? 3);
+    for (let i = 1; i < series.length && typical > 0; i++) {
+      const interval = series[i].timestamp - series[i - 1].timestamp;
+      if (interval > maxGap) {
+        const missingBars = Math.round(interval / typical) - 1;
+        issues.push({ severity: 'WARNING', row: series[i].row, message: `${symbol}: gap of ~${missingBars} bars before this row` });
+      }
+    }
+
+    return issues;
+  }
+
+  private toScenario(bars: OHLCVBar[], options: ImportOptions): TestScenario {
+    const marketData = barsToMarketData(bars);
+    const start = Math.min(...bars.map(bar => bar.openTime));
+    const end = Math.max(...bars.map(bar => bar.closeTime));
+    const symbols = Array.from(new Set(bars.map(bar => bar.symbol)));
+
+    return {
+      name: options.name,
+      description: options.description || `Imported ${symbols.join(', ')} history (${bars.length} bars)`,
+      marketData,
+      expectedOutcome: options.expectedOutcome || 'Replay of recorded market history',
+      riskLevel: options.riskLevel || riskLevelFromVolatility(bars),
+      duration: Math.max(1, Math.round((end - start) / DAY_MS)),
+    };
+  }
+
+  private fail(message: string): ImportResult {
+    return { scenario: null, bars: [], issues: [{ severity: 'ERROR', row: 0, message }] };
+  }
+}
+
+// Replays OHLCV bars as the MarketData stream the bots consume: one quote per
+// bar close, with 1h/24h change and 24h range derived from the trailing bars
+// of the same symbol. Multiple symbols are merged in time order.
+export function barsToMarketData(bars: OHLCVBar[]): MarketData[] {
+  const marketData: MarketData[] = [];
+
+  groupBySymbol(bars).forEach(series => {
+    series.sort((a, b) => a.openTime - b.openTime);
+    let windowStart = 0;
+
+    series.forEach((bar, i) => {
+      while (series[windowStart].closeTime <= bar.closeTime - DAY_MS) windowStart++;
+      const window = series.slice(windowStart, i + 1);
+      const hourAgo = window.find(b => b.openTime >= bar.closeTime - HOUR_MS) || bar;
+
+      marketData.push({
+        symbol: bar.symbol.toUpperCase(),
+        price: bar.close,
+        volume: bar.volume,
+        timestamp: bar.closeTime,
+        change24h: percentChange(window[0].open, bar.close),
+        change1h: percentChange(hourAgo.open, bar.close),
+        high24h: Math.max(...window.map(b => b.high)),
+        low24h: Math.min(...window.map(b => b.low)),
+      });
+    });
+  });
+
+  return marketData.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function percentChange(from: number, to: number): number {
+  return from > 0 ? ((to - from) / from) * 100 : 0;
+}
+
+// Epoch seconds, epoch milliseconds or any Date.parse-able string
+function parseTimestamp(value: string | undefined): number | null {
+  if (value === undefined || value === '') return null;
+  const numeric = Number(value);
+  if (isFinite(numeric)) {
+    return numeric < 1e11 ? numeric * 1000 : numeric;
+  }
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function groupBySymbol<T extends { symbol: string }>(items: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const series = groups.get(item.symbol) || [];
+    series.push(item);
+    groups.set(item.symbol, series);
+  });
+  return groups;
+}
+
+// A bar closes just before the next one opens, spanning at most the typical interval
+function toBars(series: RawRow[]): OHLCVBar[] {
+  const intervals = series.slice(1).map((row, i) => row.timestamp - series[i].timestamp).filter(interval => interval > 0);
+  const typical = median(intervals) || HOUR_MS;
+
+  return series.map((row, i) => {
+    const next = series[i + 1];
+    const end = next && next.timestamp > row.timestamp ? Math.min(next.timestamp, row.timestamp + typical) : row.timestamp + typical;
+    return {
+      symbol: row.symbol,
+      openTime: row.timestamp,
+      closeTime: end - 1,
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      volume: row.volume,
+    };
+  });
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// Daily volatility of close-to-close returns: under 3% LOW, under 6% MEDIUM
+function riskLevelFromVolatility(bars: OHLCVBar[]): TestScenario['riskLevel'] {
+  const returns: number[] = [];
+  let typicalInterval = HOUR_MS;
+
+  groupBySymbol(bars).forEach(series => {
+    typicalInterval = median(series.slice(1).map((bar, i) => bar.openTime - series[i].openTime)) || typicalInterval;
+    for (let i = 1; i < series.length; i++) {
+      returns.push((series[i].close - series[i - 1].close) / series[i - 1].close);
+    }
+  });
+  if (returns.length < 2) return 'MEDIUM';
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+  const dailyVolatility = Math.sqrt(variance) * Math.sqrt(DAY_MS / typicalInterval) * 100;
+
+  if (dailyVolatility < 3) return 'LOW';
+  if (dailyVolatility < 6) return 'MEDIUM';
+  return 'HIGH';
+}
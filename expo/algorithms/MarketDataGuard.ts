@@ -0,0 +1,218 @@
+// ============================================================================
+// MARKET DATA VALIDATION & ANOMALY GUARD
+// ============================================================================
+
+import { Clock, systemClock } from './Clock';
+import { MarketData } from './MomentumTradingBot';
+
+export type AnomalyType = 'INVALID_PRICE' | 'INVALID_VOLUME' | 'ZERO_VOLUME' | 'PRICE_SPIKE' | 'STALE' | 'GAP' | 'OUT_OF_ORDER';
+export type AnomalySeverity = 'WARNING' | 'CRITICAL';
+
+export interface MarketDataAnomaly {
+  type: AnomalyType;
+  severity: AnomalySeverity;
+  symbol: string;
+  timestamp: number; // of the offending quote
+  detectedAt: number;
+  message: string;
+}
+
+export interface MarketDataGuardConfig {
+  spikeZScore: number; // log-return z-score beyond which a quote is a spike
+  minHistory: number; // returns needed before z-scores are trusted
+  window: number; // returns kept per symbol
+  maxMove: number; // fractional move treated as a spike while history is short
+  // Consecutive spikes at a consistent level accepted as a real repricing
+  spikeConfirmations: number;
+  maxStalenessMs: number; // quote older than this (by the clock) is stale
+  maxGapMs: number; // longer silence between two quotes of a symbol is a gap
+  historySize: number; // anomalies kept for getRecentAnomalies()
+}
+
+export const DEFAULT_MARKET_DATA_GUARD_CONFIG: MarketDataGuardConfig = {
+  spikeZScore: 8,
+  minHistory: 20,
+  window: 200,
+  maxMove: 0.5,
+  spikeConfirmations: 3,
+  maxStalenessMs: 15 * 60 * 1000,
+  maxGapMs: 6 * 60 * 60 * 1000,
+  historySize: 50,
+};
+
+export interface MarketDataCheck {
+  clean: MarketData[]; // quotes safe to analyze, in input order
+  anomalies: MarketDataAnomaly[];
+  blocked: Set<string>; // symbols that must not trade on this data
+}
+
+export type AnomalyListener = (anomaly: MarketDataAnomaly) => void;
+
+interface SymbolState {
+  lastTimestamp: number;
+  lastPrice: number;
+  returns: number[];
+  stale: boolean;
+  idle: boolean; // last quote had no volume
+  spikes: MarketData[]; // consecutive quarantined spikes
+}
+
+// Sits in front of analyzeMarket: invalid quotes are dropped, spikes are held
+// back until they are confirmed, and stale, gapped or zero-volume symbols are
+// blocked from trading for the batch. Findings are emitted as structured
+// anomalies; stale and idle symbols only when they first go quiet.
+export class MarketDataGuard {
+  private config: MarketDataGuardConfig;
+  private clock: Clock;
+  private symbols: Map<string, SymbolState> = new Map();
+  private recent: MarketDataAnomaly[] = [];
+  private listeners: Set<AnomalyListener> = new Set();
+
+  constructor(config: Partial<MarketDataGuardConfig> = {}, clock: Clock = systemClock) {
+    this.config = { ...DEFAULT_MARKET_DATA_GUARD_CONFIG, ...config };
+    this.clock = clock;
+  }
+
+  inspect(marketData: MarketData[]): MarketDataCheck {
+    const clean: MarketData[] = [];
+    const anomalies: MarketDataAnomaly[] = [];
+    const blocked = new Set<string>();
+    const report = (data: MarketData, type: AnomalyType, severity: AnomalySeverity, message: string) => {
+      const anomaly = { type, severity, symbol: data.symbol, timestamp: data.timestamp, detectedAt: this.clock.now(), message };
+      anomalies.push(anomaly);
+      this.record(anomaly);
+    };
+
+    marketData.forEach(data => {
+      if (!isFinite(data.price) || data.price <= 0) {
+        report(data, 'INVALID_PRICE', 'CRITICAL', `Rejected ${data.symbol} price ${data.price}`);
+        blocked.add(data.symbol);
+        return;
+      }
+      if (!isFinite(data.timestamp)) {
+        report(data, 'INVALID_PRICE', 'CRITICAL', `Rejected ${data.symbol} quote without a valid timestamp`);
+        blocked.add(data.symbol);
+        return;
+      }
+
+      const state = this.symbols.get(data.symbol);
+      if (state && data.timestamp < state.lastTimestamp) {
+        report(data, 'OUT_OF_ORDER', 'WARNING', `${data.symbol} quote older than the last one seen`);
+        return;
+      }
+
+      const age = this.clock.now() - data.timestamp;
+      const stale = age > this.config.maxStalenessMs;
+      if (stale) {
+        // Reported when the symbol goes stale, not on every repeat of the old quote
+        if (!state?.stale) {
+          report(data, 'STALE', 'CRITICAL', `${data.symbol} data is ${Math.round(age / 60000)} min old`);
+        }
+        blocked.add(data.symbol);
+      }
+
+      if (!isFinite(data.volume) || data.volume < 0) {
+        report(data, 'INVALID_VOLUME', 'WARNING', `${data.symbol} volume ${data.volume} is invalid`);
+        blocked.add(data.symbol);
+      }
+      const idle = data.volume === 0;
+      if (idle) {
+        if (!state?.idle) report(data, 'ZERO_VOLUME', 'WARNING', `${data.symbol} has no volume; trading paused`);
+        blocked.add(data.symbol);
+      }
+
+      if (!state) {
+        this.symbols.set(data.symbol, { lastTimestamp: data.timestamp, lastPrice: data.price, returns: [], stale, idle, spikes: [] });
+        clean.push(data);
+        return;
+      }
+      state.stale = stale;
+      state.idle = idle;
+      // A repeat of the quote already seen carries no new information to check
+      if (data.timestamp === state.lastTimestamp) {
+        if (data.price === state.lastPrice) clean.push(data);
+        return;
+      }
+
+      const gap = data.timestamp - state.lastTimestamp;
+      if (gap > this.config.maxGapMs) {
+        report(data, 'GAP', 'WARNING', `${data.symbol} resumed after ${Math.round(gap / 60000)} min without data`);
+        blocked.add(data.symbol);
+      }
+
+      // The quarantined quote seen again: still held back, but no new evidence
+      const lastSpike = state.spikes[state.spikes.length - 1];
+      if (lastSpike && data.timestamp === lastSpike.timestamp) {
+        blocked.add(data.symbol);
+        return;
+      }
+
+      const logReturn = Math.log(data.price / state.lastPrice);
+      const spike = this.spikeReason(state, logReturn);
+      if (spike && !this.confirmsSpike(state, data)) {
+        report(data, 'PRICE_SPIKE', 'CRITICAL', `${data.symbol} ${spike}; quote held back`);
+        blocked.add(data.symbol);
+        return;
+      }
+
+      if (spike) {
+        // Confirmed repricing: the old volatility no longer describes the market
+        state.returns = [];
+      } else {
+        state.returns.push(logReturn);
+        if (state.returns.length > this.config.window) state.returns.shift();
+      }
+      state.spikes = [];
+      state.lastTimestamp = data.timestamp;
+      state.lastPrice = data.price;
+      clean.push(data);
+    });
+
+    return { clean, anomalies, blocked };
+  }
+
+  onAnomaly(listener: AnomalyListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Newest first
+  getRecentAnomalies(): MarketDataAnomaly[] {
+    return [...this.recent];
+  }
+
+  private spikeReason(state: SymbolState, logReturn: number): string | null {
+    const move = Math.exp(logReturn) - 1;
+    if (state.returns.length < this.config.minHistory) {
+      return Math.abs(move) > this.config.maxMove
+        ? `moved ${(move * 100).toFixed(1)}% in one quote`
+        : null;
+    }
+
+    const mean = state.returns.reduce((sum, value) => sum + value, 0) / state.returns.length;
+    const stdDev = Math.sqrt(state.returns.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / state.returns.length);
+    if (stdDev === 0) return null;
+    const zScore = (logReturn - mean) / stdDev;
+    return Math.abs(zScore) > this.config.spikeZScore
+      ? `moved ${(move * 100).toFixed(1)}% (z-score ${zScore.toFixed(1)})`
+      : null;
+  }
+
+  // True once enough consecutive spikes agree with each other
+  private confirmsSpike(state: SymbolState, data: MarketData): boolean {
+    const previous = state.spikes[state.spikes.length - 1];
+    if (previous && Math.abs(data.price / previous.price - 1) > this.config.maxMove / 5) {
+      state.spikes = [];
+    }
+    state.spikes.push(data);
+    return state.spikes.length >= this.config.spikeConfirmations;
+  }
+
+  private record(anomaly: MarketDataAnomaly): void {
+    this.recent.unshift(anomaly);
+    if (this.recent.length > this.config.historySize) this.recent.length = this.config.historySize;
+    this.listeners.forEach(listener => listener(anomaly));
+  }
+}
@@ -0,0 +1,364 @@
+// ============================================================================
+// MEAN-REVERSION (BOLLINGER BAND) BOT ALGORITHM
+// ============================================================================
+
+import { BotConfig, BotPerformance, MarketData, Position, TradingSignal } from './MomentumTradingBot';
+import { Clock, systemClock } from './Clock';
+import { ADX, RollingRegression } from './indicators/Trend';
+import { BollingerBands } from './indicators/Volatility';
+import { PositionSizer } from './PositionSizer';
+import { TradingBot } from './TradingBot';
+
+// How a strong trend is recognised: ADX strength, or how well a straight line
+// explains recent closes (R²). NONE trades every deviation.
+export type TrendFilter = 'ADX' | 'REGIME' | 'NONE';
+
+export interface MeanReversionConfig {
+  period: number; // moving average and standard deviation lookback
+  entryStdDev: number; // buy this many standard deviations below the mean
+  exitStdDev: number; // sell this many above the mean; 0 = at the mean
+  trendFilter: TrendFilter;
+  adxPeriod: number;
+  adxThreshold: number; // ADX at or above this is a trend
+  regimePeriod: number;
+  regimeThreshold: number; // R² (0-1) at or above this is a trend
+}
+
+export const DEFAULT_MEAN_REVERSION_CONFIG: MeanReversionConfig = {
+  period: 20,
+  entryStdDev: 2,
+  exitStdDev: 0,
+  trendFilter: 'ADX',
+  adxPeriod: 14,
+  adxThreshold: 25,
+  regimePeriod: 50,
+  regimeThreshold: 0.6,
+};
+
+export interface MeanReversionPosition {
+  symbol: string;
+  quantity: number;
+  entryPrice: number;
+  currentPrice: number;
+  pnl: number;
+  pnlPercentage: number;
+  entryZScore: number;
+  entryTimestamp: number;
+  status: 'ACTIVE' | 'CLOSED';
+}
+
+// Latest reading of an asset's bands and trend filter
+export interface MeanReversionSnapshot {
+  symbol: string;
+  timestamp: number;
+  price: number;
+  mean: number;
+  upper: number;
+  lower: number;
+  zScore: number; // standard deviations from the mean
+  adx?: number;
+  rSquared?: number;
+  trending: boolean;
+}
+
+interface SymbolIndicators {
+  bands: BollingerBands;
+  adx: ADX;
+  regression: RollingRegression;
+  closes: number[];
+  lastTimestamp: number;
+}
+
+// Buys when the price stretches entryStdDev standard deviations below its
+// moving average and sells once it is back at the mean, staying out while
+// the trend filter says the move is a trend rather than noise. Long only: a
+// stretch above the upper band is only ever used to exit.
+export class MeanReversionBot implements TradingBot<MeanReversionPosition> {
+  private static readonly MAX_HISTORY = 100;
+
+  private config: BotConfig;
+  private clock: Clock;
+  private reversionConfig: MeanReversionConfig;
+  private positions: Map<string, MeanReversionPosition> = new Map();
+  private indicators: Map<string, SymbolIndicators> = new Map();
+  private snapshots: Map<string, MeanReversionSnapshot> = new Map();
+  private performance: BotPerformance;
+  private sizer: PositionSizer;
+  private fills: number = 0;
+  private realizedPnL: number = 0;
+  private tradeReturns: number[] = [];
+  private peakPnL: number = 0;
+  private maxDrawdown: number = 0;
+
+  constructor(config: BotConfig, reversionConfig?: Partial<MeanReversionConfig>, clock: Clock = systemClock) {
+    this.config = config;
+    this.clock = clock;
+    this.reversionConfig = { ...DEFAULT_MEAN_REVERSION_CONFIG, ...reversionConfig };
+    this.sizer = new PositionSizer(config.sizing, config.maxPositions);
+    this.performance = {
+      totalPnL: 0,
+      totalPnLPercentage: 0,
+      winRate: 0,
+      totalTrades: 0,
+      maxDrawdown: 0,
+      sharpeRatio: 0,
+      lastUpdate: this.clock.now(),
+    };
+  }
+
+  analyzeMarket(marketData: MarketData[]): TradingSignal[] {
+    const signals: TradingSignal[] = [];
+    marketData.forEach(data => this.updateIndicators(data));
+
+    let openSlots = this.config.maxPositions - this.positions.size;
+    this.config.enabledAssets.forEach((symbol: string) => {
+      const snapshot = this.snapshots.get(symbol);
+      if (!snapshot) return;
+
+      const position = this.positions.get(symbol);
+      if (position) {
+        this.markPosition(position, snapshot.price);
+        const exit = this.generateExitSignal(position, snapshot);
+        if (exit) signals.push(exit);
+      } else if (openSlots > 0) {
+        const entry = this.generateEntrySignal(snapshot);
+        if (entry) {
+          signals.push(entry);
+          openSlots--;
+        }
+      }
+    });
+
+    this.updatePerformance();
+    return signals;
+  }
+
+  private updateIndicators(data: MarketData): void {
+    if (!(data.price > 0)) return;
+    let state = this.indicators.get(data.symbol);
+    if (!state) {
+      const { period, adxPeriod, regimePeriod } = this.reversionConfig;
+      state = {
+        bands: new BollingerBands(period, this.reversionConfig.entryStdDev),
+        adx: new ADX(adxPeriod),
+        regression: new RollingRegression(Math.max(2, regimePeriod)),
+        closes: [],
+        lastTimestamp: -Infinity,
+      };
+      this.indicators.set(data.symbol, state);
+    }
+    // The same quote seen twice is one period, not two
+    if (data.timestamp <= state.lastTimestamp) return;
+    state.lastTimestamp = data.timestamp;
+
+    // Quotes carry no candle, so the close stands in for the high and low
+    const bands = state.bands.update(data.price);
+    const adx = state.adx.update({ high: data.price, low: data.price, close: data.price });
+    const regression = state.regression.update(data.price);
+    state.closes.push(data.price);
+    if (state.closes.length > MeanReversionBot.MAX_HISTORY * 2) {
+      state.closes.splice(0, state.closes.length - MeanReversionBot.MAX_HISTORY);
+    }
+    if (!bands) return;
+
+    const stdDev = (bands.upper - bands.middle) / this.reversionConfig.entryStdDev;
+    this.snapshots.set(data.symbol, {
+      symbol: data.symbol,
+      timestamp: data.timestamp,
+      price: data.price,
+      mean: bands.middle,
+      upper: bands.upper,
+      lower: bands.lower,
+      zScore: stdDev > 0 ? (data.price - bands.middle) / stdDev : 0,
+      adx: adx?.adx,
+      rSquared: regression?.rSquared,
+      trending: this.isTrending(adx?.adx, regression?.rSquared),
+    });
+  }
+
+  // A filter that has not warmed up yet counts as trending: no entries on a guess
+  private isTrending(adx?: number, rSquared?: number): boolean {
+    switch (this.reversionConfig.trendFilter) {
+      case 'ADX':
+        return adx === undefined || adx >= this.reversionConfig.adxThreshold;
+      case 'REGIME':
+        return rSquared === undefined || rSquared >= this.reversionConfig.regimeThreshold;
+      default:
+        return false;
+    }
+  }
+
+  private generateEntrySignal(snapshot: MeanReversionSnapshot): TradingSignal | null {
+    const { entryStdDev } = this.reversionConfig;
+    if (snapshot.zScore > -entryStdDev || snapshot.trending) return null;
+
+    const quantity = this.sizer.targetQuantity({
+      price: snapshot.price,
+      equity: this.config.allocation,
+      prices: this.indicators.get(snapshot.symbol)?.closes ?? [],
+      peerPrices: Array.from(this.positions.keys()).map(held => this.indicators.get(held)?.closes ?? []),
+    });
+    if (quantity <= 0) return null;
+
+    // Deeper stretches are likelier to snap back, up to a point
+    const depth = -snapshot.zScore - entryStdDev;
+    return {
+      action: 'BUY',
+      symbol: snapshot.symbol,
+      confidence: Math.min(90, 65 + depth * 15),
+      price: snapshot.price,
+      quantity,
+      reason: `Price ${Math.abs(snapshot.zScore).toFixed(2)} std devs below the ${this.reversionConfig.period}-period mean ${snapshot.mean.toFixed(2)}${this.describeFilter(snapshot)}`,
+      timestamp: this.clock.now(),
+      riskLevel: depth > 1 ? 'HIGH' : 'MEDIUM',
+    };
+  }
+
+  private generateExitSignal(position: MeanReversionPosition, snapshot: MeanReversionSnapshot): TradingSignal | null {
+    const exit = (confidence: number, reason: string, riskLevel: TradingSignal['riskLevel']): TradingSignal => ({
+      action: 'SELL',
+      symbol: position.symbol,
+      confidence,
+      price: snapshot.price,
+      quantity: position.quantity,
+      reason,
+      timestamp: this.clock.now(),
+      riskLevel,
+    });
+
+    if (position.pnlPercentage <= -this.config.stopLoss) {
+      return exit(100, `Stop-loss triggered: ${position.pnlPercentage.toFixed(2)}% loss`, 'HIGH');
+    }
+    if (this.config.takeProfit && position.pnlPercentage >= this.config.takeProfit) {
+      return exit(90, `Take-profit triggered: ${position.pnlPercentage.toFixed(2)}% gain`, 'LOW');
+    }
+    if (snapshot.zScore >= this.reversionConfig.exitStdDev) {
+      return exit(80, `Reverted to the mean: ${snapshot.zScore.toFixed(2)} std devs from ${snapshot.mean.toFixed(2)}`, 'LOW');
+    }
+    return null;
+  }
+
+  private describeFilter(snapshot: MeanReversionSnapshot): string {
+    switch (this.reversionConfig.trendFilter) {
+      case 'ADX':
+        return `, ADX ${snapshot.adx?.toFixed(1)}`;
+      case 'REGIME':
+        return `, trend R² ${snapshot.rSquared?.toFixed(2)}`;
+      default:
+        return '';
+    }
+  }
+
+  private markPosition(position: MeanReversionPosition, price: number): void {
+    position.currentPrice = price;
+    position.pnl = (price - position.entryPrice) * position.quantity;
+    position.pnlPercentage = ((price - position.entryPrice) / position.entryPrice) * 100;
+  }
+
+  updatePosition(symbol: string, action: 'BUY' | 'SELL', quantity: number, price: number): void {
+    const position = this.positions.get(symbol);
+
+    if (action === 'BUY') {
+      if (position) {
+        const totalQuantity = position.quantity + quantity;
+        position.entryPrice = (position.quantity * position.entryPrice + quantity * price) / totalQuantity;
+        position.quantity = totalQuantity;
+        this.markPosition(position, price);
+      } else {
+        this.positions.set(symbol, {
+          symbol,
+          quantity,
+          entryPrice: price,
+          currentPrice: price,
+          pnl: 0,
+          pnlPercentage: 0,
+          entryZScore: this.snapshots.get(symbol)?.zScore ?? 0,
+          entryTimestamp: this.clock.now(),
+          status: 'ACTIVE',
+        });
+      }
+    } else if (position) {
+      const sold = Math.min(quantity, position.quantity);
+      const returnPct = ((price - position.entryPrice) / position.entryPrice) * 100;
+      this.realizedPnL += (price - position.entryPrice) * sold;
+      this.tradeReturns.push(returnPct / 100);
+      this.sizer.recordTrade(returnPct);
+
+      position.quantity -= sold;
+      if (position.quantity <= 0.001) {
+        position.status = 'CLOSED';
+        this.positions.delete(symbol);
+      } else {
+        this.markPosition(position, price);
+      }
+    }
+
+    this.fills++;
+    this.updatePerformance();
+  }
+
+  private updatePerformance(): void {
+    let unrealized = 0;
+    this.positions.forEach(position => {
+      unrealized += position.pnl;
+    });
+
+    const totalPnL = this.realizedPnL + unrealized;
+    this.peakPnL = Math.max(this.peakPnL, totalPnL);
+    if (this.config.allocation > 0) {
+      this.maxDrawdown = Math.max(this.maxDrawdown, ((this.peakPnL - totalPnL) / this.config.allocation) * 100);
+    }
+    const wins = this.tradeReturns.filter(value => value > 0).length;
+
+    this.performance = {
+      totalPnL,
+      totalPnLPercentage: this.config.allocation > 0 ? (totalPnL / this.config.allocation) * 100 : 0,
+      winRate: this.tradeReturns.length > 0 ? (wins / this.tradeReturns.length) * 100 : 0,
+      totalTrades: this.fills,
+      maxDrawdown: this.maxDrawdown,
+      sharpeRatio: this.calculateSharpeRatio(),
+      lastUpdate: this.clock.now(),
+    };
+  }
+
+  // Per-trade returns of closed positions
+  private calculateSharpeRatio(): number {
+    const returns = this.tradeReturns;
+    if (returns.length < 2) return 0;
+    const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+    const stdDev = Math.sqrt(returns.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / returns.length);
+    return stdDev > 0 ? mean / stdDev : 0;
+  }
+
+  getPositions(): MeanReversionPosition[] {
+    return Array.from(this.positions.values());
+  }
+
+  getNormalizedPositions(): Position[] {
+    return this.getPositions().map(position => ({
+      symbol: position.symbol,
+      quantity: position.quantity,
+      entryPrice: position.entryPrice,
+      currentPrice: position.currentPrice,
+      pnl: position.pnl,
+      pnlPercentage: position.pnlPercentage,
+      timestamp: position.entryTimestamp,
+    }));
+  }
+
+  getPerformance(): BotPerformance {
+    return this.performance;
+  }
+
+  getConfig(): BotConfig {
+    return this.config;
+  }
+
+  getMeanReversionConfig(): MeanReversionConfig {
+    return this.reversionConfig;
+  }
+
+  getSnapshots(): MeanReversionSnapshot[] {
+    return Array.from(this.snapshots.values());
+  }
+}
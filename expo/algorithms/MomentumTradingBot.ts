@@ -1,6 +1,12 @@
 // Advanced Trading Algorithms for Crypto Trading Bots
 // Optimized for fast-moving markets with comprehensive risk management
 
+import { Clock, systemClock } from './Clock';
+import { linearRegression } from './indicators/Trend';
+import { simpleReturns, standardDeviation } from './indicators/Volatility';
+import { PositionSizer, SizingConfig } from './PositionSizer';
+import { TradingBot } from './TradingBot';
+
 export interface MarketData {
   symbol: string;
   price: number;
@@ -18,16 +24,20 @@ export interface TradingSignal {
   symbol: string;
   confidence: number; // 0-100
   price: number;
-  quantity?: number;
+  quantity: number; // 0 for HOLD
   reason: string;
   timestamp: number;
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+  // Legs of a multi-leg trade share a groupId and are executed all or none
+  groupId?: string;
+  legCount?: number;
+  short?: boolean; // a SELL that may open or add to a short position
 }
 
 export interface BotConfig {
   id: string;
   name: string;
-  type: 'momentum' | 'dca' | 'staking' | 'cci';
+  type: 'momentum' | 'dca' | 'staking' | 'cci' | 'grid' | 'meanReversion' | 'rebalance' | 'pairs';
   allocation: number;
   stopLoss: number; // percentage
   takeProfit?: number; // percentage
@@ -36,6 +46,8 @@ export interface BotConfig {
   riskLevel: 'CONSERVATIVE' | 'MODERATE' | 'AGGRESSIVE';
   enabledAssets: string[];
   customParams?: Record<string, any>;
+  // How buys are sized; bots without it use their own default
+  sizing?: Partial<SizingConfig>;
 }
 
 export interface Position {
@@ -62,17 +74,21 @@ export interface BotPerformance {
 // MOMENTUM TRADING BOT ALGORITHM
 // ============================================================================
 
-export class MomentumTradingBot {
+export class MomentumTradingBot implements TradingBot<Position> {
   private config: BotConfig;
+  private clock: Clock;
   private positions: Map<string, Position> = new Map();
   private performance: BotPerformance;
   private priceHistory: Map<string, MarketData[]> = new Map();
   private lastRebalance: number = 0;
+  private sizer: PositionSizer;
   private static readonly MAX_HISTORY = 1000;
   private static readonly PRUNE_CHUNK = 200;
 
-  constructor(config: BotConfig) {
+  constructor(config: BotConfig, clock: Clock = systemClock) {
     this.config = config;
+    this.clock = clock;
+    this.sizer = new PositionSizer(config.sizing, config.maxPositions);
     this.performance = {
       totalPnL: 0,
       totalPnLPercentage: 0,
@@ -80,14 +96,14 @@ export class MomentumTradingBot {
       totalTrades: 0,
       maxDrawdown: 0,
       sharpeRatio: 0,
-      lastUpdate: Date.now(),
+      lastUpdate: this.clock.now(),
     };
   }
 
   // Main momentum algorithm - optimized for fast markets
   analyzeMarket(marketData: MarketData[]): TradingSignal[] {
     const signals: TradingSignal[] = [];
-    const now = Date.now();
+    const now = this.clock.now();
     
     // Update price history
     marketData.forEach(data => {
@@ -222,24 +238,7 @@ export class MomentumTradingBot {
   private calculateTrendStrength(history: MarketData[]): number {
     if (history.length < 10) return 0;
     
-    const recent = history.slice(-10);
-    const prices = recent.map(d => d.price);
-    
-    // Calculate linear regression slope
-    const n = prices.length;
-    // Use closed-form sums to avoid allocating x array
-    const sumX = (n - 1) * n / 2;
-    const sumY = prices.reduce((a, b) => a + b, 0);
-    let sumXY = 0;
-    let sumXX = 0;
-    for (let i = 0; i < n; i++) {
-      sumXY += i * prices[i];
-      sumXX += i * i;
-    }
-    
-    const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-    const rSquared = this.calculateRSquared(prices, slope);
-    
+    const { slope, rSquared } = linearRegression(history.slice(-10).map(d => d.price));
     return slope * rSquared * 100;
   }
 
@@ -271,35 +270,7 @@ export class MomentumTradingBot {
 
   private calculateVolatility(history: MarketData[]): number {
     if (history.length < 10) return 0;
-    
-    const prices = history.map(d => d.price);
-    const returns = [];
-    
-    for (let i = 1; i < prices.length; i++) {
-      returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
-    }
-    
-    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
-    const variance = returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) / returns.length;
-    
-    return Math.sqrt(variance);
-  }
-
-  private calculateRSquared(prices: number[], slope: number): number {
-    const n = prices.length;
-    const sumY = prices.reduce((a, b) => a + b, 0);
-    const meanY = sumY / n;
-    
-    let ssRes = 0;
-    let ssTot = 0;
-    
-    for (let i = 0; i < n; i++) {
-      const predicted = slope * i;
-      ssRes += Math.pow(prices[i] - predicted, 2);
-      ssTot += Math.pow(prices[i] - meanY, 2);
-    }
-    
-    return ssTot > 0 ? 1 - (ssRes / ssTot) : 0;
+    return standardDeviation(simpleReturns(history.map(d => d.price)));
   }
 
   private getMomentumWeights(): Record<string, number> {
@@ -344,9 +315,7 @@ export class MomentumTradingBot {
     currentPositions: string[]
   ): TradingSignal[] {
     const signals: TradingSignal[] = [];
-    
-    // Calculate total allocation per position
-    const allocationPerPosition = this.config.allocation / this.config.maxPositions;
+    const closes = (symbol: string) => (this.priceHistory.get(symbol) || []).map(data => data.price);
     
     // Sell positions not in top performers
     currentPositions.forEach(symbol => {
@@ -361,7 +330,7 @@ export class MomentumTradingBot {
             price: position.currentPrice,
             quantity: position.quantity,
             reason: 'Not in top performers - rebalancing',
-            timestamp: Date.now(),
+            timestamp: this.clock.now(),
             riskLevel: 'MEDIUM',
           });
         }
@@ -371,7 +340,13 @@ export class MomentumTradingBot {
     // Buy new top performers
     topPerformers.forEach(asset => {
       const currentPosition = this.positions.get(asset.symbol);
-      const targetQuantity = allocationPerPosition / asset.data.price;
+      const targetQuantity = this.sizer.targetQuantity({
+        price: asset.data.price,
+        equity: this.config.allocation,
+        prices: closes(asset.symbol),
+        peerPrices: topPerformers.filter(peer => peer.symbol !== asset.symbol).map(peer => closes(peer.symbol)),
+      });
+      if (targetQuantity <= 0) return;
       
       if (!currentPosition) {
         // New position
@@ -382,7 +357,7 @@ export class MomentumTradingBot {
           price: asset.data.price,
           quantity: targetQuantity,
           reason: `High momentum score: ${asset.score.toFixed(2)}`,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
           riskLevel: asset.score > 50 ? 'HIGH' : 'MEDIUM',
         });
       } else if (Math.abs(currentPosition.quantity - targetQuantity) / targetQuantity > 0.1) {
@@ -395,7 +370,7 @@ export class MomentumTradingBot {
           price: asset.data.price,
           quantity: Math.abs(quantityDiff),
           reason: 'Rebalancing position',
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
           riskLevel: 'MEDIUM',
         });
       }
@@ -417,7 +392,7 @@ export class MomentumTradingBot {
           price: position.currentPrice,
           quantity: position.quantity,
           reason: `Stop-loss triggered: ${lossPercentage.toFixed(2)}% loss`,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
           riskLevel: 'HIGH',
         });
       }
@@ -441,7 +416,7 @@ export class MomentumTradingBot {
           price: position.currentPrice,
           quantity: position.quantity,
           reason: `Take-profit triggered: ${position.pnlPercentage.toFixed(2)}% gain`,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
           riskLevel: 'LOW',
         });
       }
@@ -468,7 +443,7 @@ export class MomentumTradingBot {
           currentPrice: price,
           pnl: (price - newEntryPrice) * totalQuantity,
           pnlPercentage: ((price - newEntryPrice) / newEntryPrice) * 100,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
         });
       } else {
         // New position
@@ -479,11 +454,12 @@ export class MomentumTradingBot {
           currentPrice: price,
           pnl: 0,
           pnlPercentage: 0,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
         });
       }
     } else if (action === 'SELL') {
       if (currentPosition) {
+        this.sizer.recordTrade(((price - currentPosition.entryPrice) / currentPosition.entryPrice) * 100);
         const remainingQuantity = currentPosition.quantity - quantity;
         if (remainingQuantity <= 0.001) { // Close position if quantity is negligible
           this.positions.delete(symbol);
@@ -521,7 +497,7 @@ export class MomentumTradingBot {
       totalTrades,
       maxDrawdown: this.calculateMaxDrawdown(),
       sharpeRatio: this.calculateSharpeRatio(),
-      lastUpdate: Date.now(),
+      lastUpdate: this.clock.now(),
     };
   }
 
@@ -541,6 +517,10 @@ export class MomentumTradingBot {
     return Array.from(this.positions.values());
   }
 
+  getNormalizedPositions(): Position[] {
+    return this.getPositions();
+  }
+
   getPerformance(): BotPerformance {
     return this.performance;
   }
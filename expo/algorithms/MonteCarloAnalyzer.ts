@@ -0,0 +1,167 @@
+// ============================================================================
+// MONTE CARLO ROBUSTNESS TESTING
+// ============================================================================
+
+import { BacktestTrade, EquityPoint } from './BacktestEngine';
+
+export interface MonteCarloOptions {
+  simulations?: number;
+  // Consecutive bar returns drawn together, preserving short-range
+  // autocorrelation (volatility clusters, trends) within each block
+  blockSize?: number;
+  random?: () => number;
+}
+
+export interface PercentileBands {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloDistribution {
+  paths: number;
+  finalReturn: PercentileBands; // %
+  maxDrawdown: PercentileBands; // %
+  timeToRecovery: PercentileBands; // hours spent in the longest drawdown
+  probabilityOfLoss: number; // % of paths ending below the starting value
+}
+
+export interface MonteCarloResult {
+  simulations: number;
+  // Realized trade P&Ls drawn with replacement; null with fewer than two trades
+  tradeResampling: MonteCarloDistribution | null;
+  // Per-bar equity returns resampled in blocks; null with too short a curve
+  blockBootstrap: MonteCarloDistribution | null;
+}
+
+interface PathStats {
+  finalReturn: number;
+  maxDrawdown: number;
+  recoveryPeriods: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Turns one backtest path into distributions of outcomes by replaying
+// resampled versions of it, so tail risk is visible next to the single
+// realized result.
+export class MonteCarloAnalyzer {
+  private simulations: number;
+  private blockSize?: number;
+  private random: () => number;
+
+  constructor(options: MonteCarloOptions = {}) {
+    this.simulations = options.simulations ?? 500;
+    this.blockSize = options.blockSize;
+    this.random = options.random || Math.random;
+  }
+
+  analyze(trades: BacktestTrade[], equityCurve: EquityPoint[], initialBalance: number): MonteCarloResult {
+    return {
+      simulations: this.simulations,
+      tradeResampling: this.resampleTrades(trades, equityCurve, initialBalance),
+      blockBootstrap: this.blockBootstrap(equityCurve, initialBalance),
+    };
+  }
+
+  resampleTrades(trades: BacktestTrade[], equityCurve: EquityPoint[], initialBalance: number): MonteCarloDistribution | null {
+    if (trades.length < 2) return null;
+
+    const pnls = trades.map(trade => trade.pnl);
+    // A resampled trade takes the average time between trades of the real run
+    const spanMs = equityCurve.length > 1 ? equityCurve[equityCurve.length - 1].timestamp - equityCurve[0].timestamp : 0;
+    const periodMs = spanMs / trades.length;
+
+    const paths: PathStats[] = [];
+    for (let sim = 0; sim < this.simulations; sim++) {
+      const values = [initialBalance];
+      for (let i = 0; i < pnls.length; i++) {
+        values.push(values[values.length - 1] + pnls[this.randomIndex(pnls.length)]);
+      }
+      paths.push(this.pathStats(values));
+    }
+
+    return this.distribution(paths, periodMs);
+  }
+
+  blockBootstrap(equityCurve: EquityPoint[], initialBalance: number): MonteCarloDistribution | null {
+    const returns: number[] = [];
+    for (let i = 1; i < equityCurve.length; i++) {
+      const previous = equityCurve[i - 1].equity;
+      returns.push(previous > 0 ? equityCurve[i].equity / previous - 1 : 0);
+    }
+    if (returns.length < 2) return null;
+
+    const blockSize = Math.max(1, Math.min(returns.length, this.blockSize ?? Math.round(Math.sqrt(returns.length))));
+    const periodMs = (equityCurve[equityCurve.length - 1].timestamp - equityCurve[0].timestamp) / returns.length;
+
+    const paths: PathStats[] = [];
+    for (let sim = 0; sim < this.simulations; sim++) {
+      const values = [initialBalance];
+      while (values.length <= returns.length) {
+        const start = this.randomIndex(returns.length - blockSize + 1);
+        for (let i = start; i < start + blockSize && values.length <= returns.length; i++) {
+          values.push(values[values.length - 1] * (1 + returns[i]));
+        }
+      }
+      paths.push(this.pathStats(values));
+    }
+
+    return this.distribution(paths, periodMs);
+  }
+
+  private pathStats(values: number[]): PathStats {
+    let peak = values[0];
+    let peakIndex = 0;
+    let maxDrawdown = 0;
+    let recoveryPeriods = 0;
+
+    values.forEach((value, i) => {
+      if (value >= peak) {
+        recoveryPeriods = Math.max(recoveryPeriods, i - peakIndex);
+        peak = value;
+        peakIndex = i;
+      } else if (peak > 0) {
+        maxDrawdown = Math.max(maxDrawdown, (peak - value) / peak);
+      }
+    });
+    // A drawdown still open at the end counts up to the last period
+    recoveryPeriods = Math.max(recoveryPeriods, values.length - 1 - peakIndex);
+
+    return {
+      finalReturn: (values[values.length - 1] / values[0] - 1) * 100,
+      maxDrawdown: maxDrawdown * 100,
+      recoveryPeriods,
+    };
+  }
+
+  private distribution(paths: PathStats[], periodMs: number): MonteCarloDistribution {
+    return {
+      paths: paths.length,
+      finalReturn: percentileBands(paths.map(path => path.finalReturn)),
+      maxDrawdown: percentileBands(paths.map(path => path.maxDrawdown)),
+      timeToRecovery: percentileBands(paths.map(path => (path.recoveryPeriods * periodMs) / HOUR_MS)),
+      probabilityOfLoss: (paths.filter(path => path.finalReturn < 0).length / paths.length) * 100,
+    };
+  }
+
+  private randomIndex(length: number): number {
+    return Math.min(length - 1, Math.floor(this.random() * length));
+  }
+}
+
+// Linear interpolation between closest ranks
+export function percentileBands(values: number[]): PercentileBands {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (p: number) => {
+    if (sorted.length === 0) return 0;
+    const rank = (sorted.length - 1) * p;
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+  };
+
+  return { p5: at(0.05), p25: at(0.25), p50: at(0.5), p75: at(0.75), p95: at(0.95) };
+}
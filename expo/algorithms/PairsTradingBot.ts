@@ -0,0 +1,571 @@
+// ============================================================================
+// PAIRS TRADING (STATISTICAL ARBITRAGE) BOT ALGORITHM
+// ============================================================================
+
+import { BotConfig, BotPerformance, MarketData, Position, TradingSignal } from './MomentumTradingBot';
+import { Clock, systemClock } from './Clock';
+import { PositionSizer } from './PositionSizer';
+import { DEFAULT_RISK_LIMITS, RiskManager } from './RiskManager';
+import { TradingBot } from './TradingBot';
+
+// Confidence of the Engle-Granger test that a pair's spread is stationary
+export type CointegrationConfidence = '90' | '95' | '99';
+
+// MacKinnon critical values of the Engle-Granger statistic for two series
+// with a constant; the ADF statistic of the residuals has to fall below them
+const ENGLE_GRANGER_CRITICAL_VALUES: Record<CointegrationConfidence, number> = {
+  '90': -3.04,
+  '95': -3.34,
+  '99': -3.9,
+};
+
+export interface PairsTradingConfig {
+  lookback: number; // price rounds the pair test and the spread statistics use
+  minCorrelation: number; // return correlation a pair needs before it is tested
+  confidence: CointegrationConfidence;
+  entryZScore: number; // open when the spread is this many std devs from its mean
+  exitZScore: number; // close once it is back within this many
+  stopZScore: number; // close at a loss once it stretches this far
+  retestInterval: number; // rounds between pair selections
+}
+
+export const DEFAULT_PAIRS_TRADING_CONFIG: PairsTradingConfig = {
+  lookback: 100,
+  minCorrelation: 0.7,
+  confidence: '95',
+  entryZScore: 2,
+  exitZScore: 0.5,
+  stopZScore: 4,
+  retestInterval: 24,
+};
+
+export interface CointegrationTest {
+  hedgeRatio: number; // log A = intercept + hedgeRatio * log B + spread
+  intercept: number;
+  adfStatistic: number; // of the spread; more negative is more stationary
+  halfLife: number; // rounds for a spread deviation to halve
+}
+
+// A tested pair; symbolA is the leg regressed on symbolB
+export interface PairStats extends CointegrationTest {
+  symbolA: string;
+  symbolB: string;
+  correlation: number;
+  cointegrated: boolean;
+  zScore: number;
+  timestamp: number;
+}
+
+export interface PairTrade {
+  id: string; // groupId of the legs that opened it
+  symbolA: string;
+  symbolB: string;
+  hedgeRatio: number;
+  intercept: number;
+  direction: 'LONG_SPREAD' | 'SHORT_SPREAD'; // LONG_SPREAD buys A and shorts B
+  entryZScore: number;
+  zScore: number;
+  notional: number; // gross value of both legs at entry
+  realizedPnL: number;
+  openedAt: number;
+  status: 'OPENING' | 'OPEN' | 'CLOSING';
+}
+
+// One leg of a pair trade; quantity is negative for the short leg
+export interface PairsPosition {
+  symbol: string;
+  pairId: string;
+  quantity: number;
+  entryPrice: number;
+  currentPrice: number;
+  pnl: number;
+  pnlPercentage: number;
+  entryTimestamp: number;
+}
+
+// Least-squares fit of y = intercept + slope * x
+function fitLine(x: number[], y: number[]): { slope: number; intercept: number } | undefined {
+  const n = x.length;
+  const meanX = x.reduce((sum, value) => sum + value, 0) / n;
+  const meanY = y.reduce((sum, value) => sum + value, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    variance += (x[i] - meanX) * (x[i] - meanX);
+  }
+  if (!(variance > 0)) return undefined;
+  const slope = covariance / variance;
+  return { slope, intercept: meanY - slope * meanX };
+}
+
+// Engle-Granger step two: Dickey-Fuller regression of the spread's changes on
+// its previous level, Δs = a + γ·s(t-1). Returns the t-statistic of γ and the
+// half-life implied by it.
+function dickeyFuller(series: number[]): { statistic: number; halfLife: number } | undefined {
+  const lagged = series.slice(0, -1);
+  const changes = series.slice(1).map((value, i) => value - series[i]);
+  const fit = fitLine(lagged, changes);
+  if (!fit || lagged.length < 3) return undefined;
+
+  const meanLagged = lagged.reduce((sum, value) => sum + value, 0) / lagged.length;
+  let residualSquares = 0;
+  let laggedSquares = 0;
+  lagged.forEach((value, i) => {
+    residualSquares += Math.pow(changes[i] - fit.intercept - fit.slope * value, 2);
+    laggedSquares += Math.pow(value - meanLagged, 2);
+  });
+  const standardError = Math.sqrt(residualSquares / (lagged.length - 2) / laggedSquares);
+  if (!(standardError > 0)) return undefined;
+
+  const gamma = fit.slope;
+  return {
+    statistic: gamma / standardError,
+    halfLife: gamma < 0 && gamma > -1 ? -Math.LN2 / Math.log(1 + gamma) : Infinity,
+  };
+}
+
+// Engle-Granger test on log prices: hedge ratio from regressing A on B, then
+// a unit-root test on what the hedge leaves over
+export function testCointegration(logA: number[], logB: number[]): CointegrationTest | undefined {
+  const fit = fitLine(logB, logA);
+  if (!fit) return undefined;
+  const spread = logA.map((value, i) => value - fit.intercept - fit.slope * logB[i]);
+  const test = dickeyFuller(spread);
+  if (!test) return undefined;
+  return { hedgeRatio: fit.slope, intercept: fit.intercept, adfStatistic: test.statistic, halfLife: test.halfLife };
+}
+
+// Finds cointegrated pairs among the enabled assets and trades their spread:
+// when it stretches entryZScore standard deviations from its mean the cheap
+// leg is bought and the rich one shorted, both as one linked group, sized so
+// the legs offset each other. Candidates are pre-screened on the return
+// correlation RiskManager tracks before the costlier cointegration test.
+export class PairsTradingBot implements TradingBot<PairsPosition> {
+  private static readonly DUST = 1e-9;
+
+  private config: BotConfig;
+  private clock: Clock;
+  private pairsConfig: PairsTradingConfig;
+  private correlations: RiskManager;
+  private sizer: PositionSizer;
+  private lastTimestamps: Map<string, number> = new Map();
+  private latestPrices: Map<string, number> = new Map();
+  // One log price per symbol per round, all the same length; NaN before a
+  // symbol's first quote
+  private logPrices: Map<string, number[]> = new Map();
+  private roundCount: number = 0;
+  private roundsSinceTest: number = Infinity;
+  private pairs: PairStats[] = [];
+  private trades: Map<string, PairTrade> = new Map();
+  private positions: Map<string, PairsPosition> = new Map();
+  private pairCounter: number = 0;
+  private performance: BotPerformance;
+  private fills: number = 0;
+  private realizedPnL: number = 0;
+  private tradeReturns: number[] = [];
+  private peakPnL: number = 0;
+  private maxDrawdown: number = 0;
+
+  constructor(config: BotConfig, pairsConfig?: Partial<PairsTradingConfig>, clock: Clock = systemClock) {
+    this.config = config;
+    this.clock = clock;
+    this.pairsConfig = { ...DEFAULT_PAIRS_TRADING_CONFIG, ...pairsConfig };
+    const { lookback } = this.pairsConfig;
+    this.correlations = new RiskManager(DEFAULT_RISK_LIMITS, clock, { window: lookback, minObservations: Math.min(20, lookback) });
+    this.sizer = new PositionSizer(config.sizing, config.maxPositions);
+    this.performance = {
+      totalPnL: 0,
+      totalPnLPercentage: 0,
+      winRate: 0,
+      totalTrades: 0,
+      maxDrawdown: 0,
+      sharpeRatio: 0,
+      lastUpdate: this.clock.now(),
+    };
+  }
+
+  analyzeMarket(marketData: MarketData[]): TradingSignal[] {
+    const signals: TradingSignal[] = [];
+    const enabled = marketData.filter(data => this.config.enabledAssets.includes(data.symbol));
+    this.correlations.updateReturnHistory(enabled);
+    if (this.recordRound(enabled) && ++this.roundsSinceTest >= this.pairsConfig.retestInterval) {
+      this.selectPairs();
+    }
+    this.pairs.forEach(pair => {
+      pair.zScore = this.spreadZScore(pair.symbolA, pair.symbolB, pair.hedgeRatio, pair.intercept) ?? pair.zScore;
+    });
+
+    this.positions.forEach(position => this.markPosition(position, this.latestPrices.get(position.symbol) ?? position.currentPrice));
+    this.trades.forEach(trade => {
+      const exit = this.manageTrade(trade);
+      if (exit) signals.push(...exit);
+    });
+
+    // Each symbol trades in one pair at a time so fills map onto one trade
+    const busy = new Set(Array.from(this.trades.values()).flatMap(trade => [trade.symbolA, trade.symbolB]));
+    let openSlots = Math.floor(this.config.maxPositions / 2) - this.trades.size;
+    this.pairs.forEach(pair => {
+      if (openSlots <= 0 || !pair.cointegrated || busy.has(pair.symbolA) || busy.has(pair.symbolB)) return;
+      const entry = this.generateEntrySignals(pair);
+      if (entry) {
+        signals.push(...entry);
+        busy.add(pair.symbolA);
+        busy.add(pair.symbolB);
+        openSlots--;
+      }
+    });
+
+    this.updatePerformance();
+    return signals;
+  }
+
+  // A round is any update that moves at least one enabled symbol forward;
+  // symbols without a new quote carry their last price into it
+  private recordRound(marketData: MarketData[]): boolean {
+    const fresh = marketData.filter(data => data.price > 0 && data.timestamp > (this.lastTimestamps.get(data.symbol) ?? -Infinity));
+    if (fresh.length === 0) return false;
+
+    fresh.forEach(data => {
+      this.lastTimestamps.set(data.symbol, data.timestamp);
+      this.latestPrices.set(data.symbol, data.price);
+    });
+    this.latestPrices.forEach((price, symbol) => {
+      const history = this.logPrices.get(symbol) || new Array<number>(this.roundCount).fill(NaN);
+      history.push(Math.log(price));
+      this.logPrices.set(symbol, history);
+    });
+    this.roundCount++;
+
+    const maxHistory = this.pairsConfig.lookback * 2;
+    if (this.roundCount > maxHistory) {
+      const excess = this.roundCount - this.pairsConfig.lookback;
+      this.logPrices.forEach(history => history.splice(0, excess));
+      this.roundCount -= excess;
+    }
+    return true;
+  }
+
+  // The last lookback log prices, or undefined while the symbol has gaps there
+  private window(symbol: string): number[] | undefined {
+    const history = this.logPrices.get(symbol);
+    if (!history || history.length < this.pairsConfig.lookback) return undefined;
+    const window = history.slice(-this.pairsConfig.lookback);
+    return window.every(value => isFinite(value)) ? window : undefined;
+  }
+
+  // Every correlated pair is tested both ways round and kept in the direction
+  // with the stronger statistic; cointegrated pairs come first, fastest
+  // reverting first among them
+  private selectPairs(): void {
+    const symbols = this.config.enabledAssets.filter(symbol => this.window(symbol));
+    if (symbols.length < 2) return;
+    this.roundsSinceTest = 0;
+
+    const critical = ENGLE_GRANGER_CRITICAL_VALUES[this.pairsConfig.confidence];
+    const maxHalfLife = this.pairsConfig.lookback / 2;
+    const pairs: PairStats[] = [];
+    for (let i = 0; i < symbols.length; i++) {
+      for (let j = i + 1; j < symbols.length; j++) {
+        const correlation = this.correlations.getCorrelation(symbols[i], symbols[j]);
+        if (correlation === undefined || correlation < this.pairsConfig.minCorrelation) continue;
+
+        const windowI = this.window(symbols[i])!;
+        const windowJ = this.window(symbols[j])!;
+        const candidates = [
+          { symbolA: symbols[i], symbolB: symbols[j], test: testCointegration(windowI, windowJ) },
+          { symbolA: symbols[j], symbolB: symbols[i], test: testCointegration(windowJ, windowI) },
+        ].filter(candidate => candidate.test && candidate.test.hedgeRatio > 0);
+        if (candidates.length === 0) continue;
+
+        const best = candidates.reduce((a, b) => (b.test!.adfStatistic < a.test!.adfStatistic ? b : a));
+        const test = best.test!;
+        pairs.push({
+          symbolA: best.symbolA,
+          symbolB: best.symbolB,
+          ...test,
+          correlation,
+          cointegrated: test.adfStatistic < critical && test.halfLife <= maxHalfLife,
+          zScore: this.spreadZScore(best.symbolA, best.symbolB, test.hedgeRatio, test.intercept) ?? 0,
+          timestamp: this.clock.now(),
+        });
+      }
+    }
+
+    this.pairs = pairs.sort((a, b) => Number(b.cointegrated) - Number(a.cointegrated) || a.halfLife - b.halfLife);
+  }
+
+  // Standard deviations the latest spread sits from its lookback mean
+  private spreadZScore(symbolA: string, symbolB: string, hedgeRatio: number, intercept: number): number | undefined {
+    const logA = this.window(symbolA);
+    const logB = this.window(symbolB);
+    if (!logA || !logB) return undefined;
+
+    const spread = logA.map((value, i) => value - intercept - hedgeRatio * logB[i]);
+    const mean = spread.reduce((sum, value) => sum + value, 0) / spread.length;
+    const stdDev = Math.sqrt(spread.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / spread.length);
+    return stdDev > 0 ? (spread[spread.length - 1] - mean) / stdDev : 0;
+  }
+
+  private generateEntrySignals(pair: PairStats): TradingSignal[] | null {
+    const { entryZScore, stopZScore } = this.pairsConfig;
+    const stretch = Math.abs(pair.zScore);
+    if (stretch < entryZScore || stretch >= stopZScore) return null;
+
+    const priceA = this.latestPrices.get(pair.symbolA);
+    const priceB = this.latestPrices.get(pair.symbolB);
+    if (!priceA || !priceB) return null;
+
+    // The legs offset each other when B carries hedgeRatio times A's value;
+    // the larger leg stays within one position's share of the allocation
+    const sizing = {
+      equity: this.config.allocation,
+      prices: (this.window(pair.symbolA) ?? []).map(Math.exp),
+      peerPrices: [(this.window(pair.symbolB) ?? []).map(Math.exp)],
+    };
+    const notionalA = this.sizer.targetNotional({ ...sizing, price: priceA });
+    const legCap = this.sizer.getConfig().maxPositionFraction * this.config.allocation;
+    const scale = Math.min(1, legCap / Math.max(notionalA, notionalA * pair.hedgeRatio));
+    const quantityA = (notionalA * scale) / priceA;
+    const quantityB = (notionalA * pair.hedgeRatio * scale) / priceB;
+    if (!(quantityA > 0) || !(quantityB > 0)) return null;
+
+    // Spread above its mean: A is rich against B
+    const direction = pair.zScore > 0 ? 'SHORT_SPREAD' : 'LONG_SPREAD';
+    const id = `${this.config.id}-pair-${++this.pairCounter}`;
+    this.trades.set(id, {
+      id,
+      symbolA: pair.symbolA,
+      symbolB: pair.symbolB,
+      hedgeRatio: pair.hedgeRatio,
+      intercept: pair.intercept,
+      direction,
+      entryZScore: pair.zScore,
+      zScore: pair.zScore,
+      notional: quantityA * priceA + quantityB * priceB,
+      realizedPnL: 0,
+      openedAt: this.clock.now(),
+      status: 'OPENING',
+    });
+
+    const depth = stretch - entryZScore;
+    const leg = (symbol: string, buy: boolean, price: number, quantity: number): TradingSignal => ({
+      action: buy ? 'BUY' : 'SELL',
+      symbol,
+      confidence: Math.min(90, 65 + depth * 15),
+      price,
+      quantity,
+      reason: `${buy ? 'Long' : 'Short'} ${symbol} leg of ${pair.symbolA}/${pair.symbolB}: spread ${pair.zScore.toFixed(2)} std devs from its mean, hedge ratio ${pair.hedgeRatio.toFixed(3)}, half-life ${pair.halfLife.toFixed(1)}`,
+      timestamp: this.clock.now(),
+      riskLevel: depth > 1 ? 'HIGH' : 'MEDIUM',
+      groupId: id,
+      legCount: 2,
+      short: !buy,
+    });
+    return [
+      leg(pair.symbolA, direction === 'LONG_SPREAD', priceA, quantityA),
+      leg(pair.symbolB, direction === 'SHORT_SPREAD', priceB, quantityB),
+    ];
+  }
+
+  // Settles what the last round's orders did, then checks an open trade for
+  // its exits. Closing legs go out as one group while both are still held.
+  private manageTrade(trade: PairTrade): TradingSignal[] | null {
+    const legs = [this.positions.get(trade.symbolA), this.positions.get(trade.symbolB)]
+      .filter((leg): leg is PairsPosition => leg !== undefined && leg.pairId === trade.id);
+
+    if (trade.status === 'OPENING') {
+      if (legs.length === 0) {
+        // Rejected or vetoed as a group: nothing to unwind
+        this.trades.delete(trade.id);
+        return null;
+      }
+      if (legs.length === 1) {
+        return this.closeTrade(trade, legs, 100, 'Unwinding unhedged leg: the other leg did not fill', 'HIGH');
+      }
+      trade.status = 'OPEN';
+    }
+    if (legs.length === 0) {
+      this.finishTrade(trade);
+      return null;
+    }
+    if (trade.status === 'CLOSING' || legs.length < 2) {
+      return this.closeTrade(trade, legs, 100, `Closing remaining legs of ${trade.symbolA}/${trade.symbolB}`, 'HIGH');
+    }
+
+    const zScore = this.spreadZScore(trade.symbolA, trade.symbolB, trade.hedgeRatio, trade.intercept);
+    if (zScore === undefined) return null;
+    trade.zScore = zScore;
+
+    const pnlPercentage = trade.notional > 0 ? (this.tradePnL(trade) / trade.notional) * 100 : 0;
+    // Positive while the spread moves the trade's way
+    const reversion = trade.direction === 'LONG_SPREAD' ? zScore : -zScore;
+    const stillPaired = this.pairs.some(pair => pair.cointegrated && pair.symbolA === trade.symbolA && pair.symbolB === trade.symbolB);
+
+    if (pnlPercentage <= -this.config.stopLoss) {
+      return this.closeTrade(trade, legs, 100, `Stop-loss triggered: ${pnlPercentage.toFixed(2)}% loss on the pair`, 'HIGH');
+    }
+    if (-reversion >= this.pairsConfig.stopZScore) {
+      return this.closeTrade(trade, legs, 95, `Spread diverged to ${zScore.toFixed(2)} std devs`, 'HIGH');
+    }
+    if (this.config.takeProfit && pnlPercentage >= this.config.takeProfit) {
+      return this.closeTrade(trade, legs, 90, `Take-profit triggered: ${pnlPercentage.toFixed(2)}% gain on the pair`, 'LOW');
+    }
+    if (reversion >= -this.pairsConfig.exitZScore) {
+      return this.closeTrade(trade, legs, 80, `Spread reverted to ${zScore.toFixed(2)} std devs`, 'LOW');
+    }
+    if (this.roundsSinceTest === 0 && !stillPaired) {
+      return this.closeTrade(trade, legs, 85, `${trade.symbolA}/${trade.symbolB} no longer cointegrated`, 'MEDIUM');
+    }
+    return null;
+  }
+
+  private closeTrade(trade: PairTrade, legs: PairsPosition[], confidence: number, reason: string, riskLevel: TradingSignal['riskLevel']): TradingSignal[] {
+    trade.status = 'CLOSING';
+    return legs.map(leg => ({
+      action: leg.quantity > 0 ? 'SELL' : 'BUY',
+      symbol: leg.symbol,
+      confidence,
+      price: leg.currentPrice,
+      quantity: Math.abs(leg.quantity),
+      reason,
+      timestamp: this.clock.now(),
+      riskLevel,
+      ...(legs.length > 1 ? { groupId: `${trade.id}-close`, legCount: legs.length } : {}),
+    }));
+  }
+
+  private finishTrade(trade: PairTrade): void {
+    const returnPct = trade.notional > 0 ? (trade.realizedPnL / trade.notional) * 100 : 0;
+    this.tradeReturns.push(returnPct / 100);
+    this.sizer.recordTrade(returnPct);
+    this.trades.delete(trade.id);
+  }
+
+  private tradePnL(trade: PairTrade): number {
+    let pnl = trade.realizedPnL;
+    this.positions.forEach(position => {
+      if (position.pairId === trade.id) pnl += position.pnl;
+    });
+    return pnl;
+  }
+
+  private markPosition(position: PairsPosition, price: number): void {
+    position.currentPrice = price;
+    position.pnl = (price - position.entryPrice) * position.quantity;
+    position.pnlPercentage = (Math.sign(position.quantity) * (price - position.entryPrice) / position.entryPrice) * 100;
+  }
+
+  updatePosition(symbol: string, action: 'BUY' | 'SELL', quantity: number, price: number): void {
+    const change = action === 'BUY' ? quantity : -quantity;
+    const position = this.positions.get(symbol);
+    const trade = Array.from(this.trades.values()).find(t => t.symbolA === symbol || t.symbolB === symbol);
+
+    if (!position) {
+      this.positions.set(symbol, {
+        symbol,
+        pairId: trade?.id ?? '',
+        quantity: change,
+        entryPrice: price,
+        currentPrice: price,
+        pnl: 0,
+        pnlPercentage: 0,
+        entryTimestamp: this.clock.now(),
+      });
+    } else if (Math.sign(change) === Math.sign(position.quantity)) {
+      const totalQuantity = position.quantity + change;
+      position.entryPrice = (position.quantity * position.entryPrice + change * price) / totalQuantity;
+      position.quantity = totalQuantity;
+      this.markPosition(position, price);
+    } else {
+      const closed = Math.min(quantity, Math.abs(position.quantity));
+      const pnl = Math.sign(position.quantity) * (price - position.entryPrice) * closed;
+      this.realizedPnL += pnl;
+      if (trade) trade.realizedPnL += pnl;
+
+      position.quantity += change;
+      if (Math.abs(position.quantity) <= PairsTradingBot.DUST) {
+        this.positions.delete(symbol);
+      } else {
+        // A fill larger than the position flips it at the fill price
+        if (Math.sign(position.quantity) === Math.sign(change)) position.entryPrice = price;
+        this.markPosition(position, price);
+      }
+      if (trade && !this.positions.has(trade.symbolA) && !this.positions.has(trade.symbolB)) {
+        this.finishTrade(trade);
+      }
+    }
+
+    this.fills++;
+    this.updatePerformance();
+  }
+
+  private updatePerformance(): void {
+    let unrealized = 0;
+    this.positions.forEach(position => {
+      unrealized += position.pnl;
+    });
+
+    const totalPnL = this.realizedPnL + unrealized;
+    this.peakPnL = Math.max(this.peakPnL, totalPnL);
+    if (this.config.allocation > 0) {
+      this.maxDrawdown = Math.max(this.maxDrawdown, ((this.peakPnL - totalPnL) / this.config.allocation) * 100);
+    }
+    const wins = this.tradeReturns.filter(value => value > 0).length;
+
+    this.performance = {
+      totalPnL,
+      totalPnLPercentage: this.config.allocation > 0 ? (totalPnL / this.config.allocation) * 100 : 0,
+      winRate: this.tradeReturns.length > 0 ? (wins / this.tradeReturns.length) * 100 : 0,
+      totalTrades: this.fills,
+      maxDrawdown: this.maxDrawdown,
+      sharpeRatio: this.calculateSharpeRatio(),
+      lastUpdate: this.clock.now(),
+    };
+  }
+
+  // Per-trade returns of closed pairs
+  private calculateSharpeRatio(): number {
+    const returns = this.tradeReturns;
+    if (returns.length < 2) return 0;
+    const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+    const stdDev = Math.sqrt(returns.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / returns.length);
+    return stdDev > 0 ? mean / stdDev : 0;
+  }
+
+  getPositions(): PairsPosition[] {
+    return Array.from(this.positions.values());
+  }
+
+  getNormalizedPositions(): Position[] {
+    return this.getPositions().map(position => ({
+      symbol: position.symbol,
+      quantity: position.quantity,
+      entryPrice: position.entryPrice,
+      currentPrice: position.currentPrice,
+      pnl: position.pnl,
+      pnlPercentage: position.pnlPercentage,
+      timestamp: position.entryTimestamp,
+    }));
+  }
+
+  getPerformance(): BotPerformance {
+    return this.performance;
+  }
+
+  getConfig(): BotConfig {
+    return this.config;
+  }
+
+  getPairsTradingConfig(): PairsTradingConfig {
+    return this.pairsConfig;
+  }
+
+  getPairs(): PairStats[] {
+    return this.pairs;
+  }
+
+  getTrades(): PairTrade[] {
+    return Array.from(this.trades.values());
+  }
+}
@@ -0,0 +1,460 @@
+// ============================================================================
+// PAPER-TRADING EXCHANGE SIMULATOR
+// ============================================================================
+
+import { Clock, systemClock } from './Clock';
+import { MarketData, TradingSignal } from './MomentumTradingBot';
+import { TradeAction } from './TradingBot';
+
+export type OrderType = 'MARKET' | 'LIMIT' | 'STOP';
+export type OrderStatus = 'OPEN' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'REJECTED';
+export type Liquidity = 'MAKER' | 'TAKER';
+
+export interface OrderRequest {
+  symbol: string;
+  side: TradeAction;
+  type: OrderType;
+  quantity: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  reason?: string;
+  short?: boolean; // a SELL allowed to take the balance below zero
+  groupId?: string; // shared by the legs of a linked order group
+}
+
+export interface Order extends OrderRequest {
+  id: string;
+  status: OrderStatus;
+  filledQuantity: number;
+  averageFillPrice: number;
+  fees: number;
+  triggered: boolean; // stop orders become market orders once triggered
+  createdAt: number;
+  updatedAt: number;
+  rejectReason?: string;
+}
+
+export interface Fill {
+  orderId: string;
+  symbol: string;
+  side: TradeAction;
+  quantity: number;
+  price: number;
+  fee: number;
+  liquidity: Liquidity;
+  reason?: string;
+  timestamp: number;
+}
+
+// Returns the fractional price slippage (0.001 = 10bps) for filling `notional`
+// against the given quote. Always applied against the taker.
+export type SlippageModel = (side: TradeAction, notional: number, market: MarketData) => number;
+
+export interface PaperExchangeConfig {
+  quoteCurrency: string;
+  initialBalances: Record<string, number>;
+  makerFeeRate: number; // fraction of notional
+  takerFeeRate: number; // fraction of notional
+  maxParticipationRate: number; // max fraction of MarketData.volume (quote notional) filled per update
+  slippage: SlippageModel;
+  allowShortSelling: boolean; // short orders are rejected outright when off
+  shortMarginRate: number; // equity kept against open shorts, as a fraction of their notional
+  historyLimit: number; // most recent fills, and closed orders, kept for lookup
+}
+
+export type FillListener = (fill: Fill, order: Order) => void;
+
+// Square-root market impact: a base spread plus impact growing with the share of
+// quoted volume consumed. Thin markets (low MarketData.volume) slip more.
+export function volumeSlippageModel(baseSpread: number = 0.0005, impactCoefficient: number = 0.1, maxSlippage: number = 0.05): SlippageModel {
+  return (_side, notional, market) => {
+    if (market.volume <= 0) return maxSlippage;
+    const participation = notional / market.volume;
+    return Math.min(maxSlippage, baseSpread + impactCoefficient * Math.sqrt(participation));
+  };
+}
+
+export const DEFAULT_PAPER_EXCHANGE_CONFIG: PaperExchangeConfig = {
+  quoteCurrency: 'USD',
+  initialBalances: { USD: 10000 },
+  makerFeeRate: 0.001,
+  takerFeeRate: 0.002,
+  maxParticipationRate: 0.1,
+  slippage: volumeSlippageModel(),
+  allowShortSelling: true,
+  shortMarginRate: 0.5,
+  historyLimit: 500,
+};
+
+export class PaperExchange {
+  private static readonly DUST = 1e-9;
+
+  private config: PaperExchangeConfig;
+  private balances: Map<string, number> = new Map();
+  private quotes: Map<string, MarketData> = new Map();
+  private orders: Map<string, Order> = new Map();
+  // Filled, cancelled and rejected orders, in the order they closed
+  private closedOrders: Map<string, Order> = new Map();
+  private fills: Fill[] = [];
+  private listeners: Set<FillListener> = new Set();
+  private orderCounter: number = 0;
+  private clock: Clock;
+
+  constructor(config: Partial<PaperExchangeConfig> = {}, clock: Clock = systemClock) {
+    this.config = { ...DEFAULT_PAPER_EXCHANGE_CONFIG, ...config };
+    this.clock = clock;
+    Object.entries(this.config.initialBalances).forEach(([asset, amount]) => {
+      this.balances.set(asset, amount);
+    });
+  }
+
+  // Place an order. Marketable orders fill immediately against the last quote;
+  // the rest rest on the book until a later updateMarket() call crosses them.
+  submitOrder(request: OrderRequest): Order {
+    return this.submitOrderGroup([request])[0];
+  }
+
+  // Place linked orders all or none: every leg is validated before any is
+  // placed and one bad leg rejects them all. Sells go first so their proceeds
+  // can fund the buys. Accepted legs still fill on their own, so thin
+  // liquidity can leave them unevenly filled.
+  submitOrderGroup(requests: OrderRequest[]): Order[] {
+    const now = this.clock.now();
+    const orders = requests.map(request => {
+      const order: Order = {
+        ...request,
+        id: `paper-${++this.orderCounter}`,
+        status: 'OPEN',
+        filledQuantity: 0,
+        averageFillPrice: 0,
+        fees: 0,
+        triggered: request.type === 'MARKET',
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.orders.set(order.id, order);
+      return order;
+    });
+
+    const rejectReason = orders.map(order => this.validateOrder(order)).find(reason => reason);
+    if (rejectReason) {
+      orders.forEach(order => {
+        order.status = 'REJECTED';
+        order.rejectReason = orders.length > 1 ? `Linked order rejected: ${rejectReason}` : rejectReason;
+      });
+      return orders;
+    }
+
+    [...orders].sort((a, b) => Number(a.side === 'BUY') - Number(b.side === 'BUY')).forEach(order => {
+      const quote = this.quotes.get(order.symbol);
+      if (quote) {
+        this.processOrder(order, quote, true);
+      }
+    });
+    this.pruneHistory();
+
+    return orders;
+  }
+
+  // Convenience for bots: turns a signal into a market order
+  executeSignal(signal: TradingSignal, quantity: number = signal.quantity): Order {
+    return this.executeSignalGroup([{ signal, quantity }])[0];
+  }
+
+  // The legs of a multi-leg signal as one linked group of market orders
+  executeSignalGroup(legs: { signal: TradingSignal; quantity: number }[]): Order[] {
+    return this.submitOrderGroup(legs.map(({ signal, quantity }) => {
+      if (signal.action === 'HOLD') {
+        throw new Error('Cannot execute a HOLD signal');
+      }
+      return {
+        symbol: signal.symbol,
+        side: signal.action,
+        type: 'MARKET',
+        quantity,
+        reason: signal.reason,
+        short: signal.short,
+        groupId: signal.groupId,
+      };
+    }));
+  }
+
+  cancelOrder(orderId: string): boolean {
+    const order = this.orders.get(orderId);
+    if (!order || !this.isOpen(order)) return false;
+    order.status = 'CANCELLED';
+    order.updatedAt = this.clock.now();
+    return true;
+  }
+
+  cancelAllOrders(symbol?: string): number {
+    let cancelled = 0;
+    this.getOpenOrders(symbol).forEach(order => {
+      if (this.cancelOrder(order.id)) cancelled++;
+    });
+    return cancelled;
+  }
+
+  // Feed new quotes; resting and partially filled orders are matched against them
+  updateMarket(marketData: MarketData[]): Fill[] {
+    const fillsBefore = this.fills.length;
+
+    marketData.forEach(data => {
+      this.quotes.set(data.symbol, data);
+    });
+
+    this.getOpenOrders().forEach(order => {
+      const quote = this.quotes.get(order.symbol);
+      if (quote) {
+        this.processOrder(order, quote, false);
+      }
+    });
+
+    const fills = this.fills.slice(fillsBefore);
+    this.pruneHistory();
+    return fills;
+  }
+
+  onFill(listener: FillListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getOrder(orderId: string): Order | undefined {
+    return this.orders.get(orderId) ?? this.closedOrders.get(orderId);
+  }
+
+  getOpenOrders(symbol?: string): Order[] {
+    return Array.from(this.orders.values())
+      .filter(order => this.isOpen(order) && (!symbol || order.symbol === symbol));
+  }
+
+  getFills(): Fill[] {
+    return this.fills;
+  }
+
+  getBalance(asset: string): number {
+    return this.balances.get(asset) || 0;
+  }
+
+  getBalances(): Record<string, number> {
+    const result: Record<string, number> = {};
+    this.balances.forEach((amount, asset) => {
+      result[asset] = amount;
+    });
+    return result;
+  }
+
+  getQuote(symbol: string): MarketData | undefined {
+    return this.quotes.get(symbol);
+  }
+
+  // Cash plus every holding marked at its last quote
+  getEquity(): number {
+    let equity = 0;
+    this.balances.forEach((amount, asset) => {
+      if (asset === this.config.quoteCurrency) {
+        equity += amount;
+      } else {
+        const quote = this.quotes.get(asset);
+        equity += quote ? amount * quote.price : 0;
+      }
+    });
+    return equity;
+  }
+
+  getConfig(): PaperExchangeConfig {
+    return this.config;
+  }
+
+  private validateOrder(order: Order): string | null {
+    if (!(order.quantity > 0) || !isFinite(order.quantity)) {
+      return 'Order quantity must be positive';
+    }
+    if (order.type === 'LIMIT' && !(order.limitPrice && order.limitPrice > 0)) {
+      return 'Limit orders require a positive limitPrice';
+    }
+    if (order.type === 'STOP' && !(order.stopPrice && order.stopPrice > 0)) {
+      return 'Stop orders require a positive stopPrice';
+    }
+    const quote = this.quotes.get(order.symbol);
+    if (order.type === 'MARKET' && !quote) {
+      return `No market data for ${order.symbol}`;
+    }
+    if (order.side === 'SELL') {
+      const reserved = this.reservedQuantity(order.symbol, order.id);
+      if (order.short) {
+        if (!this.config.allowShortSelling) {
+          return 'Short selling is disabled';
+        }
+        const shortable = quote ? this.shortCapacity(quote.price) : Infinity;
+        if (order.quantity > Math.max(0, this.getBalance(order.symbol)) - reserved + shortable + PaperExchange.DUST) {
+          return `Insufficient margin to short ${order.symbol}`;
+        }
+      } else if (order.quantity > this.getBalance(order.symbol) - reserved + PaperExchange.DUST) {
+        return `Insufficient ${order.symbol} balance`;
+      }
+    }
+    return null;
+  }
+
+  private processOrder(order: Order, quote: MarketData, onSubmit: boolean): void {
+    if (quote.price <= 0) return;
+
+    if (!order.triggered && order.type === 'STOP') {
+      const stopPrice = order.stopPrice!;
+      const crossed = order.side === 'BUY' ? quote.price >= stopPrice : quote.price <= stopPrice;
+      if (!crossed) return;
+      order.triggered = true;
+    }
+
+    const remaining = order.quantity - order.filledQuantity;
+    const liquidityQuantity = (quote.volume * this.config.maxParticipationRate) / quote.price;
+    let quantity = Math.min(remaining, liquidityQuantity);
+    if (quantity <= PaperExchange.DUST) return;
+
+    let price: number;
+    let liquidity: Liquidity;
+
+    if (order.type === 'LIMIT') {
+      const limitPrice = order.limitPrice!;
+      const marketable = order.side === 'BUY' ? quote.price <= limitPrice : quote.price >= limitPrice;
+      if (!marketable) return;
+
+      if (onSubmit) {
+        // Crossing the spread on entry pays taker fees and slippage, capped at the limit
+        const slipped = this.applySlippage(order.side, quantity, quote);
+        price = order.side === 'BUY' ? Math.min(limitPrice, slipped) : Math.max(limitPrice, slipped);
+        liquidity = 'TAKER';
+      } else {
+        price = limitPrice;
+        liquidity = 'MAKER';
+      }
+    } else {
+      price = this.applySlippage(order.side, quantity, quote);
+      liquidity = 'TAKER';
+    }
+
+    const feeRate = liquidity === 'MAKER' ? this.config.makerFeeRate : this.config.takerFeeRate;
+
+    if (order.side === 'BUY') {
+      // Buying back a short releases the cash held against it, so only the
+      // part of the order that goes long has to fit in the spendable cash
+      const cash = this.getBalance(this.config.quoteCurrency);
+      const unitCost = price * (1 + feeRate);
+      const cover = Math.min(quantity, Math.max(0, -this.getBalance(order.symbol)), cash / unitCost);
+      const spendable = cash - cover * unitCost - (this.shortLiability() - cover * quote.price);
+      quantity = Math.min(quantity, cover + Math.max(0, spendable) / unitCost);
+      if (quantity <= PaperExchange.DUST) {
+        this.closeUnfillable(order, 'Insufficient funds');
+        return;
+      }
+    } else {
+      const held = this.getBalance(order.symbol);
+      quantity = Math.min(quantity, order.short ? Math.max(0, held) + this.shortCapacity(price) : held);
+      if (quantity <= PaperExchange.DUST) {
+        this.closeUnfillable(order, order.short ? `Insufficient margin to short ${order.symbol}` : `Insufficient ${order.symbol} balance`);
+        return;
+      }
+    }
+
+    this.applyFill(order, quantity, price, price * quantity * feeRate, liquidity);
+  }
+
+  private applySlippage(side: TradeAction, quantity: number, quote: MarketData): number {
+    const slippage = this.config.slippage(side, quantity * quote.price, quote);
+    return side === 'BUY' ? quote.price * (1 + slippage) : quote.price * (1 - slippage);
+  }
+
+  private applyFill(order: Order, quantity: number, price: number, fee: number, liquidity: Liquidity): void {
+    const quote = this.config.quoteCurrency;
+    const notional = quantity * price;
+
+    if (order.side === 'BUY') {
+      this.balances.set(quote, this.getBalance(quote) - notional - fee);
+      this.balances.set(order.symbol, this.getBalance(order.symbol) + quantity);
+    } else {
+      this.balances.set(quote, this.getBalance(quote) + notional - fee);
+      this.balances.set(order.symbol, this.getBalance(order.symbol) - quantity);
+    }
+
+    const totalFilled = order.filledQuantity + quantity;
+    order.averageFillPrice = (order.averageFillPrice * order.filledQuantity + notional) / totalFilled;
+    order.filledQuantity = totalFilled;
+    order.fees += fee;
+    order.status = order.quantity - totalFilled <= PaperExchange.DUST ? 'FILLED' : 'PARTIALLY_FILLED';
+    order.updatedAt = this.clock.now();
+
+    const fill: Fill = {
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      quantity,
+      price,
+      fee,
+      liquidity,
+      reason: order.reason,
+      timestamp: order.updatedAt,
+    };
+    this.fills.push(fill);
+    this.listeners.forEach(listener => listener(fill, order));
+  }
+
+  private closeUnfillable(order: Order, reason: string): void {
+    order.status = order.filledQuantity > 0 ? 'CANCELLED' : 'REJECTED';
+    order.rejectReason = reason;
+    order.updatedAt = this.clock.now();
+  }
+
+  // Cost of buying back every open short at its last quote; the cash they
+  // raised is collateral, not buying power
+  private shortLiability(): number {
+    let liability = 0;
+    this.balances.forEach((amount, asset) => {
+      const quote = this.quotes.get(asset);
+      if (asset !== this.config.quoteCurrency && amount < 0 && quote) {
+        liability -= amount * quote.price;
+      }
+    });
+    return liability;
+  }
+
+  // Quantity a short sale may add at the given price while equity stays at
+  // least shortMarginRate of the open short notional
+  private shortCapacity(price: number): number {
+    if (!this.config.allowShortSelling) return 0;
+    if (this.config.shortMarginRate <= 0) return Infinity;
+    return Math.max(0, this.getEquity() / this.config.shortMarginRate - this.shortLiability()) / price;
+  }
+
+  private reservedQuantity(symbol: string, excludeOrderId: string): number {
+    return this.getOpenOrders(symbol)
+      .filter(order => order.side === 'SELL' && order.id !== excludeOrderId)
+      .reduce((sum, order) => sum + order.quantity - order.filledQuantity, 0);
+  }
+
+  // Open orders are always kept; closed ones and the fill log only up to
+  // historyLimit, oldest dropped first
+  private pruneHistory(): void {
+    const limit = this.config.historyLimit;
+    if (this.fills.length > limit) {
+      this.fills.splice(0, this.fills.length - limit);
+    }
+
+    this.orders.forEach((order, id) => {
+      if (this.isOpen(order)) return;
+      this.orders.delete(id);
+      this.closedOrders.set(id, order);
+    });
+    for (const id of this.closedOrders.keys()) {
+      if (this.closedOrders.size <= limit) break;
+      this.closedOrders.delete(id);
+    }
+  }
+
+  private isOpen(order: Order): boolean {
+    return order.status === 'OPEN' || order.status === 'PARTIALLY_FILLED';
+  }
+}
@@ -0,0 +1,332 @@
+// ============================================================================
+// PORTFOLIO RISK ENGINE
+// ============================================================================
+
+import { Clock, systemClock } from './Clock';
+import { MarketData, Position, TradingSignal } from './MomentumTradingBot';
+import { CorrelationConfig, RiskLimits, RiskManager } from './RiskManager';
+import { runStressTests, StressResult, StressScenario, VaREstimate, VaROptions } from './ValueAtRisk';
+
+// What one bot holds on its paper account
+export interface AccountState {
+  cash: number;
+  positions: Position[];
+}
+
+export interface RiskDecision {
+  approved: boolean;
+  quantity: number; // may be smaller than requested
+  reason: string;
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+}
+
+export interface PortfolioRiskSnapshot {
+  equity: number;
+  peakEquity: number;
+  drawdown: number; // % below peak
+  totalExposure: number; // % of equity held in assets
+  exposureBySymbol: Record<string, number>; // % of equity
+  correlation: number;
+  accounts: number;
+  timestamp: number;
+}
+
+export interface PortfolioRiskReport {
+  equity: number;
+  cash: number;
+  exposure: number; // value of all holdings
+  valueAtRisk: VaREstimate[]; // % of equity
+  stressTests: StressResult[];
+  timestamp: number;
+}
+
+// Orders smaller than this (in quote currency) are treated as vetoed
+const MIN_ORDER_VALUE = 1e-6;
+
+// One risk view over every bot's account. Limits are measured against the
+// combined equity, so two bots cannot each put a full position into the same
+// asset; any buy that would breach a limit is resized to the remaining
+// headroom or vetoed. Sells always pass since they only reduce risk.
+export class PortfolioRiskEngine {
+  private limits: RiskLimits;
+  private clock: Clock;
+  // Correlation history and the portfolio correlation measure
+  private riskManager: RiskManager;
+  private accounts: Map<string, AccountState> = new Map();
+  private quotes: Map<string, MarketData> = new Map();
+  private peakEquity: number = 0;
+
+  constructor(limits: RiskLimits, clock: Clock = systemClock, correlationConfig: Partial<CorrelationConfig> = {}) {
+    this.limits = limits;
+    this.clock = clock;
+    this.riskManager = new RiskManager(limits, clock, correlationConfig);
+  }
+
+  updateMarket(marketData: MarketData[]): void {
+    marketData.forEach(data => {
+      if (data.price > 0) this.quotes.set(data.symbol, data);
+    });
+    this.riskManager.updateReturnHistory(marketData);
+    this.updatePeak();
+  }
+
+  updateAccount(accountId: string, state: AccountState): void {
+    const previous = this.accounts.get(accountId);
+    this.accounts.set(accountId, state);
+    // A new account is a deposit, not a gain; it raises the peak along with equity
+    if (!previous) this.peakEquity += this.accountEquity(state);
+    this.updatePeak();
+  }
+
+  removeAccount(accountId: string): void {
+    const state = this.accounts.get(accountId);
+    if (!state) return;
+    this.accounts.delete(accountId);
+    // Withdrawing a bot's capital is not a drawdown either
+    this.peakEquity = Math.max(this.getEquity(), this.peakEquity - this.accountEquity(state));
+  }
+
+  // Buys and short sales add exposure and go through every limit; plain sells
+  // and buys that only cover a short pass straight through
+  checkSignal(accountId: string, signal: TradingSignal, quantity: number): RiskDecision {
+    if (signal.action === 'HOLD' || (signal.action === 'SELL' && !signal.short)) {
+      return { approved: true, quantity, reason: 'Sell reduces exposure', riskLevel: 'LOW' };
+    }
+    const held = this.netQuantity(this.accounts.get(accountId)?.positions || [], signal.symbol);
+    if (signal.action === 'BUY' && held < 0 && quantity <= -held) {
+      return { approved: true, quantity, reason: 'Buy covers a short', riskLevel: 'LOW' };
+    }
+    if (!(quantity > 0) || !(signal.price > 0)) {
+      return { approved: false, quantity: 0, reason: `${signal.action === 'BUY' ? 'Buy' : 'Short'} signal without quantity or price`, riskLevel: 'LOW' };
+    }
+
+    const equity = this.getEquity();
+    if (equity <= 0) {
+      return { approved: false, quantity: 0, reason: 'No account equity', riskLevel: 'HIGH' };
+    }
+
+    const drawdown = this.getDrawdown();
+    if (drawdown > this.limits.maxDrawdown) {
+      return {
+        approved: false,
+        quantity: 0,
+        reason: `Account drawdown exceeds limit: ${drawdown.toFixed(2)}% > ${this.limits.maxDrawdown}%`,
+        riskLevel: 'HIGH',
+      };
+    }
+
+    const allPositions = this.allPositions();
+    const account = this.accounts.get(accountId);
+    const accountPositions = account?.positions || [];
+    // Position size is judged against the bot's own account, the rest against the whole portfolio
+    const caps = [
+      {
+        label: 'Position size',
+        limit: this.limits.maxPositionSize,
+        base: account ? this.accountEquity(account) : 0,
+        current: this.valueOf(accountPositions.filter(p => p.symbol === signal.symbol)),
+      },
+      {
+        label: `${signal.symbol} concentration`,
+        limit: this.limits.maxAssetConcentration,
+        base: equity,
+        current: this.valueOf(allPositions.filter(p => p.symbol === signal.symbol)),
+      },
+      {
+        label: 'Total exposure',
+        limit: this.limits.maxTotalExposure,
+        base: equity,
+        current: this.valueOf(allPositions),
+      },
+    ];
+
+    let approvedQuantity = quantity;
+    const adjustments: string[] = [];
+    for (const cap of caps) {
+      const headroom = Math.max(0, (cap.limit / 100) * cap.base - cap.current);
+      if (approvedQuantity * signal.price <= headroom) continue;
+
+      approvedQuantity = headroom / signal.price;
+      if (approvedQuantity * signal.price < MIN_ORDER_VALUE) {
+        return {
+          approved: false,
+          quantity: 0,
+          reason: `${cap.label} at limit: ${cap.base > 0 ? ((cap.current / cap.base) * 100).toFixed(2) : '0.00'}% of ${cap.limit}%`,
+          riskLevel: 'HIGH',
+        };
+      }
+      adjustments.push(`${cap.label} capped at ${cap.limit}%`);
+    }
+
+    const prospective = [...allPositions, this.toPosition(signal, approvedQuantity)];
+    const correlation = this.riskManager.calculatePortfolioCorrelation(prospective, this.marketData());
+    if (correlation > this.limits.maxCorrelation) {
+      return {
+        approved: false,
+        quantity: 0,
+        reason: `Portfolio correlation would exceed limit: ${correlation.toFixed(2)} > ${this.limits.maxCorrelation}`,
+        riskLevel: 'MEDIUM',
+      };
+    }
+
+    return {
+      approved: true,
+      quantity: approvedQuantity,
+      reason: adjustments.length > 0
+        ? `Resized from ${quantity} to ${approvedQuantity.toFixed(8)}: ${adjustments.join(', ')}`
+        : 'Signal approved by portfolio risk',
+      riskLevel: adjustments.length > 0 ? 'MEDIUM' : 'LOW',
+    };
+  }
+
+  // Forced exits for one account: everything once the portfolio drawdown
+  // passes the emergency stop, otherwise RiskManager's reductions for extreme
+  // markets and crowded correlations. Shorts are bought back.
+  emergencySignals(accountId: string): TradingSignal[] {
+    const positions = (this.accounts.get(accountId)?.positions || []).filter(p => p.quantity !== 0);
+    if (positions.length === 0) return [];
+
+    const drawdown = this.getDrawdown();
+    if (drawdown > this.limits.emergencyStopLoss) {
+      return positions.map(position => ({
+        action: position.quantity > 0 ? 'SELL' as const : 'BUY' as const,
+        symbol: position.symbol,
+        confidence: 100,
+        price: this.quotes.get(position.symbol)?.price ?? position.currentPrice,
+        quantity: Math.abs(position.quantity),
+        reason: `Emergency stop-loss: Account drawdown ${drawdown.toFixed(2)}% exceeds ${this.limits.emergencyStopLoss}%`,
+        timestamp: this.clock.now(),
+        riskLevel: 'HIGH' as const,
+      }));
+    }
+
+    return this.riskManager.emergencyRiskManagement(positions, this.marketData());
+  }
+
+  getEquity(): number {
+    let equity = 0;
+    this.accounts.forEach(state => {
+      equity += this.accountEquity(state);
+    });
+    return equity;
+  }
+
+  getDrawdown(): number {
+    return this.peakEquity > 0 ? Math.max(0, ((this.peakEquity - this.getEquity()) / this.peakEquity) * 100) : 0;
+  }
+
+  getSnapshot(): PortfolioRiskSnapshot {
+    const equity = this.getEquity();
+    const positions = this.allPositions();
+    const exposureBySymbol: Record<string, number> = {};
+    positions.forEach(position => {
+      const share = equity > 0 ? (this.valueOf([position]) / equity) * 100 : 0;
+      exposureBySymbol[position.symbol] = (exposureBySymbol[position.symbol] || 0) + share;
+    });
+
+    return {
+      equity,
+      peakEquity: this.peakEquity,
+      drawdown: this.getDrawdown(),
+      totalExposure: equity > 0 ? (this.valueOf(positions) / equity) * 100 : 0,
+      exposureBySymbol,
+      correlation: this.riskManager.calculatePortfolioCorrelation(positions, this.marketData()),
+      accounts: this.accounts.size,
+      timestamp: this.clock.now(),
+    };
+  }
+
+  // VaR/CVaR from each holding's return history and the stress scenarios
+  // applied to what every account holds right now
+  getRiskReport(options: Partial<VaROptions> = {}, scenarios?: StressScenario[]): PortfolioRiskReport {
+    const equity = this.getEquity();
+    const positions = this.allPositions();
+    const marketData = this.marketData();
+    let cash = 0;
+    this.accounts.forEach(state => {
+      cash += state.cash;
+    });
+
+    // Signed, so a stress move hits shorts the opposite way
+    const holdings = new Map<string, number>();
+    positions.forEach(position => {
+      holdings.set(position.symbol, (holdings.get(position.symbol) || 0) + this.netValueOf([position]));
+    });
+
+    return {
+      equity,
+      cash,
+      exposure: this.valueOf(positions),
+      valueAtRisk: this.riskManager.calculateValueAtRisk(positions, marketData, options, equity),
+      stressTests: runStressTests(
+        Array.from(holdings.entries()).map(([symbol, value]) => ({ symbol, value })),
+        cash,
+        {
+          getBeta: symbol => this.riskManager.getBeta(symbol),
+          getWorstMove: (symbol, horizonMs) => this.riskManager.getWorstMove(symbol, horizonMs),
+        },
+        scenarios,
+      ),
+      timestamp: this.clock.now(),
+    };
+  }
+
+  getRiskLimits(): RiskLimits {
+    return this.limits;
+  }
+
+  updateRiskLimits(newLimits: Partial<RiskLimits>): void {
+    this.limits = { ...this.limits, ...newLimits };
+    this.riskManager.updateRiskLimits(newLimits);
+  }
+
+  private updatePeak(): void {
+    this.peakEquity = Math.max(this.peakEquity, this.getEquity());
+  }
+
+  private accountEquity(state: AccountState): number {
+    return state.cash + this.netValueOf(state.positions);
+  }
+
+  // Gross: longs and shorts both count as exposure
+  private valueOf(positions: Position[]): number {
+    return positions.reduce((total, position) => {
+      const price = this.quotes.get(position.symbol)?.price ?? position.currentPrice;
+      return total + Math.abs(position.quantity) * price;
+    }, 0);
+  }
+
+  // Signed: a short is a liability against the account's cash
+  private netValueOf(positions: Position[]): number {
+    return positions.reduce((total, position) => {
+      const price = this.quotes.get(position.symbol)?.price ?? position.currentPrice;
+      return total + position.quantity * price;
+    }, 0);
+  }
+
+  private netQuantity(positions: Position[], symbol: string): number {
+    return positions
+      .filter(position => position.symbol === symbol)
+      .reduce((total, position) => total + position.quantity, 0);
+  }
+
+  private allPositions(): Position[] {
+    return Array.from(this.accounts.values()).flatMap(state => state.positions);
+  }
+
+  private marketData(): MarketData[] {
+    return Array.from(this.quotes.values());
+  }
+
+  private toPosition(signal: TradingSignal, quantity: number): Position {
+    return {
+      symbol: signal.symbol,
+      quantity: signal.action === 'SELL' ? -quantity : quantity,
+      entryPrice: signal.price,
+      currentPrice: signal.price,
+      pnl: 0,
+      pnlPercentage: 0,
+      timestamp: signal.timestamp,
+    };
+  }
+}
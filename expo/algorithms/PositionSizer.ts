@@ -0,0 +1,155 @@
+// ============================================================================
+// POSITION SIZING
+// ============================================================================
+
+export type SizingMethod = 'FIXED_FRACTIONAL' | 'VOLATILITY_TARGET' | 'KELLY' | 'INVERSE_VOLATILITY';
+
+export interface SizingConfig {
+  method: SizingMethod;
+  // FIXED_FRACTIONAL: share of equity per position; defaults to 1 / maxPositions
+  fraction?: number;
+  // VOLATILITY_TARGET: % of equity lost if price moves volatilityMultiple times
+  // its average close-to-close move over the last volatilityPeriod closes
+  riskPerTrade: number;
+  volatilityPeriod: number;
+  volatilityMultiple: number;
+  // KELLY: share of the full Kelly fraction staked, once minTrades have closed
+  kellyFraction: number;
+  minTrades: number;
+  // Hard cap on any one position, as a share of equity
+  maxPositionFraction: number;
+}
+
+export const DEFAULT_SIZING_CONFIG: SizingConfig = {
+  method: 'FIXED_FRACTIONAL',
+  riskPerTrade: 1,
+  volatilityPeriod: 14,
+  volatilityMultiple: 2,
+  kellyFraction: 0.5,
+  minTrades: 20,
+  maxPositionFraction: 0.25,
+};
+
+export const SIZING_METHODS: { method: SizingMethod; label: string }[] = [
+  { method: 'FIXED_FRACTIONAL', label: 'Fixed %' },
+  { method: 'VOLATILITY_TARGET', label: 'Vol Target' },
+  { method: 'KELLY', label: 'Kelly' },
+  { method: 'INVERSE_VOLATILITY', label: 'Inverse Vol' },
+];
+
+export interface SizingRequest {
+  price: number;
+  equity: number; // capital the bot sizes against
+  prices: number[]; // recent closes of the symbol, oldest first
+  // Recent closes of the other symbols the position will sit alongside
+  peerPrices?: number[][];
+}
+
+// One sizer per bot: turns the bot's equity and each symbol's recent prices
+// into a target position value under the configured method. Kelly sizing
+// learns from the returns of the bot's closed trades.
+export class PositionSizer {
+  private config: SizingConfig;
+  private maxPositions: number;
+  private tradeReturns: number[] = [];
+
+  constructor(config: Partial<SizingConfig> = {}, maxPositions: number = 5) {
+    this.config = { ...DEFAULT_SIZING_CONFIG, ...config };
+    this.maxPositions = Math.max(1, maxPositions);
+  }
+
+  // Target value of the whole position in quote currency
+  targetNotional(request: SizingRequest): number {
+    if (!(request.price > 0) || !(request.equity > 0)) return 0;
+
+    let fraction: number;
+    switch (this.config.method) {
+      case 'VOLATILITY_TARGET':
+        fraction = this.volatilityTargetFraction(request);
+        break;
+      case 'KELLY':
+        fraction = this.kellyFraction();
+        break;
+      case 'INVERSE_VOLATILITY':
+        fraction = this.inverseVolatilityFraction(request);
+        break;
+      default:
+        fraction = this.baseFraction();
+    }
+
+    return request.equity * Math.max(0, Math.min(this.config.maxPositionFraction, fraction));
+  }
+
+  targetQuantity(request: SizingRequest): number {
+    return request.price > 0 ? this.targetNotional(request) / request.price : 0;
+  }
+
+  // Return of a closed (or partly closed) trade, %
+  recordTrade(returnPct: number): void {
+    if (!isFinite(returnPct)) return;
+    this.tradeReturns.push(returnPct);
+    if (this.tradeReturns.length > 200) this.tradeReturns.shift();
+  }
+
+  getConfig(): SizingConfig {
+    return this.config;
+  }
+
+  private baseFraction(): number {
+    return this.config.fraction ?? 1 / this.maxPositions;
+  }
+
+  // Mean absolute close-to-close move. Requests carry closes only, so this
+  // stands in for ATR without the intrabar highs and lows.
+  private averageCloseMove(prices: number[]): number | undefined {
+    if (prices.length < 2) return undefined;
+    const recent = prices.slice(-(this.config.volatilityPeriod + 1));
+    let total = 0;
+    for (let i = 1; i < recent.length; i++) {
+      total += Math.abs(recent[i] - recent[i - 1]);
+    }
+    return total / (recent.length - 1);
+  }
+
+  // Average close-to-close move as a share of the last price
+  private relativeVolatility(prices: number[]): number | undefined {
+    const move = this.averageCloseMove(prices);
+    const last = prices[prices.length - 1];
+    return move !== undefined && move > 0 && last > 0 ? move / last : undefined;
+  }
+
+  private volatilityTargetFraction(request: SizingRequest): number {
+    const volatility = this.relativeVolatility(request.prices);
+    if (volatility === undefined) return this.baseFraction();
+    return this.config.riskPerTrade / 100 / (this.config.volatilityMultiple * volatility);
+  }
+
+  // f* = W - (1 - W) / R with the bot's own win rate W and payoff ratio R
+  private kellyFraction(): number {
+    if (this.tradeReturns.length < this.config.minTrades) return this.baseFraction();
+
+    const wins = this.tradeReturns.filter(value => value > 0);
+    const losses = this.tradeReturns.filter(value => value < 0);
+    if (losses.length === 0) return this.config.maxPositionFraction;
+    if (wins.length === 0) return 0;
+
+    const winRate = wins.length / this.tradeReturns.length;
+    const averageWin = wins.reduce((sum, value) => sum + value, 0) / wins.length;
+    const averageLoss = Math.abs(losses.reduce((sum, value) => sum + value, 0) / losses.length);
+    const kelly = winRate - (1 - winRate) / (averageWin / averageLoss);
+    return Math.max(0, kelly) * this.config.kellyFraction;
+  }
+
+  // Inverse-volatility weights: the budget of maxPositions equal slices is
+  // shifted toward the calmer symbols. Correlations are ignored, so this is
+  // not a full equal-risk-contribution allocation.
+  private inverseVolatilityFraction(request: SizingRequest): number {
+    const volatility = this.relativeVolatility(request.prices);
+    if (volatility === undefined) return this.baseFraction();
+
+    const volatilities = [volatility, ...(request.peerPrices || []).map(prices => this.relativeVolatility(prices))]
+      .filter((value): value is number => value !== undefined);
+    const averageVolatility = volatilities.reduce((sum, value) => sum + value, 0) / volatilities.length;
+    return this.baseFraction() * (averageVolatility / volatility);
+  }
+}
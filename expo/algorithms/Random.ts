@@ -0,0 +1,42 @@
+// ============================================================================
+// SEEDED RANDOM NUMBERS
+// ============================================================================
+
+// Uniform in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+// mulberry32: tiny, fast and good enough for simulations. The same seed
+// always yields the same sequence.
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Fresh 32-bit seed for runs that did not ask for one; record it to replay the run
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Independent stream for a named part of a run (one scenario, one symbol), so
+// adding or reordering parts does not shift the numbers the others see
+export function deriveSeed(seed: number, key: string | number): number {
+  let hash = (seed ^ 0x9e3779b9) >>> 0;
+  const text = String(key);
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+// Standard normal via Box-Muller
+export function normal(random: RandomSource): number {
+  const u = 1 - random(); // (0, 1] keeps the log finite
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,377 @@
+// ============================================================================
+// PORTFOLIO REBALANCING BOT ALGORITHM
+// ============================================================================
+
+import { BotConfig, BotPerformance, MarketData, Position, TradingSignal } from './MomentumTradingBot';
+import { Clock, systemClock } from './Clock';
+import { DEFAULT_RISK_LIMITS, RiskLimits } from './RiskManager';
+import { simpleReturns, standardDeviation } from './indicators/Volatility';
+import { TradingBot } from './TradingBot';
+
+export type RebalanceSchedule = 'NONE' | 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RebalanceConfig {
+  targets: Record<string, number>; // symbol -> % of the bot's equity; the rest stays in cash
+  schedule: RebalanceSchedule;
+  driftThreshold: number; // percentage points off target that force a rebalance; 0 = schedule only
+  minTradeValue: number; // USD; smaller adjustments cost more in fees than they correct
+  cashBuffer: number; // % of equity kept back for fees and slippage
+}
+
+export const DEFAULT_REBALANCE_CONFIG: RebalanceConfig = {
+  targets: { BTC: 50, ETH: 30, SOL: 20 },
+  schedule: 'WEEKLY',
+  driftThreshold: 5,
+  minTradeValue: 25,
+  cashBuffer: 1,
+};
+
+const SCHEDULE_MS: Record<RebalanceSchedule, number> = {
+  NONE: Infinity,
+  DAILY: 24 * 60 * 60 * 1000,
+  WEEKLY: 7 * 24 * 60 * 60 * 1000,
+  MONTHLY: 30 * 24 * 60 * 60 * 1000,
+};
+
+// One asset of the basket, in % of the bot's equity
+export interface AllocationWeight {
+  symbol: string;
+  target: number; // as configured
+  effectiveTarget: number; // after the risk limits
+  actual: number;
+  drift: number; // actual - effectiveTarget
+}
+
+export interface RebalancePosition {
+  symbol: string;
+  quantity: number;
+  entryPrice: number; // average cost
+  currentPrice: number;
+  pnl: number;
+  pnlPercentage: number;
+  targetWeight: number;
+  lastTrade: number;
+}
+
+// "BTC:50, ETH:30, SOL:20" -> { BTC: 50, ETH: 30, SOL: 20 }. Weights are
+// percentages and may add up to less than 100, the rest being held as cash.
+export function parseTargetWeights(spec: string): Record<string, number> {
+  const targets: Record<string, number> = {};
+  const entries = spec.split(/[,;\s]+/).filter(entry => entry.length > 0);
+  if (entries.length === 0) throw new Error('Target weights are empty');
+
+  entries.forEach(entry => {
+    const match = /^([A-Za-z0-9]+)[:=](\d+(?:\.\d+)?)%?$/.exec(entry);
+    if (!match) throw new Error(`Invalid target weight "${entry}", expected SYMBOL:PERCENT`);
+    const symbol = match[1].toUpperCase();
+    if (targets[symbol] !== undefined) throw new Error(`${symbol} is listed twice`);
+    targets[symbol] = parseFloat(match[2]);
+  });
+
+  const total = Object.values(targets).reduce((sum, weight) => sum + weight, 0);
+  if (total > 100 + 1e-9) throw new Error(`Target weights add up to ${total}%, more than 100%`);
+  if (total <= 0) throw new Error('Target weights add up to 0%');
+  return targets;
+}
+
+export function formatTargetWeights(targets: Record<string, number>): string {
+  return Object.entries(targets).map(([symbol, weight]) => `${symbol}:${weight}`).join(', ');
+}
+
+// Targets the risk engine would refuse are scaled back, the excess staying in
+// cash: no asset above the position or concentration cap, the basket within
+// the exposure cap less the cash buffer
+export function capTargetWeights(targets: Record<string, number>, limits: RiskLimits, cashBuffer: number = 0): Record<string, number> {
+  const perAsset = Math.min(limits.maxPositionSize, limits.maxAssetConcentration);
+  const capped: Record<string, number> = {};
+  Object.entries(targets).forEach(([symbol, weight]) => {
+    capped[symbol] = Math.min(weight, perAsset);
+  });
+
+  const total = Object.values(capped).reduce((sum, weight) => sum + weight, 0);
+  const budget = Math.max(0, Math.min(100, limits.maxTotalExposure) - cashBuffer);
+  if (total > budget) {
+    Object.keys(capped).forEach(symbol => {
+      capped[symbol] *= budget / total;
+    });
+  }
+  return capped;
+}
+
+// Target vs actual weights; held assets outside the targets show with a target of 0
+export function allocationWeights(
+  targets: Record<string, number>,
+  effectiveTargets: Record<string, number>,
+  positions: Position[],
+  equity: number,
+): AllocationWeight[] {
+  const symbols = new Set([...Object.keys(targets), ...positions.filter(p => p.quantity > 0).map(p => p.symbol)]);
+  return Array.from(symbols).map(symbol => {
+    const value = positions
+      .filter(position => position.symbol === symbol)
+      .reduce((sum, position) => sum + position.quantity * position.currentPrice, 0);
+    const actual = equity > 0 ? (value / equity) * 100 : 0;
+    const effectiveTarget = effectiveTargets[symbol] ?? 0;
+    return { symbol, target: targets[symbol] ?? 0, effectiveTarget, actual, drift: actual - effectiveTarget };
+  });
+}
+
+// Holds a fixed basket and trades it back to its target weights on a
+// calendar schedule and/or once an asset drifts past the threshold. Only
+// assets that are off by at least minTradeValue trade, sells go first so
+// they fund the buys, and the targets are held within the RiskLimits.
+// The basket decides what the bot trades: enabledAssets is replaced by the
+// target symbols so the runtime fetches quotes for exactly those.
+export class RebalancingBot implements TradingBot<RebalancePosition> {
+  private static readonly DUST = 1e-9;
+  private static readonly MAX_EQUITY_HISTORY = 500;
+
+  private config: BotConfig;
+  private clock: Clock;
+  private rebalanceConfig: RebalanceConfig;
+  private riskLimits: RiskLimits;
+  private effectiveTargets: Record<string, number>;
+  private holdings: Map<string, RebalancePosition> = new Map();
+  private quotes: Map<string, MarketData> = new Map();
+  private cash: number;
+  private lastRebalance?: number;
+  private performance: BotPerformance;
+  private fills: number = 0;
+  private sells: number = 0;
+  private profitableSells: number = 0;
+  private equityHistory: number[] = [];
+  private peakEquity: number;
+  private maxDrawdown: number = 0;
+
+  constructor(
+    config: BotConfig,
+    rebalanceConfig?: Partial<RebalanceConfig>,
+    clock: Clock = systemClock,
+    riskLimits: RiskLimits = DEFAULT_RISK_LIMITS,
+  ) {
+    this.rebalanceConfig = { ...DEFAULT_REBALANCE_CONFIG, ...rebalanceConfig };
+    this.config = { ...config, enabledAssets: Object.keys(this.rebalanceConfig.targets) };
+    this.clock = clock;
+    this.riskLimits = riskLimits;
+    this.effectiveTargets = capTargetWeights(this.rebalanceConfig.targets, riskLimits, this.rebalanceConfig.cashBuffer);
+    this.cash = config.allocation;
+    this.peakEquity = config.allocation;
+    this.performance = {
+      totalPnL: 0,
+      totalPnLPercentage: 0,
+      winRate: 0,
+      totalTrades: 0,
+      maxDrawdown: 0,
+      sharpeRatio: 0,
+      lastUpdate: this.clock.now(),
+    };
+  }
+
+  analyzeMarket(marketData: MarketData[]): TradingSignal[] {
+    marketData.forEach(data => {
+      if (data.price > 0) this.quotes.set(data.symbol, data);
+    });
+    this.holdings.forEach(holding => this.markHolding(holding));
+
+    const equity = this.getEquity();
+    this.recordEquity(equity);
+    if (equity <= 0 || !this.isRebalanceDue()) return [];
+
+    this.lastRebalance = this.clock.now();
+    return this.generateRebalanceSignals(equity);
+  }
+
+  private isRebalanceDue(): boolean {
+    if (this.lastRebalance === undefined) return true;
+    const { schedule, driftThreshold } = this.rebalanceConfig;
+    if (this.clock.now() - this.lastRebalance >= SCHEDULE_MS[schedule]) return true;
+    // Drift is only measured on assets with a price
+    return driftThreshold > 0 && this.getAllocation().some(weight =>
+      this.quotes.has(weight.symbol) && Math.abs(weight.drift) > driftThreshold,
+    );
+  }
+
+  private generateRebalanceSignals(equity: number): TradingSignal[] {
+    const { minTradeValue, cashBuffer } = this.rebalanceConfig;
+    const now = this.clock.now();
+    const sells: TradingSignal[] = [];
+    const buys: { weight: AllocationWeight; quote: MarketData; value: number }[] = [];
+
+    this.getAllocation().forEach(weight => {
+      const quote = this.quotes.get(weight.symbol);
+      if (!quote) return;
+      const value = (-weight.drift / 100) * equity;
+      if (Math.abs(value) < minTradeValue) return;
+
+      if (value < 0) {
+        const held = this.holdings.get(weight.symbol)?.quantity ?? 0;
+        const quantity = Math.min(held, -value / quote.price);
+        if (quantity <= RebalancingBot.DUST) return;
+        sells.push(this.rebalanceSignal('SELL', weight, quote, quantity, now));
+      } else if (quote.volume >= this.riskLimits.minLiquidity) {
+        buys.push({ weight, quote, value });
+      }
+    });
+
+    // Buys are funded by cash and this round's sells, furthest behind first
+    let budget = this.cash
+      + sells.reduce((sum, signal) => sum + signal.quantity * signal.price, 0)
+      - (cashBuffer / 100) * equity;
+    const buySignals: TradingSignal[] = [];
+    buys
+      .sort((a, b) => a.weight.drift - b.weight.drift)
+      .forEach(({ weight, quote, value }) => {
+        const spend = Math.min(value, budget);
+        if (spend < minTradeValue) return;
+        budget -= spend;
+        buySignals.push(this.rebalanceSignal('BUY', weight, quote, spend / quote.price, now));
+      });
+
+    return [...sells, ...buySignals];
+  }
+
+  private rebalanceSignal(action: 'BUY' | 'SELL', weight: AllocationWeight, quote: MarketData, quantity: number, timestamp: number): TradingSignal {
+    return {
+      action,
+      symbol: weight.symbol,
+      confidence: 80,
+      price: quote.price,
+      quantity,
+      reason: `Rebalance ${weight.symbol}: ${weight.actual.toFixed(1)}% -> ${weight.effectiveTarget.toFixed(1)}% target`,
+      timestamp,
+      riskLevel: 'LOW',
+    };
+  }
+
+  private markHolding(holding: RebalancePosition): void {
+    const price = this.quotes.get(holding.symbol)?.price;
+    if (price !== undefined) holding.currentPrice = price;
+    holding.pnl = (holding.currentPrice - holding.entryPrice) * holding.quantity;
+    holding.pnlPercentage = holding.entryPrice > 0 ? ((holding.currentPrice - holding.entryPrice) / holding.entryPrice) * 100 : 0;
+  }
+
+  // Cash is the bot's own book of its fills; the exchange's fees are not
+  // reported back, which the cash buffer absorbs
+  updatePosition(symbol: string, action: 'BUY' | 'SELL', quantity: number, price: number): void {
+    const holding = this.holdings.get(symbol);
+    const now = this.clock.now();
+
+    if (action === 'BUY') {
+      this.cash -= quantity * price;
+      if (holding) {
+        holding.entryPrice = (holding.entryPrice * holding.quantity + price * quantity) / (holding.quantity + quantity);
+        holding.quantity += quantity;
+        holding.currentPrice = price;
+        holding.lastTrade = now;
+        this.markHolding(holding);
+      } else {
+        this.holdings.set(symbol, {
+          symbol,
+          quantity,
+          entryPrice: price,
+          currentPrice: price,
+          pnl: 0,
+          pnlPercentage: 0,
+          targetWeight: this.rebalanceConfig.targets[symbol] ?? 0,
+          lastTrade: now,
+        });
+      }
+    } else if (holding) {
+      const sold = Math.min(quantity, holding.quantity);
+      this.cash += sold * price;
+      this.sells++;
+      if (price > holding.entryPrice) this.profitableSells++;
+      holding.quantity -= sold;
+      holding.currentPrice = price;
+      holding.lastTrade = now;
+      if (holding.quantity <= RebalancingBot.DUST) {
+        this.holdings.delete(symbol);
+      } else {
+        this.markHolding(holding);
+      }
+    }
+
+    this.fills++;
+    this.updatePerformance();
+  }
+
+  private recordEquity(equity: number): void {
+    this.equityHistory.push(equity);
+    if (this.equityHistory.length > RebalancingBot.MAX_EQUITY_HISTORY * 2) {
+      this.equityHistory.splice(0, this.equityHistory.length - RebalancingBot.MAX_EQUITY_HISTORY);
+    }
+    this.updatePerformance();
+  }
+
+  private updatePerformance(): void {
+    const equity = this.getEquity();
+    this.peakEquity = Math.max(this.peakEquity, equity);
+    if (this.peakEquity > 0) {
+      this.maxDrawdown = Math.max(this.maxDrawdown, ((this.peakEquity - equity) / this.peakEquity) * 100);
+    }
+    const totalPnL = equity - this.config.allocation;
+
+    this.performance = {
+      totalPnL,
+      totalPnLPercentage: this.config.allocation > 0 ? (totalPnL / this.config.allocation) * 100 : 0,
+      winRate: this.sells > 0 ? (this.profitableSells / this.sells) * 100 : 0,
+      totalTrades: this.fills,
+      maxDrawdown: this.maxDrawdown,
+      sharpeRatio: this.calculateSharpeRatio(),
+      lastUpdate: this.clock.now(),
+    };
+  }
+
+  // Per-analysis equity returns
+  private calculateSharpeRatio(): number {
+    const returns = simpleReturns(this.equityHistory);
+    if (returns.length < 2) return 0;
+    const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+    const stdDev = standardDeviation(returns);
+    return stdDev > 0 ? mean / stdDev : 0;
+  }
+
+  getEquity(): number {
+    let value = this.cash;
+    this.holdings.forEach(holding => {
+      value += holding.quantity * holding.currentPrice;
+    });
+    return value;
+  }
+
+  getAllocation(): AllocationWeight[] {
+    return allocationWeights(this.rebalanceConfig.targets, this.effectiveTargets, this.getNormalizedPositions(), this.getEquity());
+  }
+
+  getLastRebalance(): number | undefined {
+    return this.lastRebalance;
+  }
+
+  getPositions(): RebalancePosition[] {
+    return Array.from(this.holdings.values());
+  }
+
+  getNormalizedPositions(): Position[] {
+    return this.getPositions().map(holding => ({
+      symbol: holding.symbol,
+      quantity: holding.quantity,
+      entryPrice: holding.entryPrice,
+      currentPrice: holding.currentPrice,
+      pnl: holding.pnl,
+      pnlPercentage: holding.pnlPercentage,
+      timestamp: holding.lastTrade,
+    }));
+  }
+
+  getPerformance(): BotPerformance {
+    return this.performance;
+  }
+
+  getConfig(): BotConfig {
+    return this.config;
+  }
+
+  getRebalanceConfig(): RebalanceConfig {
+    return this.rebalanceConfig;
+  }
+}
@@ -2,6 +2,12 @@
 // ADVANCED RISK MANAGEMENT & ALGORITHM OPTIMIZER
 // ============================================================================
 
+import { Clock, systemClock } from './Clock';
+import { linearRegression } from './indicators/Trend';
+import { simpleReturns, standardDeviation } from './indicators/Volatility';
+import { MarketData, Position, TradingSignal } from './MomentumTradingBot';
+import { estimateVaR, VaREstimate, VaROptions } from './ValueAtRisk';
+
 export interface RiskMetrics {
   portfolioValue: number;
   totalExposure: number;
@@ -10,8 +16,8 @@ export interface RiskMetrics {
   sharpeRatio: number;
   sortinoRatio: number;
   calmarRatio: number;
-  var95: number; // Value at Risk 95%
-  cvar95: number; // Conditional Value at Risk 95%
+  var95: number; // historical Value at Risk 95% over one period, % loss
+  cvar95: number; // historical Conditional Value at Risk 95%, % loss
   beta: number;
   correlation: number;
   volatility: number;
@@ -29,6 +35,7 @@ export interface MarketCondition {
 
 export interface RiskLimits {
   maxPositionSize: number; // % of portfolio
+  maxAssetConcentration: number; // % of portfolio in one asset across all bots
   maxTotalExposure: number; // % of portfolio
   maxDrawdown: number; // % of portfolio
   maxCorrelation: number; // 0-1
@@ -38,29 +45,205 @@ export interface RiskLimits {
   emergencyStopLoss: number; // % of portfolio
 }
 
-export interface OptimizationResult {
-  algorithm: string;
-  optimized: boolean;
-  improvements: string[];
-  newParameters: Record<string, any>;
-  expectedImprovement: number; // % improvement
-  riskReduction: number; // % risk reduction
-  confidence: number; // 0-100
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxPositionSize: 25,
+  maxAssetConcentration: 40,
+  maxTotalExposure: 100,
+  maxDrawdown: 20,
+  maxCorrelation: 0.8,
+  maxVolatility: 10,
+  minLiquidity: 0,
+  maxLeverage: 1,
+  emergencyStopLoss: 30,
+};
+
+export interface CorrelationConfig {
+  benchmark: string; // symbol betas are measured against
+  window: number; // most recent returns kept per symbol
+  minObservations: number; // aligned returns needed before a pair counts
 }
 
+export const DEFAULT_CORRELATION_CONFIG: CorrelationConfig = {
+  benchmark: 'BTC',
+  window: 200,
+  minObservations: 20,
+};
+
 export class RiskManager {
   private riskLimits: RiskLimits;
   private marketHistory: MarketData[] = [];
   private performanceHistory: Array<{timestamp: number, value: number, drawdown: number}> = [];
   private correlationMatrix: Map<string, Map<string, number>> = new Map();
-
-  constructor(riskLimits: RiskLimits) {
+  private clock: Clock;
+  private correlationConfig: CorrelationConfig;
+  // Log returns per symbol, tagged with the update round they arrived in so
+  // symbols are compared over the same periods
+  private returnHistory: Map<string, { round: number; value: number; timestamp: number }[]> = new Map();
+  private lastPrices: Map<string, { timestamp: number; price: number }> = new Map();
+  private round: number = 0;
+
+  constructor(riskLimits: RiskLimits, clock: Clock = systemClock, correlationConfig: Partial<CorrelationConfig> = {}) {
     this.riskLimits = riskLimits;
+    this.clock = clock;
+    this.correlationConfig = { ...DEFAULT_CORRELATION_CONFIG, ...correlationConfig };
+  }
+
+  // Records one return per symbol whose quote moved forward in time. Feeding
+  // the same quotes again is a no-op, so every caller can pass what it has.
+  updateReturnHistory(marketData: MarketData[]): void {
+    const round = this.round + 1;
+    let recorded = false;
+
+    marketData.forEach(data => {
+      if (!(data.price > 0)) return;
+      const last = this.lastPrices.get(data.symbol);
+      if (last && data.timestamp <= last.timestamp) return;
+      this.lastPrices.set(data.symbol, { timestamp: data.timestamp, price: data.price });
+      if (!last) return;
+
+      const history = this.returnHistory.get(data.symbol) || [];
+      history.push({ round, value: Math.log(data.price / last.price), timestamp: data.timestamp });
+      if (history.length > this.correlationConfig.window) history.shift();
+      this.returnHistory.set(data.symbol, history);
+      this.invalidateCorrelations(data.symbol);
+      recorded = true;
+    });
+
+    if (recorded) this.round = round;
+  }
+
+  // Pearson correlation of aligned returns; undefined until both symbols share
+  // minObservations periods
+  getCorrelation(symbolA: string, symbolB: string): number | undefined {
+    if (symbolA === symbolB) return 1;
+
+    const cached = this.correlationMatrix.get(symbolA)?.get(symbolB);
+    if (cached !== undefined) return cached;
+
+    const aligned = this.alignedReturns(symbolA, symbolB);
+    if (!aligned) return undefined;
+
+    const [a, b] = aligned;
+    const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+    const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+    for (let i = 0; i < a.length; i++) {
+      covariance += (a[i] - meanA) * (b[i] - meanB);
+      varianceA += Math.pow(a[i] - meanA, 2);
+      varianceB += Math.pow(b[i] - meanB, 2);
+    }
+    const correlation = varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+
+    this.cacheCorrelation(symbolA, symbolB, correlation);
+    return correlation;
+  }
+
+  // Beta of a symbol's returns against the benchmark; undefined without enough history
+  getBeta(symbol: string): number | undefined {
+    const benchmark = this.correlationConfig.benchmark;
+    if (symbol === benchmark) return 1;
+
+    const aligned = this.alignedReturns(symbol, benchmark);
+    if (!aligned) return undefined;
+
+    const [asset, market] = aligned;
+    const meanAsset = asset.reduce((sum, value) => sum + value, 0) / asset.length;
+    const meanMarket = market.reduce((sum, value) => sum + value, 0) / market.length;
+    let covariance = 0;
+    let variance = 0;
+    for (let i = 0; i < asset.length; i++) {
+      covariance += (asset[i] - meanAsset) * (market[i] - meanMarket);
+      variance += Math.pow(market[i] - meanMarket, 2);
+    }
+    return variance > 0 ? covariance / variance : undefined;
+  }
+
+  // Symmetric matrix in the given order; pairs without enough history are 0
+  getCorrelationMatrix(symbols: string[]): number[][] {
+    return symbols.map(a => symbols.map(b => this.getCorrelation(a, b) ?? 0));
+  }
+
+  // Value-weighted average pairwise correlation between holdings. A long and
+  // a short leg offset each other, so their correlation counts negated: a
+  // hedged pair lowers the figure instead of raising it.
+  calculatePortfolioCorrelation(positions: Position[], marketData: MarketData[]): number {
+    const weights = this.positionWeights(positions, marketData);
+    if (weights.length < 2) return 0;
+
+    let weighted = 0;
+    let totalWeight = 0;
+    for (let i = 0; i < weights.length; i++) {
+      for (let j = i + 1; j < weights.length; j++) {
+        const correlation = this.getCorrelation(weights[i].symbol, weights[j].symbol);
+        if (correlation === undefined) continue;
+        const pairWeight = weights[i].weight * weights[j].weight;
+        weighted += pairWeight * correlation;
+        totalWeight += Math.abs(pairWeight);
+      }
+    }
+
+    return totalWeight > 0 ? weighted / totalWeight : 0;
+  }
+
+  // Value-weighted simple returns of the current holdings over the update
+  // rounds every held symbol has a return for. Weights are shares of
+  // totalValue (default: the holdings' value) so cash dilutes the returns.
+  // Holdings without any history yet are left out.
+  getPortfolioReturns(positions: Position[], marketData: MarketData[], totalValue?: number): { returns: number[]; periodMs: number } {
+    const values = this.positionWeights(positions, marketData);
+    const tracked = values.filter(({ symbol }) => this.returnHistory.has(symbol));
+    if (tracked.length === 0) return { returns: [], periodMs: 0 };
+
+    const holdingsValue = this.calculateTotalExposure(positions, marketData);
+    const scale = totalValue && totalValue > 0 ? holdingsValue / totalValue : 1;
+    const histories = tracked.map(({ symbol }) => new Map(this.returnHistory.get(symbol)!.map(entry => [entry.round, entry])));
+    const rounds = Array.from(histories[0].keys()).filter(round => histories.every(history => history.has(round)));
+
+    const returns = rounds.map(round => tracked.reduce(
+      (sum, { weight }, i) => sum + weight * scale * (Math.exp(histories[i].get(round)!.value) - 1),
+      0,
+    ));
+    const first = histories[0].get(rounds[0]);
+    const last = histories[0].get(rounds[rounds.length - 1]);
+    const periodMs = rounds.length > 1 && first && last ? (last.timestamp - first.timestamp) / (rounds.length - 1) : 0;
+
+    return { returns, periodMs };
+  }
+
+  // VaR/CVaR of the current holdings at each configured horizon and confidence
+  calculateValueAtRisk(positions: Position[], marketData: MarketData[], options: Partial<VaROptions> = {}, totalValue?: number): VaREstimate[] {
+    const { returns, periodMs } = this.getPortfolioReturns(positions, marketData, totalValue);
+    return estimateVaR(returns, periodMs, options);
+  }
+
+  // Worst compounded move of a symbol over any window of the given length in
+  // its return history; undefined when the history is shorter than that
+  getWorstMove(symbol: string, horizonMs: number): number | undefined {
+    const history = this.returnHistory.get(symbol);
+    if (!history || history.length < 2) return undefined;
+
+    // Cumulative log price at each return's timestamp
+    const levels: number[] = [];
+    history.forEach((entry, i) => levels.push((i > 0 ? levels[i - 1] : 0) + entry.value));
+
+    let worst: number | undefined;
+    let start = 0;
+    for (let end = 1; end < history.length; end++) {
+      // Latest start still at least horizonMs before the end
+      while (start + 1 < end && history[end].timestamp - history[start + 1].timestamp >= horizonMs) start++;
+      if (history[end].timestamp - history[start].timestamp < horizonMs) continue;
+      const move = Math.exp(levels[end] - levels[start]) - 1;
+      worst = worst === undefined ? move : Math.min(worst, move);
+    }
+    return worst;
   }
 
   // Analyze market conditions for risk assessment
   analyzeMarketConditions(marketData: MarketData[]): MarketCondition {
     this.updateMarketHistory(marketData);
+    this.updateReturnHistory(marketData);
     
     const trend = this.analyzeTrend(marketData);
     const volatility = this.analyzeVolatility(marketData);
@@ -88,10 +271,12 @@ export class RiskManager {
     const sharpeRatio = this.calculateSharpeRatio();
     const sortinoRatio = this.calculateSortinoRatio();
     const calmarRatio = this.calculateCalmarRatio();
-    const var95 = this.calculateVaR(0.95);
-    const cvar95 = this.calculateCVaR(0.95);
+    // A zero horizon is a single return period
+    const [tail95] = this.calculateValueAtRisk(positions, marketData, { confidenceLevels: [0.95], horizonsMs: [0] });
+    const var95 = tail95?.historicalVaR ?? 0;
+    const cvar95 = tail95?.historicalCVaR ?? 0;
     const beta = this.calculateBeta(positions, marketData);
-    const correlation = this.calculatePortfolioCorrelation(positions);
+    const correlation = this.calculatePortfolioCorrelation(positions, marketData);
     const volatility = this.calculatePortfolioVolatility(positions, marketData);
 
     return {
@@ -107,12 +292,13 @@ export class RiskManager {
       beta,
       correlation,
       volatility,
-      lastUpdated: Date.now(),
+      lastUpdated: this.clock.now(),
     };
   }
 
-  // Validate trading signals against risk limits
-  validateSignal(signal: TradingSignal, positions: Position[], marketData: MarketData[]): {
+  // Validate trading signals against risk limits. Size and exposure are
+  // percentages of the account's equity (cash plus holdings at market).
+  validateSignal(signal: TradingSignal, positions: Position[], marketData: MarketData[], equity: number): {
     approved: boolean;
     adjustedQuantity?: number;
     reason: string;
@@ -121,23 +307,54 @@ export class RiskManager {
     const riskMetrics = this.calculateRiskMetrics(positions, marketData);
     const marketCondition = this.analyzeMarketConditions(marketData);
 
-    // Check position size limits
-    const positionValue = signal.quantity * signal.price;
-    const positionSizePercent = (positionValue / riskMetrics.portfolioValue) * 100;
-    
-    if (positionSizePercent > this.riskLimits.maxPositionSize) {
-      const adjustedQuantity = (this.riskLimits.maxPositionSize / 100) * riskMetrics.portfolioValue / signal.price;
+    if (signal.action !== 'HOLD' && !(signal.quantity > 0)) {
+      return {
+        approved: false,
+        reason: 'Signal has no quantity',
+        riskLevel: 'LOW',
+      };
+    }
+
+    // Closing out a holding only ever lowers risk, so no limit may cut it
+    // back or hold it up
+    if (this.reducesPosition(signal, positions)) {
       return {
         approved: true,
-        adjustedQuantity,
-        reason: `Position size reduced from ${positionSizePercent.toFixed(2)}% to ${this.riskLimits.maxPositionSize}%`,
+        reason: 'Signal reduces an existing position',
+        riskLevel: 'LOW',
+      };
+    }
+
+    if (!(equity > 0)) {
+      return {
+        approved: false,
+        reason: 'Account has no equity to trade',
         riskLevel: 'HIGH',
       };
     }
 
-    // Check total exposure limits
-    const newTotalExposure = riskMetrics.totalExposure + positionValue;
-    const exposurePercent = (newTotalExposure / riskMetrics.portfolioValue) * 100;
+    // Check position size limits; an oversized signal is cut back and still
+    // has to pass every later check at its reduced size
+    let quantity = signal.quantity;
+    let sizeReason: string | undefined;
+    const positionSizePercent = (signal.quantity * signal.price / equity) * 100;
+    
+    if (positionSizePercent > this.riskLimits.maxPositionSize) {
+      quantity = (this.riskLimits.maxPositionSize / 100) * equity / signal.price;
+      if (!(quantity > 0)) {
+        return {
+          approved: false,
+          reason: `Position size ${positionSizePercent.toFixed(2)}% exceeds ${this.riskLimits.maxPositionSize}% and cannot be reduced`,
+          riskLevel: 'HIGH',
+        };
+      }
+      sizeReason = `Position size reduced from ${positionSizePercent.toFixed(2)}% to ${this.riskLimits.maxPositionSize}%`;
+    }
+
+    // Check total exposure limits. Exposure is gross, so a short adds to it
+    // just like a long of the same size.
+    const newTotalExposure = riskMetrics.totalExposure + quantity * signal.price;
+    const exposurePercent = (newTotalExposure / equity) * 100;
     
     if (exposurePercent > this.riskLimits.maxTotalExposure) {
       return {
@@ -147,11 +364,13 @@ export class RiskManager {
       };
     }
 
-    // Check drawdown limits
-    if (riskMetrics.currentDrawdown > this.riskLimits.maxDrawdown) {
+    // Check drawdown limits; the performance history records account equity,
+    // so the drawdown is measured on equity too
+    const currentDrawdown = this.calculateCurrentDrawdown(equity);
+    if (currentDrawdown > this.riskLimits.maxDrawdown) {
       return {
         approved: false,
-        reason: `Current drawdown exceeds limit: ${riskMetrics.currentDrawdown.toFixed(2)}% > ${this.riskLimits.maxDrawdown}%`,
+        reason: `Current drawdown exceeds limit: ${currentDrawdown.toFixed(2)}% > ${this.riskLimits.maxDrawdown}%`,
         riskLevel: 'HIGH',
       };
     }
@@ -165,13 +384,16 @@ export class RiskManager {
       };
     }
 
-    // Check correlation limits
-    if (riskMetrics.correlation > this.riskLimits.maxCorrelation) {
-      return {
-        approved: false,
-        reason: `Portfolio correlation exceeds limit: ${riskMetrics.correlation.toFixed(2)} > ${this.riskLimits.maxCorrelation}`,
-        riskLevel: 'MEDIUM',
-      };
+    // Check correlation limits on the portfolio the trade would leave behind
+    if (signal.action === 'BUY' || signal.short) {
+      const prospective = this.calculatePortfolioCorrelation(this.withSignal(positions, { ...signal, quantity }), marketData);
+      if (prospective > this.riskLimits.maxCorrelation) {
+        return {
+          approved: false,
+          reason: `Portfolio correlation would exceed limit: ${prospective.toFixed(2)} > ${this.riskLimits.maxCorrelation}`,
+          riskLevel: 'MEDIUM',
+        };
+      }
     }
 
     // Check market condition adjustments
@@ -190,6 +412,15 @@ export class RiskManager {
       };
     }
 
+    if (sizeReason) {
+      return {
+        approved: true,
+        adjustedQuantity: quantity,
+        reason: sizeReason,
+        riskLevel: 'HIGH',
+      };
+    }
+
     return {
       approved: true,
       reason: 'Signal approved by risk management',
@@ -197,7 +428,7 @@ export class RiskManager {
     };
   }
 
-  // Emergency risk management actions
+  // Emergency risk management actions; shorts are bought back rather than sold
   emergencyRiskManagement(positions: Position[], marketData: MarketData[]): TradingSignal[] {
     const signals: TradingSignal[] = [];
     const riskMetrics = this.calculateRiskMetrics(positions, marketData);
@@ -207,13 +438,13 @@ export class RiskManager {
     if (riskMetrics.currentDrawdown > this.riskLimits.emergencyStopLoss) {
       positions.forEach(position => {
         signals.push({
-          action: 'SELL',
+          action: position.quantity < 0 ? 'BUY' : 'SELL',
           symbol: position.symbol,
           confidence: 100,
           price: position.currentPrice,
-          quantity: position.quantity,
+          quantity: Math.abs(position.quantity),
           reason: `Emergency stop-loss: Drawdown ${riskMetrics.currentDrawdown.toFixed(2)}% exceeds ${this.riskLimits.emergencyStopLoss}%`,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
           riskLevel: 'HIGH',
         });
       });
@@ -223,27 +454,29 @@ export class RiskManager {
     if (marketCondition.volatility === 'EXTREME' && marketCondition.sentiment === 'FEAR') {
       positions.forEach(position => {
         const reductionPercent = 0.5; // Reduce by 50%
-        const reduceQuantity = position.quantity * reductionPercent;
+        const reduceQuantity = Math.abs(position.quantity) * reductionPercent;
         
         signals.push({
-          action: 'SELL',
+          action: position.quantity < 0 ? 'BUY' : 'SELL',
           symbol: position.symbol,
           confidence: 95,
           price: position.currentPrice,
           quantity: reduceQuantity,
           reason: `Risk reduction: Extreme market volatility and fear sentiment`,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
           riskLevel: 'HIGH',
         });
       });
     }
 
-    // Correlation-based position reduction
-    if (riskMetrics.correlation > this.riskLimits.maxCorrelation * 1.5) {
+    // Correlation-based position reduction, halfway between the limit and
+    // perfect correlation
+    const emergencyCorrelation = this.riskLimits.maxCorrelation + (1 - this.riskLimits.maxCorrelation) / 2;
+    if (riskMetrics.correlation > emergencyCorrelation) {
       // Reduce positions with highest correlation
-      const sortedPositions = positions.sort((a, b) => {
-        const correlationA = this.getPositionCorrelation(a.symbol, positions);
-        const correlationB = this.getPositionCorrelation(b.symbol, positions);
+      const sortedPositions = [...positions].sort((a, b) => {
+        const correlationA = this.getPositionCorrelation(a.symbol, positions, marketData);
+        const correlationB = this.getPositionCorrelation(b.symbol, positions, marketData);
         return correlationB - correlationA;
       });
 
@@ -251,13 +484,13 @@ export class RiskManager {
       const positionsToReduce = sortedPositions.slice(0, Math.ceil(sortedPositions.length / 2));
       positionsToReduce.forEach(position => {
         signals.push({
-          action: 'SELL',
+          action: position.quantity < 0 ? 'BUY' : 'SELL',
           symbol: position.symbol,
           confidence: 85,
           price: position.currentPrice,
-          quantity: position.quantity * 0.3, // Reduce by 30%
+          quantity: Math.abs(position.quantity) * 0.3, // Reduce by 30%
           reason: `Correlation reduction: High portfolio correlation ${riskMetrics.correlation.toFixed(2)}`,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
           riskLevel: 'MEDIUM',
         });
       });
@@ -266,190 +499,6 @@ export class RiskManager {
     return signals;
   }
 
-  // Optimize algorithm parameters based on market conditions
-  optimizeAlgorithm(algorithm: string, currentParams: Record<string, any>, marketCondition: MarketCondition): OptimizationResult {
-    const optimizations: OptimizationResult = {
-      algorithm,
-      optimized: false,
-      improvements: [],
-      newParameters: { ...currentParams },
-      expectedImprovement: 0,
-      riskReduction: 0,
-      confidence: 0,
-    };
-
-    switch (algorithm) {
-      case 'momentum':
-        return this.optimizeMomentumAlgorithm(currentParams, marketCondition);
-      case 'dca':
-        return this.optimizeDCAAlgorithm(currentParams, marketCondition);
-      case 'staking':
-        return this.optimizeStakingAlgorithm(currentParams, marketCondition);
-      case 'cci':
-        return this.optimizeCCIAlgorithm(currentParams, marketCondition);
-      default:
-        return optimizations;
-    }
-  }
-
-  private optimizeMomentumAlgorithm(params: Record<string, any>, marketCondition: MarketCondition): OptimizationResult {
-    const result: OptimizationResult = {
-      algorithm: 'momentum',
-      optimized: false,
-      improvements: [],
-      newParameters: { ...params },
-      expectedImprovement: 0,
-      riskReduction: 0,
-      confidence: 0,
-    };
-
-    // Adjust parameters based on market conditions
-    if (marketCondition.volatility === 'EXTREME') {
-      result.newParameters.maxPositions = Math.max(2, Math.floor(params.maxPositions * 0.5));
-      result.newParameters.stopLoss = Math.min(5, params.stopLoss * 0.7);
-      result.improvements.push('Reduced position count and tighter stop-loss for extreme volatility');
-      result.riskReduction += 20;
-    }
-
-    if (marketCondition.trend === 'BEAR') {
-      result.newParameters.rebalanceFrequency = Math.max(60, params.rebalanceFrequency * 1.5); // minutes
-      result.newParameters.momentumThreshold = Math.max(0.05, params.momentumThreshold * 1.2);
-      result.improvements.push('Increased rebalance frequency and momentum threshold for bear market');
-      result.riskReduction += 15;
-    }
-
-    if (marketCondition.sentiment === 'FEAR') {
-      result.newParameters.maxPositionSize = Math.max(0.05, params.maxPositionSize * 0.8);
-      result.improvements.push('Reduced position size for fear sentiment');
-      result.riskReduction += 10;
-    }
-
-    if (marketCondition.volatility === 'LOW' && marketCondition.trend === 'BULL') {
-      result.newParameters.maxPositions = Math.min(10, params.maxPositions * 1.2);
-      result.newParameters.momentumThreshold = Math.max(0.02, params.momentumThreshold * 0.8);
-      result.improvements.push('Increased position count and lowered momentum threshold for stable bull market');
-      result.expectedImprovement += 15;
-    }
-
-    result.optimized = result.improvements.length > 0;
-    result.confidence = Math.min(90, 60 + result.improvements.length * 10);
-
-    return result;
-  }
-
-  private optimizeDCAAlgorithm(params: Record<string, any>, marketCondition: MarketCondition): OptimizationResult {
-    const result: OptimizationResult = {
-      algorithm: 'dca',
-      optimized: false,
-      improvements: [],
-      newParameters: { ...params },
-      expectedImprovement: 0,
-      riskReduction: 0,
-      confidence: 0,
-    };
-
-    // Adjust DCA parameters based on market conditions
-    if (marketCondition.volatility === 'HIGH' || marketCondition.volatility === 'EXTREME') {
-      result.newParameters.frequency = 'WEEKLY'; // Slow down DCA in high volatility
-      result.newParameters.amount = Math.max(params.amount * 0.7, params.amount * 0.5);
-      result.improvements.push('Reduced DCA frequency and amount for high volatility');
-      result.riskReduction += 25;
-    }
-
-    if (marketCondition.trend === 'BEAR') {
-      result.newParameters.amount = Math.max(params.amount * 0.8, params.amount * 0.6);
-      result.improvements.push('Reduced DCA amount for bear market');
-      result.riskReduction += 15;
-    }
-
-    if (marketCondition.trend === 'BULL' && marketCondition.volatility === 'LOW') {
-      result.newParameters.amount = Math.min(params.amount * 1.3, params.amount * 1.5);
-      result.improvements.push('Increased DCA amount for stable bull market');
-      result.expectedImprovement += 20;
-    }
-
-    result.optimized = result.improvements.length > 0;
-    result.confidence = Math.min(85, 70 + result.improvements.length * 8);
-
-    return result;
-  }
-
-  private optimizeStakingAlgorithm(params: Record<string, any>, marketCondition: MarketCondition): OptimizationResult {
-    const result: OptimizationResult = {
-      algorithm: 'staking',
-      optimized: false,
-      improvements: [],
-      newParameters: { ...params },
-      expectedImprovement: 0,
-      riskReduction: 0,
-      confidence: 0,
-    };
-
-    // Adjust staking parameters based on market conditions
-    if (marketCondition.volatility === 'EXTREME') {
-      result.newParameters.maxStakePercent = Math.max(0.1, params.maxStakePercent * 0.5);
-      result.newParameters.minAPY = Math.max(5, params.minAPY * 1.2);
-      result.improvements.push('Reduced staking allocation and increased minimum APY for extreme volatility');
-      result.riskReduction += 30;
-    }
-
-    if (marketCondition.trend === 'BEAR') {
-      result.newParameters.lockPeriodPreference = 'SHORT'; // Prefer shorter lock periods
-      result.improvements.push('Prefer shorter lock periods for bear market');
-      result.riskReduction += 20;
-    }
-
-    if (marketCondition.trend === 'BULL' && marketCondition.volatility === 'LOW') {
-      result.newParameters.maxStakePercent = Math.min(0.8, params.maxStakePercent * 1.2);
-      result.improvements.push('Increased staking allocation for stable bull market');
-      result.expectedImprovement += 25;
-    }
-
-    result.optimized = result.improvements.length > 0;
-    result.confidence = Math.min(80, 65 + result.improvements.length * 7);
-
-    return result;
-  }
-
-  private optimizeCCIAlgorithm(params: Record<string, any>, marketCondition: MarketCondition): OptimizationResult {
-    const result: OptimizationResult = {
-      algorithm: 'cci',
-      optimized: false,
-      improvements: [],
-      newParameters: { ...params },
-      expectedImprovement: 0,
-      riskReduction: 0,
-      confidence: 0,
-    };
-
-    // Adjust CCI parameters based on market conditions
-    if (marketCondition.volatility === 'EXTREME') {
-      result.newParameters.overboughtLevel = Math.min(150, params.overboughtLevel * 1.2);
-      result.newParameters.oversoldLevel = Math.max(-150, params.oversoldLevel * 1.2);
-      result.newParameters.period = Math.max(15, params.period * 0.8);
-      result.improvements.push('Adjusted CCI levels and period for extreme volatility');
-      result.riskReduction += 20;
-    }
-
-    if (marketCondition.trend === 'SIDEWAYS') {
-      result.newParameters.overboughtLevel = Math.min(120, params.overboughtLevel * 1.1);
-      result.newParameters.oversoldLevel = Math.max(-120, params.oversoldLevel * 1.1);
-      result.improvements.push('Tightened CCI levels for sideways market');
-      result.expectedImprovement += 10;
-    }
-
-    if (marketCondition.volume === 'LOW') {
-      result.newParameters.volumeThreshold = Math.max(1.5, params.volumeThreshold * 1.2);
-      result.improvements.push('Increased volume threshold for low volume conditions');
-      result.riskReduction += 15;
-    }
-
-    result.optimized = result.improvements.length > 0;
-    result.confidence = Math.min(85, 70 + result.improvements.length * 8);
-
-    return result;
-  }
-
   // Helper methods for risk calculations
   private updateMarketHistory(marketData: MarketData[]): void {
     this.marketHistory.push(...marketData);
@@ -476,12 +525,7 @@ export class RiskManager {
   private analyzeVolatility(marketData: MarketData[]): 'LOW' | 'MEDIUM' | 'HIGH' | 'EXTREME' {
     if (marketData.length < 10) return 'MEDIUM';
     
-    const returns = [];
-    for (let i = 1; i < marketData.length; i++) {
-      returns.push((marketData[i].price - marketData[i - 1].price) / marketData[i - 1].price);
-    }
-    
-    const volatility = Math.sqrt(returns.reduce((sum, ret) => sum + ret * ret, 0) / returns.length);
+    const volatility = standardDeviation(simpleReturns(marketData.map(d => d.price)));
     
     if (volatility < 0.02) return 'LOW';
     if (volatility < 0.05) return 'MEDIUM';
@@ -521,28 +565,7 @@ export class RiskManager {
   private calculateTrendStrength(marketData: MarketData[]): number {
     if (marketData.length < 10) return 50;
     
-    const prices = marketData.map(d => d.price);
-    const n = prices.length;
-    const x = Array.from({length: n}, (_, i) => i);
-    
-    const sumX = x.reduce((a, b) => a + b, 0);
-    const sumY = prices.reduce((a, b) => a + b, 0);
-    const sumXY = x.reduce((sum, xi, i) => sum + xi * prices[i], 0);
-    const sumXX = x.reduce((sum, xi) => sum + xi * xi, 0);
-    
-    const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-    const meanY = sumY / n;
-    
-    let ssRes = 0;
-    let ssTot = 0;
-    
-    for (let i = 0; i < n; i++) {
-      const predicted = slope * x[i];
-      ssRes += Math.pow(prices[i] - predicted, 2);
-      ssTot += Math.pow(prices[i] - meanY, 2);
-    }
-    
-    const rSquared = ssTot > 0 ? 1 - (ssRes / ssTot) : 0;
+    const { rSquared } = linearRegression(marketData.map(d => d.price));
     return Math.max(0, Math.min(100, rSquared * 100));
   }
 
@@ -582,12 +605,16 @@ export class RiskManager {
   private calculatePortfolioValue(positions: Position[], marketData: MarketData[]): number {
     return positions.reduce((total, position) => {
       const assetData = marketData.find(d => d.symbol === position.symbol);
-      return total + (assetData ? position.quantity * assetData.price : position.value);
+      return total + position.quantity * (assetData ? assetData.price : position.currentPrice);
     }, 0);
   }
 
+  // Gross: a short adds to exposure just like a long of the same size
   private calculateTotalExposure(positions: Position[], marketData: MarketData[]): number {
-    return this.calculatePortfolioValue(positions, marketData);
+    return positions.reduce((total, position) => {
+      const assetData = marketData.find(d => d.symbol === position.symbol);
+      return total + Math.abs(position.quantity) * (assetData ? assetData.price : position.currentPrice);
+    }, 0);
   }
 
   private calculateMaxDrawdown(): number {
@@ -668,48 +695,13 @@ export class RiskManager {
     return Math.pow(1 + totalReturn, 365 / days) - 1;
   }
 
-  private calculateVaR(confidence: number): number {
-    if (this.performanceHistory.length < 10) return 0;
-    
-    const returns = [];
-    for (let i = 1; i < this.performanceHistory.length; i++) {
-      const ret = (this.performanceHistory[i].value - this.performanceHistory[i - 1].value) / this.performanceHistory[i - 1].value;
-      returns.push(ret);
-    }
-    
-    returns.sort((a, b) => a - b);
-    const index = Math.floor((1 - confidence) * returns.length);
-    return returns[index] * 100;
-  }
-
-  private calculateCVaR(confidence: number): number {
-    if (this.performanceHistory.length < 10) return 0;
-    
-    const returns = [];
-    for (let i = 1; i < this.performanceHistory.length; i++) {
-      const ret = (this.performanceHistory[i].value - this.performanceHistory[i - 1].value) / this.performanceHistory[i - 1].value;
-      returns.push(ret);
-    }
-    
-    returns.sort((a, b) => a - b);
-    const varIndex = Math.floor((1 - confidence) * returns.length);
-    const tailReturns = returns.slice(0, varIndex);
-    
-    return tailReturns.reduce((sum, ret) => sum + ret, 0) / tailReturns.length * 100;
-  }
-
+  // Value-weighted beta of the holdings against the benchmark; symbols without
+  // enough history count as moving with the market
   private calculateBeta(positions: Position[], marketData: MarketData[]): number {
-    // Simplified beta calculation
-    // In production, compare against a market index
-    return 1.0; // Placeholder
-  }
+    const weights = this.positionWeights(positions, marketData);
+    if (weights.length === 0) return 0;
 
-  private calculatePortfolioCorrelation(positions: Position[]): number {
-    if (positions.length < 2) return 0;
-    
-    // Simplified correlation calculation
-    // In production, calculate actual correlation matrix
-    return 0.3; // Placeholder
+    return weights.reduce((sum, { symbol, weight }) => sum + weight * (this.getBeta(symbol) ?? 1), 0);
   }
 
   private calculatePortfolioVolatility(positions: Position[], marketData: MarketData[]): number {
@@ -723,10 +715,7 @@ export class RiskManager {
       returns.push(ret);
     }
     
-    const meanReturn = returns.reduce((a, b) => a + b, 0) / returns.length;
-    const variance = returns.reduce((sum, ret) => sum + Math.pow(ret - meanReturn, 2), 0) / returns.length;
-    
-    return Math.sqrt(variance) * 100;
+    return standardDeviation(returns) * 100;
   }
 
   private getMarketConditionAdjustment(marketCondition: MarketCondition, signal: TradingSignal): {
@@ -788,16 +777,99 @@ export class RiskManager {
     return 'LOW';
   }
 
-  private getPositionCorrelation(symbol: string, positions: Position[]): number {
-    // Simplified correlation calculation
-    // In production, calculate actual correlation with other positions
-    return 0.3; // Placeholder
+  // Value-weighted average correlation of one holding with the others,
+  // negated against holdings on the opposite side
+  private getPositionCorrelation(symbol: string, positions: Position[], marketData: MarketData[]): number {
+    const weights = this.positionWeights(positions, marketData);
+    const direction = Math.sign(weights.find(weight => weight.symbol === symbol)?.weight ?? 1);
+    const others = weights.filter(weight => weight.symbol !== symbol);
+    let weighted = 0;
+    let totalWeight = 0;
+
+    others.forEach(({ symbol: other, weight }) => {
+      const correlation = this.getCorrelation(symbol, other);
+      if (correlation === undefined) return;
+      weighted += direction * weight * correlation;
+      totalWeight += Math.abs(weight);
+    });
+
+    return totalWeight > 0 ? weighted / totalWeight : 0;
+  }
+
+  // Share of the holdings' gross value per symbol, positions in the same
+  // symbol netted; shorts carry a negative weight
+  private positionWeights(positions: Position[], marketData: MarketData[]): { symbol: string; weight: number }[] {
+    const values = new Map<string, number>();
+    positions.forEach(position => {
+      const assetData = marketData.find(d => d.symbol === position.symbol);
+      const value = position.quantity * (assetData ? assetData.price : position.currentPrice);
+      values.set(position.symbol, (values.get(position.symbol) || 0) + value);
+    });
+
+    const total = Array.from(values.values()).reduce((sum, value) => sum + Math.abs(value), 0);
+    if (total <= 0) return [];
+    return Array.from(values.entries()).map(([symbol, value]) => ({ symbol, weight: value / total }));
+  }
+
+  // A plain sell of a long holding, or a buy no larger than the short it covers
+  private reducesPosition(signal: TradingSignal, positions: Position[]): boolean {
+    const held = positions
+      .filter(position => position.symbol === signal.symbol)
+      .reduce((total, position) => total + position.quantity, 0);
+    if (signal.action === 'SELL') return !signal.short && held > 0;
+    return signal.action === 'BUY' && held < 0 && signal.quantity <= -held;
+  }
+
+  private withSignal(positions: Position[], signal: TradingSignal): Position[] {
+    return [
+      ...positions,
+      {
+        symbol: signal.symbol,
+        quantity: signal.action === 'SELL' ? -signal.quantity : signal.quantity,
+        entryPrice: signal.price,
+        currentPrice: signal.price,
+        pnl: 0,
+        pnlPercentage: 0,
+        timestamp: signal.timestamp,
+      },
+    ];
+  }
+
+  private alignedReturns(symbolA: string, symbolB: string): [number[], number[]] | undefined {
+    const historyA = this.returnHistory.get(symbolA);
+    const historyB = this.returnHistory.get(symbolB);
+    if (!historyA || !historyB) return undefined;
+
+    const byRound = new Map(historyB.map(entry => [entry.round, entry.value]));
+    const a: number[] = [];
+    const b: number[] = [];
+    historyA.forEach(entry => {
+      const other = byRound.get(entry.round);
+      if (other === undefined) return;
+      a.push(entry.value);
+      b.push(other);
+    });
+
+    return a.length >= this.correlationConfig.minObservations ? [a, b] : undefined;
+  }
+
+  private cacheCorrelation(symbolA: string, symbolB: string, correlation: number): void {
+    [[symbolA, symbolB], [symbolB, symbolA]].forEach(([from, to]) => {
+      const row = this.correlationMatrix.get(from) || new Map<string, number>();
+      row.set(to, correlation);
+      this.correlationMatrix.set(from, row);
+    });
+  }
+
+  private invalidateCorrelations(symbol: string): void {
+    this.correlationMatrix.delete(symbol);
+    this.correlationMatrix.forEach(row => row.delete(symbol));
   }
 
   // Update performance history
   updatePerformanceHistory(portfolioValue: number): void {
     this.performanceHistory.push({
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       value: portfolioValue,
       drawdown: this.calculateCurrentDrawdown(portfolioValue),
     });
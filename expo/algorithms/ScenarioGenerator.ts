@@ -0,0 +1,120 @@
+// ============================================================================
+// SYNTHETIC SCENARIO GENERATION
+// ============================================================================
+
+import { MarketData } from './MomentumTradingBot';
+import { createRandom, deriveSeed, normal } from './Random';
+
+// A scripted move on top of the random path, e.g. a crash over 12 hours
+export interface ScenarioEvent {
+  startHour: number;
+  hours: number;
+  returnPct: number; // total move across the event, e.g. -50
+}
+
+export interface ScenarioParams {
+  drift: number; // expected return per day, %
+  volatility: number; // daily standard deviation of returns, %
+  jumpIntensity: number; // expected jumps per day
+  jumpSize: number; // standard deviation of a jump, %
+  symbols: number; // taken in order from SCENARIO_SYMBOLS
+  barIntervalMs: number;
+  startTime: number;
+  baseVolume: number; // USD per bar
+  volumeVariation: number; // 0-1, uniform noise around baseVolume
+  // Multiples of the start price a range-bound market is held within
+  range?: [number, number];
+  events?: ScenarioEvent[];
+}
+
+export const SCENARIO_SYMBOLS = [
+  { symbol: 'BTC', price: 100, supply: 19000000 },
+  { symbol: 'ETH', price: 50, supply: 120000000 },
+  { symbol: 'SOL', price: 20, supply: 450000000 },
+  { symbol: 'ADA', price: 1, supply: 35000000000 },
+  { symbol: 'DOT', price: 10, supply: 1400000000 },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const DEFAULT_SCENARIO_PARAMS: ScenarioParams = {
+  drift: 0,
+  volatility: 3,
+  jumpIntensity: 0,
+  jumpSize: 0,
+  symbols: 1,
+  barIntervalMs: HOUR_MS,
+  startTime: Date.UTC(2025, 0, 1),
+  baseVolume: 1250000,
+  volumeVariation: 0.2,
+};
+
+// Jump-diffusion price paths: log returns with drift and volatility scaled to
+// the bar interval, Poisson-like jumps and scripted events. change1h,
+// change24h and the 24h high/low are measured on the generated path. Each
+// symbol draws from its own stream derived from the seed, so the same seed and
+// params always produce the same data.
+export function generateScenarioData(params: ScenarioParams, days: number, seed: number): MarketData[] {
+  const barCount = Math.max(1, Math.round((days * DAY_MS) / params.barIntervalMs));
+  const dt = params.barIntervalMs / DAY_MS;
+  const barsPerHour = Math.max(1, Math.round(HOUR_MS / params.barIntervalMs));
+  const barsPerDay = Math.max(1, Math.round(DAY_MS / params.barIntervalMs));
+  const symbols = SCENARIO_SYMBOLS.slice(0, Math.max(1, Math.min(SCENARIO_SYMBOLS.length, params.symbols)));
+
+  const series = symbols.map(({ symbol, price: startPrice, supply }) => {
+    const random = createRandom(deriveSeed(seed, symbol));
+    const prices: number[] = [];
+    const data: MarketData[] = [];
+    let price = startPrice;
+
+    for (let i = 0; i < barCount; i++) {
+      const hour = (i * params.barIntervalMs) / HOUR_MS;
+      let logReturn = (params.drift / 100) * dt + (params.volatility / 100) * Math.sqrt(dt) * normal(random);
+      if (params.jumpIntensity > 0 && random() < params.jumpIntensity * dt) {
+        logReturn += (params.jumpSize / 100) * normal(random);
+      }
+
+      let inEvent = false;
+      (params.events || []).forEach(event => {
+        if (hour >= event.startHour && hour < event.startHour + event.hours) {
+          const eventBars = Math.max(1, (event.hours * HOUR_MS) / params.barIntervalMs);
+          logReturn += Math.log(1 + event.returnPct / 100) / eventBars;
+          inEvent = true;
+        }
+      });
+
+      if (i > 0) price *= Math.exp(logReturn);
+      if (params.range) {
+        price = Math.max(startPrice * params.range[0], Math.min(startPrice * params.range[1], price));
+      }
+      prices.push(price);
+
+      const hourAgo = prices[Math.max(0, i - barsPerHour)];
+      const dayAgo = prices[Math.max(0, i - barsPerDay)];
+      const lastDay = prices.slice(Math.max(0, i - barsPerDay + 1));
+      const noise = 1 + params.volumeVariation * (random() * 2 - 1);
+
+      data.push({
+        symbol,
+        price,
+        volume: params.baseVolume * noise * (inEvent ? 3 : 1),
+        timestamp: params.startTime + i * params.barIntervalMs,
+        change24h: (price / dayAgo - 1) * 100,
+        change1h: (price / hourAgo - 1) * 100,
+        high24h: Math.max(...lastDay),
+        low24h: Math.min(...lastDay),
+        marketCap: price * supply,
+      });
+    }
+
+    return data;
+  });
+
+  // Interleave symbols bar by bar so the stream is in time order
+  const interleaved: MarketData[] = [];
+  for (let i = 0; i < barCount; i++) {
+    series.forEach(data => interleaved.push(data[i]));
+  }
+  return interleaved;
+}
@@ -2,6 +2,11 @@
 // SMART STAKING BOT ALGORITHM
 // ============================================================================
 
+import { BotConfig, BotPerformance, MarketData, Position, TradingSignal } from './MomentumTradingBot';
+import { Clock, systemClock } from './Clock';
+import { PositionSizer } from './PositionSizer';
+import { TradingBot } from './TradingBot';
+
 export interface StakingOpportunity {
   symbol: string;
   platform: string;
@@ -20,11 +25,14 @@ export interface StakingPosition {
   symbol: string;
   platform: string;
   stakedAmount: number;
+  quantity: number;
+  entryPrice: number;
   apy: number;
   startDate: number;
   endDate: number;
   lockPeriod: number;
   compoundFrequency: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+  lastCompounded: number;
   estimatedRewards: number;
   actualRewards: number;
   status: 'ACTIVE' | 'UNLOCKING' | 'UNLOCKED';
@@ -40,16 +48,26 @@ export interface StakingAllocation {
   reason: string;
 }
 
-export class SmartStakingBot {
+export class SmartStakingBot implements TradingBot<StakingPosition> {
   private config: BotConfig;
+  private clock: Clock;
+  // One position per symbol, staked on the platform its first buy targeted
   private positions: Map<string, StakingPosition> = new Map();
+  // Platform each outstanding buy was signalled for, so the fill lands there
+  private targetPlatforms: Map<string, string> = new Map();
   private opportunities: Map<string, StakingOpportunity[]> = new Map();
+  // Recent prices per symbol, oldest first
+  private priceHistory: Map<string, number[]> = new Map();
   private performance: BotPerformance;
   private lastOptimization: number = 0;
+  private sizer: PositionSizer;
   private static readonly MAX_OPPS_PER_SYMBOL = 10;
+  private static readonly MAX_HISTORY = 100;
 
-  constructor(config: BotConfig) {
+  constructor(config: BotConfig, clock: Clock = systemClock) {
     this.config = config;
+    this.clock = clock;
+    this.sizer = new PositionSizer(config.sizing, config.maxPositions);
     this.performance = {
       totalPnL: 0,
       totalPnLPercentage: 0,
@@ -57,15 +75,22 @@ export class SmartStakingBot {
       totalTrades: 0,
       maxDrawdown: 0,
       sharpeRatio: 0,
-      lastUpdate: Date.now(),
+      lastUpdate: this.clock.now(),
     };
   }
 
   // Main staking optimization algorithm
   analyzeMarket(marketData: MarketData[]): TradingSignal[] {
     const signals: TradingSignal[] = [];
-    const now = Date.now();
+    const now = this.clock.now();
     
+    marketData.forEach(data => {
+      const history = this.priceHistory.get(data.symbol) || [];
+      history.push(data.price);
+      if (history.length > SmartStakingBot.MAX_HISTORY) history.shift();
+      this.priceHistory.set(data.symbol, history);
+    });
+
     // Update staking opportunities (in production, this would fetch from APIs)
     this.updateStakingOpportunities(marketData);
     
@@ -142,7 +167,7 @@ export class SmartStakingBot {
       liquidity: this.getLiquidity(asset.symbol, platform),
       compoundFrequency: this.getCompoundFrequency(platform),
       fees: this.getFees(platform),
-      lastUpdated: Date.now(),
+      lastUpdated: this.clock.now(),
     };
   }
 
@@ -341,10 +366,11 @@ export class SmartStakingBot {
     
     // Generate signals for rebalancing
     allocations.forEach(allocation => {
-      const currentPosition = this.positions.get(`${allocation.symbol}-${allocation.platform}`);
+      const currentPosition = this.positions.get(allocation.symbol);
       
       if (!currentPosition) {
         // New staking position
+        this.targetPlatforms.set(allocation.symbol, allocation.platform);
         signals.push({
           action: 'BUY',
           symbol: allocation.symbol,
@@ -352,10 +378,13 @@ export class SmartStakingBot {
           price: marketData.find(d => d.symbol === allocation.symbol)?.price || 0,
           quantity: allocation.amount / (marketData.find(d => d.symbol === allocation.symbol)?.price || 1),
           reason: `Optimal staking allocation: ${allocation.apy.toFixed(2)}% APY on ${allocation.platform}`,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
           riskLevel: this.getRiskLevel(allocation.symbol, allocation.platform),
         });
-      } else if (Math.abs(currentPosition.stakedAmount - allocation.amount) / allocation.amount > 0.1) {
+      } else if (
+        currentPosition.status === 'ACTIVE' &&
+        Math.abs(currentPosition.stakedAmount - allocation.amount) / allocation.amount > 0.1
+      ) {
         // Rebalance existing position
         const amountDiff = allocation.amount - currentPosition.stakedAmount;
         signals.push({
@@ -365,7 +394,7 @@ export class SmartStakingBot {
           price: marketData.find(d => d.symbol === allocation.symbol)?.price || 0,
           quantity: Math.abs(amountDiff) / (marketData.find(d => d.symbol === allocation.symbol)?.price || 1),
           reason: 'Rebalancing staking position',
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
           riskLevel: 'MEDIUM',
         });
       }
@@ -374,40 +403,49 @@ export class SmartStakingBot {
     return signals;
   }
 
+  // Target stake per symbol. Targets are shares of the whole allocation, so
+  // existing positions are measured against the same figure that opened them.
   private calculateOptimalAllocations(marketData: MarketData[]): StakingAllocation[] {
     const allocations: StakingAllocation[] = [];
-    
-    // Calculate total available capital
     const totalCapital = this.config.allocation;
-    const currentStaked = Array.from(this.positions.values())
-      .reduce((sum, pos) => sum + pos.stakedAmount, 0);
-    const availableCapital = totalCapital - currentStaked;
-    
-    // Score and rank all opportunities
-    const scoredOpportunities: Array<StakingOpportunity & { score: number }> = [];
-    
-    this.opportunities.forEach(opportunities => {
-      opportunities.forEach(opp => {
-        if (this.config.enabledAssets.includes(opp.symbol)) {
-          const score = this.calculateStakingScore(opp, marketData);
-          scoredOpportunities.push({ ...opp, score });
-        }
-      });
+    
+    // Score each symbol's platform: the one it is already staked on, otherwise
+    // its best opportunity
+    const scoredOpportunities: (StakingOpportunity & { score: number })[] = [];
+    
+    this.opportunities.forEach((opportunities, symbol) => {
+      if (!this.config.enabledAssets.includes(symbol)) return;
+      const platform = this.positions.get(symbol)?.platform;
+      const candidates = platform ? opportunities.filter(opp => opp.platform === platform) : opportunities;
+      const best = candidates
+        .map(opp => ({ ...opp, score: this.calculateStakingScore(opp, marketData) }))
+        .reduce<(StakingOpportunity & { score: number }) | null>(
+          (top, opp) => (!top || opp.score > top.score ? opp : top),
+          null,
+        );
+      if (best) scoredOpportunities.push(best);
     });
     
     // Sort by score (highest first)
     scoredOpportunities.sort((a, b) => b.score - a.score);
     
-    // Allocate capital to top opportunities
-    let remainingCapital = availableCapital;
+    // Allocate capital to top opportunities, each up to its sized target
+    let remainingCapital = totalCapital;
+    const prices = (symbol: string) => this.priceHistory.get(symbol) || [];
     
     scoredOpportunities.forEach(opp => {
       if (remainingCapital <= 0) return;
       
+      const history = prices(opp.symbol);
       const maxAllocation = Math.min(
         remainingCapital,
         opp.maxStake || remainingCapital,
-        totalCapital * 0.3 // Max 30% per position
+        this.sizer.targetNotional({
+          price: history[history.length - 1],
+          equity: totalCapital,
+          prices: history,
+          peerPrices: scoredOpportunities.filter(peer => peer.symbol !== opp.symbol).map(peer => prices(peer.symbol)),
+        }),
       );
       
       if (maxAllocation >= opp.minStake) {
@@ -511,11 +549,11 @@ export class SmartStakingBot {
 
   private manageExistingPositions(marketData: MarketData[]): TradingSignal[] {
     const signals: TradingSignal[] = [];
-    const now = Date.now();
+    const now = this.clock.now();
     
-    this.positions.forEach((position, key) => {
-      // Check if position is ready to unlock
-      if (position.status === 'ACTIVE' && now >= position.endDate) {
+    this.positions.forEach(position => {
+      // Check if position is ready to unlock; unlocked staking has nothing to wait for
+      if (position.status === 'ACTIVE' && position.lockPeriod > 0 && now >= position.endDate) {
         position.status = 'UNLOCKED';
         
         signals.push({
@@ -530,14 +568,16 @@ export class SmartStakingBot {
         });
       }
       
-      // Check for compound opportunities
+      // Check for compound opportunities; estimatedRewards is a daily figure
       if (position.status === 'ACTIVE' && this.shouldCompound(position, now)) {
+        const accrued = position.estimatedRewards * (now - position.lastCompounded) / (24 * 60 * 60 * 1000);
+        position.lastCompounded = now;
         signals.push({
           action: 'BUY',
           symbol: position.symbol,
           confidence: 85,
           price: marketData.find(d => d.symbol === position.symbol)?.price || 0,
-          quantity: position.estimatedRewards / (marketData.find(d => d.symbol === position.symbol)?.price || 1),
+          quantity: accrued / (marketData.find(d => d.symbol === position.symbol)?.price || 1),
           reason: 'Compounding staking rewards',
           timestamp: now,
           riskLevel: 'LOW',
@@ -549,10 +589,10 @@ export class SmartStakingBot {
   }
 
   private shouldCompound(position: StakingPosition, now: number): boolean {
-    const timeSinceStart = now - position.startDate;
+    const timeSinceCompound = now - position.lastCompounded;
     const compoundInterval = this.getCompoundIntervalMs(position.compoundFrequency);
     
-    return timeSinceStart > compoundInterval && position.estimatedRewards > 0;
+    return timeSinceCompound >= compoundInterval && position.estimatedRewards > 0;
   }
 
   private getCompoundIntervalMs(frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY'): number {
@@ -573,7 +613,7 @@ export class SmartStakingBot {
     
     if (this.config.stopLoss <= 0) return signals;
     
-    this.positions.forEach((position, key) => {
+    this.positions.forEach(position => {
       if (position.status !== 'ACTIVE') return;
       
       const assetData = marketData.find(d => d.symbol === position.symbol);
@@ -593,7 +633,7 @@ export class SmartStakingBot {
           price: assetData.price,
           quantity: position.stakedAmount / assetData.price,
           reason: `Emergency unstaking: ${pnlPercentage.toFixed(2)}% loss exceeds stop-loss`,
-          timestamp: Date.now(),
+          timestamp: this.clock.now(),
           riskLevel: 'HIGH',
         });
       }
@@ -602,45 +642,66 @@ export class SmartStakingBot {
     return signals;
   }
 
-  // Update position after trade execution
-  updatePosition(symbol: string, action: 'BUY' | 'SELL', quantity: number, price: number, platform?: string): void {
-    const key = platform ? `${symbol}-${platform}` : symbol;
-    const currentPosition = this.positions.get(key);
+  // Update position after trade execution. A buy opening a position stakes it
+  // on the platform its signal targeted; sells unstake part or all of it.
+  updatePosition(symbol: string, action: 'BUY' | 'SELL', quantity: number, price: number): void {
+    const now = this.clock.now();
+    const currentPosition = this.positions.get(symbol);
     
     if (action === 'BUY') {
-      const opportunity = this.findBestOpportunity(symbol);
-      if (!opportunity) return;
-      
-      const stakedAmount = quantity * price;
-      
       if (currentPosition) {
         // Update existing position
-        this.positions.set(key, {
+        const totalQuantity = currentPosition.quantity + quantity;
+        const stakedAmount = currentPosition.stakedAmount + quantity * price;
+        this.positions.set(symbol, {
           ...currentPosition,
-          stakedAmount: currentPosition.stakedAmount + stakedAmount,
-          estimatedRewards: this.calculateEstimatedRewards(currentPosition.stakedAmount + stakedAmount, opportunity.apy),
+          stakedAmount,
+          quantity: totalQuantity,
+          entryPrice: stakedAmount / totalQuantity,
+          estimatedRewards: this.calculateEstimatedRewards(stakedAmount, currentPosition.apy),
         });
       } else {
+        const platform = this.targetPlatforms.get(symbol);
+        const opportunity = (platform && this.opportunities.get(symbol)?.find(opp => opp.platform === platform))
+          || this.findBestOpportunity(symbol);
+        if (!opportunity) return;
+        this.targetPlatforms.delete(symbol);
+        
         // Create new position
-        this.positions.set(key, {
+        const stakedAmount = quantity * price;
+        this.positions.set(symbol, {
           symbol,
           platform: opportunity.platform,
           stakedAmount,
+          quantity,
+          entryPrice: price,
           apy: opportunity.apy,
-          startDate: Date.now(),
-          endDate: Date.now() + (opportunity.lockPeriod * 24 * 60 * 60 * 1000),
+          startDate: now,
+          endDate: now + (opportunity.lockPeriod * 24 * 60 * 60 * 1000),
           lockPeriod: opportunity.lockPeriod,
           compoundFrequency: opportunity.compoundFrequency,
+          lastCompounded: now,
           estimatedRewards: this.calculateEstimatedRewards(stakedAmount, opportunity.apy),
           actualRewards: 0,
           status: 'ACTIVE',
           riskLevel: opportunity.riskLevel,
         });
       }
-    } else if (action === 'SELL') {
-      if (currentPosition) {
+    } else if (action === 'SELL' && currentPosition) {
+      this.sizer.recordTrade(((price - currentPosition.entryPrice) / currentPosition.entryPrice) * 100);
+      const remaining = currentPosition.quantity - quantity;
+      if (remaining <= currentPosition.quantity * 1e-9) {
         // Close position
-        this.positions.delete(key);
+        this.positions.delete(symbol);
+      } else {
+        // Unstake part of the position at its average entry
+        const stakedAmount = currentPosition.stakedAmount * (remaining / currentPosition.quantity);
+        this.positions.set(symbol, {
+          ...currentPosition,
+          stakedAmount,
+          quantity: remaining,
+          estimatedRewards: this.calculateEstimatedRewards(stakedAmount, currentPosition.apy),
+        });
       }
     }
     
@@ -688,7 +749,7 @@ export class SmartStakingBot {
       totalTrades,
       maxDrawdown: 0, // Staking typically has low drawdown
       sharpeRatio: this.calculateSharpeRatio(),
-      lastUpdate: Date.now(),
+      lastUpdate: this.clock.now(),
     };
   }
 
@@ -708,6 +769,23 @@ export class SmartStakingBot {
     return Array.from(this.positions.values());
   }
 
+  getNormalizedPositions(): Position[] {
+    return this.getPositions().map(position => {
+      const history = this.priceHistory.get(position.symbol);
+      const currentPrice = history ? history[history.length - 1] : position.entryPrice;
+      const pnl = (currentPrice - position.entryPrice) * position.quantity + position.actualRewards;
+      return {
+        symbol: position.symbol,
+        quantity: position.quantity,
+        entryPrice: position.entryPrice,
+        currentPrice,
+        pnl,
+        pnlPercentage: position.stakedAmount > 0 ? (pnl / position.stakedAmount) * 100 : 0,
+        timestamp: position.startDate,
+      };
+    });
+  }
+
   getPerformance(): BotPerformance {
     return this.performance;
   }
@@ -0,0 +1,368 @@
+// ============================================================================
+// STRATEGY REGISTRY
+// ============================================================================
+
+import { BotConfig, MomentumTradingBot } from './MomentumTradingBot';
+import { DCASchedule, DCATradingBot } from './DCATradingBot';
+import { SmartStakingBot } from './SmartStakingBot';
+import { CCIConfig, CCIMarketBot } from './CCIMarketBot';
+import { GridConfig, GridTradingBot } from './GridTradingBot';
+import { MeanReversionBot, MeanReversionConfig } from './MeanReversionBot';
+import { DEFAULT_REBALANCE_CONFIG, formatTargetWeights, parseTargetWeights, RebalanceConfig, RebalancingBot } from './RebalancingBot';
+import { PairsTradingBot, PairsTradingConfig } from './PairsTradingBot';
+import { Clock, systemClock } from './Clock';
+import { AnyTradingBot, BotType, TradingBot } from './TradingBot';
+
+export type StrategyParamValue = number | string | boolean;
+
+export interface StrategyParamSchema {
+  key: string;
+  label: string;
+  type: 'number' | 'select' | 'boolean' | 'text';
+  defaultValue: StrategyParamValue;
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: string[];
+  description?: string;
+  // Returns a message when the value is unusable
+  validate?: (value: StrategyParamValue) => string | undefined;
+}
+
+export interface StrategyMetadata {
+  name: string;
+  description: string;
+  color: string;
+  features: string[];
+}
+
+export interface StrategyDefinition<TPosition = unknown> {
+  type: BotType;
+  metadata: StrategyMetadata;
+  configSchema: StrategyParamSchema[];
+  // params are the customParams of the config merged over the schema defaults;
+  // clock drives every time-based decision of the bot
+  create(config: BotConfig, params: Record<string, StrategyParamValue>, clock: Clock): TradingBot<TPosition>;
+}
+
+// Returns a message when a value breaks its schema: not a finite number,
+// outside min/max, not one of the options, or rejected by validate
+export function validateParam(param: StrategyParamSchema, value: StrategyParamValue): string | undefined {
+  if (param.type === 'number') {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a number';
+    if (param.min !== undefined && value < param.min) return `must be at least ${param.min}`;
+    if (param.max !== undefined && value > param.max) return `must be at most ${param.max}`;
+  }
+  if (param.type === 'select' && param.options && !param.options.includes(String(value))) {
+    return `must be one of ${param.options.join(', ')}`;
+  }
+  return param.validate?.(value);
+}
+
+export class StrategyRegistry {
+  private strategies: Map<BotType, StrategyDefinition> = new Map();
+
+  register<TPosition>(definition: StrategyDefinition<TPosition>): void {
+    if (this.strategies.has(definition.type)) {
+      throw new Error(`Strategy already registered: ${definition.type}`);
+    }
+    this.strategies.set(definition.type, definition as StrategyDefinition);
+  }
+
+  get(type: BotType): StrategyDefinition | undefined {
+    return this.strategies.get(type);
+  }
+
+  has(type: string): type is BotType {
+    return this.strategies.has(type as BotType);
+  }
+
+  list(): StrategyDefinition[] {
+    return Array.from(this.strategies.values());
+  }
+
+  types(): BotType[] {
+    return Array.from(this.strategies.keys());
+  }
+
+  // Throws when a custom value breaks the schema, so a bot never runs with
+  // parameters the config screen would have refused
+  resolveParams(type: BotType, customParams?: Record<string, any>): Record<string, StrategyParamValue> {
+    const definition = this.require(type);
+    const params: Record<string, StrategyParamValue> = {};
+
+    definition.configSchema.forEach(param => {
+      const value = customParams?.[param.key];
+      if (value === undefined || value === null) {
+        params[param.key] = param.defaultValue;
+        return;
+      }
+      const error = validateParam(param, value);
+      if (error) {
+        throw new Error(`${definition.metadata.name} ${param.label}: ${error}`);
+      }
+      params[param.key] = value;
+    });
+
+    return params;
+  }
+
+  create(config: BotConfig, clock: Clock = systemClock): AnyTradingBot {
+    const definition = this.require(config.type);
+    return definition.create(config, this.resolveParams(config.type, config.customParams), clock);
+  }
+
+  private require(type: BotType): StrategyDefinition {
+    const definition = this.strategies.get(type);
+    if (!definition) {
+      throw new Error(`Unknown algorithm: ${type}`);
+    }
+    return definition;
+  }
+}
+
+export const strategyRegistry = new StrategyRegistry();
+
+// ============================================================================
+// BUILT-IN STRATEGIES
+// ============================================================================
+
+strategyRegistry.register({
+  type: 'momentum',
+  metadata: {
+    name: 'Momentum Trading',
+    description: 'Automatically moves funds to fastest rising cryptos',
+    color: '#10B981',
+    features: ['1-24 hour timeframes', 'Auto-rebalancing', 'Trend detection'],
+  },
+  configSchema: [],
+  create: (config, _params, clock) => new MomentumTradingBot(config, clock),
+});
+
+strategyRegistry.register({
+  type: 'dca',
+  metadata: {
+    name: 'DCA Bot',
+    description: 'Dollar-cost averaging with scheduled purchases',
+    color: '#3B82F6',
+    features: ['Daily to monthly', 'Multiple assets', 'Auto-compound'],
+  },
+  configSchema: [
+    { key: 'frequency', label: 'Frequency', type: 'select', defaultValue: 'DAILY', options: ['DAILY', 'WEEKLY', 'MONTHLY', 'CUSTOM'] },
+    { key: 'interval', label: 'Custom Interval (hours)', type: 'number', defaultValue: 24, min: 1, max: 720, step: 1 },
+    { key: 'amount', label: 'Amount per Purchase (USD)', type: 'number', defaultValue: 100, min: 1, step: 1 },
+  ],
+  create: (config, params, clock) => {
+    const schedule: DCASchedule = {
+      frequency: params.frequency as DCASchedule['frequency'],
+      interval: Number(params.interval),
+      amount: Number(params.amount),
+      startDate: clock.now(),
+    };
+    return new DCATradingBot(config, schedule, clock);
+  },
+});
+
+strategyRegistry.register({
+  type: 'staking',
+  metadata: {
+    name: 'Smart Staking',
+    description: 'Maximizes yields across staking opportunities',
+    color: '#F59E0B',
+    features: ['Auto-compound', 'Risk assessment', 'Yield optimization'],
+  },
+  configSchema: [],
+  create: (config, _params, clock) => new SmartStakingBot(config, clock),
+});
+
+strategyRegistry.register({
+  type: 'cci',
+  metadata: {
+    name: 'CCI Market Bot',
+    description: 'Trades based on Commodity Channel Index',
+    color: '#8B5CF6',
+    features: ['Overbought/oversold', 'Market cycles', 'Risk management'],
+  },
+  configSchema: [
+    { key: 'period', label: 'CCI Period', type: 'number', defaultValue: 20, min: 5, max: 100, step: 1 },
+    { key: 'overboughtLevel', label: 'Overbought Level', type: 'number', defaultValue: 100, min: 50, max: 300, step: 10 },
+    { key: 'oversoldLevel', label: 'Oversold Level', type: 'number', defaultValue: -100, min: -300, max: -50, step: 10 },
+    { key: 'extremeOverbought', label: 'Extreme Overbought', type: 'number', defaultValue: 200, min: 100, max: 400, step: 10 },
+    { key: 'extremeOversold', label: 'Extreme Oversold', type: 'number', defaultValue: -200, min: -400, max: -100, step: 10 },
+    { key: 'maPeriod', label: 'CCI MA Period', type: 'number', defaultValue: 5, min: 2, max: 20, step: 1 },
+    { key: 'volumeThreshold', label: 'Volume Threshold', type: 'number', defaultValue: 1.2, min: 0.5, max: 3, step: 0.1 },
+    { key: 'trendConfirmationPeriod', label: 'Trend Confirmation Period', type: 'number', defaultValue: 10, min: 3, max: 50, step: 1 },
+  ],
+  create: (config, params, clock) => {
+    const cciConfig: Partial<CCIConfig> = {
+      period: Number(params.period),
+      overboughtLevel: Number(params.overboughtLevel),
+      oversoldLevel: Number(params.oversoldLevel),
+      extremeOverbought: Number(params.extremeOverbought),
+      extremeOversold: Number(params.extremeOversold),
+      maPeriod: Number(params.maPeriod),
+      volumeThreshold: Number(params.volumeThreshold),
+      trendConfirmationPeriod: Number(params.trendConfirmationPeriod),
+    };
+    return new CCIMarketBot(config, cciConfig, clock);
+  },
+});
+
+strategyRegistry.register({
+  type: 'grid',
+  metadata: {
+    name: 'Grid Bot',
+    description: 'Buys dips and sells rips on a price ladder in ranging markets',
+    color: '#14B8A6',
+    features: ['Range-bound markets', 'Arithmetic or geometric', 'Breakout protection'],
+  },
+  configSchema: [
+    { key: 'lowerPrice', label: 'Lower Price (0 = auto)', type: 'number', defaultValue: 0, min: 0, step: 0.01 },
+    { key: 'upperPrice', label: 'Upper Price (0 = auto)', type: 'number', defaultValue: 0, min: 0, step: 0.01 },
+    { key: 'rangePercent', label: 'Auto Range (+/- %)', type: 'number', defaultValue: 10, min: 1, max: 50, step: 1 },
+    { key: 'gridCount', label: 'Grid Levels', type: 'number', defaultValue: 10, min: 2, max: 200, step: 1 },
+    { key: 'spacing', label: 'Spacing', type: 'select', defaultValue: 'ARITHMETIC', options: ['ARITHMETIC', 'GEOMETRIC'] },
+    {
+      key: 'breakoutAction',
+      label: 'On Breakout',
+      type: 'select',
+      defaultValue: 'PAUSE',
+      options: ['PAUSE', 'STOP', 'RECENTER'],
+      description: 'PAUSE stops buying until the price returns, STOP sells out, RECENTER sells out and rebuilds the grid',
+    },
+    { key: 'stopBuffer', label: 'Breakout Buffer (%)', type: 'number', defaultValue: 2, min: 0, max: 20, step: 0.5 },
+  ],
+  create: (config, params, clock) => {
+    const gridConfig: Partial<GridConfig> = {
+      lowerPrice: Number(params.lowerPrice),
+      upperPrice: Number(params.upperPrice),
+      rangePercent: Number(params.rangePercent),
+      gridCount: Number(params.gridCount),
+      spacing: params.spacing as GridConfig['spacing'],
+      breakoutAction: params.breakoutAction as GridConfig['breakoutAction'],
+      stopBuffer: Number(params.stopBuffer),
+    };
+    return new GridTradingBot(config, gridConfig, clock);
+  },
+});
+
+strategyRegistry.register({
+  type: 'meanReversion',
+  metadata: {
+    name: 'Mean Reversion',
+    description: 'Buys stretches below the Bollinger band and sells back at the mean',
+    color: '#EC4899',
+    features: ['Bollinger bands', 'Trend filter', 'Exits at the mean'],
+  },
+  configSchema: [
+    { key: 'period', label: 'Moving Average Period', type: 'number', defaultValue: 20, min: 5, max: 200, step: 1 },
+    { key: 'entryStdDev', label: 'Entry (std devs below mean)', type: 'number', defaultValue: 2, min: 0.5, max: 4, step: 0.1 },
+    { key: 'exitStdDev', label: 'Exit (std devs above mean)', type: 'number', defaultValue: 0, min: -1, max: 3, step: 0.1 },
+    {
+      key: 'trendFilter',
+      label: 'Trend Filter',
+      type: 'select',
+      defaultValue: 'ADX',
+      options: ['ADX', 'REGIME', 'NONE'],
+      description: 'ADX skips entries while trend strength is high, REGIME while a straight line fits recent prices',
+    },
+    { key: 'adxPeriod', label: 'ADX Period', type: 'number', defaultValue: 14, min: 5, max: 50, step: 1 },
+    { key: 'adxThreshold', label: 'ADX Trend Threshold', type: 'number', defaultValue: 25, min: 10, max: 60, step: 1 },
+    { key: 'regimePeriod', label: 'Regime Period', type: 'number', defaultValue: 50, min: 10, max: 200, step: 1 },
+    { key: 'regimeThreshold', label: 'Regime R² Threshold', type: 'number', defaultValue: 0.6, min: 0.1, max: 1, step: 0.05 },
+  ],
+  create: (config, params, clock) => {
+    const reversionConfig: Partial<MeanReversionConfig> = {
+      period: Number(params.period),
+      entryStdDev: Number(params.entryStdDev),
+      exitStdDev: Number(params.exitStdDev),
+      trendFilter: params.trendFilter as MeanReversionConfig['trendFilter'],
+      adxPeriod: Number(params.adxPeriod),
+      adxThreshold: Number(params.adxThreshold),
+      regimePeriod: Number(params.regimePeriod),
+      regimeThreshold: Number(params.regimeThreshold),
+    };
+    return new MeanReversionBot(config, reversionConfig, clock);
+  },
+});
+
+strategyRegistry.register({
+  type: 'rebalance',
+  metadata: {
+    name: 'Rebalancer',
+    description: 'Holds a basket at target weights and trades it back when it drifts',
+    color: '#F97316',
+    features: ['Target weights', 'Calendar or drift triggers', 'Minimal trading'],
+  },
+  configSchema: [
+    {
+      key: 'targets',
+      label: 'Target Weights (SYMBOL:%)',
+      type: 'text',
+      defaultValue: formatTargetWeights(DEFAULT_REBALANCE_CONFIG.targets),
+      description: 'Up to 100% in total; the rest is held as cash',
+      validate: value => {
+        try {
+          parseTargetWeights(String(value));
+          return undefined;
+        } catch (error) {
+          return (error as Error).message;
+        }
+      },
+    },
+    { key: 'schedule', label: 'Rebalance Schedule', type: 'select', defaultValue: 'WEEKLY', options: ['NONE', 'DAILY', 'WEEKLY', 'MONTHLY'] },
+    { key: 'driftThreshold', label: 'Drift Threshold (% points, 0 = off)', type: 'number', defaultValue: 5, min: 0, max: 50, step: 0.5 },
+    { key: 'minTradeValue', label: 'Minimum Trade (USD)', type: 'number', defaultValue: 25, min: 0, step: 1 },
+    { key: 'cashBuffer', label: 'Cash Buffer (%)', type: 'number', defaultValue: 1, min: 0, max: 20, step: 0.5 },
+  ],
+  create: (config, params, clock) => {
+    const rebalanceConfig: Partial<RebalanceConfig> = {
+      targets: parseTargetWeights(String(params.targets)),
+      schedule: params.schedule as RebalanceConfig['schedule'],
+      driftThreshold: Number(params.driftThreshold),
+      minTradeValue: Number(params.minTradeValue),
+      cashBuffer: Number(params.cashBuffer),
+    };
+    return new RebalancingBot(config, rebalanceConfig, clock);
+  },
+});
+
+strategyRegistry.register({
+  type: 'pairs',
+  metadata: {
+    name: 'Pairs Trading',
+    description: 'Finds cointegrated pairs and trades their spread with offsetting long and short legs',
+    color: '#84CC16',
+    features: ['Cointegration test', 'Market-neutral legs', 'Linked orders'],
+  },
+  configSchema: [
+    { key: 'lookback', label: 'Lookback (rounds)', type: 'number', defaultValue: 100, min: 30, max: 500, step: 10 },
+    {
+      key: 'minCorrelation',
+      label: 'Minimum Correlation',
+      type: 'number',
+      defaultValue: 0.7,
+      min: 0,
+      max: 0.99,
+      step: 0.05,
+      description: 'Return correlation a pair needs before it is tested for cointegration',
+    },
+    { key: 'confidence', label: 'Cointegration Confidence (%)', type: 'select', defaultValue: '95', options: ['90', '95', '99'] },
+    { key: 'entryZScore', label: 'Entry (spread std devs)', type: 'number', defaultValue: 2, min: 0.5, max: 4, step: 0.1 },
+    { key: 'exitZScore', label: 'Exit (spread std devs)', type: 'number', defaultValue: 0.5, min: 0, max: 2, step: 0.1 },
+    { key: 'stopZScore', label: 'Stop (spread std devs)', type: 'number', defaultValue: 4, min: 2, max: 10, step: 0.5 },
+    { key: 'retestInterval', label: 'Retest Every (rounds)', type: 'number', defaultValue: 24, min: 1, max: 500, step: 1 },
+  ],
+  create: (config, params, clock) => {
+    const pairsConfig: Partial<PairsTradingConfig> = {
+      lookback: Number(params.lookback),
+      minCorrelation: Number(params.minCorrelation),
+      confidence: params.confidence as PairsTradingConfig['confidence'],
+      entryZScore: Number(params.entryZScore),
+      exitZScore: Number(params.exitZScore),
+      stopZScore: Number(params.stopZScore),
+      retestInterval: Number(params.retestInterval),
+    };
+    return new PairsTradingBot(config, pairsConfig, clock);
+  },
+});
@@ -0,0 +1,57 @@
+// ============================================================================
+// SHARED TRADING BOT CONTRACT
+// ============================================================================
+
+import { BotConfig, BotPerformance, MarketData, Position, TradingSignal } from './MomentumTradingBot';
+
+export type BotType = BotConfig['type'];
+export type TradeAction = 'BUY' | 'SELL';
+
+// Every strategy implements this contract so the tester, the bot runtime and
+// the provider can drive any bot without knowing its concrete class.
+// TPosition is the strategy's native position shape (DCAPosition, StakingPosition, ...);
+// getNormalizedPositions() always maps it onto the common Position type.
+export interface TradingBot<TPosition = Position> {
+  analyzeMarket(marketData: MarketData[]): TradingSignal[];
+  updatePosition(symbol: string, action: TradeAction, quantity: number, price: number): void;
+  getPositions(): TPosition[];
+  getNormalizedPositions(): Position[];
+  getPerformance(): BotPerformance;
+  getConfig(): BotConfig;
+}
+
+export type AnyTradingBot = TradingBot<unknown>;
+
+// Direction of the position a fill closes out: 1 for a sell against a long,
+// -1 for a buy against a short, 0 when the fill opens or adds
+export function closingDirection(position: Position | undefined, side: TradeAction): number {
+  if (!position) return 0;
+  if (side === 'SELL' && position.quantity > 0) return 1;
+  if (side === 'BUY' && position.quantity < 0) return -1;
+  return 0;
+}
+
+// Splits signals into execution units in their original order: single signals
+// stand alone, legs of a multi-leg trade travel together. A group missing any
+// of its legs (e.g. one filtered out as blocked) is dropped entirely.
+export function groupSignals(signals: TradingSignal[]): TradingSignal[][] {
+  const units: TradingSignal[][] = [];
+  const groups = new Map<string, TradingSignal[]>();
+
+  signals.forEach(signal => {
+    if (!signal.groupId) {
+      units.push([signal]);
+      return;
+    }
+    const legs = groups.get(signal.groupId);
+    if (legs) {
+      legs.push(signal);
+    } else {
+      const group = [signal];
+      groups.set(signal.groupId, group);
+      units.push(group);
+    }
+  });
+
+  return units.filter(legs => !legs[0].groupId || legs.length === (legs[0].legCount ?? legs.length));
+}
@@ -0,0 +1,221 @@
+// ============================================================================
+// VALUE AT RISK & STRESS TESTING
+// ============================================================================
+
+export interface VaROptions {
+  confidenceLevels: number[]; // e.g. 0.95
+  horizonsMs: number[];
+  // Overlapping horizon windows needed before the historical figures are
+  // measured directly instead of scaled from one period
+  minWindows: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const DEFAULT_VAR_OPTIONS: VaROptions = {
+  confidenceLevels: [0.95, 0.99],
+  horizonsMs: [HOUR_MS, DAY_MS, 7 * DAY_MS],
+  minWindows: 20,
+};
+
+// Losses are positive % of portfolio value
+export interface VaREstimate {
+  confidence: number;
+  horizonMs: number;
+  historicalVaR: number;
+  historicalCVaR: number;
+  parametricVaR: number;
+  parametricCVaR: number;
+  // Historical figures scaled by sqrt(time) from one period for lack of history
+  scaled: boolean;
+  observations: number;
+}
+
+export interface StressScenario {
+  name: string;
+  description: string;
+  shocks: Record<string, number>; // price move per symbol, -0.4 = -40%
+  defaultShock: number; // every other holding
+  // Moves other than the listed ones are multiplied by the holding's beta
+  betaScaled?: boolean;
+  // Each holding takes its worst move over this many hours on record instead,
+  // falling back to defaultShock without enough history
+  historicalWorstHours?: number;
+  cashShock?: number; // move in the value of cash
+}
+
+export interface StressContext {
+  getBeta: (symbol: string) => number | undefined;
+  getWorstMove: (symbol: string, horizonMs: number) => number | undefined;
+}
+
+export interface StressHolding {
+  symbol: string;
+  value: number;
+}
+
+export interface StressResult {
+  name: string;
+  description: string;
+  pnl: number;
+  pnlPercent: number; // of equity
+  worstSymbol?: string;
+}
+
+export const STRESS_SCENARIOS: StressScenario[] = [
+  {
+    name: '40% Crash',
+    description: 'BTC falls 40% and every other holding follows by its beta',
+    shocks: { BTC: -0.4 },
+    defaultShock: -0.4,
+    betaScaled: true,
+  },
+  {
+    name: 'Stablecoin Depeg',
+    description: 'Stablecoins and the USDT-settled cash balance lose 15% while crypto drops 10%',
+    shocks: { USDT: -0.15, USDC: -0.15, DAI: -0.15, BUSD: -0.15 },
+    defaultShock: -0.1,
+    cashShock: -0.15,
+  },
+  {
+    name: 'Exchange Outage',
+    description: 'No exits for 24 hours: each holding takes its worst 24h move on record',
+    shocks: {},
+    defaultShock: -0.2,
+    historicalWorstHours: 24,
+  },
+];
+
+// Historical and parametric (normal) VaR/CVaR of a series of simple returns
+// measured every periodMs. Longer horizons use overlapping compounded windows
+// while there are enough of them, and sqrt(time) scaling after that.
+export function estimateVaR(returns: number[], periodMs: number, options: Partial<VaROptions> = {}): VaREstimate[] {
+  const { confidenceLevels, horizonsMs, minWindows } = { ...DEFAULT_VAR_OPTIONS, ...options };
+  const estimates: VaREstimate[] = [];
+  if (returns.length < 2 || !(periodMs > 0)) return estimates;
+
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const stdDev = Math.sqrt(returns.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / (returns.length - 1));
+
+  horizonsMs.forEach(horizonMs => {
+    const periods = Math.max(1, Math.round(horizonMs / periodMs));
+    const windows = compoundedWindows(returns, periods);
+    const scaled = windows.length < minWindows;
+
+    confidenceLevels.forEach(confidence => {
+      const tail = 1 - confidence;
+      const historical = historicalTail(scaled ? returns : windows, tail);
+      const scale = scaled ? Math.sqrt(periods) : 1;
+      const z = normalQuantile(tail);
+      const horizonMean = mean * periods;
+      const horizonStdDev = stdDev * Math.sqrt(periods);
+
+      estimates.push({
+        confidence,
+        horizonMs,
+        historicalVaR: Math.max(0, -historical.var * scale) * 100,
+        historicalCVaR: Math.max(0, -historical.cvar * scale) * 100,
+        parametricVaR: Math.max(0, -(horizonMean + z * horizonStdDev)) * 100,
+        parametricCVaR: Math.max(0, -(horizonMean - (horizonStdDev * normalDensity(z)) / tail)) * 100,
+        scaled,
+        observations: scaled ? returns.length : windows.length,
+      });
+    });
+  });
+
+  return estimates;
+}
+
+// Applies each scenario's price moves to the current holdings
+export function runStressTests(
+  holdings: StressHolding[],
+  cash: number,
+  context: StressContext,
+  scenarios: StressScenario[] = STRESS_SCENARIOS,
+): StressResult[] {
+  const equity = cash + holdings.reduce((sum, holding) => sum + holding.value, 0);
+
+  return scenarios.map(scenario => {
+    let pnl = cash * (scenario.cashShock ?? 0);
+    let worstSymbol: string | undefined;
+    let worstLoss = 0;
+
+    holdings.forEach(({ symbol, value }) => {
+      const loss = value * stressMove(scenario, symbol, context);
+      pnl += loss;
+      if (loss < worstLoss) {
+        worstLoss = loss;
+        worstSymbol = symbol;
+      }
+    });
+
+    return {
+      name: scenario.name,
+      description: scenario.description,
+      pnl,
+      pnlPercent: equity > 0 ? (pnl / equity) * 100 : 0,
+      worstSymbol,
+    };
+  });
+}
+
+function stressMove(scenario: StressScenario, symbol: string, context: StressContext): number {
+  if (scenario.shocks[symbol] !== undefined) return scenario.shocks[symbol];
+  if (scenario.historicalWorstHours !== undefined) {
+    return Math.min(0, context.getWorstMove(symbol, scenario.historicalWorstHours * HOUR_MS) ?? scenario.defaultShock);
+  }
+  // A total loss is the floor however high the beta
+  const move = scenario.defaultShock * (scenario.betaScaled ? context.getBeta(symbol) ?? 1 : 1);
+  return Math.max(-1, move);
+}
+
+function compoundedWindows(returns: number[], periods: number): number[] {
+  if (periods === 1) return returns;
+  const windows: number[] = [];
+  for (let start = 0; start + periods <= returns.length; start++) {
+    let growth = 1;
+    for (let i = start; i < start + periods; i++) {
+      growth *= 1 + returns[i];
+    }
+    windows.push(growth - 1);
+  }
+  return windows;
+}
+
+// Return at the tail quantile and the mean of the returns at or below it
+function historicalTail(returns: number[], tail: number): { var: number; cvar: number } {
+  const sorted = [...returns].sort((a, b) => a - b);
+  const count = Math.max(1, Math.floor(tail * sorted.length));
+  const tailReturns = sorted.slice(0, count);
+  return {
+    var: sorted[count - 1],
+    cvar: tailReturns.reduce((sum, value) => sum + value, 0) / tailReturns.length,
+  };
+}
+
+function normalDensity(z: number): number {
+  return Math.exp(-(z * z) / 2) / Math.sqrt(2 * Math.PI);
+}
+
+// Inverse standard normal CDF (Acklam's rational approximation, ~1e-9 relative error)
+function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
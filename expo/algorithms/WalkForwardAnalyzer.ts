@@ -0,0 +1,201 @@
+// ============================================================================
+// WALK-FORWARD ANALYSIS
+// ============================================================================
+
+import { TestScenario } from './AlgorithmTester';
+import { BacktestBar, BacktestEngine, EquityCurveStats, EquityPoint, equityCurveStats } from './BacktestEngine';
+import { BotConfig, MarketData } from './MomentumTradingBot';
+import { OptimizerOptions, ParameterOptimizer, ParameterSpace } from './ParameterOptimizer';
+import { StrategyParamValue } from './StrategyRegistry';
+
+export interface WalkForwardOptions extends Omit<OptimizerOptions, 'onProgress'> {
+  inSampleBars: number;
+  outOfSampleBars: number;
+  // Bars to advance between windows; defaults to outOfSampleBars so
+  // out-of-sample segments tile the history without overlap
+  stepBars?: number;
+  // Anchored windows keep the first bar and grow; rolling windows slide
+  anchored?: boolean;
+  // In-sample bars replayed (without trading) before each out-of-sample run
+  warmupBars?: number;
+  onProgress?: (completedWindows: number, totalWindows: number) => void;
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  inSampleStart: number;
+  inSampleEnd: number;
+  outOfSampleStart: number;
+  outOfSampleEnd: number;
+  parameters: Record<string, StrategyParamValue>;
+  inSampleObjective: number;
+  inSample: EquityCurveStats;
+  outOfSample: EquityCurveStats;
+  outOfSampleTrades: number;
+  // Out-of-sample over in-sample annualized return; near or above 1 means the
+  // tuned parameters held up on unseen data. 0 when the in-sample return was
+  // not positive.
+  efficiency: number;
+}
+
+export interface ParameterStability {
+  key: string;
+  values: StrategyParamValue[];
+  distinctValues: number;
+  mostCommon: StrategyParamValue;
+  // Share of windows that picked mostCommon, 0-100
+  consistency: number;
+  mean?: number;
+  coefficientOfVariation?: number;
+}
+
+export interface WalkForwardReport {
+  algorithm: BotConfig['type'];
+  windows: WalkForwardWindow[];
+  // Out-of-sample segments chained end to end, each compounding on the last
+  stitchedEquity: EquityPoint[];
+  outOfSample: EquityCurveStats;
+  parameterStability: ParameterStability[];
+  // Mean consistency across parameters, 0-100
+  stabilityScore: number;
+  // Mean out-of-sample over mean in-sample annualized return, which stays
+  // meaningful when single windows have near-zero in-sample returns
+  efficiency: number;
+}
+
+// Optimizes on each in-sample window with the grid-search optimizer and judges
+// the chosen parameters only on the window that follows, so the reported
+// equity never includes data the parameters were fitted on.
+export class WalkForwardAnalyzer {
+  private optimizer = new ParameterOptimizer();
+
+  async analyze(
+    baseConfig: BotConfig,
+    space: ParameterSpace,
+    marketData: MarketData[],
+    options: WalkForwardOptions,
+  ): Promise<WalkForwardReport> {
+    const { inSampleBars, outOfSampleBars } = options;
+    if (inSampleBars < 2 || outOfSampleBars < 1) {
+      throw new Error('Walk-forward needs at least 2 in-sample and 1 out-of-sample bar per window');
+    }
+    const stepBars = options.stepBars ?? outOfSampleBars;
+    if (stepBars < 1) {
+      throw new Error('Walk-forward step must be at least one bar');
+    }
+    const warmupBars = Math.min(options.warmupBars ?? 0, inSampleBars);
+
+    const bars = BacktestEngine.toBars(marketData);
+    const starts: number[] = [];
+    for (let start = inSampleBars; start + outOfSampleBars <= bars.length; start += stepBars) {
+      starts.push(start);
+    }
+    if (starts.length === 0) {
+      throw new Error(`Walk-forward needs at least ${inSampleBars + outOfSampleBars} bars, got ${bars.length}`);
+    }
+
+    const initialBalance = options.backtest?.initialBalance ?? 10000;
+    const outOfSampleEngine = new BacktestEngine({ ...options.backtest, initialBalance, warmupBars });
+    const windows: WalkForwardWindow[] = [];
+    const stitchedEquity: EquityPoint[] = [];
+    let carried = initialBalance;
+
+    for (let i = 0; i < starts.length; i++) {
+      const outStart = starts[i];
+      const inStart = options.anchored ? 0 : outStart - inSampleBars;
+      const inSample = bars.slice(inStart, outStart);
+      const outOfSample = bars.slice(outStart, outStart + outOfSampleBars);
+
+      const search = await this.optimizer.optimize(baseConfig, space, [this.toScenario(`Window ${i + 1} in-sample`, inSample)], {
+        objective: options.objective,
+        maxDrawdown: options.maxDrawdown,
+        maxCombinations: options.maxCombinations,
+        backtest: { ...options.backtest, initialBalance },
+      });
+
+      const config = this.optimizer.applyParameters(baseConfig, search.best.parameters);
+      const result = outOfSampleEngine.run(config, this.flatten([...inSample.slice(inSample.length - warmupBars), ...outOfSample]));
+      const inSampleStats = search.best.scenarios[0];
+      const outOfSampleStats = equityCurveStats(result.equityCurve, initialBalance);
+
+      // Each segment restarts from initialBalance; rescale it onto the running equity
+      const scale = carried / initialBalance;
+      result.equityCurve.forEach(point => stitchedEquity.push({ timestamp: point.timestamp, equity: point.equity * scale }));
+      carried = stitchedEquity[stitchedEquity.length - 1].equity;
+
+      windows.push({
+        index: i,
+        inSampleStart: inSample[0].timestamp,
+        inSampleEnd: inSample[inSample.length - 1].timestamp,
+        outOfSampleStart: outOfSample[0].timestamp,
+        outOfSampleEnd: outOfSample[outOfSample.length - 1].timestamp,
+        parameters: search.best.parameters,
+        inSampleObjective: search.best.objectiveValue,
+        inSample: inSampleStats,
+        outOfSample: outOfSampleStats,
+        outOfSampleTrades: result.trades.length,
+        efficiency: this.efficiency(inSampleStats.annualizedReturn, outOfSampleStats.annualizedReturn),
+      });
+      options.onProgress?.(i + 1, starts.length);
+    }
+
+    const mean = (pick: (window: WalkForwardWindow) => number) =>
+      windows.reduce((sum, window) => sum + pick(window), 0) / windows.length;
+    const parameterStability = Object.keys(space).map(key => this.stability(key, windows.map(w => w.parameters[key])));
+
+    return {
+      algorithm: baseConfig.type,
+      windows,
+      stitchedEquity,
+      outOfSample: equityCurveStats(stitchedEquity, initialBalance),
+      parameterStability,
+      stabilityScore: parameterStability.length > 0
+        ? parameterStability.reduce((sum, p) => sum + p.consistency, 0) / parameterStability.length
+        : 100,
+      efficiency: this.efficiency(mean(w => w.inSample.annualizedReturn), mean(w => w.outOfSample.annualizedReturn)),
+    };
+  }
+
+  private efficiency(inSampleReturn: number, outOfSampleReturn: number): number {
+    return inSampleReturn > 0 ? outOfSampleReturn / inSampleReturn : 0;
+  }
+
+  private stability(key: string, values: StrategyParamValue[]): ParameterStability {
+    const counts = new Map<StrategyParamValue, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    const [mostCommon, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+
+    const stability: ParameterStability = {
+      key,
+      values,
+      distinctValues: counts.size,
+      mostCommon,
+      consistency: (count / values.length) * 100,
+    };
+
+    if (values.every(value => typeof value === 'number')) {
+      const numbers = values as number[];
+      const mean = numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+      const stdDev = Math.sqrt(numbers.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / numbers.length);
+      stability.mean = mean;
+      stability.coefficientOfVariation = mean !== 0 ? stdDev / Math.abs(mean) : 0;
+    }
+
+    return stability;
+  }
+
+  private toScenario(name: string, bars: BacktestBar[]): TestScenario {
+    return {
+      name,
+      description: 'Walk-forward in-sample window',
+      marketData: this.flatten(bars),
+      expectedOutcome: 'Parameters fitted for the following out-of-sample window',
+      riskLevel: 'MEDIUM',
+      duration: (bars[bars.length - 1].timestamp - bars[0].timestamp) / (24 * 60 * 60 * 1000),
+    };
+  }
+
+  private flatten(bars: BacktestBar[]): MarketData[] {
+    return bars.flatMap(bar => bar.quotes);
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test';
+import { AlgorithmTester } from '../AlgorithmTester';
+import { BacktestEngine } from '../BacktestEngine';
+import { BotConfig } from '../MomentumTradingBot';
+import { DEFAULT_RISK_LIMITS, RiskManager } from '../RiskManager';
+import { ScenarioParams } from '../ScenarioGenerator';
+import { BotType } from '../TradingBot';
+
+describe('AlgorithmTester scenarios', () => {
+  const tester = new AlgorithmTester(new RiskManager(DEFAULT_RISK_LIMITS), { seed: 42 });
+
+  test('regenerate identically from the same seed', () => {
+    const first = tester.generateTestScenarios(42);
+    expect(new AlgorithmTester(new RiskManager(DEFAULT_RISK_LIMITS), { seed: 42 }).generateTestScenarios()).toEqual(first);
+    first.forEach(scenario => expect(scenario.seed).toBe(42));
+  });
+
+  test('differ under a different seed', () => {
+    const prices = (seed: number) => tester.generateTestScenarios(seed).map(scenario => scenario.marketData.map(data => data.price));
+    const [first, second] = [prices(42), prices(43)];
+    first.forEach((scenario, i) => expect(second[i]).not.toEqual(scenario));
+  });
+});
+
+describe('AlgorithmTester scenario coverage', () => {
+  const tester = new AlgorithmTester(new RiskManager(DEFAULT_RISK_LIMITS), { seed: 42 });
+
+  // Fills of one bot on a seed-42 scenario, configured as the tester does
+  function fills(type: BotType, scenarioName: string, overrides: Partial<ScenarioParams> = {}): number {
+    const scenario = tester.generateTestScenarios(42, overrides).find(candidate => candidate.name === scenarioName)!;
+    const config: BotConfig = {
+      id: 'test-bot',
+      name: 'Test Bot',
+      type,
+      allocation: 10000,
+      stopLoss: 5,
+      takeProfit: 15,
+      timeframe: '1h',
+      maxPositions: 5,
+      riskLevel: 'MODERATE',
+      enabledAssets: ['BTC', 'ETH', 'SOL', 'ADA', 'DOT'],
+    };
+    return new BacktestEngine({ initialBalance: 10000, riskLimits: DEFAULT_RISK_LIMITS }).run(config, scenario.marketData).trades.length;
+  }
+
+  test('pairs only trades scenarios whose symbols move together', () => {
+    // One symbol leaves nothing to pair; independent walks are never cointegrated
+    expect(fills('pairs', 'Strong Bull Market')).toBe(0);
+    expect(fills('pairs', 'Strong Bull Market', { symbols: 3 })).toBe(0);
+    expect(fills('pairs', 'Correlated Regime Switching')).toBeGreaterThan(0);
+  });
+
+  test('cci waits for a volume spike the calm bull market never has', () => {
+    // Volume noise of ±20% barely lifts a bar past 1.2x its 10-bar average,
+    // and never on an oversold one; wider noise lets entries through
+    expect(fills('cci', 'Strong Bull Market')).toBe(0);
+    expect(fills('cci', 'Strong Bull Market', { volumeVariation: 0.5 })).toBeGreaterThan(0);
+    expect(fills('cci', 'Correlated Regime Switching')).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import { BacktestEngine, equityCurveStats } from '../BacktestEngine';
+import { BotConfig, MarketData } from '../MomentumTradingBot';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const staking: BotConfig = {
+  id: 'staking',
+  name: 'Staking',
+  type: 'staking',
+  allocation: 10000,
+  stopLoss: 5,
+  takeProfit: 15,
+  timeframe: '1h',
+  maxPositions: 5,
+  riskLevel: 'MODERATE',
+  enabledAssets: ['BTC', 'ETH', 'SOL', 'ADA', 'DOT'],
+};
+
+// A month of hourly BTC bars drifting up with a daily swing
+const bullMarket = Array.from({ length: 720 }, (_, i): MarketData => {
+  const price = 100 * Math.pow(1.0003, i) * (1 + 0.01 * Math.sin((2 * Math.PI * i) / 24));
+  return {
+    symbol: 'BTC',
+    price,
+    volume: 1e8,
+    timestamp: Date.UTC(2024, 0, 1) + i * HOUR,
+    change24h: 0.7,
+    change1h: 0,
+    high24h: price * 1.01,
+    low24h: price * 0.99,
+  };
+});
+
+describe('BacktestEngine', () => {
+  test('holds a staking position through a bull market without churning it', () => {
+    const result = new BacktestEngine({ initialBalance: 10000 }).run(staking, bullMarket);
+
+    expect(result.rejectedOrders).toBe(0);
+    expect(result.trades.filter(trade => trade.action === 'SELL')).toEqual([]);
+    expect(result.trades.length).toBeLessThan(50);
+    expect(result.finalEquity).toBeGreaterThan(10000);
+  });
+
+  test('funds the account in the exchange quote currency', () => {
+    const usd = new BacktestEngine({ initialBalance: 10000 }).run(staking, bullMarket);
+    const usdt = new BacktestEngine({ initialBalance: 10000, exchangeConfig: { quoteCurrency: 'USDT' } })
+      .run(staking, bullMarket);
+
+    expect(usdt.trades.length).toBe(usd.trades.length);
+    expect(usdt.finalEquity).toBeCloseTo(usd.finalEquity);
+  });
+});
+
+describe('equityCurveStats', () => {
+  test('annualizes a loss beyond the whole stake as a total loss', () => {
+    const curve = [0, 1, 2].map(day => ({ timestamp: day * DAY, equity: [10000, 4000, -2000][day] }));
+    const stats = equityCurveStats(curve, 10000);
+
+    expect(stats.totalReturn).toBeCloseTo(-120);
+    expect(stats.annualizedReturn).toBe(-100);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'bun:test';
+import { CircuitBreaker } from '../CircuitBreaker';
+import { SimulatedClock } from '../Clock';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2024, 0, 1, 12);
+
+function breaker(): { breaker: CircuitBreaker; clock: SimulatedClock } {
+  const clock = new SimulatedClock(START);
+  return { breaker: new CircuitBreaker({}, clock), clock };
+}
+
+describe('CircuitBreaker triggers', () => {
+  test('trips on a loss beyond the daily limit across accounts', () => {
+    const { breaker: daily } = breaker();
+    daily.recordEquity(new Map([['a', 10000], ['b', 10000]]));
+    daily.recordEquity(new Map([['a', 9500], ['b', 9600]]));
+    expect(daily.isTripped()).toBe(false);
+
+    daily.recordEquity(new Map([['a', 9400], ['b', 9500]]));
+    expect(daily.getState()).toMatchObject({ status: 'TRIPPED', trigger: 'DAILY_LOSS', reason: 'Daily loss 5.50% exceeds 5%' });
+  });
+
+  test('measures the daily loss from each new UTC day and ignores added or removed bots', () => {
+    const { breaker: daily, clock } = breaker();
+    daily.recordEquity(new Map([['a', 10000]]));
+    daily.recordEquity(new Map([['a', 9600]]));
+
+    clock.advance(12 * 60 * MINUTE);
+    daily.recordEquity(new Map([['a', 9600], ['b', 5000]]));
+    daily.recordEquity(new Map([['b', 5000]]));
+    daily.recordEquity(new Map([['b', 4900]]));
+    expect(daily.isTripped()).toBe(false);
+  });
+
+  test('trips after repeated fills slip beyond the limit within the window', () => {
+    const { breaker: slippage, clock } = breaker();
+    slippage.recordFill(103, 100);
+    slippage.recordFill(101, 100);
+    slippage.recordFill(97, 100);
+    // Both abnormal fills have left the window by the next one
+    clock.advance(61 * MINUTE);
+    slippage.recordFill(103, 100);
+    slippage.recordFill(103, 100);
+    expect(slippage.isTripped()).toBe(false);
+
+    slippage.recordFill(103, 100);
+    expect(slippage.getState().trigger).toBe('SLIPPAGE');
+  });
+
+  test('trips when the newest quote is older than the stale limit', () => {
+    const { breaker: stale } = breaker();
+    stale.recordMarketData(undefined);
+    stale.recordMarketData(START - 10 * MINUTE);
+    expect(stale.isTripped()).toBe(false);
+
+    stale.recordMarketData(START - 11 * MINUTE);
+    expect(stale.getState()).toMatchObject({ trigger: 'STALE_DATA', reason: 'Newest market data is 660s old' });
+  });
+
+  test('trips on consecutive execution errors only', () => {
+    const { breaker: errors } = breaker();
+    [1, 2, 3, 4].forEach(i => errors.recordExecutionError(`error ${i}`));
+    errors.recordExecutionSuccess();
+    [1, 2, 3, 4].forEach(i => errors.recordExecutionError(`error ${i}`));
+    expect(errors.isTripped()).toBe(false);
+
+    errors.recordExecutionError('error 5');
+    expect(errors.getState()).toMatchObject({ trigger: 'EXECUTION_ERRORS', reason: '5 consecutive execution errors, last: error 5' });
+  });
+});
+
+describe('CircuitBreaker re-arming', () => {
+  test('refuses to re-arm an automatic trip until the cooldown has passed', () => {
+    const { breaker: tripped, clock } = breaker();
+    const trips: string[] = [];
+    tripped.onTrip(state => trips.push(state.trigger!));
+
+    tripped.recordMarketData(START - 20 * MINUTE);
+    tripped.recordExecutionError('ignored while tripped');
+    expect(trips).toEqual(['STALE_DATA']);
+    expect(tripped.getState()).toMatchObject({ cooldownUntil: START + 30 * MINUTE, canRearm: false });
+
+    clock.advance(29 * MINUTE);
+    expect(tripped.rearm()).toBe(false);
+    expect(tripped.isTripped()).toBe(true);
+
+    clock.advance(MINUTE);
+    expect(tripped.getState().canRearm).toBe(true);
+    expect(tripped.rearm()).toBe(true);
+    expect(tripped.getState()).toEqual({ status: 'ARMED', canRearm: false });
+  });
+
+  test('re-arms the kill switch at once and measures the daily loss afresh', () => {
+    const { breaker: manual } = breaker();
+    manual.recordEquity(new Map([['a', 10000]]));
+    manual.trip('MANUAL', 'Kill switch');
+    expect(manual.getState().canRearm).toBe(true);
+    expect(manual.rearm()).toBe(true);
+
+    // Losses taken before the re-arm no longer count toward today's limit
+    manual.recordEquity(new Map([['a', 9000]]));
+    manual.recordEquity(new Map([['a', 8600]]));
+    expect(manual.isTripped()).toBe(false);
+    manual.recordEquity(new Map([['a', 8500]]));
+    expect(manual.getState().trigger).toBe('DAILY_LOSS');
+  });
+});
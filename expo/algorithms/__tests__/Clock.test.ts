@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test';
+import { SimulatedClock } from '../Clock';
+import { DCATradingBot } from '../DCATradingBot';
+import { BotConfig } from '../MomentumTradingBot';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+describe('SimulatedClock', () => {
+  test('moves only when told to and never backwards', () => {
+    const clock = new SimulatedClock(START);
+    expect(clock.now()).toBe(START);
+
+    clock.advance(HOUR);
+    clock.set(START + 2 * HOUR);
+    expect(clock.now()).toBe(START + 2 * HOUR);
+    expect(() => clock.set(START)).toThrow('SimulatedClock cannot move backwards');
+    expect(clock.now()).toBe(START + 2 * HOUR);
+  });
+
+  test('drives bot schedules instead of the wall clock', () => {
+    const config: BotConfig = {
+      id: 'dca',
+      name: 'DCA',
+      type: 'dca',
+      allocation: 10000,
+      stopLoss: 0,
+      timeframe: '1h',
+      maxPositions: 1,
+      riskLevel: 'MODERATE',
+      enabledAssets: ['BTC'],
+    };
+    const clock = new SimulatedClock(START);
+    const bot = new DCATradingBot(config, { frequency: 'DAILY', interval: 24, amount: 100, startDate: START }, clock);
+    // Purchases this round, filled so the bot dates the next one from them
+    const purchases = () => {
+      const signals = bot.analyzeMarket([
+        { symbol: 'BTC', price: 100, volume: 1e9, timestamp: clock.now(), change24h: 0, change1h: 0, high24h: 100, low24h: 100 },
+      ]).filter(signal => signal.action === 'BUY');
+      signals.forEach(signal => bot.updatePosition(signal.symbol, 'BUY', signal.quantity, signal.price));
+      return signals;
+    };
+
+    expect(purchases()).toHaveLength(1);
+    clock.advance(23 * HOUR);
+    expect(purchases()).toEqual([]);
+    clock.advance(HOUR);
+    expect(purchases()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import { choleskyDecompose, CorrelatedMarketSimulator, SimulatedAsset } from '../CorrelatedMarketSimulator';
+import { MarketData } from '../MomentumTradingBot';
+
+const ASSETS: SimulatedAsset[] = [
+  { symbol: 'BTC', startPrice: 100, supply: 1 },
+  { symbol: 'ETH', startPrice: 50, supply: 1, volatilityMultiplier: 1.5 },
+  { symbol: 'SOL', startPrice: 20, supply: 1, volatilityMultiplier: 2 },
+];
+
+// BTC and ETH move together, SOL on its own
+const CORRELATION = [
+  [1, 0.8, 0],
+  [0.8, 1, 0],
+  [0, 0, 1],
+];
+
+function logReturns(data: MarketData[], symbol: string): number[] {
+  const prices = data.filter(quote => quote.symbol === symbol).map(quote => quote.price);
+  return prices.slice(1).map((price, i) => Math.log(price / prices[i]));
+}
+
+function correlation(a: number[], b: number[]): number {
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const [meanA, meanB] = [mean(a), mean(b)];
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  a.forEach((value, i) => {
+    covariance += (value - meanA) * (b[i] - meanB);
+    varianceA += (value - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  });
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+describe('choleskyDecompose', () => {
+  test('factors a correlation matrix into L * L^T', () => {
+    const lower = choleskyDecompose([[1, 0.6], [0.6, 1]]);
+    expect(lower[0]).toEqual([1, 0]);
+    expect(lower[1][0]).toBeCloseTo(0.6);
+    expect(lower[1][1]).toBeCloseTo(0.8);
+  });
+
+  test('rejects impossible correlations', () => {
+    expect(() => choleskyDecompose([[1, 0.9, -0.9], [0.9, 1, 0.9], [-0.9, 0.9, 1]])).toThrow('not positive definite');
+  });
+});
+
+describe('CorrelatedMarketSimulator', () => {
+  test('generates returns with the configured correlations', () => {
+    const { marketData } = new CorrelatedMarketSimulator({ assets: ASSETS, correlation: CORRELATION }, 42).simulate(120);
+    const [btc, eth, sol] = ['BTC', 'ETH', 'SOL'].map(symbol => logReturns(marketData, symbol));
+
+    expect(btc).toHaveLength(120 * 24 - 1);
+    expect(correlation(btc, eth)).toBeCloseTo(0.8, 1);
+    expect(Math.abs(correlation(btc, sol))).toBeLessThan(0.1);
+    expect(Math.abs(correlation(eth, sol))).toBeLessThan(0.1);
+  });
+
+  test('replays a run from its seed', () => {
+    const run = (seed: number) => new CorrelatedMarketSimulator({ assets: ASSETS, correlation: CORRELATION }, seed).simulate(10);
+    expect(run(42)).toEqual(run(42));
+    expect(run(43).marketData).not.toEqual(run(42).marketData);
+  });
+
+  test('stays in its regime without transitions and records every switch otherwise', () => {
+    const still = new CorrelatedMarketSimulator({ assets: ASSETS, transitions: { BULL: {}, BEAR: {}, SIDEWAYS: {} }, initialRegime: 'BULL' }, 1)
+      .simulate(30);
+    expect(still.regimes.map(change => change.regime)).toEqual(['BULL']);
+
+    const switching = new CorrelatedMarketSimulator({ assets: ASSETS, transitions: { BULL: { BEAR: 0.5 }, BEAR: { BULL: 0.5 }, SIDEWAYS: {} }, initialRegime: 'BULL' }, 1)
+      .simulate(30);
+    expect(switching.regimes.length).toBeGreaterThan(3);
+    switching.regimes.slice(1).forEach((change, i) => expect(change.regime).not.toBe(switching.regimes[i].regime));
+  });
+});
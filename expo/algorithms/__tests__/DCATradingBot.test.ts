@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'bun:test';
+import { SimulatedClock } from '../Clock';
+import { DCATradingBot } from '../DCATradingBot';
+import { BotConfig } from '../MomentumTradingBot';
+
+const HOUR = 60 * 60 * 1000;
+
+const config: BotConfig = {
+  id: 'dca',
+  name: 'DCA',
+  type: 'dca',
+  allocation: 1000,
+  stopLoss: 0,
+  timeframe: '1h',
+  maxPositions: 4,
+  riskLevel: 'MODERATE',
+  enabledAssets: ['BTC'],
+};
+
+describe('DCATradingBot sizing', () => {
+  test('stops accumulating an asset once it fills its slice of the allocation', () => {
+    const clock = new SimulatedClock(Date.UTC(2024, 0, 1));
+    const bot = new DCATradingBot(config, { frequency: 'CUSTOM', interval: 1, amount: 40, startDate: 0 }, clock);
+    let invested = 0;
+
+    for (let hour = 0; hour < 20; hour++) {
+      const quote = { symbol: 'BTC', price: 100, volume: 1e9, timestamp: clock.now(), change24h: 0, change1h: 0, high24h: 100, low24h: 100 };
+      bot.analyzeMarket([quote]).forEach(signal => {
+        expect(signal.action).toBe('BUY');
+        bot.updatePosition(signal.symbol, 'BUY', signal.quantity, signal.price);
+        invested += signal.quantity * signal.price;
+      });
+      clock.advance(HOUR);
+    }
+
+    // One of four slices of 1000, reached well within the 20 purchases
+    expect(invested).toBeCloseTo(250);
+  });
+});
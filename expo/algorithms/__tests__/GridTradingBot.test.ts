@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'bun:test';
+import { SimulatedClock } from '../Clock';
+import { GridConfig, GridTradingBot } from '../GridTradingBot';
+import { BotConfig, MarketData, TradingSignal } from '../MomentumTradingBot';
+
+const config: BotConfig = {
+  id: 'grid',
+  name: 'Grid',
+  type: 'grid',
+  allocation: 1000,
+  stopLoss: 0,
+  timeframe: '1h',
+  maxPositions: 1,
+  riskLevel: 'MODERATE',
+  enabledAssets: ['BTC'],
+};
+
+// Levels buy at 90, 95, 100 and 105, each selling one level up; 250 per level
+const LADDER: Partial<GridConfig> = { lowerPrice: 90, upperPrice: 110, gridCount: 4 };
+
+function quote(price: number): MarketData {
+  return { symbol: 'BTC', price, volume: 1e9, timestamp: 0, change24h: 0, change1h: 0, high24h: price, low24h: price };
+}
+
+// Analyzes one price and fills every signal in full at it
+function step(bot: GridTradingBot, price: number): TradingSignal[] {
+  const signals = bot.analyzeMarket([quote(price)]);
+  signals.forEach(signal => {
+    if (signal.action !== 'HOLD') bot.updatePosition(signal.symbol, signal.action, signal.quantity, price);
+  });
+  return signals;
+}
+
+function held(bot: GridTradingBot): number {
+  return bot.getNormalizedPositions()[0]?.quantity ?? 0;
+}
+
+describe('GridTradingBot', () => {
+  test('buys every level at or above the price and sells each one level up', () => {
+    const bot = new GridTradingBot(config, LADDER, new SimulatedClock(0));
+
+    const [buy] = step(bot, 100);
+    expect(buy).toMatchObject({ action: 'BUY', quantity: 5, reason: 'Grid buy: 2 level(s) down to 100.00' });
+
+    const [sell] = step(bot, 105);
+    expect(sell).toMatchObject({ action: 'SELL', quantity: 2.5 });
+    expect(held(bot)).toBeCloseTo(2.5);
+    expect(bot.getPositions()[0].levels[2]).toMatchObject({ state: 'ARMED', profit: 12.5, roundTrips: 1 });
+    // Realized 12.5 plus 12.5 on the level still held
+    expect(bot.getPerformance().totalPnL).toBeCloseTo(25);
+    expect(bot.getPerformance().winRate).toBe(100);
+
+    // The sold level re-arms and buys again on the way back down
+    expect(step(bot, 100)[0]).toMatchObject({ action: 'BUY', quantity: 2.5 });
+    expect(held(bot)).toBeCloseTo(5);
+  });
+
+  test('signals a level again when its last signal was not filled', () => {
+    const bot = new GridTradingBot(config, LADDER, new SimulatedClock(0));
+    expect(bot.analyzeMarket([quote(100)])[0].quantity).toBe(5);
+    expect(bot.analyzeMarket([quote(100)])[0].quantity).toBe(5);
+
+    // A partial fill goes to the lowest levels that asked, which then hold what they got
+    bot.updatePosition('BTC', 'BUY', 3, 100);
+    expect(bot.getPositions()[0].levels.map(level => level.quantity)).toEqual([0, 0, 2.5, 0.5]);
+    expect(bot.analyzeMarket([quote(100)])).toEqual([]);
+  });
+
+  test('pauses buying below the range until the price returns', () => {
+    const bot = new GridTradingBot(config, LADDER, new SimulatedClock(0));
+    step(bot, 100);
+
+    expect(step(bot, 85)).toEqual([]);
+    expect(bot.getPositions()[0].status).toBe('PAUSED');
+    expect(held(bot)).toBeCloseTo(5);
+
+    const [buy] = step(bot, 92);
+    expect(bot.getPositions()[0].status).toBe('ACTIVE');
+    expect(buy).toMatchObject({ action: 'BUY', reason: 'Grid buy: 1 level(s) down to 95.00' });
+  });
+
+  test('sells out and retires the grid on a breakout when told to stop', () => {
+    const bot = new GridTradingBot(config, { ...LADDER, breakoutAction: 'STOP' }, new SimulatedClock(0));
+    step(bot, 100);
+
+    const [exit] = step(bot, 80);
+    expect(exit).toMatchObject({ action: 'SELL', quantity: 5, reason: 'Grid stopped: price 80.00 broke below 90.00' });
+    expect(held(bot)).toBe(0);
+    expect(step(bot, 100)).toEqual([]);
+  });
+
+  test('sells out and rebuilds the grid around the new price when told to recenter', () => {
+    const bot = new GridTradingBot(config, { ...LADDER, breakoutAction: 'RECENTER' }, new SimulatedClock(0));
+    step(bot, 100);
+
+    expect(step(bot, 120)[0]).toMatchObject({ action: 'SELL', reason: 'Grid recentering: price 120.00 broke above 110.00' });
+    const [buy] = step(bot, 120);
+    const grid = bot.getPositions()[0];
+    expect(grid.lowerPrice).toBeCloseTo(108);
+    expect(grid.upperPrice).toBeCloseTo(132);
+    expect(buy).toMatchObject({ action: 'BUY', reason: 'Grid buy: 2 level(s) down to 120.00' });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import { barsToMarketData, HistoricalDataImporter } from '../HistoricalDataImporter';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2024, 0, 1);
+
+const importer = new HistoricalDataImporter();
+
+describe('HistoricalDataImporter', () => {
+  test('reads a CSV through a column mapping into bars closing before the next one opens', () => {
+    const csv = [
+      'time;o;h;l;c;vol',
+      `${T0 / 1000};100;102;99;101;2`,
+      `${(T0 + HOUR) / 1000};101;105;100;104;3`,
+    ].join('\n');
+    const { scenario, bars, issues } = importer.importCsv(csv, {
+      name: 'BTC hourly',
+      symbol: 'btc',
+      delimiter: ';',
+      volumeInBaseUnits: true,
+      columns: { timestamp: 'time', open: 'o', high: 'h', low: 'l', close: 'c', volume: 'vol' },
+    });
+
+    expect(issues).toEqual([]);
+    expect(bars.map(bar => [bar.symbol, bar.openTime, bar.closeTime, bar.volume])).toEqual([
+      ['BTC', T0, T0 + HOUR - 1, 202],
+      ['BTC', T0 + HOUR, T0 + 2 * HOUR - 1, 312],
+    ]);
+    expect(scenario!.marketData.map(data => [data.price, data.timestamp])).toEqual([[101, T0 + HOUR - 1], [104, T0 + 2 * HOUR - 1]]);
+    expect(scenario!.marketData[1]).toMatchObject({ change24h: 4, high24h: 105, low24h: 99 });
+  });
+
+  test('rejects the file with one issue per bad row', () => {
+    const csv = [
+      'timestamp,open,high,low,close',
+      `${T0},100,99,101,100`,
+      `${T0 + HOUR},100,101,99,-1`,
+      'yesterday-ish,100,101,99,100',
+      `${T0 + 2 * HOUR},100,101,99,100`,
+      `${T0 + 2 * HOUR},100,101,99,100`,
+    ].join('\n');
+    const { scenario, issues } = importer.importCsv(csv, { name: 'bad', symbol: 'BTC' });
+
+    expect(scenario).toBeNull();
+    expect(issues.map(issue => [issue.row, issue.message])).toEqual([
+      [1, 'High 99 is below low 101'],
+      [2, 'Prices must be positive'],
+      [3, 'Unparseable timestamp "yesterday-ish"'],
+      [5, 'BTC: duplicate timestamp'],
+    ]);
+  });
+
+  test('fails files without the required columns or rows', () => {
+    expect(importer.importCsv('timestamp,open\n1,2', { name: 'x', symbol: 'BTC' }).issues[0].message)
+      .toBe('Missing required columns: close');
+    expect(importer.importJson('[]', { name: 'x' }).issues[0].message).toBe('JSON must be a non-empty array of rows');
+    expect(importer.importJson('{', { name: 'x' }).issues[0].message).toContain('Invalid JSON');
+  });
+
+  test('rejects out-of-order rows unless asked to sort them, and flags gaps', () => {
+    const rows = [0, 2, 1, 3, 9].map(hour => ({ symbol: 'ETH', timestamp: new Date(T0 + hour * HOUR).toISOString(), close: 10 + hour }));
+
+    const strict = importer.importJson(rows, { name: 'eth' });
+    expect(strict.scenario).toBeNull();
+    expect(strict.issues[0]).toMatchObject({ severity: 'ERROR', row: 3 });
+
+    const sorted = importer.importJson(rows, { name: 'eth', sortByTime: true });
+    expect(sorted.scenario!.marketData.map(data => data.price)).toEqual([10, 11, 12, 13, 19]);
+    expect(sorted.issues.map(issue => issue.message)).toEqual([
+      'ETH: rows were out of order and have been sorted',
+      'ETH: gap of ~5 bars before this row',
+    ]);
+  });
+});
+
+describe('barsToMarketData', () => {
+  test('merges symbols in time order with changes measured over their own trailing bars', () => {
+    const bar = (symbol: string, hour: number, open: number, close: number) => ({
+      symbol, openTime: T0 + hour * HOUR, closeTime: T0 + (hour + 1) * HOUR - 1, open, high: close, low: open, close, volume: 1,
+    });
+    const marketData = barsToMarketData([bar('ETH', 1, 11, 12), bar('BTC', 0, 100, 110), bar('ETH', 0, 10, 11), bar('BTC', 1, 110, 121)]);
+
+    expect(marketData.map(data => data.timestamp - T0)).toEqual([HOUR - 1, HOUR - 1, 2 * HOUR - 1, 2 * HOUR - 1]);
+    const [, btc] = marketData.filter(data => data.symbol === 'BTC');
+    const [, eth] = marketData.filter(data => data.symbol === 'ETH');
+    expect(btc).toMatchObject({ change24h: 21, change1h: 10, high24h: 121, low24h: 100 });
+    expect(eth.change24h).toBeCloseTo(20);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'bun:test';
+import { SimulatedClock } from '../Clock';
+import { MarketDataGuard } from '../MarketDataGuard';
+import { MarketData } from '../MomentumTradingBot';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+function quote(price: number, timestamp: number, volume: number = 1e6): MarketData {
+  return { symbol: 'BTC', price, volume, timestamp, change24h: 0, change1h: 0, high24h: price, low24h: price };
+}
+
+// A guard that has seen a calm minute-by-minute history, with the clock on the last quote
+function calmGuard(): { guard: MarketDataGuard; clock: SimulatedClock; price: number } {
+  const clock = new SimulatedClock(START);
+  const guard = new MarketDataGuard({}, clock);
+  let price = 100;
+  for (let i = 0; i < 30; i++) {
+    price *= i % 2 === 0 ? 1.001 : 0.9995;
+    guard.inspect([quote(price, clock.now())]);
+    clock.advance(MINUTE);
+  }
+  return { guard, clock, price };
+}
+
+describe('MarketDataGuard', () => {
+  test('holds back a spike until it is confirmed at a consistent level', () => {
+    const { guard, clock, price } = calmGuard();
+    const spiked = price * 1.1;
+
+    const first = guard.inspect([quote(spiked, clock.now())]);
+    expect(first.clean).toEqual([]);
+    expect(first.blocked.has('BTC')).toBe(true);
+    expect(first.anomalies[0]).toMatchObject({ type: 'PRICE_SPIKE', severity: 'CRITICAL' });
+
+    clock.advance(MINUTE);
+    expect(guard.inspect([quote(spiked * 1.001, clock.now())]).clean).toEqual([]);
+    clock.advance(MINUTE);
+    const confirmed = guard.inspect([quote(spiked * 1.002, clock.now())]);
+    expect(confirmed.clean).toHaveLength(1);
+    expect(confirmed.blocked.size).toBe(0);
+  });
+
+  test('treats a very large move as a spike before there is history to judge by', () => {
+    const clock = new SimulatedClock(START);
+    const guard = new MarketDataGuard({}, clock);
+    guard.inspect([quote(100, clock.now())]);
+    clock.advance(MINUTE);
+
+    expect(guard.inspect([quote(140, clock.now())]).anomalies).toEqual([]);
+    clock.advance(MINUTE);
+    expect(guard.inspect([quote(300, clock.now())]).anomalies[0].message).toBe('BTC moved 114.3% in one quote; quote held back');
+  });
+
+  test('blocks a symbol that resumes after a gap but passes its quote on', () => {
+    const { guard, clock, price } = calmGuard();
+    clock.advance(7 * 60 * MINUTE);
+
+    const check = guard.inspect([quote(price, clock.now())]);
+    expect(check.anomalies.map(anomaly => anomaly.type)).toEqual(['GAP']);
+    expect(check.anomalies[0].message).toBe('BTC resumed after 421 min without data');
+    expect(check.blocked.has('BTC')).toBe(true);
+    expect(check.clean).toHaveLength(1);
+  });
+
+  test('blocks stale quotes and reports them once per stale spell', () => {
+    const { guard, clock, price } = calmGuard();
+    const last = clock.now() - MINUTE;
+    clock.advance(16 * MINUTE);
+
+    const first = guard.inspect([quote(price, last)]);
+    expect(first.anomalies.map(anomaly => anomaly.type)).toEqual(['STALE']);
+    expect(first.blocked.has('BTC')).toBe(true);
+
+    clock.advance(MINUTE);
+    const repeat = guard.inspect([quote(price, last)]);
+    expect(repeat.anomalies).toEqual([]);
+    expect(repeat.blocked.has('BTC')).toBe(true);
+
+    const fresh = guard.inspect([quote(price, clock.now())]);
+    expect(fresh.blocked.size).toBe(0);
+  });
+
+  test('drops invalid and out-of-order quotes and pauses symbols without volume', () => {
+    const { guard, clock, price } = calmGuard();
+    const now = clock.now();
+
+    expect(guard.inspect([quote(NaN, now)]).anomalies[0].type).toBe('INVALID_PRICE');
+    expect(guard.inspect([quote(price, now - 10 * MINUTE)]).anomalies[0].type).toBe('OUT_OF_ORDER');
+
+    const idle = guard.inspect([quote(price, now, 0)]);
+    expect(idle.anomalies[0].type).toBe('ZERO_VOLUME');
+    expect(idle.blocked.has('BTC')).toBe(true);
+    expect(guard.getRecentAnomalies().map(anomaly => anomaly.type)).toEqual(['ZERO_VOLUME', 'OUT_OF_ORDER', 'INVALID_PRICE']);
+  });
+});
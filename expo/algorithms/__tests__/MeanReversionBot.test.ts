@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+import { SimulatedClock } from '../Clock';
+import { MeanReversionBot, MeanReversionConfig } from '../MeanReversionBot';
+import { BotConfig, MarketData, TradingSignal } from '../MomentumTradingBot';
+
+const HOUR = 60 * 60 * 1000;
+
+const config: BotConfig = {
+  id: 'reversion',
+  name: 'Mean Reversion',
+  type: 'meanReversion',
+  allocation: 10000,
+  stopLoss: 5,
+  timeframe: '1h',
+  maxPositions: 1,
+  riskLevel: 'MODERATE',
+  enabledAssets: ['BTC', 'ETH'],
+};
+
+const UNFILTERED: Partial<MeanReversionConfig> = { period: 10, trendFilter: 'NONE' };
+
+// Feeds hourly closes per symbol, filling every signal at the close
+function feed(bot: MeanReversionBot, clock: SimulatedClock, closes: Record<string, number[]>): TradingSignal[] {
+  const symbols = Object.keys(closes);
+  const signals: TradingSignal[] = [];
+  closes[symbols[0]].forEach((_, i) => {
+    const quotes = symbols.map((symbol): MarketData => {
+      const price = closes[symbol][i];
+      return { symbol, price, volume: 1e9, timestamp: clock.now(), change24h: 0, change1h: 0, high24h: price, low24h: price };
+    });
+    bot.analyzeMarket(quotes).forEach(signal => {
+      if (signal.action === 'HOLD') return;
+      bot.updatePosition(signal.symbol, signal.action, signal.quantity, signal.price);
+      signals.push(signal);
+    });
+    clock.advance(HOUR);
+  });
+  return signals;
+}
+
+const RANGING = Array.from({ length: 15 }, (_, i) => (i % 2 === 0 ? 100 : 101));
+
+describe('MeanReversionBot', () => {
+  test('buys a stretch below the lower band and sells back at the mean', () => {
+    const clock = new SimulatedClock(0);
+    const bot = new MeanReversionBot(config, UNFILTERED, clock);
+
+    const [entry, exit] = feed(bot, clock, { BTC: [...RANGING, 97, 100.5] });
+    expect(entry).toMatchObject({ action: 'BUY', symbol: 'BTC', price: 97 });
+    expect(entry.reason).toContain('std devs below the 10-period mean');
+    expect(entry.quantity * 97).toBeCloseTo(2500);
+    expect(exit).toMatchObject({ action: 'SELL', price: 100.5, quantity: entry.quantity });
+    expect(exit.reason).toContain('Reverted to the mean');
+    expect(bot.getPositions()).toEqual([]);
+    expect(bot.getPerformance().winRate).toBe(100);
+  });
+
+  test('cuts a position that keeps falling at the stop-loss', () => {
+    const clock = new SimulatedClock(0);
+    const bot = new MeanReversionBot(config, UNFILTERED, clock);
+
+    const [, stop] = feed(bot, clock, { BTC: [...RANGING, 97, 91] });
+    expect(stop).toMatchObject({ action: 'SELL', confidence: 100 });
+    expect(stop.reason).toContain('Stop-loss triggered');
+  });
+
+  test('stays out of a stretch the trend filter calls a trend', () => {
+    // A steady slide with the same final drop below the band
+    const sliding = [...Array.from({ length: 15 }, (_, i) => 110 - i), 92];
+    const unfiltered = new MeanReversionBot(config, UNFILTERED, new SimulatedClock(0));
+    const filtered = new MeanReversionBot(config, { ...UNFILTERED, trendFilter: 'REGIME', regimePeriod: 10 }, new SimulatedClock(0));
+
+    expect(feed(unfiltered, new SimulatedClock(0), { BTC: sliding })).toHaveLength(1);
+    expect(feed(filtered, new SimulatedClock(0), { BTC: sliding })).toEqual([]);
+    expect(filtered.getSnapshots()[0].trending).toBe(true);
+  });
+
+  test('opens no more positions than maxPositions', () => {
+    const clock = new SimulatedClock(0);
+    const bot = new MeanReversionBot(config, UNFILTERED, clock);
+
+    const signals = feed(bot, clock, { BTC: [...RANGING, 97], ETH: [...RANGING, 97] });
+    expect(signals.map(signal => signal.symbol)).toEqual(['BTC']);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import { BacktestTrade, EquityPoint } from '../BacktestEngine';
+import { MonteCarloAnalyzer, percentileBands } from '../MonteCarloAnalyzer';
+
+const HOUR = 60 * 60 * 1000;
+
+function trade(pnl: number): BacktestTrade {
+  return { timestamp: 0, action: 'SELL', symbol: 'BTC', price: 100, quantity: 1, fee: 0, pnl, reason: 'test' };
+}
+
+// Ten hours of equity growing 1% an hour
+const curve: EquityPoint[] = Array.from({ length: 11 }, (_, i) => ({ timestamp: i * HOUR, equity: 10000 * Math.pow(1.01, i) }));
+
+// Small LCG so the sampled distribution does not depend on Math.random
+function lcg(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+describe('percentileBands', () => {
+  test('interpolates linearly between closest ranks', () => {
+    const values = Array.from({ length: 101 }, (_, i) => 100 - i);
+    expect(percentileBands(values)).toEqual({ p5: 5, p25: 25, p50: 50, p75: 75, p95: 95 });
+    expect(percentileBands([10, 20]).p50).toBe(15);
+    expect(percentileBands([10, 20]).p95).toBeCloseTo(19.5);
+  });
+});
+
+describe('MonteCarloAnalyzer', () => {
+  test('replays the trades it draws', () => {
+    const winning = new MonteCarloAnalyzer({ simulations: 10, random: () => 0 })
+      .resampleTrades([trade(100), trade(-50)], curve, 10000)!;
+    expect(winning.finalReturn.p5).toBeCloseTo(2);
+    expect(winning.finalReturn.p95).toBeCloseTo(2);
+    expect(winning.probabilityOfLoss).toBe(0);
+
+    const losing = new MonteCarloAnalyzer({ simulations: 10, random: () => 0.99 })
+      .resampleTrades([trade(100), trade(-50)], curve, 10000)!;
+    expect(losing.finalReturn.p50).toBeCloseTo(-1);
+    expect(losing.maxDrawdown.p50).toBeCloseTo(1);
+    // Both resampled trades (5 hours apart on average) stay under water
+    expect(losing.timeToRecovery.p50).toBeCloseTo(10);
+    expect(losing.probabilityOfLoss).toBe(100);
+  });
+
+  test('spreads resampled outcomes into percentile bands', () => {
+    // Two trades of +-100: -2%, 0% and +2% with probabilities 1/4, 1/2, 1/4
+    const result = new MonteCarloAnalyzer({ simulations: 1000, random: lcg(7) })
+      .resampleTrades([trade(100), trade(-100)], curve, 10000)!;
+
+    expect(result.paths).toBe(1000);
+    expect(result.finalReturn.p5).toBeCloseTo(-2);
+    expect(result.finalReturn.p50).toBeCloseTo(0);
+    expect(result.finalReturn.p95).toBeCloseTo(2);
+    expect(result.probabilityOfLoss).toBeGreaterThan(20);
+    expect(result.probabilityOfLoss).toBeLessThan(30);
+  });
+
+  test('block bootstrap of a steady curve reproduces it on every path', () => {
+    const result = new MonteCarloAnalyzer({ simulations: 50, blockSize: 3 }).blockBootstrap(curve, 10000)!;
+    const expected = (Math.pow(1.01, 10) - 1) * 100;
+
+    expect(result.finalReturn.p5).toBeCloseTo(expected);
+    expect(result.finalReturn.p95).toBeCloseTo(expected);
+    expect(result.maxDrawdown.p95).toBe(0);
+    expect(result.probabilityOfLoss).toBe(0);
+  });
+
+  test('needs two trades and two bar returns to resample', () => {
+    const result = new MonteCarloAnalyzer({ simulations: 10 }).analyze([trade(100)], curve.slice(0, 2), 10000);
+    expect(result.tradeResampling).toBeNull();
+    expect(result.blockBootstrap).toBeNull();
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, test } from 'bun:test';
+import { SimulatedClock } from '../Clock';
+import { BotConfig, MarketData, TradingSignal } from '../MomentumTradingBot';
+import { PairsTradingBot, testCointegration } from '../PairsTradingBot';
+
+const HOUR = 60 * 60 * 1000;
+const LOOKBACK = 40;
+
+const config: BotConfig = {
+  id: 'pairs',
+  name: 'Pairs',
+  type: 'pairs',
+  allocation: 10000,
+  stopLoss: 10,
+  timeframe: '1h',
+  maxPositions: 2,
+  riskLevel: 'MODERATE',
+  enabledAssets: ['A', 'B'],
+};
+
+// B wanders, A tracks 1.5x its log price plus quickly reverting noise
+let seed = 7;
+const draw = () => (seed = (seed * 16807) % 2147483647) / 2147483647 - 0.5;
+const logB = [Math.log(100)];
+const noise = [0];
+for (let i = 1; i <= LOOKBACK + 1; i++) {
+  logB.push(logB[i - 1] + 0.02 * Math.sin(i * 2.3));
+  noise.push(0.3 * noise[i - 1] + 0.006 * draw());
+}
+const logA = logB.map((value, i) => 0.2 + 1.5 * value + noise[i]);
+// Drifts on its own schedule
+const logC = logB.map((_, i) => Math.log(50) + 0.02 * Math.sin(i * 0.31));
+
+function quote(symbol: string, logPrice: number, timestamp: number): MarketData {
+  const price = Math.exp(logPrice);
+  return { symbol, price, volume: 1e9, timestamp, change24h: 0, change1h: 0, high24h: price, low24h: price };
+}
+
+// A bot that has seen a full lookback of the pair, and a way to feed it rounds
+function warmBot(): { bot: PairsTradingBot; step: (a: number, b: number) => TradingSignal[] } {
+  const clock = new SimulatedClock(0);
+  const bot = new PairsTradingBot(config, { lookback: LOOKBACK }, clock);
+  const step = (a: number, b: number) => {
+    const signals = bot.analyzeMarket([quote('A', a, clock.now()), quote('B', b, clock.now())]);
+    clock.advance(HOUR);
+    return signals;
+  };
+  for (let i = 0; i < LOOKBACK; i++) step(logA[i], logB[i]);
+  return { bot, step };
+}
+
+function fill(bot: PairsTradingBot, signals: TradingSignal[]): void {
+  signals.forEach(signal => {
+    if (signal.action !== 'HOLD') bot.updatePosition(signal.symbol, signal.action, signal.quantity, signal.price);
+  });
+}
+
+describe('testCointegration', () => {
+  test('recovers the hedge ratio of a cointegrated pair and finds its spread stationary', () => {
+    const result = testCointegration(logA, logB)!;
+    expect(result.hedgeRatio).toBeCloseTo(1.5, 1);
+    expect(result.adfStatistic).toBeLessThan(-3.34);
+    expect(result.halfLife).toBeLessThan(2);
+  });
+
+  test('finds no stationary spread between unrelated series', () => {
+    expect(testCointegration(logC, logB)!.adfStatistic).toBeGreaterThan(-3.04);
+  });
+});
+
+describe('PairsTradingBot', () => {
+  test('selects the pair once the lookback is full', () => {
+    const { bot } = warmBot();
+    const [pair] = bot.getPairs();
+    expect([pair.symbolA, pair.symbolB].sort()).toEqual(['A', 'B']);
+    expect(pair.cointegrated).toBe(true);
+    expect(pair.correlation).toBeGreaterThan(0.9);
+  });
+
+  test('shorts the rich leg and buys the cheap one as a hedged group, then closes both on reversion', () => {
+    const { bot, step } = warmBot();
+
+    // A jumps 0.6% against B: about 3.4 std devs of spread
+    const entry = step(logA[LOOKBACK] + 0.006, logB[LOOKBACK]);
+    const short = entry.find(signal => signal.symbol === 'A')!;
+    const long = entry.find(signal => signal.symbol === 'B')!;
+    expect(short).toMatchObject({ action: 'SELL', short: true, legCount: 2 });
+    expect(long).toMatchObject({ action: 'BUY', short: false, legCount: 2, groupId: short.groupId });
+
+    // The first leg takes a slice; the other carries the hedge ratio's share of it
+    const [pair] = bot.getPairs();
+    const first = pair.symbolA === 'A' ? short : long;
+    const second = first === short ? long : short;
+    expect(first.quantity * first.price).toBeCloseTo(2500);
+    expect(second.quantity * second.price).toBeCloseTo(2500 * pair.hedgeRatio);
+
+    fill(bot, entry);
+    expect(bot.getPositions().find(position => position.symbol === 'A')!.quantity).toBeCloseTo(-short.quantity);
+
+    const exit = step(0.2 + 1.5 * logB[LOOKBACK + 1], logB[LOOKBACK + 1]);
+    expect(exit.map(signal => [signal.action, signal.symbol])).toEqual([['SELL', 'B'], ['BUY', 'A']]);
+    exit.forEach(signal => {
+      expect(signal.reason).toContain('Spread reverted');
+      expect(signal.groupId).toBe(`${short.groupId}-close`);
+    });
+
+    fill(bot, exit);
+    expect(bot.getPositions()).toEqual([]);
+    expect(bot.getTrades()).toEqual([]);
+  });
+
+  test('leaves alone a spread already stretched past the stop', () => {
+    const { step } = warmBot();
+    expect(step(logA[LOOKBACK] + 0.008, logB[LOOKBACK])).toEqual([]);
+  });
+
+  test('unwinds a leg whose partner did not fill and forgets a group that never filled', () => {
+    const { bot, step } = warmBot();
+    const entry = step(logA[LOOKBACK] + 0.006, logB[LOOKBACK]);
+    fill(bot, entry.filter(signal => signal.symbol === 'B'));
+
+    const [unwind] = step(logA[LOOKBACK + 1], logB[LOOKBACK + 1]);
+    expect(unwind).toMatchObject({ action: 'SELL', symbol: 'B', confidence: 100 });
+    expect(unwind.reason).toContain('Unwinding unhedged leg');
+
+    const rejected = warmBot();
+    expect(rejected.step(logA[LOOKBACK] + 0.006, logB[LOOKBACK])).toHaveLength(2);
+    expect(rejected.step(logA[LOOKBACK + 1], logB[LOOKBACK + 1])).toEqual([]);
+    expect(rejected.bot.getTrades()).toEqual([]);
+  });
+
+  test('trades nothing without a second symbol that moves with the first', () => {
+    const clock = new SimulatedClock(0);
+    const bot = new PairsTradingBot({ ...config, enabledAssets: ['B', 'C'] }, { lookback: LOOKBACK }, clock);
+    for (let i = 0; i <= LOOKBACK + 1; i++) {
+      expect(bot.analyzeMarket([quote('B', logB[i], clock.now()), quote('C', logC[i], clock.now())])).toEqual([]);
+      clock.advance(HOUR);
+    }
+    expect(bot.getPairs().filter(pair => pair.cointegrated)).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'bun:test';
+import { MarketData } from '../MomentumTradingBot';
+import { PaperExchange } from '../PaperExchange';
+
+const BTC: MarketData = { symbol: 'BTC', price: 100, volume: 1e9, timestamp: 0, change24h: 0, change1h: 0, high24h: 100, low24h: 100 };
+
+describe('PaperExchange history', () => {
+  test('keeps open orders and only the most recent closed orders and fills', () => {
+    const exchange = new PaperExchange({ initialBalances: { USD: 1e6 }, historyLimit: 3 });
+    exchange.updateMarket([BTC]);
+
+    const resting = exchange.submitOrder({ symbol: 'BTC', side: 'BUY', type: 'LIMIT', quantity: 1, limitPrice: 50 });
+    const filled = Array.from({ length: 5 }, () => exchange.submitOrder({ symbol: 'BTC', side: 'BUY', type: 'MARKET', quantity: 1 }));
+    expect(filled.every(order => order.status === 'FILLED')).toBe(true);
+
+    expect(exchange.getFills()).toHaveLength(3);
+    expect(exchange.getFills()[0].orderId).toBe(filled[2].id);
+    expect(exchange.getOrder(filled[1].id)).toBeUndefined();
+    expect(exchange.getOrder(filled[4].id)?.status).toBe('FILLED');
+    expect(exchange.getOpenOrders().map(order => order.id)).toEqual([resting.id]);
+    expect(exchange.getBalance('BTC')).toBe(5);
+
+    exchange.updateMarket([{ ...BTC, price: 40 }]);
+    expect(exchange.getOrder(resting.id)?.status).toBe('FILLED');
+    expect(exchange.getBalance('BTC')).toBe(6);
+  });
+});
+
+describe('PaperExchange fills', () => {
+  // Flat 10bps slippage, 0.1% maker and 0.2% taker fees
+  const exchange = (initialBalances: Record<string, number> = { USD: 10000 }) => {
+    const paper = new PaperExchange({ initialBalances, slippage: () => 0.001, makerFeeRate: 0.001, takerFeeRate: 0.002 });
+    paper.updateMarket([BTC]);
+    return paper;
+  };
+
+  test('fills market orders at the slipped price and charges the taker fee', () => {
+    const paper = exchange();
+    const buy = paper.submitOrder({ symbol: 'BTC', side: 'BUY', type: 'MARKET', quantity: 10 });
+    expect(buy.status).toBe('FILLED');
+    expect(buy.averageFillPrice).toBeCloseTo(100.1);
+    expect(buy.fees).toBeCloseTo(1001 * 0.002);
+    expect(paper.getBalance('USD')).toBeCloseTo(10000 - 1001 - 2.002);
+    expect(paper.getBalance('BTC')).toBe(10);
+
+    const sell = paper.submitOrder({ symbol: 'BTC', side: 'SELL', type: 'MARKET', quantity: 4 });
+    expect(sell.averageFillPrice).toBeCloseTo(99.9);
+    expect(paper.getFills().map(fill => fill.liquidity)).toEqual(['TAKER', 'TAKER']);
+    expect(paper.getBalance('BTC')).toBe(6);
+  });
+
+  test('rests limit orders until the market crosses them and fills them as maker', () => {
+    const paper = exchange();
+    const order = paper.submitOrder({ symbol: 'BTC', side: 'BUY', type: 'LIMIT', quantity: 5, limitPrice: 95 });
+    expect(order.status).toBe('OPEN');
+
+    paper.updateMarket([{ ...BTC, price: 97 }]);
+    expect(order.status).toBe('OPEN');
+
+    const [fill] = paper.updateMarket([{ ...BTC, price: 94 }]);
+    expect(order.status).toBe('FILLED');
+    expect(fill.price).toBe(95);
+    expect(fill.liquidity).toBe('MAKER');
+    expect(fill.fee).toBeCloseTo(475 * 0.001);
+  });
+
+  test('fills a marketable limit order on entry as taker, no worse than its limit', () => {
+    const paper = exchange();
+    const order = paper.submitOrder({ symbol: 'BTC', side: 'BUY', type: 'LIMIT', quantity: 1, limitPrice: 100.05 });
+    expect(order.status).toBe('FILLED');
+    expect(order.averageFillPrice).toBe(100.05);
+    expect(paper.getFills()[0].liquidity).toBe('TAKER');
+  });
+
+  test('slips more in thin markets with the default model', () => {
+    const paper = new PaperExchange({ initialBalances: { USD: 1e6 } });
+    paper.updateMarket([BTC, { ...BTC, symbol: 'THIN', volume: 1e5 }]);
+    const deep = paper.submitOrder({ symbol: 'BTC', side: 'BUY', type: 'MARKET', quantity: 10 });
+    const thin = paper.submitOrder({ symbol: 'THIN', side: 'BUY', type: 'MARKET', quantity: 10 });
+    expect(thin.averageFillPrice).toBeGreaterThan(deep.averageFillPrice);
+  });
+
+  test('fills large orders partially against the quoted volume and the rest on later quotes', () => {
+    const paper = exchange();
+    // At most 10% of the quoted volume fills per quote: 1 BTC here
+    paper.updateMarket([{ ...BTC, volume: 1000 }]);
+    const order = paper.submitOrder({ symbol: 'BTC', side: 'BUY', type: 'MARKET', quantity: 2.5 });
+    expect(order.status).toBe('PARTIALLY_FILLED');
+    expect(order.filledQuantity).toBeCloseTo(1);
+    expect(paper.getOpenOrders().map(open => open.id)).toEqual([order.id]);
+
+    paper.updateMarket([{ ...BTC, volume: 1000 }]);
+    expect(order.filledQuantity).toBeCloseTo(2);
+    paper.updateMarket([{ ...BTC, volume: 1000 }]);
+    expect(order.status).toBe('FILLED');
+    expect(paper.getBalance('BTC')).toBeCloseTo(2.5);
+  });
+
+  test('triggers stop orders once the market trades through the stop price', () => {
+    const paper = exchange({ USD: 0, BTC: 2 });
+    const stop = paper.submitOrder({ symbol: 'BTC', side: 'SELL', type: 'STOP', quantity: 2, stopPrice: 90 });
+    expect(stop.status).toBe('OPEN');
+
+    paper.updateMarket([{ ...BTC, price: 89 }]);
+    expect(stop.status).toBe('FILLED');
+    expect(stop.averageFillPrice).toBeCloseTo(89 * 0.999);
+  });
+
+  test('rejects orders the balance cannot cover', () => {
+    const paper = exchange({ USD: 0, BTC: 1 });
+    const sell = paper.submitOrder({ symbol: 'BTC', side: 'SELL', type: 'MARKET', quantity: 2 });
+    expect(sell.status).toBe('REJECTED');
+    expect(sell.rejectReason).toBe('Insufficient BTC balance');
+
+    const buy = paper.submitOrder({ symbol: 'BTC', side: 'BUY', type: 'MARKET', quantity: 1 });
+    expect(buy.status).toBe('REJECTED');
+    expect(buy.rejectReason).toBe('Insufficient funds');
+    expect(paper.getBalances()).toEqual({ USD: 0, BTC: 1 });
+  });
+});
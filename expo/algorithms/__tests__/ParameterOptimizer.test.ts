@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+import { TestScenario } from '../AlgorithmTester';
+import { BotConfig, MarketData } from '../MomentumTradingBot';
+import { ParameterOptimizer, range } from '../ParameterOptimizer';
+
+const HOUR = 60 * 60 * 1000;
+
+const dca: BotConfig = {
+  id: 'dca',
+  name: 'DCA',
+  type: 'dca',
+  allocation: 10000,
+  stopLoss: 50,
+  timeframe: '1h',
+  maxPositions: 5,
+  riskLevel: 'MODERATE',
+  enabledAssets: ['BTC'],
+};
+
+// Ten days of BTC climbing 0.1% an hour
+function rising(name: string): TestScenario {
+  const marketData = Array.from({ length: 240 }, (_, i): MarketData => {
+    const price = 100 * Math.pow(1.001, i);
+    return { symbol: 'BTC', price, volume: 1e9, timestamp: Date.UTC(2024, 0, 1) + i * HOUR, change24h: 2.4, change1h: 0.1, high24h: price, low24h: price * 0.976 };
+  });
+  return { name, description: name, marketData, expectedOutcome: '', riskLevel: 'LOW', duration: 10 };
+}
+
+describe('range', () => {
+  test('steps inclusively without float drift', () => {
+    expect(range(10, 30, 5)).toEqual([10, 15, 20, 25, 30]);
+    expect(range(0.1, 0.3, 0.1)).toEqual([0.1, 0.2, 0.3]);
+    expect(() => range(1, 2, 0)).toThrow('Range step must be positive');
+  });
+});
+
+describe('ParameterOptimizer', () => {
+  const optimizer = new ParameterOptimizer();
+
+  test('ranks every combination and measures the winner against the current config', async () => {
+    const progress: number[] = [];
+    const result = await optimizer.optimize(dca, { amount: [50, 200], interval: [24, 48] }, [rising('up'), rising('up again')], {
+      objective: 'RETURN',
+      onProgress: completed => progress.push(completed),
+    });
+
+    expect(progress).toEqual([1, 2, 3, 4]);
+    expect(result.ranked).toHaveLength(4);
+    result.ranked.slice(1).forEach((combination, i) => {
+      expect(combination.objectiveValue).toBeLessThanOrEqual(result.ranked[i].objectiveValue);
+    });
+    expect(result.baseline.parameters).toEqual({ amount: 100, interval: 24 });
+
+    // Buying more, more often pays in a market that only rises
+    expect(result.best.parameters).toEqual({ amount: 200, interval: 24 });
+    expect(result.optimization).toMatchObject({ optimized: true, improvements: ['amount: 100 -> 200'], confidence: 100 });
+    expect(result.optimization.newParameters.customParams).toMatchObject({ amount: 200, interval: 24 });
+    expect(result.optimization.expectedImprovement).toBeGreaterThan(0);
+  });
+
+  test('keeps the current config when no combination stays within the drawdown cap', async () => {
+    const result = await optimizer.optimize(dca, { amount: [200] }, [rising('up')], { objective: 'RETURN', maxDrawdown: -1 });
+
+    expect(result.best.feasible).toBe(false);
+    expect(result.optimization).toMatchObject({ optimized: false, improvements: [], expectedImprovement: 0 });
+    expect(result.optimization.newParameters).toEqual(dca);
+  });
+
+  test('refuses unknown parameters, invalid candidates and oversized grids', async () => {
+    const scenarios = [rising('up')];
+    await expect(optimizer.optimize(dca, { gridLevels: [5] }, scenarios)).rejects.toThrow('Unknown parameter for dca: gridLevels');
+    await expect(optimizer.optimize(dca, { interval: [0] }, scenarios)).rejects.toThrow('Parameter interval candidate 0');
+    await expect(optimizer.optimize(dca, { stopLoss: [] }, scenarios)).rejects.toThrow('Parameter stopLoss has no candidate values');
+    await expect(optimizer.optimize(dca, { stopLoss: range(1, 10, 1), amount: range(10, 100, 10) }, scenarios, { maxCombinations: 50 }))
+      .rejects.toThrow('Parameter space has 100 combinations (limit 50)');
+    await expect(optimizer.optimize(dca, { stopLoss: [5] }, [])).rejects.toThrow('Optimization needs at least one scenario');
+  });
+
+  test('applies config fields directly and strategy parameters as custom params', () => {
+    const config = optimizer.applyParameters(dca, { stopLoss: '8', amount: 250 });
+    expect(config.stopLoss).toBe(8);
+    expect(config.customParams).toEqual({ amount: 250 });
+    expect(dca.customParams).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'bun:test';
+import { MarketData, Position, TradingSignal } from '../MomentumTradingBot';
+import { PortfolioRiskEngine } from '../PortfolioRiskEngine';
+import { DEFAULT_RISK_LIMITS, RiskLimits } from '../RiskManager';
+
+function quote(symbol: string, price: number, timestamp: number = 0): MarketData {
+  return { symbol, price, volume: 1e9, timestamp, change24h: 0, change1h: 0, high24h: price, low24h: price };
+}
+
+function holding(symbol: string, quantity: number, price: number = 100): Position {
+  return { symbol, quantity, entryPrice: price, currentPrice: price, pnl: 0, pnlPercentage: 0, timestamp: 0 };
+}
+
+function signal(action: 'BUY' | 'SELL', symbol: string = 'BTC', price: number = 100): TradingSignal {
+  return { action, symbol, confidence: 80, price, quantity: 0, reason: 'test', timestamp: 0, riskLevel: 'LOW' };
+}
+
+// Two bots with 10000 each, trading BTC and ETH at 100
+function engine(limits: Partial<RiskLimits> = {}, holdings: { a?: Position[]; b?: Position[] } = {}): PortfolioRiskEngine {
+  const risk = new PortfolioRiskEngine({ ...DEFAULT_RISK_LIMITS, ...limits });
+  risk.updateMarket([quote('BTC', 100), quote('ETH', 100)]);
+  const account = (positions: Position[] = []) => ({
+    cash: 10000 - positions.reduce((sum, position) => sum + position.quantity * 100, 0),
+    positions,
+  });
+  risk.updateAccount('a', account(holdings.a));
+  risk.updateAccount('b', account(holdings.b));
+  return risk;
+}
+
+describe('PortfolioRiskEngine.checkSignal', () => {
+  test('resizes a buy to the position limit of its own account', () => {
+    const decision = engine().checkSignal('a', signal('BUY'), 30);
+    expect(decision.approved).toBe(true);
+    expect(decision.quantity).toBeCloseTo(25);
+    expect(decision.reason).toContain('Position size capped at 25%');
+  });
+
+  test('caps one asset across every bot at the concentration limit', () => {
+    const limits = { maxPositionSize: 50, maxAssetConcentration: 30 };
+
+    const resized = engine(limits, { a: [holding('BTC', 40)] }).checkSignal('b', signal('BUY'), 30);
+    expect(resized.quantity).toBeCloseTo(20);
+    expect(resized.reason).toContain('BTC concentration capped at 30%');
+
+    const vetoed = engine(limits, { a: [holding('BTC', 60)] }).checkSignal('b', signal('BUY'), 30);
+    expect(vetoed.approved).toBe(false);
+    expect(vetoed.reason).toBe('BTC concentration at limit: 30.00% of 30%');
+  });
+
+  test('caps gross exposure of the whole portfolio', () => {
+    const decision = engine({ maxPositionSize: 100, maxTotalExposure: 50 }, { a: [holding('ETH', 90)] })
+      .checkSignal('b', signal('BUY'), 30);
+    expect(decision.quantity).toBeCloseTo(10);
+    expect(decision.reason).toContain('Total exposure capped at 50%');
+  });
+
+  test('vetoes buys once the combined account is too far below its peak', () => {
+    const risk = engine({ maxPositionSize: 100 }, { a: [holding('BTC', 100)] });
+    risk.updateMarket([quote('BTC', 50, 1)]);
+
+    expect(risk.getDrawdown()).toBeCloseTo(25);
+    const decision = risk.checkSignal('b', signal('BUY', 'ETH'), 1);
+    expect(decision.approved).toBe(false);
+    expect(decision.reason).toContain('Account drawdown exceeds limit: 25.00% > 20%');
+  });
+
+  test('vetoes buys that crowd the portfolio into correlated assets', () => {
+    const risk = engine({}, { a: [holding('BTC', 10)] });
+    for (let i = 1; i <= 30; i++) {
+      const move = 0.01 * Math.sin(i);
+      risk.updateMarket([quote('BTC', 100 * Math.exp(move), i), quote('ETH', 100 * Math.exp(2 * move), i)]);
+    }
+
+    const decision = risk.checkSignal('b', signal('BUY', 'ETH'), 10);
+    expect(decision.approved).toBe(false);
+    expect(decision.reason).toContain('Portfolio correlation would exceed limit');
+  });
+
+  test('always lets sells through', () => {
+    const risk = engine({}, { a: [holding('BTC', 100)] });
+    risk.updateMarket([quote('BTC', 10, 1)]);
+    expect(risk.checkSignal('a', signal('SELL', 'BTC', 10), 100).approved).toBe(true);
+  });
+
+  test('treats adding and removing a bot as moving capital, not as gains or losses', () => {
+    const risk = engine();
+    risk.updateAccount('c', { cash: 5000, positions: [] });
+    expect(risk.getEquity()).toBe(25000);
+    expect(risk.getDrawdown()).toBe(0);
+
+    risk.removeAccount('a');
+    expect(risk.getEquity()).toBe(15000);
+    expect(risk.getDrawdown()).toBe(0);
+  });
+});
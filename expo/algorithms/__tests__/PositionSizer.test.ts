@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test';
+import { PositionSizer } from '../PositionSizer';
+
+// Closes swinging by `step` around `base` and ending on it: the average
+// close-to-close move is step / base of the last price
+function swinging(base: number, step: number): number[] {
+  return Array.from({ length: 15 }, (_, i) => base + (i % 2 === 1 ? step : 0));
+}
+
+const EQUITY = 10000;
+
+describe('PositionSizer', () => {
+  test('fixed fractional stakes one slice per position, or the configured fraction', () => {
+    const request = { price: 100, equity: EQUITY, prices: [] };
+    expect(new PositionSizer({}, 5).targetNotional(request)).toBeCloseTo(2000);
+    expect(new PositionSizer({ fraction: 0.1 }, 5).targetNotional(request)).toBeCloseTo(1000);
+    // Never beyond the per-position cap
+    expect(new PositionSizer({}, 2).targetNotional(request)).toBeCloseTo(2500);
+  });
+
+  test('volatility target risks riskPerTrade percent on a multiple of the average move', () => {
+    const sizer = new PositionSizer({ method: 'VOLATILITY_TARGET', riskPerTrade: 0.2, volatilityMultiple: 2 }, 5);
+
+    // 0.2% / (2 * 1% moves) = 10% of equity
+    expect(sizer.targetNotional({ price: 100, equity: EQUITY, prices: swinging(100, 1) })).toBeCloseTo(1000);
+    expect(sizer.targetNotional({ price: 100, equity: EQUITY, prices: swinging(100, 2) })).toBeCloseTo(500);
+    expect(sizer.targetQuantity({ price: 100, equity: EQUITY, prices: swinging(100, 2) })).toBeCloseTo(5);
+    // Without a price history it falls back to a fixed slice
+    expect(sizer.targetNotional({ price: 100, equity: EQUITY, prices: [100] })).toBeCloseTo(2000);
+  });
+
+  test('kelly stakes a share of the full Kelly fraction once enough trades have closed', () => {
+    const sizer = new PositionSizer({ method: 'KELLY', kellyFraction: 0.5, minTrades: 4, maxPositionFraction: 1 }, 5);
+    const request = { price: 100, equity: EQUITY, prices: [] };
+
+    [10, 10, 10].forEach(returnPct => sizer.recordTrade(returnPct));
+    expect(sizer.targetNotional(request)).toBeCloseTo(2000);
+
+    // W = 0.75, R = 10 / 5 = 2: f* = 0.75 - 0.25 / 2 = 0.625, half of it staked
+    sizer.recordTrade(-5);
+    expect(sizer.targetNotional(request)).toBeCloseTo(3125);
+  });
+
+  test('kelly stakes nothing without a winning trade and the cap without a losing one', () => {
+    const losing = new PositionSizer({ method: 'KELLY', minTrades: 2 }, 5);
+    [-1, -2].forEach(returnPct => losing.recordTrade(returnPct));
+    expect(losing.targetNotional({ price: 100, equity: EQUITY, prices: [] })).toBe(0);
+
+    const winning = new PositionSizer({ method: 'KELLY', minTrades: 2 }, 5);
+    [1, 2].forEach(returnPct => winning.recordTrade(returnPct));
+    expect(winning.targetNotional({ price: 100, equity: EQUITY, prices: [] })).toBeCloseTo(2500);
+  });
+
+  test('inverse volatility shifts the slices toward the calmer symbol', () => {
+    const sizer = new PositionSizer({ method: 'INVERSE_VOLATILITY', maxPositionFraction: 1 }, 4);
+    const calm = swinging(100, 1);
+    const wild = swinging(100, 3);
+
+    // Average move 2%: the 1% symbol gets twice a slice, the 3% one two thirds of it
+    expect(sizer.targetNotional({ price: 100, equity: EQUITY, prices: calm, peerPrices: [wild] })).toBeCloseTo(5000);
+    expect(sizer.targetNotional({ price: 100, equity: EQUITY, prices: wild, peerPrices: [calm] })).toBeCloseTo(2500 * 2 / 3);
+    // Alone it gets a plain slice
+    expect(sizer.targetNotional({ price: 100, equity: EQUITY, prices: wild })).toBeCloseTo(2500);
+  });
+
+  test('sizes nothing without equity or a price', () => {
+    const sizer = new PositionSizer({}, 5);
+    expect(sizer.targetNotional({ price: 100, equity: 0, prices: [] })).toBe(0);
+    expect(sizer.targetQuantity({ price: 0, equity: EQUITY, prices: [] })).toBe(0);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, test } from 'bun:test';
+import { SimulatedClock } from '../Clock';
+import { BotConfig, MarketData, TradingSignal } from '../MomentumTradingBot';
+import { capTargetWeights, parseTargetWeights, RebalancingBot } from '../RebalancingBot';
+import { DEFAULT_RISK_LIMITS } from '../RiskManager';
+
+const HOUR = 60 * 60 * 1000;
+
+const config: BotConfig = {
+  id: 'rebalance',
+  name: 'Rebalance',
+  type: 'rebalance',
+  allocation: 10000,
+  stopLoss: 0,
+  timeframe: '1h',
+  maxPositions: 5,
+  riskLevel: 'CONSERVATIVE',
+  enabledAssets: [],
+};
+
+// Loose enough that a 50% target is held as configured
+const LIMITS = { ...DEFAULT_RISK_LIMITS, maxPositionSize: 60, maxAssetConcentration: 60 };
+const TARGETS = { BTC: 50, ETH: 30 };
+
+function quotes(prices: Record<string, number>, timestamp: number): MarketData[] {
+  return Object.entries(prices).map(([symbol, price]) => (
+    { symbol, price, volume: 1e9, timestamp, change24h: 0, change1h: 0, high24h: price, low24h: price }
+  ));
+}
+
+// Analyzes one round and fills every signal at its price
+function round(bot: RebalancingBot, clock: SimulatedClock, prices: Record<string, number>): TradingSignal[] {
+  const signals = bot.analyzeMarket(quotes(prices, clock.now()));
+  signals.forEach(signal => {
+    if (signal.action !== 'HOLD') bot.updatePosition(signal.symbol, signal.action, signal.quantity, signal.price);
+  });
+  return signals;
+}
+
+function fundedBot(clock: SimulatedClock): RebalancingBot {
+  const bot = new RebalancingBot(config, { targets: TARGETS }, clock, LIMITS);
+  round(bot, clock, { BTC: 100, ETH: 10 });
+  return bot;
+}
+
+describe('target weights', () => {
+  test('parses symbol weights and rejects malformed or oversubscribed baskets', () => {
+    expect(parseTargetWeights('btc:50, ETH=30%; SOL:20')).toEqual({ BTC: 50, ETH: 30, SOL: 20 });
+    expect(() => parseTargetWeights('BTC:50, ETH')).toThrow('expected SYMBOL:PERCENT');
+    expect(() => parseTargetWeights('BTC:50, BTC:10')).toThrow('BTC is listed twice');
+    expect(() => parseTargetWeights('BTC:70, ETH:40')).toThrow('more than 100%');
+  });
+
+  test('caps each asset at the position limit and the basket at the exposure limit', () => {
+    expect(capTargetWeights({ BTC: 50, ETH: 20 }, DEFAULT_RISK_LIMITS)).toEqual({ BTC: 25, ETH: 20 });
+
+    const capped = capTargetWeights({ BTC: 60, ETH: 40 }, { ...LIMITS, maxTotalExposure: 80 }, 5);
+    expect(capped.BTC).toBeCloseTo(45);
+    expect(capped.ETH).toBeCloseTo(30);
+  });
+});
+
+describe('RebalancingBot', () => {
+  test('trades only the target basket and buys it on the first analysis', () => {
+    const clock = new SimulatedClock(0);
+    const bot = new RebalancingBot(config, { targets: TARGETS }, clock, LIMITS);
+    expect(bot.getConfig().enabledAssets).toEqual(['BTC', 'ETH']);
+
+    const signals = round(bot, clock, { BTC: 100, ETH: 10, SOL: 50 });
+    expect(signals.map(signal => [signal.action, signal.symbol, signal.quantity])).toEqual([
+      ['BUY', 'BTC', 50],
+      ['BUY', 'ETH', 300],
+    ]);
+    expect(bot.getEquity()).toBeCloseTo(10000);
+  });
+
+  test('sells the asset that drifted over and funds the one left behind', () => {
+    const clock = new SimulatedClock(0);
+    const bot = fundedBot(clock);
+
+    // BTC doubles: 10000 of 15000 equity, 66.7% against a 50% target
+    clock.advance(HOUR);
+    const [sell, buy] = round(bot, clock, { BTC: 200, ETH: 10 });
+    expect(sell).toMatchObject({ action: 'SELL', symbol: 'BTC', reason: 'Rebalance BTC: 66.7% -> 50.0% target' });
+    expect(sell.quantity).toBeCloseTo(12.5);
+    expect(buy).toMatchObject({ action: 'BUY', symbol: 'ETH' });
+    expect(buy.quantity).toBeCloseTo(150);
+
+    bot.getAllocation().forEach(weight => expect(Math.abs(weight.drift)).toBeLessThan(0.01));
+    expect(bot.getPerformance().winRate).toBe(100);
+  });
+
+  test('waits for the schedule while drift stays within the threshold', () => {
+    const clock = new SimulatedClock(0);
+    const bot = fundedBot(clock);
+
+    // BTC +10%: 55 of 10500, about 2.4 points over target
+    clock.advance(HOUR);
+    expect(round(bot, clock, { BTC: 110, ETH: 10 })).toEqual([]);
+
+    clock.advance(7 * 24 * HOUR);
+    const [sell] = round(bot, clock, { BTC: 110, ETH: 10 });
+    expect(sell).toMatchObject({ action: 'SELL', symbol: 'BTC' });
+    expect(bot.getLastRebalance()).toBe(clock.now());
+  });
+
+  test('skips adjustments smaller than the minimum trade value', () => {
+    const clock = new SimulatedClock(0);
+    const bot = new RebalancingBot(config, { targets: TARGETS, minTradeValue: 1000 }, clock, LIMITS);
+    round(bot, clock, { BTC: 100, ETH: 10 });
+
+    // 250 off target on BTC, under the 1000 minimum
+    clock.advance(7 * 24 * HOUR);
+    expect(round(bot, clock, { BTC: 110, ETH: 10 })).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, test } from 'bun:test';
+import { MarketData, Position, TradingSignal } from '../MomentumTradingBot';
+import { DEFAULT_RISK_LIMITS, RiskManager } from '../RiskManager';
+
+const BTC: MarketData = { symbol: 'BTC', price: 100, volume: 1e9, timestamp: 0, change24h: 0, change1h: 0, high24h: 100, low24h: 100 };
+
+function buy(quantity: number): TradingSignal {
+  return { action: 'BUY', symbol: 'BTC', confidence: 80, price: 100, quantity, reason: 'test', timestamp: 0, riskLevel: 'LOW' };
+}
+
+function holding(quantity: number): Position {
+  return { symbol: 'BTC', quantity, entryPrice: 100, currentPrice: 100, pnl: 0, pnlPercentage: 0, timestamp: 0 };
+}
+
+describe('RiskManager.validateSignal', () => {
+  const riskManager = new RiskManager(DEFAULT_RISK_LIMITS);
+
+  test('cuts an oversized first buy back to the position limit of equity', () => {
+    const validation = riskManager.validateSignal(buy(50), [], [BTC], 10000);
+    expect(validation.approved).toBe(true);
+    expect(validation.adjustedQuantity).toBeCloseTo(25);
+  });
+
+  test('approves small buys next to existing holdings', () => {
+    const validation = riskManager.validateSignal(buy(5), [holding(20)], [BTC], 10000);
+    expect(validation.approved).toBe(true);
+    expect(validation.adjustedQuantity).toBeUndefined();
+  });
+
+  test('rejects buys that take gross exposure beyond the limit', () => {
+    const validation = riskManager.validateSignal(buy(20), [holding(90)], [BTC], 10000);
+    expect(validation.approved).toBe(false);
+    expect(validation.reason).toContain('Total exposure would exceed limit');
+  });
+
+  test('rejects buys on an account without equity', () => {
+    expect(riskManager.validateSignal(buy(1), [], [BTC], 0).approved).toBe(false);
+  });
+
+  test('never holds up a sell that closes a holding', () => {
+    const sell: TradingSignal = { ...buy(20), action: 'SELL' };
+    expect(riskManager.validateSignal(sell, [holding(90)], [BTC], 0).approved).toBe(true);
+  });
+});
+
+// Quotes per round from per-symbol log returns, all starting at 100
+function quotesFromReturns(returns: Record<string, number[]>): MarketData[][] {
+  const symbols = Object.keys(returns);
+  const rounds = returns[symbols[0]].length + 1;
+  return Array.from({ length: rounds }, (_, round) => symbols.map(symbol => {
+    const price = 100 * Math.exp(returns[symbol].slice(0, round).reduce((sum, value) => sum + value, 0));
+    return { ...BTC, symbol, price, timestamp: round };
+  }));
+}
+
+describe('RiskManager correlation and beta', () => {
+  const btc = Array.from({ length: 30 }, (_, i) => 0.01 * Math.sin(i + 1));
+
+  function fed(returns: Record<string, number[]>, minObservations: number = 20): RiskManager {
+    const riskManager = new RiskManager(DEFAULT_RISK_LIMITS, undefined, { minObservations });
+    quotesFromReturns(returns).forEach(round => riskManager.updateReturnHistory(round));
+    return riskManager;
+  }
+
+  test('measures lockstep moves as perfectly correlated with their leverage as beta', () => {
+    const riskManager = fed({ BTC: btc, ETH: btc.map(value => 2 * value), SOL: btc.map(value => -value) });
+
+    expect(riskManager.getCorrelation('BTC', 'ETH')).toBeCloseTo(1);
+    expect(riskManager.getCorrelation('ETH', 'SOL')).toBeCloseTo(-1);
+    expect(riskManager.getBeta('ETH')).toBeCloseTo(2);
+    expect(riskManager.getBeta('SOL')).toBeCloseTo(-1);
+    expect(riskManager.getBeta('BTC')).toBe(1);
+  });
+
+  test('measures offsetting moves as uncorrelated', () => {
+    const riskManager = fed({ BTC: [0.01, -0.01, 0.02, -0.02], ETH: [0.01, 0.01, -0.01, -0.01] }, 4);
+
+    expect(riskManager.getCorrelation('BTC', 'ETH')).toBeCloseTo(0);
+    expect(riskManager.getBeta('ETH')).toBeCloseTo(0);
+  });
+
+  test('waits for enough shared history and ignores repeated quotes', () => {
+    const riskManager = fed({ BTC: btc.slice(0, 10), ETH: btc.slice(0, 10) });
+    expect(riskManager.getCorrelation('BTC', 'ETH')).toBeUndefined();
+    expect(riskManager.getBeta('ETH')).toBeUndefined();
+
+    const repeated = fed({ BTC: btc, ETH: btc.map(value => -value) });
+    const [last] = quotesFromReturns({ BTC: btc, ETH: btc }).slice(-1);
+    repeated.updateReturnHistory(last);
+    expect(repeated.getCorrelation('BTC', 'ETH')).toBeCloseTo(-1);
+  });
+
+  test('counts a long and a short leg of correlated symbols as a hedge', () => {
+    const riskManager = fed({ BTC: btc, ETH: btc.map(value => 2 * value) });
+    const eth = { ...holding(10), symbol: 'ETH' };
+    const marketData = [BTC, { ...BTC, symbol: 'ETH' }];
+
+    expect(riskManager.calculatePortfolioCorrelation([holding(10), eth], marketData)).toBeCloseTo(1);
+    expect(riskManager.calculatePortfolioCorrelation([holding(10), { ...eth, quantity: -10 }], marketData)).toBeCloseTo(-1);
+  });
+});
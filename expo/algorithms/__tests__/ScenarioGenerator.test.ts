@@ -0,0 +1,57 @@
+import { describe, expect, test } from 'bun:test';
+import { createRandom, deriveSeed } from '../Random';
+import { DEFAULT_SCENARIO_PARAMS, generateScenarioData } from '../ScenarioGenerator';
+
+const prices = (data: { price: number }[]) => data.map(point => point.price);
+
+describe('createRandom', () => {
+  test('replays the same sequence for the same seed only', () => {
+    const draw = (seed: number) => {
+      const random = createRandom(seed);
+      return Array.from({ length: 5 }, () => random());
+    };
+
+    expect(draw(42)).toEqual(draw(42));
+    expect(draw(43)).not.toEqual(draw(42));
+    draw(42).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  test('derives distinct, stable streams per key', () => {
+    expect(deriveSeed(42, 'BTC')).toBe(deriveSeed(42, 'BTC'));
+    expect(deriveSeed(42, 'BTC')).not.toBe(deriveSeed(42, 'ETH'));
+    expect(deriveSeed(42, 'BTC')).not.toBe(deriveSeed(43, 'BTC'));
+  });
+});
+
+describe('generateScenarioData', () => {
+  const params = { ...DEFAULT_SCENARIO_PARAMS, jumpIntensity: 1, jumpSize: 5 };
+
+  test('regenerates identical data from the same seed and params', () => {
+    expect(generateScenarioData(params, 5, 42)).toEqual(generateScenarioData(params, 5, 42));
+  });
+
+  test('draws a different path from a different seed', () => {
+    expect(prices(generateScenarioData(params, 5, 43))).not.toEqual(prices(generateScenarioData(params, 5, 42)));
+  });
+
+  test('keeps each symbol on its own stream when symbols are added', () => {
+    const single = generateScenarioData(params, 5, 42);
+    const multi = generateScenarioData({ ...params, symbols: 3 }, 5, 42);
+
+    expect(multi).toHaveLength(single.length * 3);
+    expect(multi.filter(data => data.symbol === 'BTC')).toEqual(single);
+  });
+
+  test('compounds the drift on a path without noise', () => {
+    const data = generateScenarioData({ ...DEFAULT_SCENARIO_PARAMS, volatility: 0, drift: 2, volumeVariation: 0 }, 10, 1);
+
+    expect(data).toHaveLength(240);
+    expect(data[0].price).toBe(100);
+    expect(data[239].price).toBeCloseTo(100 * Math.exp(0.02 * (239 / 24)));
+    expect(data[239].change24h).toBeCloseTo((Math.exp(0.02) - 1) * 100);
+    data.forEach(point => expect(point.volume).toBe(DEFAULT_SCENARIO_PARAMS.baseVolume));
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test';
+import { SimulatedClock } from '../Clock';
+import { BotConfig, MarketData } from '../MomentumTradingBot';
+import { SmartStakingBot } from '../SmartStakingBot';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+const config: BotConfig = {
+  id: 'staking',
+  name: 'Staking',
+  type: 'staking',
+  allocation: 10000,
+  stopLoss: 0,
+  takeProfit: 0,
+  timeframe: '1h',
+  maxPositions: 5,
+  riskLevel: 'MODERATE',
+  enabledAssets: ['ETH'],
+};
+
+function quote(price: number, timestamp: number): MarketData {
+  return { symbol: 'ETH', price, volume: 1e9, timestamp, change24h: 0, change1h: 0, high24h: price, low24h: price };
+}
+
+// A bot whose opening buy has filled in full
+function stakedBot(): { bot: SmartStakingBot; clock: SimulatedClock } {
+  const clock = new SimulatedClock(START);
+  const bot = new SmartStakingBot(config, clock);
+  const [signal] = bot.analyzeMarket([quote(100, clock.now())]);
+  bot.updatePosition('ETH', 'BUY', signal.quantity, 100);
+  return { bot, clock };
+}
+
+describe('SmartStakingBot positions', () => {
+  test('stakes a fill on the platform its signal targeted', () => {
+    const clock = new SimulatedClock(START);
+    const bot = new SmartStakingBot(config, clock);
+    const [signal] = bot.analyzeMarket([quote(100, clock.now())]);
+    expect(signal.action).toBe('BUY');
+
+    bot.updatePosition('ETH', 'BUY', signal.quantity, 100);
+    const [position] = bot.getPositions();
+    expect(signal.reason).toContain(`on ${position.platform}`);
+    expect(position.stakedAmount).toBeCloseTo(signal.quantity * 100);
+  });
+
+  test('unstakes part of a position on a partial sell and closes it on a full one', () => {
+    const { bot } = stakedBot();
+    const { quantity, stakedAmount } = bot.getPositions()[0];
+
+    bot.updatePosition('ETH', 'SELL', quantity * 0.4, 120);
+    expect(bot.getPositions()).toHaveLength(1);
+    expect(bot.getPositions()[0].quantity).toBeCloseTo(quantity * 0.6);
+    expect(bot.getPositions()[0].stakedAmount).toBeCloseTo(stakedAmount * 0.6);
+
+    bot.updatePosition('ETH', 'SELL', quantity * 0.6, 120);
+    expect(bot.getPositions()).toHaveLength(0);
+  });
+
+  test('never unlocks a position that has no lock period', () => {
+    const { bot, clock } = stakedBot();
+    expect(bot.getPositions()[0].lockPeriod).toBe(0);
+
+    for (let hour = 0; hour < 6; hour++) {
+      clock.advance(HOUR);
+      const signals = bot.analyzeMarket([quote(100, clock.now())]);
+      expect(signals.filter(signal => signal.action === 'SELL')).toEqual([]);
+    }
+    expect(bot.getPositions()[0].status).toBe('ACTIVE');
+  });
+
+  test('compounds once per compounding interval', () => {
+    const { bot, clock } = stakedBot();
+    const compounds = () => bot.analyzeMarket([quote(100, clock.now())])
+      .filter(signal => signal.reason === 'Compounding staking rewards');
+
+    clock.advance(HOUR);
+    expect(compounds()).toHaveLength(0);
+
+    const interval = bot.getPositions()[0].compoundFrequency === 'DAILY' ? 24 * HOUR : 7 * 24 * HOUR;
+    clock.advance(interval);
+    const [compound] = compounds();
+    const position = bot.getPositions()[0];
+    expect(compound.quantity * 100).toBeCloseTo(position.estimatedRewards * (interval + HOUR) / (24 * HOUR));
+
+    clock.advance(HOUR);
+    expect(compounds()).toHaveLength(0);
+  });
+
+  test('sizes each stake with the position sizer', () => {
+    const clock = new SimulatedClock(START);
+    const bot = new SmartStakingBot({ ...config, sizing: { fraction: 0.05 } }, clock);
+    const [signal] = bot.analyzeMarket([quote(100, clock.now())]);
+    expect(signal.quantity * 100).toBeCloseTo(500);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, test } from 'bun:test';
+import { strategyRegistry, validateParam } from '../StrategyRegistry';
+
+describe('strategy parameters', () => {
+  const cciPeriod = strategyRegistry.get('cci')!.configSchema.find(param => param.key === 'period')!;
+
+  test('enforce the schema min and max', () => {
+    expect(validateParam(cciPeriod, 0)).toBe('must be at least 5');
+    expect(validateParam(cciPeriod, 101)).toBe('must be at most 100');
+    expect(validateParam(cciPeriod, Number.NaN)).toBe('must be a number');
+    expect(validateParam(cciPeriod, 20)).toBeUndefined();
+  });
+
+  test('fall back to defaults and reject out-of-range custom values', () => {
+    expect(strategyRegistry.resolveParams('dca').amount).toBe(100);
+    expect(strategyRegistry.resolveParams('dca', { amount: 250 }).amount).toBe(250);
+    expect(() => strategyRegistry.resolveParams('dca', { amount: -5 })).toThrow('must be at least 1');
+    expect(() => strategyRegistry.resolveParams('dca', { frequency: 'HOURLY' })).toThrow('must be one of');
+    expect(() => strategyRegistry.resolveParams('meanReversion', { period: 0 })).toThrow('must be at least 5');
+    expect(() => strategyRegistry.resolveParams('rebalance', { schedule: 'HOURLY' })).toThrow('must be one of');
+  });
+});
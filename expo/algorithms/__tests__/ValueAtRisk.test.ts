@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test';
+import { estimateVaR, runStressTests, STRESS_SCENARIOS } from '../ValueAtRisk';
+
+const HOUR = 60 * 60 * 1000;
+
+// Hourly returns evenly spread from -5% to +4.9%
+const RETURNS = Array.from({ length: 100 }, (_, i) => (i - 50) / 1000);
+
+describe('estimateVaR', () => {
+  const [var95, var99] = estimateVaR(RETURNS, HOUR, { horizonsMs: [HOUR] });
+
+  test('reads historical VaR and CVaR off the sorted tail', () => {
+    // Worst 5 returns: -5.0% to -4.6%
+    expect(var95).toMatchObject({ confidence: 0.95, scaled: false, observations: 100 });
+    expect(var95.historicalVaR).toBeCloseTo(4.6);
+    expect(var95.historicalCVaR).toBeCloseTo(4.8);
+    expect(var99.historicalVaR).toBeCloseTo(5);
+    expect(var99.historicalCVaR).toBeCloseTo(5);
+  });
+
+  test('matches the normal VaR and expected shortfall of the sample mean and deviation', () => {
+    // Reference values from the exact normal quantile and density
+    expect(var95.parametricVaR).toBeCloseTo(4.821966, 5);
+    expect(var95.parametricCVaR).toBeCloseTo(6.034238, 5);
+    expect(var99.parametricVaR).toBeCloseTo(6.799082, 5);
+    expect(var99.parametricCVaR).toBeCloseTo(7.782184, 5);
+  });
+
+  test('compounds overlapping windows for longer horizons while there are enough', () => {
+    const [measured] = estimateVaR(new Array(30).fill(-0.01), HOUR, { horizonsMs: [2 * HOUR], confidenceLevels: [0.95] });
+    expect(measured).toMatchObject({ scaled: false, observations: 29 });
+    expect(measured.historicalVaR).toBeCloseTo(1.99);
+  });
+
+  test('scales one-period figures by the square root of time without enough windows', () => {
+    const [scaled] = estimateVaR(RETURNS, HOUR, { horizonsMs: [4 * HOUR], confidenceLevels: [0.95], minWindows: 1000 });
+    expect(scaled.scaled).toBe(true);
+    expect(scaled.historicalVaR).toBeCloseTo(9.2);
+    expect(scaled.historicalCVaR).toBeCloseTo(9.6);
+  });
+
+  test('needs two returns and a period', () => {
+    expect(estimateVaR([0.01], HOUR)).toEqual([]);
+    expect(estimateVaR(RETURNS, 0)).toEqual([]);
+  });
+});
+
+describe('runStressTests', () => {
+  const holdings = [{ symbol: 'BTC', value: 1000 }, { symbol: 'ETH', value: 500 }];
+  const context = {
+    getBeta: (symbol: string) => (symbol === 'ETH' ? 2 : undefined),
+    getWorstMove: (symbol: string) => (symbol === 'BTC' ? -0.3 : undefined),
+  };
+  const [crash, depeg, outage] = runStressTests(holdings, 500, context, STRESS_SCENARIOS);
+
+  test('moves other holdings by their beta in a crash', () => {
+    // BTC -40% of 1000, ETH -80% of 500
+    expect(crash.pnl).toBeCloseTo(-800);
+    expect(crash.pnlPercent).toBeCloseTo(-40);
+    expect(crash.worstSymbol).toBe('BTC');
+  });
+
+  test('never loses more than a holding is worth', () => {
+    const [capped] = runStressTests(holdings, 500, { ...context, getBeta: () => 3 }, STRESS_SCENARIOS);
+    // BTC keeps its scripted -40%; ETH at beta 3 is floored at -100%
+    expect(capped.pnl).toBeCloseTo(-400 - 500);
+  });
+
+  test('hits the cash balance in a depeg', () => {
+    expect(depeg.pnl).toBeCloseTo(-0.15 * 500 - 0.1 * 1500);
+  });
+
+  test('takes each holding\'s worst move on record during an outage', () => {
+    expect(outage.pnl).toBeCloseTo(-0.3 * 1000 - 0.2 * 500);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test';
+import { BotConfig, MarketData } from '../MomentumTradingBot';
+import { WalkForwardAnalyzer } from '../WalkForwardAnalyzer';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+const dca: BotConfig = {
+  id: 'dca',
+  name: 'DCA',
+  type: 'dca',
+  allocation: 10000,
+  stopLoss: 0,
+  timeframe: '1h',
+  maxPositions: 1,
+  riskLevel: 'MODERATE',
+  enabledAssets: ['BTC'],
+  customParams: { frequency: 'CUSTOM', interval: 1 },
+};
+
+const hours = (bar: number) => START + bar * HOUR;
+
+const market = Array.from({ length: 100 }, (_, i): MarketData => {
+  const price = 100 + 5 * Math.sin(i / 6);
+  return { symbol: 'BTC', price, volume: 1e9, timestamp: hours(i), change24h: 0, change1h: 0, high24h: price, low24h: price };
+});
+
+describe('WalkForwardAnalyzer', () => {
+  const analyzer = new WalkForwardAnalyzer();
+  const space = { amount: [50, 100] };
+
+  test('rolls fixed in-sample windows ahead of non-overlapping out-of-sample ones', async () => {
+    const report = await analyzer.analyze(dca, space, market, { inSampleBars: 40, outOfSampleBars: 20 });
+
+    expect(report.windows.map(window => [window.inSampleStart, window.inSampleEnd, window.outOfSampleStart, window.outOfSampleEnd]))
+      .toEqual([
+        [hours(0), hours(39), hours(40), hours(59)],
+        [hours(20), hours(59), hours(60), hours(79)],
+        [hours(40), hours(79), hours(80), hours(99)],
+      ]);
+    // The stitched curve covers only out-of-sample bars
+    expect(report.stitchedEquity).toHaveLength(60);
+    expect(report.stitchedEquity[0].timestamp).toBe(hours(40));
+    // and compounds each segment's return on the last
+    const growth = report.windows.reduce((total, window) => total * (1 + window.outOfSample.totalReturn / 100), 1);
+    expect(report.outOfSample.totalReturn).toBeCloseTo((growth - 1) * 100);
+  });
+
+  test('anchored windows keep the first bar and step by stepBars', async () => {
+    const report = await analyzer.analyze(dca, space, market, { inSampleBars: 40, outOfSampleBars: 20, stepBars: 30, anchored: true });
+
+    expect(report.windows.map(window => [window.inSampleStart, window.inSampleEnd, window.outOfSampleStart])).toEqual([
+      [hours(0), hours(39), hours(40)],
+      [hours(0), hours(69), hours(70)],
+    ]);
+  });
+
+  test('rejects histories too short for a single window', async () => {
+    await expect(analyzer.analyze(dca, space, market.slice(0, 50), { inSampleBars: 40, outOfSampleBars: 20 }))
+      .rejects.toThrow('at least 60 bars, got 50');
+  });
+});
@@ -0,0 +1,137 @@
+// ============================================================================
+// TECHNICAL INDICATORS: SHARED TYPES
+// ============================================================================
+
+// One period of a market. Quote-driven callers without candles can pass the
+// price for all three prices.
+export interface PriceBar {
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+// Streaming form of an indicator: feed one input per period with update(),
+// which returns the latest value once enough inputs have arrived (undefined
+// while warming up). Every update is O(1) or O(period).
+export interface Indicator<TInput, TOutput> {
+  update(input: TInput): TOutput | undefined;
+  value(): TOutput | undefined;
+  isReady(): boolean;
+  reset(): void;
+}
+
+// Batch form: the indicator's value after each input, aligned with the inputs
+export function runBatch<TInput, TOutput>(
+  indicator: Indicator<TInput, TOutput>,
+  inputs: TInput[],
+): (TOutput | undefined)[] {
+  return inputs.map(input => indicator.update(input));
+}
+
+export function typicalPrice(bar: PriceBar): number {
+  return (bar.high + bar.low + bar.close) / 3;
+}
+
+// Fixed-length window keeping a running mean and sum of squared deviations
+// (Welford's method, with the oldest value swapped out as a new one comes in),
+// so means and variances cost O(1) and stay exact at any price level
+export class RollingWindow {
+  private values: number[] = [];
+  private runningMean: number = 0;
+  private squaredDeviations: number = 0;
+
+  constructor(readonly size: number) {
+    if (!(size >= 1)) throw new Error(`Window size must be at least 1 (${size})`);
+  }
+
+  // Returns the value that fell out of the window, if any
+  push(value: number): number | undefined {
+    this.values.push(value);
+    if (this.values.length <= this.size) {
+      const delta = value - this.runningMean;
+      this.runningMean += delta / this.values.length;
+      this.squaredDeviations += delta * (value - this.runningMean);
+      return undefined;
+    }
+
+    const removed = this.values.shift()!;
+    const previousMean = this.runningMean;
+    this.runningMean += (value - removed) / this.size;
+    this.squaredDeviations += (value - removed) * (value - this.runningMean + removed - previousMean);
+    return removed;
+  }
+
+  isFull(): boolean {
+    return this.values.length === this.size;
+  }
+
+  length(): number {
+    return this.values.length;
+  }
+
+  toArray(): number[] {
+    return [...this.values];
+  }
+
+  first(): number | undefined {
+    return this.values[0];
+  }
+
+  last(): number | undefined {
+    return this.values[this.values.length - 1];
+  }
+
+  mean(): number {
+    return this.values.length > 0 ? this.runningMean : 0;
+  }
+
+  // Population variance; rounding can still leave a hair below zero
+  variance(): number {
+    if (this.values.length === 0) return 0;
+    return Math.max(0, this.squaredDeviations / this.values.length);
+  }
+
+  clear(): void {
+    this.values = [];
+    this.runningMean = 0;
+    this.squaredDeviations = 0;
+  }
+}
+
+// Wilder's smoothing (RSI, ATR, ADX): a plain average of the first `period`
+// values, then avg = (avg * (period - 1) + value) / period
+export class WilderAverage implements Indicator<number, number> {
+  private count: number = 0;
+  private total: number = 0;
+  private current?: number;
+
+  constructor(readonly period: number) {
+    if (!(period >= 1)) throw new Error(`Period must be at least 1 (${period})`);
+  }
+
+  update(value: number): number | undefined {
+    if (this.current !== undefined) {
+      this.current = (this.current * (this.period - 1) + value) / this.period;
+    } else {
+      this.count++;
+      this.total += value;
+      if (this.count === this.period) this.current = this.total / this.period;
+    }
+    return this.current;
+  }
+
+  value(): number | undefined {
+    return this.current;
+  }
+
+  isReady(): boolean {
+    return this.current !== undefined;
+  }
+
+  reset(): void {
+    this.count = 0;
+    this.total = 0;
+    this.current = undefined;
+  }
+}
@@ -0,0 +1,70 @@
+// ============================================================================
+// MOVING AVERAGES
+// ============================================================================
+
+import { Indicator, RollingWindow, runBatch } from './Indicator';
+
+export class SMA implements Indicator<number, number> {
+  private window: RollingWindow;
+
+  constructor(readonly period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(value: number): number | undefined {
+    this.window.push(value);
+    return this.value();
+  }
+
+  value(): number | undefined {
+    return this.window.isFull() ? this.window.mean() : undefined;
+  }
+
+  isReady(): boolean {
+    return this.window.isFull();
+  }
+
+  reset(): void {
+    this.window.clear();
+  }
+}
+
+// Seeded with the SMA of the first `period` values, as most charting packages do
+export class EMA implements Indicator<number, number> {
+  private seed: SMA;
+  private current?: number;
+  private alpha: number;
+
+  constructor(readonly period: number) {
+    this.seed = new SMA(period);
+    this.alpha = 2 / (period + 1);
+  }
+
+  update(value: number): number | undefined {
+    this.current = this.current === undefined
+      ? this.seed.update(value)
+      : this.current + this.alpha * (value - this.current);
+    return this.current;
+  }
+
+  value(): number | undefined {
+    return this.current;
+  }
+
+  isReady(): boolean {
+    return this.current !== undefined;
+  }
+
+  reset(): void {
+    this.seed.reset();
+    this.current = undefined;
+  }
+}
+
+export function sma(values: number[], period: number): (number | undefined)[] {
+  return runBatch(new SMA(period), values);
+}
+
+export function ema(values: number[], period: number): (number | undefined)[] {
+  return runBatch(new EMA(period), values);
+}
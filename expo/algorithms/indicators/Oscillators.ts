@@ -0,0 +1,145 @@
+// ============================================================================
+// OSCILLATORS: RSI, MACD, CCI
+// ============================================================================
+
+import { Indicator, PriceBar, RollingWindow, runBatch, typicalPrice, WilderAverage } from './Indicator';
+import { EMA } from './MovingAverages';
+
+// Wilder's RSI, 0-100; ready after period + 1 closes
+export class RSI implements Indicator<number, number> {
+  private gains: WilderAverage;
+  private losses: WilderAverage;
+  private previous?: number;
+  private current?: number;
+
+  constructor(readonly period: number = 14) {
+    this.gains = new WilderAverage(period);
+    this.losses = new WilderAverage(period);
+  }
+
+  update(close: number): number | undefined {
+    if (this.previous !== undefined) {
+      const change = close - this.previous;
+      const gain = this.gains.update(Math.max(0, change));
+      const loss = this.losses.update(Math.max(0, -change));
+      if (gain !== undefined && loss !== undefined) {
+        // A flat market sits in the middle rather than dividing by zero
+        this.current = loss === 0 ? (gain === 0 ? 50 : 100) : 100 - 100 / (1 + gain / loss);
+      }
+    }
+    this.previous = close;
+    return this.current;
+  }
+
+  value(): number | undefined {
+    return this.current;
+  }
+
+  isReady(): boolean {
+    return this.current !== undefined;
+  }
+
+  reset(): void {
+    this.gains.reset();
+    this.losses.reset();
+    this.previous = undefined;
+    this.current = undefined;
+  }
+}
+
+export interface MACDValue {
+  macd: number; // fast EMA - slow EMA
+  signal: number; // EMA of macd
+  histogram: number; // macd - signal
+}
+
+// Ready once the signal line has signalPeriod MACD values (slow + signal - 1 closes)
+export class MACD implements Indicator<number, MACDValue> {
+  private fast: EMA;
+  private slow: EMA;
+  private signal: EMA;
+  private current?: MACDValue;
+
+  constructor(fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
+    if (fastPeriod >= slowPeriod) {
+      throw new Error(`MACD fast period must be shorter than the slow one (${fastPeriod} >= ${slowPeriod})`);
+    }
+    this.fast = new EMA(fastPeriod);
+    this.slow = new EMA(slowPeriod);
+    this.signal = new EMA(signalPeriod);
+  }
+
+  update(close: number): MACDValue | undefined {
+    const fast = this.fast.update(close);
+    const slow = this.slow.update(close);
+    if (fast === undefined || slow === undefined) return undefined;
+
+    const macd = fast - slow;
+    const signal = this.signal.update(macd);
+    if (signal !== undefined) {
+      this.current = { macd, signal, histogram: macd - signal };
+    }
+    return this.current;
+  }
+
+  value(): MACDValue | undefined {
+    return this.current;
+  }
+
+  isReady(): boolean {
+    return this.current !== undefined;
+  }
+
+  reset(): void {
+    this.fast.reset();
+    this.slow.reset();
+    this.signal.reset();
+    this.current = undefined;
+  }
+}
+
+// Commodity Channel Index over typical prices with Lambert's 0.015 constant
+export class CCI implements Indicator<PriceBar, number> {
+  private window: RollingWindow;
+  private current?: number;
+
+  constructor(readonly period: number = 20) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(bar: PriceBar): number | undefined {
+    const price = typicalPrice(bar);
+    this.window.push(price);
+    if (!this.window.isFull()) return undefined;
+
+    const mean = this.window.mean();
+    const meanDeviation = this.window.toArray().reduce((sum, value) => sum + Math.abs(value - mean), 0) / this.period;
+    this.current = meanDeviation !== 0 ? (price - mean) / (0.015 * meanDeviation) : 0;
+    return this.current;
+  }
+
+  value(): number | undefined {
+    return this.current;
+  }
+
+  isReady(): boolean {
+    return this.current !== undefined;
+  }
+
+  reset(): void {
+    this.window.clear();
+    this.current = undefined;
+  }
+}
+
+export function rsi(closes: number[], period: number = 14): (number | undefined)[] {
+  return runBatch(new RSI(period), closes);
+}
+
+export function macd(closes: number[], fastPeriod?: number, slowPeriod?: number, signalPeriod?: number): (MACDValue | undefined)[] {
+  return runBatch(new MACD(fastPeriod, slowPeriod, signalPeriod), closes);
+}
+
+export function cci(bars: PriceBar[], period: number = 20): (number | undefined)[] {
+  return runBatch(new CCI(period), bars);
+}
@@ -0,0 +1,154 @@
+// ============================================================================
+// TREND: ADX, ROLLING LINEAR REGRESSION
+// ============================================================================
+
+import { Indicator, PriceBar, runBatch, WilderAverage } from './Indicator';
+import { trueRange } from './Volatility';
+
+export interface ADXValue {
+  adx: number; // trend strength 0-100, direction-agnostic
+  plusDI: number;
+  minusDI: number;
+}
+
+// Wilder's Average Directional Index. The directional indicators are ready
+// after period + 1 bars and ADX, a Wilder average of DX, after 2 * period.
+export class ADX implements Indicator<PriceBar, ADXValue> {
+  private trueRange: WilderAverage;
+  private plusDM: WilderAverage;
+  private minusDM: WilderAverage;
+  private dx: WilderAverage;
+  private previous?: PriceBar;
+  private current?: ADXValue;
+
+  constructor(readonly period: number = 14) {
+    this.trueRange = new WilderAverage(period);
+    this.plusDM = new WilderAverage(period);
+    this.minusDM = new WilderAverage(period);
+    this.dx = new WilderAverage(period);
+  }
+
+  update(bar: PriceBar): ADXValue | undefined {
+    const previous = this.previous;
+    this.previous = bar;
+    if (!previous) return undefined;
+
+    const up = bar.high - previous.high;
+    const down = previous.low - bar.low;
+    // Averages rather than Wilder's running sums: the ratios are the same
+    const range = this.trueRange.update(trueRange(bar, previous.close));
+    const plus = this.plusDM.update(up > down && up > 0 ? up : 0);
+    const minus = this.minusDM.update(down > up && down > 0 ? down : 0);
+    if (range === undefined || plus === undefined || minus === undefined) return undefined;
+
+    const plusDI = range > 0 ? (100 * plus) / range : 0;
+    const minusDI = range > 0 ? (100 * minus) / range : 0;
+    const spread = plusDI + minusDI;
+    const adx = this.dx.update(spread > 0 ? (100 * Math.abs(plusDI - minusDI)) / spread : 0);
+    if (adx !== undefined) this.current = { adx, plusDI, minusDI };
+    return this.current;
+  }
+
+  value(): ADXValue | undefined {
+    return this.current;
+  }
+
+  isReady(): boolean {
+    return this.current !== undefined;
+  }
+
+  reset(): void {
+    this.trueRange.reset();
+    this.plusDM.reset();
+    this.minusDM.reset();
+    this.dx.reset();
+    this.previous = undefined;
+    this.current = undefined;
+  }
+}
+
+export interface RegressionValue {
+  slope: number; // change per period
+  intercept: number; // fitted value of the oldest point in the window
+  rSquared: number; // 0-1
+}
+
+// Least-squares line through the last `period` values against their position
+// in the window, kept in O(1) per update with running sums
+export class RollingRegression implements Indicator<number, RegressionValue> {
+  private values: number[] = [];
+  private sumY: number = 0;
+  private sumXY: number = 0;
+  private sumYY: number = 0;
+
+  constructor(readonly period: number) {
+    if (!(period >= 2)) throw new Error(`Regression needs a period of at least 2 (${period})`);
+  }
+
+  update(value: number): RegressionValue | undefined {
+    if (this.values.length === this.period) {
+      const removed = this.values.shift()!;
+      // Every remaining point moves one position towards the start
+      this.sumY -= removed;
+      this.sumXY -= this.sumY;
+      this.sumYY -= removed * removed;
+    }
+    this.sumXY += this.values.length * value;
+    this.values.push(value);
+    this.sumY += value;
+    this.sumYY += value * value;
+    return this.value();
+  }
+
+  value(): RegressionValue | undefined {
+    if (this.values.length < this.period) return undefined;
+    return regressionFromSums(this.period, this.sumY, this.sumXY, this.sumYY);
+  }
+
+  isReady(): boolean {
+    return this.values.length === this.period;
+  }
+
+  reset(): void {
+    this.values = [];
+    this.sumY = 0;
+    this.sumXY = 0;
+    this.sumYY = 0;
+  }
+}
+
+export function adx(bars: PriceBar[], period: number = 14): (ADXValue | undefined)[] {
+  return runBatch(new ADX(period), bars);
+}
+
+export function rollingRegression(values: number[], period: number): (RegressionValue | undefined)[] {
+  return runBatch(new RollingRegression(period), values);
+}
+
+// Least-squares line through a whole series against its index
+export function linearRegression(values: number[]): RegressionValue {
+  let sumY = 0;
+  let sumXY = 0;
+  let sumYY = 0;
+  values.forEach((value, i) => {
+    sumY += value;
+    sumXY += i * value;
+    sumYY += value * value;
+  });
+  return regressionFromSums(values.length, sumY, sumXY, sumYY);
+}
+
+// x runs 0..n-1, so its sums have closed forms
+function regressionFromSums(n: number, sumY: number, sumXY: number, sumYY: number): RegressionValue {
+  if (n < 2) return { slope: 0, intercept: n === 1 ? sumY : 0, rSquared: 0 };
+  const sumX = ((n - 1) * n) / 2;
+  const sumXX = ((n - 1) * n * (2 * n - 1)) / 6;
+  const varianceX = n * sumXX - sumX * sumX;
+  const varianceY = n * sumYY - sumY * sumY;
+  const covariance = n * sumXY - sumX * sumY;
+
+  const slope = covariance / varianceX;
+  // A flat line explains nothing; cancellation can also leave a hair below zero
+  const rSquared = varianceY > 0 ? Math.min(1, (covariance * covariance) / (varianceX * varianceY)) : 0;
+  return { slope, intercept: (sumY - slope * sumX) / n, rSquared };
+}
@@ -0,0 +1,141 @@
+// ============================================================================
+// VOLATILITY: STANDARD DEVIATION, BOLLINGER BANDS, ATR
+// ============================================================================
+
+import { Indicator, PriceBar, RollingWindow, runBatch, WilderAverage } from './Indicator';
+
+// Population standard deviation of the last `period` values
+export class RollingStdDev implements Indicator<number, number> {
+  private window: RollingWindow;
+
+  constructor(readonly period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(value: number): number | undefined {
+    this.window.push(value);
+    return this.value();
+  }
+
+  value(): number | undefined {
+    return this.window.isFull() ? Math.sqrt(this.window.variance()) : undefined;
+  }
+
+  isReady(): boolean {
+    return this.window.isFull();
+  }
+
+  reset(): void {
+    this.window.clear();
+  }
+}
+
+export interface BollingerValue {
+  middle: number;
+  upper: number;
+  lower: number;
+  bandwidth: number; // (upper - lower) / middle
+  percentB: number; // where the close sits in the band, 0 = lower, 1 = upper
+}
+
+export class BollingerBands implements Indicator<number, BollingerValue> {
+  private window: RollingWindow;
+  private current?: BollingerValue;
+
+  constructor(readonly period: number = 20, readonly multiplier: number = 2) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(close: number): BollingerValue | undefined {
+    this.window.push(close);
+    if (!this.window.isFull()) return undefined;
+
+    const middle = this.window.mean();
+    const width = this.multiplier * Math.sqrt(this.window.variance());
+    const upper = middle + width;
+    const lower = middle - width;
+    this.current = {
+      middle,
+      upper,
+      lower,
+      bandwidth: middle !== 0 ? (upper - lower) / middle : 0,
+      percentB: upper > lower ? (close - lower) / (upper - lower) : 0.5,
+    };
+    return this.current;
+  }
+
+  value(): BollingerValue | undefined {
+    return this.current;
+  }
+
+  isReady(): boolean {
+    return this.current !== undefined;
+  }
+
+  reset(): void {
+    this.window.clear();
+    this.current = undefined;
+  }
+}
+
+// Wilder's Average True Range; the first bar's true range is its high - low
+export class ATR implements Indicator<PriceBar, number> {
+  private average: WilderAverage;
+  private previousClose?: number;
+
+  constructor(readonly period: number = 14) {
+    this.average = new WilderAverage(period);
+  }
+
+  update(bar: PriceBar): number | undefined {
+    const range = trueRange(bar, this.previousClose);
+    this.previousClose = bar.close;
+    return this.average.update(range);
+  }
+
+  value(): number | undefined {
+    return this.average.value();
+  }
+
+  isReady(): boolean {
+    return this.average.isReady();
+  }
+
+  reset(): void {
+    this.average.reset();
+    this.previousClose = undefined;
+  }
+}
+
+export function trueRange(bar: PriceBar, previousClose?: number): number {
+  if (previousClose === undefined) return bar.high - bar.low;
+  return Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose));
+}
+
+export function rollingStdDev(values: number[], period: number): (number | undefined)[] {
+  return runBatch(new RollingStdDev(period), values);
+}
+
+export function bollingerBands(closes: number[], period?: number, multiplier?: number): (BollingerValue | undefined)[] {
+  return runBatch(new BollingerBands(period, multiplier), closes);
+}
+
+export function atr(bars: PriceBar[], period: number = 14): (number | undefined)[] {
+  return runBatch(new ATR(period), bars);
+}
+
+// Period-over-period simple returns; one shorter than the prices
+export function simpleReturns(prices: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    if (prices[i - 1] !== 0) returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
+  }
+  return returns;
+}
+
+// Population standard deviation of a whole series
+export function standardDeviation(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / values.length);
+}
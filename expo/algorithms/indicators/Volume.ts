@@ -0,0 +1,88 @@
+// ============================================================================
+// VOLUME: OBV, VWAP
+// ============================================================================
+
+import { Indicator, PriceBar, runBatch, typicalPrice } from './Indicator';
+
+// On-Balance Volume: running total of volume signed by the close's direction,
+// starting from zero at the first bar
+export class OBV implements Indicator<PriceBar, number> {
+  private previousClose?: number;
+  private current?: number;
+
+  update(bar: PriceBar): number | undefined {
+    const volume = bar.volume ?? 0;
+    if (this.previousClose === undefined || this.current === undefined) {
+      this.current = 0;
+    } else if (bar.close > this.previousClose) {
+      this.current += volume;
+    } else if (bar.close < this.previousClose) {
+      this.current -= volume;
+    }
+    this.previousClose = bar.close;
+    return this.current;
+  }
+
+  value(): number | undefined {
+    return this.current;
+  }
+
+  isReady(): boolean {
+    return this.current !== undefined;
+  }
+
+  reset(): void {
+    this.previousClose = undefined;
+    this.current = undefined;
+  }
+}
+
+// Volume-weighted average typical price, over the last `period` bars or, with
+// no period, every bar since the last reset (a session VWAP)
+export class VWAP implements Indicator<PriceBar, number> {
+  private bars: { priceVolume: number; volume: number }[] = [];
+  private priceVolume: number = 0;
+  private volume: number = 0;
+
+  constructor(readonly period?: number) {}
+
+  update(bar: PriceBar): number | undefined {
+    const volume = bar.volume ?? 0;
+    const entry = { priceVolume: typicalPrice(bar) * volume, volume };
+    this.priceVolume += entry.priceVolume;
+    this.volume += entry.volume;
+    if (this.period !== undefined) {
+      this.bars.push(entry);
+      if (this.bars.length > this.period) {
+        const removed = this.bars.shift()!;
+        this.priceVolume -= removed.priceVolume;
+        this.volume -= removed.volume;
+      }
+    }
+    return this.value();
+  }
+
+  // Undefined until some volume has traded
+  value(): number | undefined {
+    if (this.period !== undefined && this.bars.length < this.period) return undefined;
+    return this.volume > 0 ? this.priceVolume / this.volume : undefined;
+  }
+
+  isReady(): boolean {
+    return this.value() !== undefined;
+  }
+
+  reset(): void {
+    this.bars = [];
+    this.priceVolume = 0;
+    this.volume = 0;
+  }
+}
+
+export function obv(bars: PriceBar[]): (number | undefined)[] {
+  return runBatch(new OBV(), bars);
+}
+
+export function vwap(bars: PriceBar[], period?: number): (number | undefined)[] {
+  return runBatch(new VWAP(period), bars);
+}
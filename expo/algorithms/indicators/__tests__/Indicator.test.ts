@@ -0,0 +1,44 @@
+import { describe, expect, test } from 'bun:test';
+import { RollingWindow, runBatch, WilderAverage } from '../Indicator';
+
+describe('RollingWindow', () => {
+  test('drops the oldest value once full', () => {
+    const window = new RollingWindow(3);
+    expect([1, 2, 3, 4].map(value => window.push(value))).toEqual([undefined, undefined, undefined, 1]);
+    expect(window.toArray()).toEqual([2, 3, 4]);
+    expect(window.mean()).toBe(3);
+    expect(window.variance()).toBeCloseTo(2 / 3, 12);
+  });
+
+  test('has zero variance for a constant series at any price level', () => {
+    const window = new RollingWindow(20);
+    for (let i = 0; i < 1000; i++) window.push(98765.4321);
+    expect(window.variance()).toBe(0);
+    expect(window.mean()).toBe(98765.4321);
+  });
+
+  test('never reports a negative variance', () => {
+    const window = new RollingWindow(5);
+    for (let i = 0; i < 1000; i++) {
+      window.push(i % 7 === 0 ? 1e9 : 1e9 + 1e-6);
+      expect(window.variance()).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  test('starts over after clear()', () => {
+    const window = new RollingWindow(2);
+    window.push(100);
+    window.push(200);
+    window.clear();
+    window.push(5);
+    expect(window.isFull()).toBe(false);
+    expect(window.mean()).toBe(5);
+    expect(window.variance()).toBe(0);
+  });
+});
+
+describe('WilderAverage', () => {
+  test('is seeded with a plain average, then smoothed by 1 / period', () => {
+    expect(runBatch(new WilderAverage(3), [3, 6, 9, 12])).toEqual([undefined, undefined, 6, 8]);
+  });
+});
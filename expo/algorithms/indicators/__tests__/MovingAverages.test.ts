@@ -0,0 +1,30 @@
+import { describe, expect, test } from 'bun:test';
+import { EMA, ema, SMA, sma } from '../MovingAverages';
+import { expectSeries, expectStreamingMatchesBatch } from './helpers';
+
+describe('SMA', () => {
+  test('averages the last period values', () => {
+    expectSeries(sma([1, 2, 3, 4, 5, 9], 3), [undefined, undefined, 2, 3, 4, 6]);
+  });
+
+  test('streaming matches batch', () => {
+    const values = [1, 2, 3, 4, 5, 9];
+    expectStreamingMatchesBatch(() => new SMA(3), values, sma(values, 3));
+  });
+});
+
+describe('EMA', () => {
+  test('is seeded with the SMA, then smoothed by 2 / (period + 1)', () => {
+    // seed (2 + 4 + 6) / 3 = 4, then alpha 0.5: 6, 9, 12.5
+    expectSeries(ema([2, 4, 6, 8, 12, 16], 3), [undefined, undefined, 4, 6, 9, 12.5]);
+  });
+
+  test('streaming matches batch', () => {
+    const values = [2, 4, 6, 8, 12, 16];
+    expectStreamingMatchesBatch(() => new EMA(3), values, ema(values, 3));
+  });
+
+  test('rejects a period below 1', () => {
+    expect(() => new EMA(0)).toThrow();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test';
+import { CCI, cci, MACD, macd, RSI, rsi } from '../Oscillators';
+import { BARS, expectSeries, expectStreamingMatchesBatch } from './helpers';
+
+// Wilder's RSI example as published by StockCharts. Their sheet rounds the
+// first average gain and loss to two decimals (70.53, 66.32, ...); the values
+// below carry full precision, as TA-Lib does.
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+  46.0, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+  43.42, 42.66, 43.13,
+];
+const RSI_14 = [
+  70.46, 66.25, 66.48, 69.35, 66.29, 57.92, 62.88, 63.21, 56.01, 62.34, 54.67, 50.39, 40.02, 41.49, 41.9,
+  45.5, 37.32, 33.09, 37.79,
+];
+
+describe('RSI', () => {
+  test('matches the StockCharts reference series', () => {
+    expectSeries(rsi(RSI_CLOSES, 14), [...new Array(14).fill(undefined), ...RSI_14], 2);
+  });
+
+  test('sits at 50 in a flat market and 100 without losses', () => {
+    expect(rsi([5, 5, 5, 5], 3)[3]).toBe(50);
+    expect(rsi([1, 2, 3, 4], 3)[3]).toBe(100);
+  });
+
+  test('streaming matches batch', () => {
+    expectStreamingMatchesBatch(() => new RSI(14), RSI_CLOSES, rsi(RSI_CLOSES, 14));
+  });
+});
+
+describe('MACD', () => {
+  const closes = [1, 3, 2, 5, 4, 6];
+
+  test('subtracts the slow EMA from the fast one and smooths the difference', () => {
+    // EMA(2): 2, 2, 4, 4, 5.3333; EMA(3): 2, 3.5, 3.75, 4.875
+    expectSeries(macd(closes, 2, 3, 2), [
+      undefined,
+      undefined,
+      undefined,
+      { macd: 0.5, signal: 0.25, histogram: 0.25 },
+      { macd: 0.25, signal: 0.25, histogram: 0 },
+      { macd: 0.458333, signal: 0.388889, histogram: 0.069444 },
+    ]);
+  });
+
+  test('streaming matches batch', () => {
+    expectStreamingMatchesBatch(() => new MACD(2, 3, 2), closes, macd(closes, 2, 3, 2));
+  });
+
+  test('rejects a fast period that is not shorter than the slow one', () => {
+    expect(() => new MACD(26, 12)).toThrow();
+  });
+});
+
+describe('CCI', () => {
+  test('scales the typical price deviation by 0.015 mean deviations', () => {
+    // Typical prices 9, 10, 10.6667, 10.5, 11.6667
+    expectSeries(cci(BARS, 3), [undefined, undefined, 87.5, 28.5714, 100]);
+  });
+
+  test('is 0 when every typical price is the same', () => {
+    expect(cci([BARS[0], BARS[0], BARS[0]], 3)[2]).toBe(0);
+  });
+
+  test('streaming matches batch', () => {
+    expectStreamingMatchesBatch(() => new CCI(3), BARS, cci(BARS, 3));
+  });
+});
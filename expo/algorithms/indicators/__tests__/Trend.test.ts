@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test';
+import { PriceBar } from '../Indicator';
+import { ADX, adx, linearRegression, RollingRegression, rollingRegression } from '../Trend';
+import { BARS, expectSeries, expectStreamingMatchesBatch } from './helpers';
+
+describe('ADX', () => {
+  // A rally followed by a sharp down bar
+  const bars: PriceBar[] = [...BARS, { high: 12, low: 8, close: 9 }];
+
+  test("follows Wilder's directional movement", () => {
+    // +DM 1, 1, 0, 2, 0; -DM 0, 0, 0, 0, 2; true ranges 2, 3, 1, 3, 4
+    expectSeries(adx(bars, 2), [
+      undefined,
+      undefined,
+      undefined,
+      { adx: 100, plusDI: 28.571429, minusDI: 0 },
+      { adx: 100, plusDI: 52.631579, minusDI: 0 },
+      { adx: 61.538462, plusDI: 19.607843, minusDI: 31.372549 },
+    ]);
+  });
+
+  test('streaming matches batch', () => {
+    expectStreamingMatchesBatch(() => new ADX(2), bars, adx(bars, 2));
+  });
+});
+
+describe('linear regression', () => {
+  test('fits a straight line exactly', () => {
+    expect(linearRegression([1, 3, 5, 7])).toEqual({ slope: 2, intercept: 1, rSquared: 1 });
+  });
+
+  test('rolls over the last period values', () => {
+    expectSeries(rollingRegression([1, 2, 4, 8], 3), [
+      undefined,
+      undefined,
+      { slope: 1.5, intercept: 0.833333, rSquared: 0.964286 },
+      { slope: 3, intercept: 1.666667, rSquared: 0.964286 },
+    ]);
+  });
+
+  test('explains nothing on a constant series', () => {
+    const [fit] = rollingRegression(new Array(200).fill(65432.1), 20).slice(-1);
+    expect(fit).toEqual({ slope: 0, intercept: 65432.1, rSquared: 0 });
+  });
+
+  test('streaming matches batch', () => {
+    const values = [1, 2, 4, 8, 7, 5, 6];
+    expectStreamingMatchesBatch(() => new RollingRegression(3), values, rollingRegression(values, 3));
+  });
+});
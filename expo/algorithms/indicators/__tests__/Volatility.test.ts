@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test';
+import { ATR, atr, BollingerBands, bollingerBands, RollingStdDev, rollingStdDev, standardDeviation, trueRange } from '../Volatility';
+import { BARS, expectSeries, expectStreamingMatchesBatch } from './helpers';
+
+describe('standard deviation', () => {
+  const values = [2, 4, 4, 4, 5, 5, 7, 9];
+
+  test('population standard deviation of a whole series', () => {
+    expect(standardDeviation(values)).toBe(2);
+  });
+
+  test('rolling over the last period values', () => {
+    expectSeries(rollingStdDev(values, 4), [undefined, undefined, undefined, 0.866025, 0.433013, 0.5, 1.089725, 1.658312]);
+  });
+
+  test('stays at zero for a constant series at a high price level', () => {
+    const prices = new Array(500).fill(65432.1);
+    expect(rollingStdDev(prices, 20)[499]).toBe(0);
+  });
+
+  test('keeps full precision at a high price level', () => {
+    const prices = Array.from({ length: 500 }, (_, i) => 60000 + 1000 * Math.sin(i / 7));
+    expect(rollingStdDev(prices, 20)[499]!).toBeCloseTo(standardDeviation(prices.slice(-20)), 6);
+  });
+
+  test('streaming matches batch', () => {
+    expectStreamingMatchesBatch(() => new RollingStdDev(4), values, rollingStdDev(values, 4));
+  });
+});
+
+describe('Bollinger bands', () => {
+  test('surround the mean by multiplier standard deviations', () => {
+    // mean 3, standard deviation sqrt(2)
+    expectSeries(bollingerBands([1, 2, 3, 4, 5], 5, 2), [
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { middle: 3, upper: 5.828427, lower: 0.171573, bandwidth: 1.885618, percentB: 0.853553 },
+    ]);
+  });
+
+  test('collapse onto a constant price', () => {
+    const [band] = bollingerBands([50000, 50000, 50000], 3).slice(-1);
+    expect(band).toEqual({ middle: 50000, upper: 50000, lower: 50000, bandwidth: 0, percentB: 0.5 });
+  });
+
+  test('streaming matches batch', () => {
+    const closes = [1, 2, 3, 4, 5, 4, 6];
+    expectStreamingMatchesBatch(() => new BollingerBands(5, 2), closes, bollingerBands(closes, 5, 2));
+  });
+});
+
+describe('ATR', () => {
+  test('true range includes gaps from the previous close', () => {
+    expect(trueRange(BARS[0])).toBe(2);
+    expect(trueRange({ high: 13, low: 10, close: 12 }, 10.5)).toBe(3);
+    expect(trueRange({ high: 12, low: 11, close: 11.5 }, 9)).toBe(3);
+  });
+
+  test("is Wilder's average of true ranges", () => {
+    // True ranges 2, 2, 3, 1, 3
+    expectSeries(atr(BARS, 3), [undefined, undefined, 2.333333, 1.888889, 2.259259]);
+  });
+
+  test('streaming matches batch', () => {
+    expectStreamingMatchesBatch(() => new ATR(3), BARS, atr(BARS, 3));
+  });
+});
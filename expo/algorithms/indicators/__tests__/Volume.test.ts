@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'bun:test';
+import { OBV, obv, VWAP, vwap } from '../Volume';
+import { BARS, expectSeries, expectStreamingMatchesBatch } from './helpers';
+
+describe('OBV', () => {
+  test('adds volume on up closes and subtracts it on down closes', () => {
+    const bars = BARS.map((bar, i) => (i === 2 ? { ...bar, close: 10 } : bar));
+    // Closes 9, 10, 10, 10.5, 12: flat bars leave the total alone
+    expectSeries(obv(bars), [0, 200, 200, 600, 1100]);
+    expectSeries(obv(BARS), [0, 200, 500, 100, 600]);
+  });
+
+  test('streaming matches batch', () => {
+    expectStreamingMatchesBatch(() => new OBV(), BARS, obv(BARS));
+  });
+});
+
+describe('VWAP', () => {
+  // Typical prices 9, 10, 10.6667, 10.5, 11.6667
+  test('weights typical prices by volume since the session start', () => {
+    expectSeries(vwap(BARS), [9, 9.666667, 10.166667, 10.3, 10.755556]);
+  });
+
+  test('rolls over the last period bars', () => {
+    expectSeries(vwap(BARS, 2), [undefined, 9.666667, 10.4, 10.571429, 11.148148]);
+  });
+
+  test('is undefined until volume trades', () => {
+    expect(vwap([{ high: 2, low: 1, close: 1.5 }])).toEqual([undefined]);
+  });
+
+  test('streaming matches batch', () => {
+    expectStreamingMatchesBatch(() => new VWAP(), BARS, vwap(BARS));
+    expectStreamingMatchesBatch(() => new VWAP(2), BARS, vwap(BARS, 2));
+  });
+});
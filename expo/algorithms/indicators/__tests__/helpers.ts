@@ -0,0 +1,47 @@
+import { expect } from 'bun:test';
+import { Indicator, PriceBar } from '../Indicator';
+
+// Five bars small enough to work every indicator through by hand
+export const BARS: PriceBar[] = [
+  { high: 10, low: 8, close: 9, volume: 100 },
+  { high: 11, low: 9, close: 10, volume: 200 },
+  { high: 12, low: 9, close: 11, volume: 300 },
+  { high: 11, low: 10, close: 10.5, volume: 400 },
+  { high: 13, low: 10, close: 12, volume: 500 },
+];
+
+// Compares numbers (or objects of numbers) to `digits` decimal places;
+// undefined must match undefined
+export function expectSeries<T>(actual: (T | undefined)[], expected: (T | undefined)[], digits: number = 4): void {
+  expect(actual.length).toBe(expected.length);
+  expected.forEach((value, i) => {
+    if (value === undefined) {
+      expect(actual[i]).toBeUndefined();
+    } else if (typeof value === 'number') {
+      expect(actual[i] as number).toBeCloseTo(value, digits);
+    } else {
+      Object.entries(value as Record<string, number>).forEach(([key, field]) => {
+        expect((actual[i] as Record<string, number>)[key]).toBeCloseTo(field, digits);
+      });
+    }
+  });
+}
+
+// The streaming API has to agree with the batch one at every step, and start
+// over cleanly after reset()
+export function expectStreamingMatchesBatch<TInput, TOutput>(
+  create: () => Indicator<TInput, TOutput>,
+  inputs: TInput[],
+  batch: (TOutput | undefined)[],
+): void {
+  const indicator = create();
+  inputs.forEach((input, i) => {
+    expect(indicator.update(input)).toEqual(batch[i]);
+    expect(indicator.value()).toEqual(batch[i]);
+    expect(indicator.isReady()).toBe(batch[i] !== undefined);
+  });
+
+  indicator.reset();
+  expect(indicator.isReady()).toBe(false);
+  expect(inputs.map(input => indicator.update(input))).toEqual(batch);
+}
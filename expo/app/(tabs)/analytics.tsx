@@ -9,11 +9,29 @@ import {
 } from 'react-native';
 // import { LineChart, BarChart } from 'react-native-svg-charts';
 import { TrendingUp, Calendar, DollarSign, Activity } from 'lucide-react-native';
+import { useTradingBot } from '@/providers/TradingBotProvider';
 
 const { width } = Dimensions.get('window');
 
+const HOUR_MS = 60 * 60 * 1000;
+
+function formatHorizon(horizonMs: number): string {
+  return horizonMs >= 24 * HOUR_MS ? `${Math.round(horizonMs / (24 * HOUR_MS))}D` : `${Math.round(horizonMs / HOUR_MS)}H`;
+}
+
+function formatUsd(value: number): string {
+  return `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
 export default function AnalyticsScreen() {
   const [timeframe, setTimeframe] = useState('7D');
+  const [varMethod, setVarMethod] = useState<'historical' | 'parametric'>('historical');
+  const { riskReport } = useTradingBot();
+
+  const horizons = Array.from(new Set(riskReport.valueAtRisk.map(estimate => estimate.horizonMs)));
+  const confidenceLevels = Array.from(new Set(riskReport.valueAtRisk.map(estimate => estimate.confidence)));
+  const findEstimate = (horizonMs: number, confidence: number) => riskReport.valueAtRisk
+    .find(estimate => estimate.horizonMs === horizonMs && estimate.confidence === confidence);
 
   const performanceData = [50, 45, 60, 58, 70, 65, 80, 75, 90, 85, 95, 100];
   const volumeData = [30, 40, 35, 50, 45, 60, 55, 70, 65, 75, 80, 85];
@@ -112,9 +130,81 @@ export default function AnalyticsScreen() {
         </View>
         <View style={styles.insightCard}>
           <Text style={styles.insightTitle}>Risk Assessment</Text>
-          <Text style={styles.insightText}>
-            Portfolio volatility is within acceptable range. Current stop-loss settings are optimal for market conditions.
-          </Text>
+          {riskReport.exposure <= 0 ? (
+            <Text style={styles.insightText}>No open positions across your bots.</Text>
+          ) : (
+            <>
+              <Text style={styles.insightText}>
+                {formatUsd(riskReport.exposure)} of {formatUsd(riskReport.equity)} equity is in open positions.
+              </Text>
+              {riskReport.valueAtRisk.length === 0 ? (
+                <Text style={styles.insightText}>Not enough price history yet to estimate Value at Risk.</Text>
+              ) : (
+                <>
+                  <View style={styles.methodSelector}>
+                    {(['historical', 'parametric'] as const).map(method => (
+                      <TouchableOpacity
+                        key={method}
+                        style={[styles.methodButton, varMethod === method && styles.activeTimeframe]}
+                        onPress={() => setVarMethod(method)}
+                      >
+                        <Text style={[styles.timeframeText, varMethod === method && styles.activeTimeframeText]}>
+                          {method === 'historical' ? 'Historical' : 'Parametric'}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <View style={styles.riskRow}>
+                    <Text style={[styles.riskCell, styles.riskHeader]}>Horizon</Text>
+                    {confidenceLevels.map(confidence => (
+                      <React.Fragment key={confidence}>
+                        <Text style={[styles.riskCell, styles.riskHeader]}>VaR {Math.round(confidence * 100)}%</Text>
+                        <Text style={[styles.riskCell, styles.riskHeader]}>CVaR {Math.round(confidence * 100)}%</Text>
+                      </React.Fragment>
+                    ))}
+                  </View>
+                  {horizons.map(horizonMs => (
+                    <View key={horizonMs} style={styles.riskRow}>
+                      <Text style={[styles.riskCell, styles.riskHeader]}>
+                        {formatHorizon(horizonMs)}{findEstimate(horizonMs, confidenceLevels[0])?.scaled && varMethod === 'historical' ? '*' : ''}
+                      </Text>
+                      {confidenceLevels.map(confidence => {
+                        const estimate = findEstimate(horizonMs, confidence);
+                        const value = varMethod === 'historical' ? estimate?.historicalVaR : estimate?.parametricVaR;
+                        const tail = varMethod === 'historical' ? estimate?.historicalCVaR : estimate?.parametricCVaR;
+                        return (
+                          <React.Fragment key={confidence}>
+                            <Text style={[styles.riskCell, styles.negative]}>{(value ?? 0).toFixed(2)}%</Text>
+                            <Text style={[styles.riskCell, styles.negative]}>{(tail ?? 0).toFixed(2)}%</Text>
+                          </React.Fragment>
+                        );
+                      })}
+                    </View>
+                  ))}
+                  {varMethod === 'historical' && riskReport.valueAtRisk.some(estimate => estimate.scaled) && (
+                    <Text style={styles.riskFootnote}>* scaled from single-period returns for lack of history</Text>
+                  )}
+                </>
+              )}
+              <Text style={styles.stressTitle}>Stress Tests</Text>
+              {riskReport.stressTests.map(test => (
+                <View key={test.name} style={styles.stressRow}>
+                  <View style={styles.tradeInfo}>
+                    <Text style={styles.stressName}>{test.name}</Text>
+                    <Text style={styles.riskFootnote}>{test.description}</Text>
+                  </View>
+                  <View style={styles.tradeProfit}>
+                    <Text style={[styles.stressValue, test.pnl >= 0 ? styles.positive : styles.negative]}>
+                      {formatUsd(test.pnl)}
+                    </Text>
+                    <Text style={[styles.tradeProfitPercentage, test.pnl >= 0 ? styles.positive : styles.negative]}>
+                      {test.pnlPercent.toFixed(1)}%
+                    </Text>
+                  </View>
+                </View>
+              ))}
+            </>
+          )}
         </View>
       </View>
     </ScrollView>
@@ -269,6 +359,60 @@ const styles = StyleSheet.create({
     color: '#94A3B8',
     lineHeight: 20,
   },
+  methodSelector: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 8,
+    padding: 4,
+    marginVertical: 12,
+  },
+  methodButton: {
+    flex: 1,
+    paddingVertical: 6,
+    alignItems: 'center',
+    borderRadius: 6,
+  },
+  riskRow: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  riskCell: {
+    flex: 1,
+    fontSize: 12,
+    textAlign: 'center',
+  },
+  riskHeader: {
+    color: '#94A3B8',
+    fontWeight: '600' as const,
+  },
+  riskFootnote: {
+    fontSize: 11,
+    color: '#64748B',
+    marginTop: 4,
+  },
+  stressTitle: {
+    fontSize: 14,
+    fontWeight: 'bold' as const,
+    color: '#FFFFFF',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  stressRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  stressName: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: '#FFFFFF',
+  },
+  stressValue: {
+    fontSize: 14,
+    fontWeight: 'bold' as const,
+  },
   chartPlaceholder: {
     height: 200,
     backgroundColor: 'rgba(255, 255, 255, 0.05)',
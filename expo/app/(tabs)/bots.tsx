@@ -6,48 +6,50 @@ import {
   ScrollView,
   TouchableOpacity,
   Switch,
+  Alert,
 } from 'react-native';
-import { TrendingUp, DollarSign, Activity, Zap, Plus, Settings as SettingsIcon, Pause, Play } from 'lucide-react-native';
+import { TrendingUp, Plus, Settings as SettingsIcon, Pause, Play, OctagonX, ShieldAlert, TriangleAlert } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { useTradingBot } from '@/providers/TradingBotProvider';
+import { strategyRegistry } from '@/algorithms/StrategyRegistry';
+import { getStrategyIcon } from '@/components/StrategyIcon';
+
+// Data anomalies older than this no longer warrant a warning
+const ANOMALY_WARNING_MS = 15 * 60 * 1000;
 
 export default function BotsScreen() {
-  const { activeBots, toggleBot } = useTradingBot();
+  const { activeBots, toggleBot, circuitBreaker, marketAnomalies, activateKillSwitch, rearmTrading } = useTradingBot();
+  const recentAnomalies = marketAnomalies
+    .filter(anomaly => Date.now() - anomaly.detectedAt < ANOMALY_WARNING_MS)
+    .slice(0, 3);
+
+  const botTypes = strategyRegistry.list().map(definition => ({
+    id: definition.type,
+    ...definition.metadata,
+    icon: getStrategyIcon(definition.type),
+  }));
 
-  const botTypes = [
-    {
-      id: 'momentum',
-      name: 'Momentum Trading',
-      description: 'Automatically moves funds to fastest rising cryptos',
-      icon: TrendingUp,
-      color: '#10B981',
-      features: ['1-24 hour timeframes', 'Auto-rebalancing', 'Trend detection'],
-    },
-    {
-      id: 'dca',
-      name: 'DCA Bot',
-      description: 'Dollar-cost averaging with scheduled purchases',
-      icon: DollarSign,
-      color: '#3B82F6',
-      features: ['Daily to monthly', 'Multiple assets', 'Auto-compound'],
-    },
-    {
-      id: 'staking',
-      name: 'Smart Staking',
-      description: 'Maximizes yields across staking opportunities',
-      icon: Zap,
-      color: '#F59E0B',
-      features: ['Auto-compound', 'Risk assessment', 'Yield optimization'],
-    },
-    {
-      id: 'cci',
-      name: 'CCI Market Bot',
-      description: 'Trades based on Commodity Channel Index',
-      icon: Activity,
-      color: '#8B5CF6',
-      features: ['Overbought/oversold', 'Market cycles', 'Risk management'],
-    },
-  ];
+  const handleKillSwitch = () => {
+    Alert.alert(
+      'Kill Switch',
+      'Cancel all open orders and pause every bot. Trading stays halted until you re-arm it.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Pause All', onPress: () => activateKillSwitch(false) },
+        {
+          text: 'Pause & Flatten',
+          style: 'destructive',
+          onPress: () => activateKillSwitch(true),
+        },
+      ]
+    );
+  };
+
+  const handleRearm = () => {
+    if (!rearmTrading()) {
+      Alert.alert('Cooling Down', 'Trading can be re-armed once the cooldown has passed.');
+    }
+  };
 
   return (
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
@@ -59,6 +61,47 @@ export default function BotsScreen() {
         <Text style={styles.createButtonText}>Create New Bot</Text>
       </TouchableOpacity>
 
+      {circuitBreaker.status === 'TRIPPED' ? (
+        <View style={styles.haltBanner}>
+          <View style={styles.haltHeader}>
+            <ShieldAlert color="#EF4444" size={20} />
+            <Text style={styles.haltTitle}>Trading Halted</Text>
+          </View>
+          <Text style={styles.haltReason}>{circuitBreaker.reason}</Text>
+          {!circuitBreaker.canRearm && circuitBreaker.cooldownUntil && (
+            <Text style={styles.haltCooldown}>
+              Re-arm available at {new Date(circuitBreaker.cooldownUntil).toLocaleTimeString()}
+            </Text>
+          )}
+          <TouchableOpacity
+            style={[styles.rearmButton, !circuitBreaker.canRearm && styles.rearmButtonDisabled]}
+            onPress={handleRearm}
+          >
+            <Text style={styles.rearmButtonText}>Re-arm Trading</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.killSwitchButton} onPress={handleKillSwitch}>
+          <OctagonX color="#EF4444" size={20} />
+          <Text style={styles.killSwitchText}>Kill Switch</Text>
+        </TouchableOpacity>
+      )}
+
+      {recentAnomalies.length > 0 && (
+        <View style={styles.anomalyBanner}>
+          <View style={styles.haltHeader}>
+            <TriangleAlert color="#F59E0B" size={20} />
+            <Text style={styles.anomalyTitle}>Market Data Warning</Text>
+          </View>
+          {recentAnomalies.map((anomaly, index) => (
+            <Text key={`${anomaly.detectedAt}-${index}`} style={styles.anomalyMessage}>
+              {anomaly.message}
+            </Text>
+          ))}
+          <Text style={styles.haltCooldown}>Affected assets are not traded until their data checks out.</Text>
+        </View>
+      )}
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Active Bots ({activeBots.length})</Text>
         {activeBots.map((bot) => {
@@ -81,14 +124,17 @@ export default function BotsScreen() {
                   />
                 </View>
                 <Text style={styles.botDescription}>{botType?.description}</Text>
+                {bot.error && <Text style={styles.botError}>{bot.error}</Text>}
                 <View style={styles.botStats}>
                   <View style={styles.statItem}>
                     <Text style={styles.statLabel}>Allocation</Text>
                     <Text style={styles.statValue}>${bot.allocation.toLocaleString()}</Text>
                   </View>
                   <View style={styles.statItem}>
-                    <Text style={styles.statLabel}>24h P&L</Text>
-                    <Text style={[styles.statValue, styles.positive]}>+{bot.profit}%</Text>
+                    <Text style={styles.statLabel}>P&L</Text>
+                    <Text style={[styles.statValue, bot.profit >= 0 ? styles.positive : styles.negative]}>
+                      {bot.profit >= 0 ? '+' : ''}{bot.profit}%
+                    </Text>
                   </View>
                   <View style={styles.statItem}>
                     <Text style={styles.statLabel}>Trades</Text>
@@ -175,6 +221,87 @@ const styles = StyleSheet.create({
     fontWeight: 'bold' as const,
     marginLeft: 8,
   },
+  killSwitchButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginHorizontal: 20,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#EF4444',
+    backgroundColor: 'rgba(239, 68, 68, 0.1)',
+  },
+  killSwitchText: {
+    color: '#EF4444',
+    fontSize: 16,
+    fontWeight: 'bold' as const,
+    marginLeft: 8,
+  },
+  haltBanner: {
+    marginHorizontal: 20,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#EF4444',
+    backgroundColor: 'rgba(239, 68, 68, 0.1)',
+  },
+  haltHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  haltTitle: {
+    fontSize: 16,
+    fontWeight: 'bold' as const,
+    color: '#EF4444',
+    marginLeft: 8,
+  },
+  haltReason: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    marginBottom: 4,
+  },
+  haltCooldown: {
+    fontSize: 12,
+    color: '#94A3B8',
+    marginBottom: 4,
+  },
+  rearmButton: {
+    alignItems: 'center',
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#10B981',
+  },
+  rearmButtonDisabled: {
+    opacity: 0.5,
+  },
+  rearmButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: 'bold' as const,
+  },
+  anomalyBanner: {
+    marginHorizontal: 20,
+    marginTop: 12,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#F59E0B',
+    backgroundColor: 'rgba(245, 158, 11, 0.1)',
+  },
+  anomalyTitle: {
+    fontSize: 16,
+    fontWeight: 'bold' as const,
+    color: '#F59E0B',
+    marginLeft: 8,
+  },
+  anomalyMessage: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    marginBottom: 4,
+  },
   section: {
     padding: 20,
   },
@@ -218,6 +345,12 @@ const styles = StyleSheet.create({
     color: '#94A3B8',
     marginBottom: 12,
   },
+  botError: {
+    fontSize: 12,
+    color: '#EF4444',
+    marginTop: -8,
+    marginBottom: 12,
+  },
   botStats: {
     flexDirection: 'row',
     marginBottom: 12,
@@ -238,6 +371,9 @@ const styles = StyleSheet.create({
   positive: {
     color: '#10B981',
   },
+  negative: {
+    color: '#EF4444',
+  },
   botActions: {
     flexDirection: 'row',
     gap: 12,
@@ -7,11 +7,21 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { TrendingUp, DollarSign, Activity, Zap, Plus, ArrowUpRight, ArrowDownRight } from 'lucide-react-native';
+import { Zap, Plus, ArrowUpRight, ArrowDownRight } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { useTradingBot } from '@/providers/TradingBotProvider';
+import { StrategyIcon } from '@/components/StrategyIcon';
 import { useQuery } from '@tanstack/react-query';
-import MarketService, { MarketCoin } from '@/services/MarketService';
+import MarketService, { MARKET_REFETCH_INTERVAL_MS, MarketCoin } from '@/services/MarketService';
+import { useLivePrices } from '@/hooks/useLivePrices';
+
+function formatUsd(value: number): string {
+  return `$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatSigned(value: number, format: (value: number) => string): string {
+  return `${value < 0 ? '-' : '+'}${format(value)}`;
+}
 
 export default function DashboardScreen() {
   const { portfolio, activeBots, recentTrades } = useTradingBot();
@@ -19,8 +29,8 @@ export default function DashboardScreen() {
   const { data: markets, isLoading, error } = useQuery<MarketCoin[]>({
     queryKey: ['markets', 'coingecko'],
     queryFn: () => MarketService.fetchMarkets(200),
-    staleTime: 15 * 60 * 1000,
-    refetchInterval: 15 * 60 * 1000,
+    staleTime: MARKET_REFETCH_INTERVAL_MS,
+    refetchInterval: MARKET_REFETCH_INTERVAL_MS,
   });
 
   const top24h = useMemo(() => {
@@ -39,11 +49,20 @@ export default function DashboardScreen() {
       .slice(0, 4);
   }, [markets]);
 
+  const liveSymbols = useMemo(
+    () => [...top24h, ...top7d].map(coin => coin.symbol.toUpperCase()),
+    [top24h, top7d],
+  );
+  const { prices: livePrices } = useLivePrices(liveSymbols);
+  const priceOf = (coin: MarketCoin) => livePrices[coin.symbol.toUpperCase()]?.price ?? coin.current_price;
+
+  // Figures come from the bots' paper accounts; P&L is against what they started with
+  const pnlChange = formatSigned(portfolio.pnlPercentage, value => `${Math.abs(value).toFixed(2)}%`);
   const stats = [
-    { label: 'Total Value', value: '$12,458.32', change: '+12.5%', positive: true },
-    { label: '24h P&L', value: '+$458.32', change: '+3.8%', positive: true },
-    { label: 'Active Bots', value: activeBots.length.toString(), change: '', positive: true },
-    { label: 'Win Rate', value: '67%', change: '+5%', positive: true },
+    { label: 'Total Value', value: formatUsd(portfolio.totalValue), change: pnlChange, positive: portfolio.pnl >= 0 },
+    { label: 'Total P&L', value: formatSigned(portfolio.pnl, formatUsd), change: pnlChange, positive: portfolio.pnl >= 0 },
+    { label: 'Active Bots', value: activeBots.filter(bot => bot.status === 'Running').length.toString(), change: '', positive: true },
+    { label: 'Win Rate', value: `${portfolio.winRate.toFixed(0)}%`, change: '', positive: true },
   ];
 
   return (
@@ -56,10 +75,16 @@ export default function DashboardScreen() {
       >
         <View style={styles.balanceContainer}>
           <Text style={styles.balanceLabel}>Portfolio Balance</Text>
-          <Text style={styles.balanceValue}>${portfolio.totalValue.toLocaleString()}</Text>
+          <Text style={styles.balanceValue}>{formatUsd(portfolio.totalValue)}</Text>
           <View style={styles.balanceChange}>
-            <ArrowUpRight color="#10B981" size={16} />
-            <Text style={styles.balanceChangeText}>+12.5% (24h)</Text>
+            {portfolio.pnl >= 0 ? (
+              <ArrowUpRight color="#10B981" size={16} />
+            ) : (
+              <ArrowDownRight color="#EF4444" size={16} />
+            )}
+            <Text style={[styles.balanceChangeText, portfolio.pnl < 0 && styles.negative]}>
+              {pnlChange} all time
+            </Text>
           </View>
         </View>
 
@@ -112,10 +137,7 @@ export default function DashboardScreen() {
         {activeBots.map((bot) => (
           <TouchableOpacity key={bot.id} style={styles.botCard}>
             <View style={styles.botIcon}>
-              {bot.type === 'momentum' && <TrendingUp color="#10B981" size={24} />}
-              {bot.type === 'dca' && <DollarSign color="#3B82F6" size={24} />}
-              {bot.type === 'staking' && <Zap color="#F59E0B" size={24} />}
-              {bot.type === 'cci' && <Activity color="#8B5CF6" size={24} />}
+              <StrategyIcon type={bot.type} />
             </View>
             <View style={styles.botInfo}>
               <Text style={styles.botName}>{bot.name}</Text>
@@ -124,8 +146,10 @@ export default function DashboardScreen() {
               </Text>
             </View>
             <View style={styles.botPerformance}>
-              <Text style={styles.botProfit}>+{bot.profit}%</Text>
-              <Text style={styles.botPeriod}>24h</Text>
+              <Text style={[styles.botProfit, bot.profit < 0 && styles.negative]}>
+                {bot.profit >= 0 ? '+' : ''}{bot.profit}%
+              </Text>
+              <Text style={styles.botPeriod}>P&L</Text>
             </View>
           </TouchableOpacity>
         ))}
@@ -166,7 +190,7 @@ export default function DashboardScreen() {
           <View key={coin.id} style={styles.tradeCard}>
             <View style={styles.tradeInfo}>
               <Text style={styles.tradePair}>{coin.symbol.toUpperCase()} • {coin.name}</Text>
-              <Text style={styles.tradeTime}>${coin.current_price.toLocaleString()}</Text>
+              <Text style={styles.tradeTime}>${priceOf(coin).toLocaleString()}</Text>
             </View>
             <View style={styles.tradeDetails}>
               <Text style={[styles.tradePnl, (coin.price_change_percentage_24h_in_currency || 0) >= 0 ? styles.positive : styles.negative]}>
@@ -185,7 +209,7 @@ export default function DashboardScreen() {
           <View key={coin.id} style={styles.tradeCard}>
             <View style={styles.tradeInfo}>
               <Text style={styles.tradePair}>{coin.symbol.toUpperCase()} • {coin.name}</Text>
-              <Text style={styles.tradeTime}>${coin.current_price.toLocaleString()}</Text>
+              <Text style={styles.tradeTime}>${priceOf(coin).toLocaleString()}</Text>
             </View>
             <View style={styles.tradeDetails}>
               <Text style={[styles.tradePnl, (coin.price_change_percentage_7d_in_currency || 0) >= 0 ? styles.positive : styles.negative]}>
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import {
   View,
   Text,
@@ -10,11 +10,41 @@ import {
 // import { Circle, G, Line } from 'react-native-svg';
 import { Bitcoin, DollarSign, TrendingUp, TrendingDown } from 'lucide-react-native';
 import { useTradingBot } from '@/providers/TradingBotProvider';
+import { strategyRegistry, StrategyParamValue } from '@/algorithms/StrategyRegistry';
+import { DEFAULT_RISK_LIMITS } from '@/algorithms/RiskManager';
+import { AllocationWeight, allocationWeights, capTargetWeights, parseTargetWeights } from '@/algorithms/RebalancingBot';
 
-
+interface TargetAllocation {
+  botId: string;
+  botName: string;
+  driftThreshold: number;
+  weights: AllocationWeight[];
+}
 
 export default function PortfolioScreen() {
-  const { portfolio } = useTradingBot();
+  const { portfolio, activeBots, botSnapshots } = useTradingBot();
+
+  // Rebalancing bots' baskets; actual weights stay at 0 until the bot has run
+  const targetAllocations = useMemo<TargetAllocation[]>(() => activeBots
+    .filter(bot => bot.type === 'rebalance')
+    .flatMap(bot => {
+      let params: Record<string, StrategyParamValue>;
+      let targets: Record<string, number>;
+      try {
+        params = strategyRegistry.resolveParams(bot.type, bot.customParams);
+        targets = parseTargetWeights(String(params.targets));
+      } catch {
+        return [];
+      }
+      const snapshot = botSnapshots[bot.id];
+      const effective = capTargetWeights(targets, DEFAULT_RISK_LIMITS, Number(params.cashBuffer));
+      return [{
+        botId: bot.id,
+        botName: bot.name,
+        driftThreshold: Number(params.driftThreshold),
+        weights: allocationWeights(targets, effective, snapshot?.positions ?? [], snapshot?.equity ?? 0),
+      }];
+    }), [activeBots, botSnapshots]);
 
   // const pieData = portfolio.holdings.map((holding, index) => ({
   //   value: holding.value,
@@ -28,10 +58,17 @@ export default function PortfolioScreen() {
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
       <View style={styles.header}>
         <Text style={styles.totalLabel}>Total Portfolio Value</Text>
-        <Text style={styles.totalValue}>${portfolio.totalValue.toLocaleString()}</Text>
+        <Text style={styles.totalValue}>${portfolio.totalValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}</Text>
         <View style={styles.changeContainer}>
-          <TrendingUp color="#10B981" size={16} />
-          <Text style={styles.changeText}>+$1,458.32 (12.5%) Today</Text>
+          {portfolio.pnl >= 0 ? (
+            <TrendingUp color="#10B981" size={16} />
+          ) : (
+            <TrendingDown color="#EF4444" size={16} />
+          )}
+          <Text style={[styles.changeText, portfolio.pnl < 0 && styles.negative]}>
+            {portfolio.pnl < 0 ? '-' : '+'}${Math.abs(portfolio.pnl).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+            {' '}({portfolio.pnlPercentage.toFixed(2)}%) All time
+          </Text>
         </View>
       </View>
 
@@ -52,11 +89,40 @@ export default function PortfolioScreen() {
                 ]}
               />
               <Text style={styles.legendText}>
-                {holding.symbol} ({((holding.value / portfolio.totalValue) * 100).toFixed(1)}%)
+                {holding.symbol} ({portfolio.totalValue > 0 ? ((holding.value / portfolio.totalValue) * 100).toFixed(1) : '0.0'}%)
               </Text>
             </View>
           ))}
         </View>
+        {targetAllocations.map((allocation) => (
+          <View key={allocation.botId} style={styles.targetCard}>
+            <Text style={styles.targetTitle}>{allocation.botName}: Target vs Actual</Text>
+            <View style={styles.targetRow}>
+              <Text style={[styles.targetCell, styles.targetHeader]}>Asset</Text>
+              <Text style={[styles.targetCell, styles.targetHeader]}>Target</Text>
+              <Text style={[styles.targetCell, styles.targetHeader]}>Actual</Text>
+              <Text style={[styles.targetCell, styles.targetHeader]}>Drift</Text>
+            </View>
+            {allocation.weights.map((weight) => (
+              <View key={weight.symbol} style={styles.targetRow}>
+                <Text style={[styles.targetCell, styles.targetSymbol]}>{weight.symbol}</Text>
+                <Text style={styles.targetCell}>
+                  {weight.effectiveTarget.toFixed(1)}%
+                  {weight.effectiveTarget < weight.target - 0.05 && (
+                    <Text style={styles.targetCapped}> of {weight.target}%</Text>
+                  )}
+                </Text>
+                <Text style={styles.targetCell}>{weight.actual.toFixed(1)}%</Text>
+                <Text style={[
+                  styles.targetCell,
+                  allocation.driftThreshold > 0 && Math.abs(weight.drift) > allocation.driftThreshold && styles.targetDrifted,
+                ]}>
+                  {weight.drift > 0 ? '+' : ''}{weight.drift.toFixed(1)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ))}
       </View>
 
       <View style={styles.holdingsSection}>
@@ -68,10 +134,10 @@ export default function PortfolioScreen() {
             </View>
             <View style={styles.holdingInfo}>
               <Text style={styles.holdingSymbol}>{holding.symbol}</Text>
-              <Text style={styles.holdingAmount}>{holding.amount} {holding.symbol}</Text>
+              <Text style={styles.holdingAmount}>{holding.amount.toLocaleString(undefined, { maximumFractionDigits: 6 })} {holding.symbol}</Text>
             </View>
             <View style={styles.holdingValue}>
-              <Text style={styles.holdingUsdValue}>${holding.value.toLocaleString()}</Text>
+              <Text style={styles.holdingUsdValue}>${holding.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}</Text>
               <View style={styles.holdingChange}>
                 {holding.change24h > 0 ? (
                   <TrendingUp color="#10B981" size={12} />
@@ -82,7 +148,7 @@ export default function PortfolioScreen() {
                   styles.holdingChangeText,
                   holding.change24h > 0 ? styles.positive : styles.negative
                 ]}>
-                  {holding.change24h > 0 ? '+' : ''}{holding.change24h}%
+                  {holding.change24h > 0 ? '+' : ''}{holding.change24h.toFixed(2)}%
                 </Text>
               </View>
             </View>
@@ -179,6 +245,41 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#94A3B8',
   },
+  targetCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+  },
+  targetTitle: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: '#FFFFFF',
+    marginBottom: 12,
+  },
+  targetRow: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+  },
+  targetCell: {
+    flex: 1,
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+  targetHeader: {
+    color: '#64748B',
+    fontWeight: '600' as const,
+  },
+  targetSymbol: {
+    color: '#FFFFFF',
+    fontWeight: '600' as const,
+  },
+  targetCapped: {
+    color: '#64748B',
+  },
+  targetDrifted: {
+    color: '#F59E0B',
+  },
   holdingsSection: {
     padding: 20,
   },
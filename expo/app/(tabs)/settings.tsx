@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   View,
   Text,
@@ -9,15 +9,39 @@ import {
   TextInput,
   Alert,
 } from 'react-native';
-import { User, Bell, Shield, Link, LogOut, ChevronRight, AlertCircle } from 'lucide-react-native';
-import { router } from 'expo-router';
+import { User, Bell, Shield, Link, LogOut, ChevronRight, AlertCircle, Database } from 'lucide-react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/providers/AuthProvider';
+import MarketService, { ProviderHealth } from '@/services/MarketService';
+
+function describeHealth(health: ProviderHealth): string {
+  if (health.available) {
+    return `Available, ${health.requestsInWindow} request${health.requestsInWindow === 1 ? '' : 's'} this window`;
+  }
+  const minutes = Math.max(1, Math.ceil((health.cooldownUntil - Date.now()) / 60000));
+  return `Paused for ${minutes} min${health.lastError ? `: ${health.lastError}` : ''}`;
+}
 
 export default function SettingsScreen() {
   const { user, signOut } = useAuth();
   const [notifications, setNotifications] = useState(true);
   const [twoFactor, setTwoFactor] = useState(false);
   const [stopLoss, setStopLoss] = useState('3');
+  const queryClient = useQueryClient();
+  const [offlineData, setOfflineData] = useState(MarketService.isOfflineData());
+  const [providerHealth, setProviderHealth] = useState<ProviderHealth[]>([]);
+
+  useFocusEffect(useCallback(() => {
+    setProviderHealth(MarketService.getProviderHealth());
+  }, []));
+
+  const handleOfflineData = (offline: boolean) => {
+    MarketService.setOfflineData(offline);
+    setOfflineData(offline);
+    setProviderHealth(MarketService.getProviderHealth());
+    queryClient.invalidateQueries({ queryKey: ['markets'] });
+  };
 
   const handleSignOut = () => {
     Alert.alert(
@@ -135,6 +159,36 @@ export default function SettingsScreen() {
         </TouchableOpacity>
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Market Data</Text>
+
+        <View style={styles.settingItem}>
+          <View style={styles.settingIcon}>
+            <Database color="#14B8A6" size={20} />
+          </View>
+          <View style={styles.settingContent}>
+            <Text style={styles.settingLabel}>Offline Data</Text>
+            <Text style={styles.settingDescription}>Use the bundled BTC, ETH and SOL history instead of live quotes</Text>
+          </View>
+          <Switch
+            value={offlineData}
+            onValueChange={handleOfflineData}
+            trackColor={{ false: '#374151', true: '#10B981' }}
+            thumbColor="#FFFFFF"
+          />
+        </View>
+
+        {providerHealth.map(health => (
+          <View key={health.name} style={styles.settingItem}>
+            <View style={[styles.healthDot, health.available ? styles.healthy : styles.unhealthy]} />
+            <View style={styles.settingContent}>
+              <Text style={styles.settingLabel}>{health.name}</Text>
+              <Text style={styles.settingDescription}>{describeHealth(health)}</Text>
+            </View>
+          </View>
+        ))}
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Legal & Compliance</Text>
         
@@ -241,6 +295,18 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#94A3B8',
   },
+  healthDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 12,
+  },
+  healthy: {
+    backgroundColor: '#10B981',
+  },
+  unhealthy: {
+    backgroundColor: '#EF4444',
+  },
   legalLink: {
     fontSize: 16,
     color: '#6366F1',
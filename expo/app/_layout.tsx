@@ -6,6 +6,7 @@ import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { TradingBotProvider } from "@/providers/TradingBotProvider";
 import { AuthProvider } from "@/providers/AuthProvider";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { MARKET_REFETCH_INTERVAL_MS } from "@/services/MarketService";
 
 // console.log disabled for performance
 
@@ -15,9 +16,9 @@ SplashScreen.preventAutoHideAsync().catch(console.warn);
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
-      staleTime: 15 * 60 * 1000,
-      gcTime: 30 * 60 * 1000,
-      refetchInterval: 15 * 60 * 1000,
+      staleTime: MARKET_REFETCH_INTERVAL_MS,
+      gcTime: 2 * MARKET_REFETCH_INTERVAL_MS,
+      refetchInterval: MARKET_REFETCH_INTERVAL_MS,
       refetchOnWindowFocus: false,
       refetchOnReconnect: false,
       refetchOnMount: false,
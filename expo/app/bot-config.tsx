@@ -11,30 +11,84 @@ import {
 } from 'react-native';
 import { router, useLocalSearchParams } from 'expo-router';
 import Slider from '@react-native-community/slider';
-import { useTradingBot } from '@/providers/TradingBotProvider';
+import { DEFAULT_ENABLED_ASSETS, useTradingBot } from '@/providers/TradingBotProvider';
+import { strategyRegistry, StrategyParamValue, validateParam } from '@/algorithms/StrategyRegistry';
+import { BotType } from '@/algorithms/TradingBot';
+import { BotConfig } from '@/algorithms/MomentumTradingBot';
+import { SIZING_METHODS, SizingMethod } from '@/algorithms/PositionSizer';
+
+const RISK_LEVELS: BotConfig['riskLevel'][] = ['CONSERVATIVE', 'MODERATE', 'AGGRESSIVE'];
 
 export default function BotConfigScreen() {
-  const { type } = useLocalSearchParams();
+  const { type } = useLocalSearchParams<{ type?: string }>();
   const { createBot } = useTradingBot();
   
   const [botName, setBotName] = useState('');
   const [allocation, setAllocation] = useState('1000');
   const [stopLoss, setStopLoss] = useState(3);
-  const [selectedType, setSelectedType] = useState(type || 'momentum');
+  const [selectedType, setSelectedType] = useState<BotType>(type && strategyRegistry.has(type) ? type : 'momentum');
   const [timeframe, setTimeframe] = useState('4h');
+  const [riskLevel, setRiskLevel] = useState<BotConfig['riskLevel']>('MODERATE');
+  const [maxPositions, setMaxPositions] = useState(5);
+  const [enabledAssets, setEnabledAssets] = useState<string[]>(DEFAULT_ENABLED_ASSETS);
+  const [sizing, setSizing] = useState<SizingMethod | undefined>(undefined);
+  const [paramInputs, setParamInputs] = useState<Record<string, string>>({});
+
+  const strategy = strategyRegistry.get(selectedType);
+
+  const handleSelectType = (t: BotType) => {
+    setSelectedType(t);
+    setParamInputs({});
+  };
+
+  const toggleAsset = (asset: string) => {
+    setEnabledAssets(prev => prev.includes(asset) ? prev.filter(a => a !== asset) : [...prev, asset]);
+  };
 
   const handleCreate = () => {
     if (!botName || !allocation) {
       Alert.alert('Error', 'Please fill in all required fields');
       return;
     }
+    if (enabledAssets.length === 0) {
+      Alert.alert('Error', 'Select at least one asset to trade');
+      return;
+    }
+
+    const customParams: Record<string, StrategyParamValue> = {};
+    for (const param of strategy?.configSchema || []) {
+      const input = paramInputs[param.key];
+      if (input === undefined) continue;
+      if (param.type === 'number') {
+        const value = parseFloat(input);
+        if (isNaN(value)) {
+          Alert.alert('Error', `${param.label} must be a number`);
+          return;
+        }
+        customParams[param.key] = value;
+      } else {
+        customParams[param.key] = param.type === 'boolean' ? input === 'true' : input.trim();
+      }
+      const error = validateParam(param, customParams[param.key]);
+      if (error) {
+        Alert.alert('Error', `${param.label}: ${error}`);
+        return;
+      }
+    }
 
     createBot({
       name: botName,
-      type: selectedType as any,
+      type: selectedType,
       allocation: parseFloat(allocation),
       stopLoss,
-      config: { timeframe },
+      config: {
+        timeframe,
+        maxPositions,
+        riskLevel,
+        enabledAssets,
+        sizing,
+        customParams: strategyRegistry.resolveParams(selectedType, customParams),
+      },
     });
 
     Alert.alert('Success', 'Bot created successfully!', [
@@ -62,11 +116,11 @@ export default function BotConfigScreen() {
         <View style={styles.inputGroup}>
           <Text style={styles.label}>Bot Type</Text>
           <View style={styles.typeSelector}>
-            {['momentum', 'dca', 'staking', 'cci'].map((t) => (
+            {strategyRegistry.types().map((t) => (
               <TouchableOpacity
                 key={t}
                 style={[styles.typeButton, selectedType === t && styles.activeType]}
-                onPress={() => setSelectedType(t)}
+                onPress={() => handleSelectType(t)}
               >
                 <Text style={[styles.typeText, selectedType === t && styles.activeTypeText]}>
                   {t.toUpperCase()}
@@ -103,6 +157,72 @@ export default function BotConfigScreen() {
           />
         </View>
 
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Risk Level</Text>
+          <View style={styles.timeframeSelector}>
+            {RISK_LEVELS.map((level) => (
+              <TouchableOpacity
+                key={level}
+                style={[styles.timeframeButton, riskLevel === level && styles.activeTimeframe]}
+                onPress={() => setRiskLevel(level)}
+              >
+                <Text style={[styles.timeframeText, riskLevel === level && styles.activeTimeframeText]}>
+                  {level.charAt(0) + level.slice(1).toLowerCase()}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Max Positions: {maxPositions}</Text>
+          <Slider
+            style={styles.slider}
+            minimumValue={1}
+            maximumValue={10}
+            step={1}
+            value={maxPositions}
+            onValueChange={setMaxPositions}
+            minimumTrackTintColor="#6366F1"
+            maximumTrackTintColor="#374151"
+            thumbTintColor="#FFFFFF"
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Assets</Text>
+          <View style={styles.assetSelector}>
+            {DEFAULT_ENABLED_ASSETS.map((asset) => (
+              <TouchableOpacity
+                key={asset}
+                style={[styles.timeframeButton, styles.assetButton, enabledAssets.includes(asset) && styles.activeTimeframe]}
+                onPress={() => toggleAsset(asset)}
+              >
+                <Text style={[styles.timeframeText, enabledAssets.includes(asset) && styles.activeTimeframeText]}>
+                  {asset}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Position Sizing</Text>
+          <View style={styles.sizingSelector}>
+            {[{ method: undefined, label: 'Default' }, ...SIZING_METHODS].map(({ method, label }) => (
+              <TouchableOpacity
+                key={label}
+                style={[styles.timeframeButton, styles.sizingButton, sizing === method && styles.activeTimeframe]}
+                onPress={() => setSizing(method)}
+              >
+                <Text style={[styles.timeframeText, sizing === method && styles.activeTimeframeText]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
         {selectedType === 'momentum' && (
           <View style={styles.inputGroup}>
             <Text style={styles.label}>Timeframe</Text>
@@ -121,6 +241,47 @@ export default function BotConfigScreen() {
             </View>
           </View>
         )}
+
+        {strategy?.configSchema.map((param) => {
+          const value = paramInputs[param.key] ?? String(param.defaultValue);
+          const setValue = (next: string) => setParamInputs(prev => ({ ...prev, [param.key]: next }));
+
+          if (param.type === 'select' || param.type === 'boolean') {
+            const options = param.type === 'boolean' ? ['true', 'false'] : param.options || [];
+            return (
+              <View key={param.key} style={styles.inputGroup}>
+                <Text style={styles.label}>{param.label}</Text>
+                <View style={styles.timeframeSelector}>
+                  {options.map((option) => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.timeframeButton, value === option && styles.activeTimeframe]}
+                      onPress={() => setValue(option)}
+                    >
+                      <Text style={[styles.timeframeText, value === option && styles.activeTimeframeText]}>
+                        {option}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            );
+          }
+
+          return (
+            <View key={param.key} style={styles.inputGroup}>
+              <Text style={styles.label}>{param.label}</Text>
+              <TextInput
+                style={styles.input}
+                placeholderTextColor="#64748B"
+                value={value}
+                onChangeText={setValue}
+                keyboardType={param.type === 'number' ? 'numeric' : 'default'}
+                autoCapitalize={param.type === 'text' ? 'characters' : undefined}
+              />
+            </View>
+          );
+        })}
       </View>
 
       <View style={styles.buttonContainer}>
@@ -172,10 +333,12 @@ const styles = StyleSheet.create({
   },
   typeSelector: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 8,
   },
   typeButton: {
     flex: 1,
+    minWidth: '30%',
     paddingVertical: 12,
     alignItems: 'center',
     backgroundColor: 'rgba(255, 255, 255, 0.05)',
@@ -212,6 +375,24 @@ const styles = StyleSheet.create({
   activeTimeframe: {
     backgroundColor: '#6366F1',
   },
+  assetSelector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  assetButton: {
+    flexGrow: 0,
+    flexBasis: '22%',
+  },
+  sizingSelector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  sizingButton: {
+    minWidth: '30%',
+    paddingHorizontal: 8,
+  },
   timeframeText: {
     fontSize: 14,
     color: '#94A3B8',
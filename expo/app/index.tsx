@@ -12,7 +12,7 @@ import { TrendingUp, Shield, Zap, DollarSign, ChevronRight, AlertCircle } from '
 import { router } from 'expo-router';
 import { useAuth } from '@/providers/AuthProvider';
 import { useQuery } from '@tanstack/react-query';
-import MarketService, { MarketCoin } from '@/services/MarketService';
+import MarketService, { MARKET_REFETCH_INTERVAL_MS, MarketCoin } from '@/services/MarketService';
 
 console.log('LandingPage: Component loaded');
 
@@ -45,8 +45,8 @@ export default function LandingPage() {
   const { data: markets, isLoading: marketsLoading, error } = useQuery<MarketCoin[]>({
     queryKey: ['landing-markets', 'coingecko'],
     queryFn: () => MarketService.fetchMarkets(200),
-    staleTime: 15 * 60 * 1000,
-    refetchInterval: 15 * 60 * 1000,
+    staleTime: MARKET_REFETCH_INTERVAL_MS,
+    refetchInterval: MARKET_REFETCH_INTERVAL_MS,
   });
 
   const top24h = useMemo(() => {
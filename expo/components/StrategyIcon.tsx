@@ -0,0 +1,30 @@
+import React from 'react';
+import { Activity, ArrowLeftRight, DollarSign, Grid3x3, LucideIcon, Magnet, Scale, TrendingUp, Zap } from 'lucide-react-native';
+import { strategyRegistry } from '@/algorithms/StrategyRegistry';
+import { BotType } from '@/algorithms/TradingBot';
+
+const strategyIcons: Partial<Record<BotType, LucideIcon>> = {
+  momentum: TrendingUp,
+  dca: DollarSign,
+  staking: Zap,
+  cci: Activity,
+  grid: Grid3x3,
+  meanReversion: Magnet,
+  rebalance: Scale,
+  pairs: ArrowLeftRight,
+};
+
+export function getStrategyIcon(type: BotType): LucideIcon {
+  return strategyIcons[type] || Activity;
+}
+
+interface Props {
+  type: BotType;
+  size?: number;
+}
+
+// A strategy's icon drawn in its registry color
+export function StrategyIcon({ type, size = 24 }: Props) {
+  const Icon = getStrategyIcon(type);
+  return <Icon color={strategyRegistry.get(type)?.metadata.color} size={size} />;
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { MarketData } from '@/algorithms/MomentumTradingBot';
+import { priceStream, PriceStream, StreamStatus } from '@/services/PriceStream';
+
+// Live quotes keyed by upper-case symbol, updated as the stream coalesces ticks.
+// Pass a memoized or constant symbol list; the subscription follows its contents.
+export function useLivePrices(symbols: string[], stream: PriceStream = priceStream) {
+  const [prices, setPrices] = useState<Record<string, MarketData>>({});
+  const [status, setStatus] = useState<StreamStatus>(stream.getStatus());
+  const key = symbols.map(symbol => symbol.toUpperCase()).sort().join(',');
+
+  useEffect(() => {
+    const wanted = key ? key.split(',') : [];
+    if (wanted.length === 0) return;
+
+    const initial: Record<string, MarketData> = {};
+    wanted.forEach(symbol => {
+      const latest = stream.getLatest(symbol);
+      if (latest) initial[symbol] = latest;
+    });
+    setPrices(initial);
+
+    const unsubscribeStatus = stream.onStatus(setStatus);
+    const unsubscribe = stream.subscribe(wanted, ticks => {
+      setPrices(current => {
+        const next = { ...current };
+        ticks.forEach(tick => {
+          next[tick.symbol] = tick;
+        });
+        return next;
+      });
+    });
+    setStatus(stream.getStatus());
+
+    return () => {
+      unsubscribe();
+      unsubscribeStatus();
+    };
+  }, [key, stream]);
+
+  return { prices, status };
+}
@@ -1,15 +1,45 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import createContextHook from '@nkzw/create-context-hook';
+import { BotType } from '@/algorithms/TradingBot';
+import { StrategyParamValue } from '@/algorithms/StrategyRegistry';
+import { SizingMethod } from '@/algorithms/PositionSizer';
+import { BotConfig, MarketData } from '@/algorithms/MomentumTradingBot';
+import { CircuitBreakerState } from '@/algorithms/CircuitBreaker';
+import { PortfolioRiskReport } from '@/algorithms/PortfolioRiskEngine';
+import { MarketDataAnomaly } from '@/algorithms/MarketDataGuard';
+import { BotRuntime, BotRuntimeSnapshot, KillSwitchResult } from '@/services/BotRuntime';
+import MarketService from '@/services/MarketService';
+import { priceStream } from '@/services/PriceStream';
+
+export const DEFAULT_ENABLED_ASSETS = ['BTC', 'ETH', 'SOL', 'ADA', 'DOT', 'AVAX', 'MATIC'];
 
 interface Bot {
   id: string;
   name: string;
-  type: 'momentum' | 'dca' | 'staking' | 'cci';
+  type: BotType;
   status: 'Running' | 'Paused';
   allocation: number;
   profit: number;
   trades?: number;
+  stopLoss?: number;
+  timeframe?: string;
+  // Bots saved before these were configurable trade with the defaults
+  maxPositions?: number;
+  riskLevel?: BotConfig['riskLevel'];
+  enabledAssets?: string[];
+  sizing?: SizingMethod;
+  customParams?: Record<string, StrategyParamValue>;
+  error?: string; // last runtime error, e.g. a config the strategy rejected
+}
+
+interface BotCreationConfig {
+  timeframe: string;
+  maxPositions: number;
+  riskLevel: BotConfig['riskLevel'];
+  enabledAssets: string[];
+  sizing?: SizingMethod;
+  customParams?: Record<string, StrategyParamValue>;
 }
 
 interface Holding {
@@ -27,27 +57,69 @@ interface Trade {
   time: string;
 }
 
+// Every bot's paper account combined, marked to the latest quotes
+interface Portfolio {
+  totalValue: number;
+  invested: number; // the bot accounts' starting balances
+  pnl: number;
+  pnlPercentage: number;
+  winRate: number; // % of closing trades that made money
+  holdings: Holding[];
+}
+
 interface TradingBotContextType {
   activeBots: Bot[];
-  portfolio: {
-    totalValue: number;
-    holdings: Holding[];
-  };
+  portfolio: Portfolio;
   recentTrades: Trade[];
-  createBot: (bot: Omit<Bot, 'id' | 'status' | 'profit' | 'trades'> & { stopLoss: number; config: any }) => void;
+  botSnapshots: Record<string, BotRuntimeSnapshot>;
+  circuitBreaker: CircuitBreakerState;
+  riskReport: PortfolioRiskReport;
+  marketAnomalies: MarketDataAnomaly[];
+  createBot: (bot: Pick<Bot, 'name' | 'type' | 'allocation'> & { stopLoss: number; config: BotCreationConfig }) => void;
   toggleBot: (id: string) => void;
+  activateKillSwitch: (flatten: boolean) => KillSwitchResult;
+  rearmTrading: () => boolean;
+}
+
+function toBotConfig(bot: Bot): BotConfig {
+  return {
+    id: bot.id,
+    name: bot.name,
+    type: bot.type,
+    allocation: bot.allocation,
+    stopLoss: bot.stopLoss ?? 3,
+    timeframe: bot.timeframe ?? '4h',
+    maxPositions: bot.maxPositions ?? 5,
+    riskLevel: bot.riskLevel ?? 'MODERATE',
+    enabledAssets: bot.enabledAssets ?? DEFAULT_ENABLED_ASSETS,
+    customParams: bot.customParams,
+    sizing: bot.sizing ? { method: bot.sizing } : undefined,
+  };
+}
+
+function formatTimeAgo(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
 }
 
 export const [TradingBotProvider, useTradingBot] = createContextHook<TradingBotContextType>(() => {
-  const [activeBots, setActiveBots] = useState<Bot[]>([
+  const [bots, setBots] = useState<Bot[]>([
     {
       id: '1',
       name: 'Momentum Hunter',
       type: 'momentum',
       status: 'Running',
       allocation: 5000,
-      profit: 12.5,
-      trades: 24,
+      profit: 0,
+      trades: 0,
+      maxPositions: 5,
+      riskLevel: 'MODERATE',
+      enabledAssets: DEFAULT_ENABLED_ASSETS,
     },
     {
       id: '2',
@@ -55,36 +127,117 @@ export const [TradingBotProvider, useTradingBot] = createContextHook<TradingBotC
       type: 'dca',
       status: 'Running',
       allocation: 3000,
-      profit: 8.3,
-      trades: 15,
+      profit: 0,
+      trades: 0,
+      maxPositions: 1,
+      riskLevel: 'CONSERVATIVE',
+      enabledAssets: ['BTC'],
     },
   ]);
+  const [botSnapshots, setBotSnapshots] = useState<Record<string, BotRuntimeSnapshot>>({});
 
-  const [portfolio] = useState({
-    totalValue: 12458.32,
-    holdings: [
-      { symbol: 'BTC', amount: 0.15, value: 6500, change24h: 2.5 },
-      { symbol: 'ETH', amount: 2.5, value: 4000, change24h: 3.8 },
-      { symbol: 'SOL', amount: 25, value: 1500, change24h: -1.2 },
-      { symbol: 'MATIC', amount: 300, value: 458.32, change24h: 5.6 },
-    ],
-  });
-
-  const [recentTrades] = useState<Trade[]>([
-    { id: '1', pair: 'BTC/USDT', type: 'buy', pnl: 2.5, time: '2 hours ago' },
-    { id: '2', pair: 'ETH/USDT', type: 'sell', pnl: 3.8, time: '4 hours ago' },
-    { id: '3', pair: 'SOL/USDT', type: 'buy', pnl: -1.2, time: '6 hours ago' },
-  ]);
+  const runtime = useMemo(() => new BotRuntime({
+    marketDataSource: symbols => MarketService.fetchMarketData(symbols, 250),
+    quoteStream: priceStream,
+  }), []);
+  const [circuitBreaker, setCircuitBreaker] = useState<CircuitBreakerState>(() => runtime.getCircuitBreakerState());
+  const [riskReport, setRiskReport] = useState<PortfolioRiskReport>(() => runtime.getRiskReport());
+  const [marketAnomalies, setMarketAnomalies] = useState<MarketDataAnomaly[]>([]);
+  const [quotes, setQuotes] = useState<MarketData[]>([]);
 
   useEffect(() => {
     loadBots();
   }, []);
 
+  useEffect(() => {
+    const unsubscribe = runtime.subscribe(snapshots => {
+      const byId: Record<string, BotRuntimeSnapshot> = {};
+      snapshots.forEach(snapshot => {
+        byId[snapshot.botId] = snapshot;
+      });
+      setBotSnapshots(byId);
+      setCircuitBreaker(runtime.getCircuitBreakerState());
+      setRiskReport(runtime.getRiskReport());
+      setMarketAnomalies(runtime.getAnomalies());
+      setQuotes(runtime.getMarketData());
+    });
+    runtime.start();
+
+    return () => {
+      unsubscribe();
+      runtime.stop();
+    };
+  }, [runtime]);
+
+  useEffect(() => {
+    runtime.syncBots(bots.map(toBotConfig), bots.filter(bot => bot.status === 'Paused').map(bot => bot.id));
+  }, [runtime, bots]);
+
+  const activeBots = useMemo(() => bots.map(bot => {
+    const snapshot = botSnapshots[bot.id];
+    if (!snapshot) return bot;
+    return {
+      ...bot,
+      profit: Number(snapshot.performance.totalPnLPercentage.toFixed(2)),
+      trades: snapshot.totalTrades,
+      error: snapshot.lastError,
+    };
+  }), [bots, botSnapshots]);
+
+  const portfolio = useMemo<Portfolio>(() => {
+    let totalValue = 0;
+    let invested = 0;
+    let cash = 0;
+    let closedTrades = 0;
+    let winningTrades = 0;
+    const amounts = new Map<string, number>();
+    Object.values(botSnapshots).forEach(snapshot => {
+      totalValue += snapshot.equity;
+      invested += snapshot.allocation;
+      cash += snapshot.cash;
+      closedTrades += snapshot.closedTrades;
+      winningTrades += snapshot.winningTrades;
+      snapshot.positions.forEach(position => {
+        amounts.set(position.symbol, (amounts.get(position.symbol) ?? 0) + position.quantity);
+      });
+    });
+
+    const holdings: Holding[] = Array.from(amounts.entries())
+      .filter(([, amount]) => amount !== 0)
+      .map(([symbol, amount]) => {
+        const quote = quotes.find(data => data.symbol === symbol);
+        return { symbol, amount, value: amount * (quote?.price ?? 0), change24h: quote?.change24h ?? 0 };
+      });
+    if (cash !== 0) holdings.push({ symbol: 'USD', amount: cash, value: cash, change24h: 0 });
+
+    const pnl = totalValue - invested;
+    return {
+      totalValue,
+      invested,
+      pnl,
+      pnlPercentage: invested > 0 ? (pnl / invested) * 100 : 0,
+      winRate: closedTrades > 0 ? (winningTrades / closedTrades) * 100 : 0,
+      holdings: holdings.sort((a, b) => b.value - a.value),
+    };
+  }, [botSnapshots, quotes]);
+
+  const recentTrades = useMemo<Trade[]>(() => Object.values(botSnapshots)
+    .flatMap(snapshot => snapshot.trades)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, 10)
+    .map(trade => ({
+      id: trade.id,
+      pair: `${trade.symbol}/USDT`,
+      type: trade.action === 'BUY' ? 'buy' as const : 'sell' as const,
+      pnl: Number(trade.pnlPercentage.toFixed(2)),
+      time: formatTimeAgo(trade.timestamp),
+    })), [botSnapshots]);
+
   const loadBots = async () => {
     try {
       const botsData = await AsyncStorage.getItem('bots');
       if (botsData) {
-        setActiveBots(JSON.parse(botsData));
+        setBots(JSON.parse(botsData));
       }
     } catch (error) {
       console.error('Error loading bots:', error);
@@ -99,7 +252,7 @@ export const [TradingBotProvider, useTradingBot] = createContextHook<TradingBotC
     }
   };
 
-  const createBot = useCallback((botData: Omit<Bot, 'id' | 'status' | 'profit' | 'trades'> & { stopLoss: number; config: any }) => {
+  const createBot = useCallback((botData: Pick<Bot, 'name' | 'type' | 'allocation'> & { stopLoss: number; config: BotCreationConfig }) => {
     const newBot: Bot = {
       id: Date.now().toString(),
       name: botData.name,
@@ -108,28 +261,53 @@ export const [TradingBotProvider, useTradingBot] = createContextHook<TradingBotC
       allocation: botData.allocation,
       profit: 0,
       trades: 0,
+      stopLoss: botData.stopLoss,
+      timeframe: botData.config.timeframe,
+      maxPositions: botData.config.maxPositions,
+      riskLevel: botData.config.riskLevel,
+      enabledAssets: botData.config.enabledAssets,
+      sizing: botData.config.sizing,
+      customParams: botData.config.customParams,
     };
     
-    const updatedBots = [...activeBots, newBot];
-    setActiveBots(updatedBots);
+    const updatedBots = [...bots, newBot];
+    setBots(updatedBots);
     saveBots(updatedBots);
-  }, [activeBots]);
+  }, [bots]);
 
   const toggleBot = useCallback((id: string) => {
-    const updatedBots = activeBots.map(bot =>
+    const updatedBots = bots.map(bot =>
       bot.id === id
         ? { ...bot, status: bot.status === 'Running' ? 'Paused' as const : 'Running' as const }
         : bot
     );
-    setActiveBots(updatedBots);
+    setBots(updatedBots);
+    saveBots(updatedBots);
+  }, [bots]);
+
+  // The runtime halts and pauses every bot itself, keeping their accounts; the
+  // saved bots are paused to match so they stay paused after a restart
+  const activateKillSwitch = useCallback((flatten: boolean) => {
+    const result = runtime.activateKillSwitch({ flatten });
+    const updatedBots = bots.map(bot => ({ ...bot, status: 'Paused' as const }));
+    setBots(updatedBots);
     saveBots(updatedBots);
-  }, [activeBots]);
+    return result;
+  }, [runtime, bots]);
+
+  const rearmTrading = useCallback(() => runtime.rearm(), [runtime]);
 
   return useMemo(() => ({
     activeBots,
     portfolio,
     recentTrades,
+    botSnapshots,
+    circuitBreaker,
+    riskReport,
+    marketAnomalies,
     createBot,
     toggleBot,
-  }), [activeBots, portfolio, recentTrades, createBot, toggleBot]);
+    activateKillSwitch,
+    rearmTrading,
+  }), [activeBots, portfolio, recentTrades, botSnapshots, circuitBreaker, riskReport, marketAnomalies, createBot, toggleBot, activateKillSwitch, rearmTrading]);
 });
\ No newline at end of file
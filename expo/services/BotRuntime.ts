@@ -0,0 +1,613 @@
+import { CircuitBreaker, CircuitBreakerConfig, CircuitBreakerState } from '@/algorithms/CircuitBreaker';
+import { Clock, systemClock } from '@/algorithms/Clock';
+import { MarketDataAnomaly, MarketDataGuard, MarketDataGuardConfig } from '@/algorithms/MarketDataGuard';
+import { BotConfig, BotPerformance, MarketData, Position, TradingSignal } from '@/algorithms/MomentumTradingBot';
+import { Fill, Order, PaperExchange, PaperExchangeConfig } from '@/algorithms/PaperExchange';
+import { PortfolioRiskEngine, PortfolioRiskReport, PortfolioRiskSnapshot } from '@/algorithms/PortfolioRiskEngine';
+import { DEFAULT_RISK_LIMITS, RiskLimits } from '@/algorithms/RiskManager';
+import { strategyRegistry } from '@/algorithms/StrategyRegistry';
+import { AnyTradingBot, closingDirection, groupSignals, TradeAction } from '@/algorithms/TradingBot';
+import { QuoteStream } from './PriceStream';
+
+export interface ExecutedTrade {
+  id: string;
+  botId: string;
+  symbol: string;
+  action: TradeAction;
+  quantity: number;
+  price: number;
+  fee: number;
+  pnl: number;
+  pnlPercentage: number;
+  reason: string;
+  timestamp: number;
+}
+
+export interface BotRuntimeSnapshot {
+  botId: string;
+  positions: Position[];
+  performance: BotPerformance;
+  trades: ExecutedTrade[]; // most recent only, newest first
+  totalTrades: number; // every fill since the bot started
+  closedTrades: number; // fills that closed out part of a position
+  winningTrades: number; // closing fills with a positive P&L
+  allocation: number; // the account's starting balance, 0 for a bot that never started
+  equity: number;
+  cash: number;
+  lastTick: number;
+  lastError?: string;
+}
+
+export type MarketDataSource = (symbols: string[]) => Promise<MarketData[]>;
+export type RuntimeListener = (snapshots: BotRuntimeSnapshot[]) => void;
+
+export interface KillSwitchOptions {
+  // Sell every holding at market as well as cancelling open orders
+  flatten?: boolean;
+}
+
+export interface KillSwitchResult {
+  cancelledOrders: number;
+  flattenedPositions: number;
+}
+
+export interface BotRuntimeOptions {
+  marketDataSource: MarketDataSource;
+  riskLimits?: RiskLimits;
+  tickIntervalMs?: number;
+  // Every bot trades against its own paper account seeded with its allocation
+  exchangeConfig?: Partial<Omit<PaperExchangeConfig, 'initialBalances'>>;
+  // Live quotes between polls; bots are re-evaluated on streamed ticks at most
+  // once per streamEvaluationIntervalMs
+  quoteStream?: QuoteStream;
+  streamEvaluationIntervalMs?: number;
+  // Time source for bots, risk checks and fills; defaults to the system clock
+  clock?: Clock;
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  marketDataGuard?: Partial<MarketDataGuardConfig>;
+}
+
+interface RunningBot {
+  bot: AnyTradingBot;
+  exchange: PaperExchange;
+  trades: ExecutedTrade[];
+  totalTrades: number;
+  closedTrades: number;
+  winningTrades: number;
+  lastTick: number;
+  lastError?: string;
+  // Paused bots keep their account, marked to market, but do not trade
+  paused: boolean;
+}
+
+// Drives every running bot: fetches market data on a fixed schedule, feeds it to
+// the algorithm, routes signals through the account-wide PortfolioRiskEngine and
+// executes them on a paper exchange whose fills are applied back to the bot.
+// Quotes pass through a MarketDataGuard first: bad quotes never reach a bot
+// and symbols with suspect data are not traded.
+// A tripped circuit breaker (or the kill switch) halts all trading until it is
+// explicitly re-armed.
+export class BotRuntime {
+  private static readonly MAX_TRADES_PER_BOT = 50;
+
+  private marketDataSource: MarketDataSource;
+  private riskEngine: PortfolioRiskEngine;
+  private tickIntervalMs: number;
+  private exchangeConfig: Partial<PaperExchangeConfig>;
+  private bots: Map<string, RunningBot> = new Map();
+  // Bots whose strategy could not be built from their config, with the reason
+  private failedBots: Map<string, string> = new Map();
+  private listeners: Set<RuntimeListener> = new Set();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking: boolean = false;
+  private tradeCounter: number = 0;
+  private quoteStream?: QuoteStream;
+  private streamEvaluationIntervalMs: number;
+  private streamUnsubscribe: (() => void) | null = null;
+  private streamedSymbols: string = '';
+  private lastEvaluation: number = 0;
+  private lastPolled: Map<string, MarketData> = new Map();
+  private clock: Clock;
+  private circuitBreaker: CircuitBreaker;
+  private marketDataGuard: MarketDataGuard;
+
+  constructor(options: BotRuntimeOptions) {
+    this.marketDataSource = options.marketDataSource;
+    this.clock = options.clock || systemClock;
+    this.riskEngine = new PortfolioRiskEngine(options.riskLimits || DEFAULT_RISK_LIMITS, this.clock);
+    this.circuitBreaker = new CircuitBreaker(options.circuitBreaker, this.clock);
+    this.circuitBreaker.onTrip(state => {
+      console.warn(`Bot runtime halted: ${state.reason}`);
+      this.cancelAllOrders();
+    });
+    this.marketDataGuard = new MarketDataGuard(options.marketDataGuard, this.clock);
+    this.marketDataGuard.onAnomaly(anomaly => {
+      console.warn(`Market data ${anomaly.type}: ${anomaly.message}`);
+    });
+    this.tickIntervalMs = options.tickIntervalMs ?? 60 * 1000;
+    this.exchangeConfig = options.exchangeConfig || {};
+    this.quoteStream = options.quoteStream;
+    this.streamEvaluationIntervalMs = options.streamEvaluationIntervalMs ?? 15 * 1000;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runTick();
+    }, this.tickIntervalMs);
+    this.syncStream();
+    this.runTick();
+  }
+
+  // Scheduled ticks have nobody to await them: a failure escaping tick() counts
+  // as an execution error and shows on every bot instead of going unhandled
+  private runTick(): void {
+    this.tick().catch(error => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Bot runtime tick error:', error);
+      this.bots.forEach(running => {
+        running.lastError = message;
+      });
+      this.circuitBreaker.recordExecutionError(message);
+      this.publish();
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.syncStream();
+  }
+
+  isStarted(): boolean {
+    return this.timer !== null;
+  }
+
+  // Instantiate unknown bots, pause or resume the known ones and drop the ones
+  // that were deleted. Only deleting a bot discards its paper account, so a
+  // resumed bot carries on with its positions, trades and P&L
+  syncBots(configs: BotConfig[], pausedIds: string[] = []): void {
+    const wanted = new Set(configs.map(config => config.id));
+    const paused = new Set(pausedIds);
+
+    Array.from(this.bots.keys()).forEach(id => {
+      if (!wanted.has(id)) {
+        this.bots.delete(id);
+        this.riskEngine.removeAccount(id);
+      }
+    });
+    // Failed bots are retried on every sync
+    this.failedBots.clear();
+
+    configs.forEach(config => {
+      const running = this.bots.get(config.id);
+      if (running) {
+        this.setPaused(running, paused.has(config.id));
+      } else {
+        this.startBot(config, paused.has(config.id));
+      }
+    });
+
+    this.syncStream();
+    this.publish();
+  }
+
+  // A config the strategy rejects marks only that bot as failed
+  startBot(config: BotConfig, paused: boolean = false): void {
+    let bot: AnyTradingBot;
+    try {
+      bot = strategyRegistry.create(config, this.clock);
+    } catch (error) {
+      console.error(`Bot ${config.id} could not be started:`, error);
+      this.failedBots.set(config.id, error instanceof Error ? error.message : String(error));
+      return;
+    }
+    this.failedBots.delete(config.id);
+
+    const exchange = new PaperExchange({
+      ...this.exchangeConfig,
+      initialBalances: { [this.exchangeConfig.quoteCurrency || 'USD']: config.allocation },
+    }, this.clock);
+    const running: RunningBot = {
+      bot,
+      exchange,
+      trades: [],
+      totalTrades: 0,
+      closedTrades: 0,
+      winningTrades: 0,
+      lastTick: 0,
+      paused,
+    };
+    exchange.onFill((fill, order) => this.applyFill(config.id, running, fill, order));
+    this.bots.set(config.id, running);
+    this.syncAccount(config.id, running);
+    this.syncStream();
+  }
+
+  pauseBot(id: string): void {
+    const running = this.bots.get(id);
+    if (!running) return;
+    this.setPaused(running, true);
+    this.publish();
+  }
+
+  resumeBot(id: string): void {
+    const running = this.bots.get(id);
+    if (!running) return;
+    this.setPaused(running, false);
+    this.publish();
+  }
+
+  // Deletes the bot together with its paper account
+  removeBot(id: string): void {
+    this.bots.delete(id);
+    this.failedBots.delete(id);
+    this.riskEngine.removeAccount(id);
+    this.syncStream();
+    this.publish();
+  }
+
+  // Orders still working when a bot is paused are cancelled, not left to fill
+  private setPaused(running: RunningBot, paused: boolean): void {
+    if (paused && !running.paused) {
+      running.exchange.cancelAllOrders();
+    }
+    running.paused = paused;
+  }
+
+  async tick(): Promise<void> {
+    if (this.ticking || this.bots.size === 0) return;
+    this.ticking = true;
+
+    try {
+      let polled: MarketData[];
+      try {
+        polled = await this.marketDataSource(this.enabledSymbols());
+      } catch (error) {
+        console.error('Bot runtime market data error:', error);
+        this.bots.forEach(running => {
+          running.lastError = error instanceof Error ? error.message : String(error);
+        });
+        this.circuitBreaker.recordMarketData(this.latestQuoteTime(this.currentMarketData()));
+        return;
+      }
+
+      polled.forEach(data => this.lastPolled.set(data.symbol, data));
+      this.evaluate(this.currentMarketData());
+    } finally {
+      this.ticking = false;
+      this.publish();
+    }
+  }
+
+  private enabledSymbols(): string[] {
+    const symbols = new Set<string>();
+    this.bots.forEach(({ bot }) => bot.getConfig().enabledAssets.forEach(symbol => symbols.add(symbol.toUpperCase())));
+    return Array.from(symbols);
+  }
+
+  // Latest polled quotes, overridden by fresher streamed ones. Trades stream
+  // without a volume until the first ticker arrives; the polled volume stands
+  // in so the paper exchange still has liquidity to fill against.
+  private currentMarketData(): MarketData[] {
+    const merged = new Map(this.lastPolled);
+    if (this.quoteStream) {
+      this.enabledSymbols().forEach(symbol => {
+        const streamed = this.quoteStream!.getLatest(symbol);
+        const polled = merged.get(symbol);
+        if (streamed && (!polled || streamed.timestamp >= polled.timestamp)) {
+          merged.set(symbol, streamed.volume > 0 || !polled ? streamed : { ...streamed, volume: polled.volume });
+        }
+      });
+    }
+    return Array.from(merged.values());
+  }
+
+  private evaluate(marketData: MarketData[]): void {
+    this.lastEvaluation = this.clock.now();
+    this.circuitBreaker.recordMarketData(this.latestQuoteTime(marketData));
+    // Accounts, risk and bots all see the screened quotes only
+    const { clean, blocked } = this.marketDataGuard.inspect(marketData);
+    this.riskEngine.updateMarket(clean);
+
+    this.bots.forEach((running, botId) => {
+      try {
+        if (this.circuitBreaker.isTripped() || running.paused) {
+          // Halted and paused bots keep their accounts marked to market but do not trade
+          running.exchange.updateMarket(clean);
+          this.syncAccount(botId, running);
+        } else {
+          this.runBot(botId, running, clean, blocked);
+        }
+        running.lastError = undefined;
+      } catch (error) {
+        console.error(`Bot ${botId} tick error:`, error);
+        running.lastError = error instanceof Error ? error.message : String(error);
+        this.circuitBreaker.recordExecutionError(running.lastError);
+      }
+      running.lastTick = this.clock.now();
+    });
+
+    const equityByAccount = new Map<string, number>();
+    this.bots.forEach((running, botId) => equityByAccount.set(botId, running.exchange.getEquity()));
+    this.circuitBreaker.recordEquity(equityByAccount);
+  }
+
+  private latestQuoteTime(marketData: MarketData[]): number | undefined {
+    return marketData.length > 0 ? Math.max(...marketData.map(data => data.timestamp)) : undefined;
+  }
+
+  // Keeps one stream subscription covering every running bot's assets
+  private syncStream(): void {
+    if (!this.quoteStream) return;
+    const symbols = this.timer ? this.enabledSymbols().sort() : [];
+    const key = symbols.join(',');
+    if (key === this.streamedSymbols) return;
+
+    this.streamUnsubscribe?.();
+    this.streamUnsubscribe = null;
+    this.streamedSymbols = key;
+    if (symbols.length > 0) {
+      this.streamUnsubscribe = this.quoteStream.subscribe(symbols, () => this.onStreamTicks());
+    }
+  }
+
+  private onStreamTicks(): void {
+    if (this.ticking || this.bots.size === 0) return;
+    if (this.clock.now() - this.lastEvaluation < this.streamEvaluationIntervalMs) return;
+
+    this.ticking = true;
+    try {
+      this.evaluate(this.currentMarketData());
+    } finally {
+      this.ticking = false;
+      this.publish();
+    }
+  }
+
+  private runBot(botId: string, running: RunningBot, marketData: MarketData[], blocked: Set<string>): void {
+    const { bot, exchange } = running;
+
+    // Resting orders fill first so the bot sees its up-to-date positions
+    exchange.updateMarket(marketData);
+    this.syncAccount(botId, running);
+
+    // Forced exits go straight to the exchange, ahead of the strategy; a BUY
+    // here buys back a short
+    this.riskEngine.emergencySignals(botId).forEach(signal => {
+      const held = exchange.getBalance(signal.symbol);
+      const quantity = Math.min(signal.quantity, signal.action === 'BUY' ? -held : held);
+      if (quantity > 0) this.submit(botId, exchange, [{ signal, quantity }]);
+    });
+    if (this.circuitBreaker.isTripped()) return;
+
+    const signals = bot.analyzeMarket(marketData).filter(signal => signal.action !== 'HOLD');
+
+    groupSignals(signals).forEach(legs => {
+      // A breaker can trip on one of this bot's own fills
+      if (this.circuitBreaker.isTripped()) return;
+      // One suspect leg holds back the whole group
+      if (legs.some(signal => blocked.has(signal.symbol))) return;
+      // An empty account is not an execution error worth tripping a breaker over
+      if (legs.every(signal => signal.action === 'BUY') && exchange.getBalance(exchange.getConfig().quoteCurrency) <= 0) return;
+
+      // Sized against every bot's holdings, not just this one's
+      const sized = legs.map(signal => {
+        const decision = this.riskEngine.checkSignal(botId, signal, signal.quantity);
+        let quantity = decision.approved ? decision.quantity : 0;
+        if (signal.action === 'SELL' && !signal.short && quantity) {
+          quantity = Math.min(quantity, exchange.getBalance(signal.symbol));
+        }
+        return { signal, quantity };
+      });
+      if (sized.some(({ quantity }) => !(quantity > 0))) return;
+
+      // Legs cut back by the risk engine shrink the others too, keeping the
+      // group's hedge ratio
+      const scale = Math.min(...sized.map(({ signal, quantity }) => quantity / signal.quantity));
+      this.submit(botId, exchange, sized.length === 1
+        ? sized
+        : sized.map(({ signal }) => ({ signal, quantity: signal.quantity * scale })));
+    });
+  }
+
+  private submit(botId: string, exchange: PaperExchange, legs: { signal: TradingSignal; quantity: number }[]): void {
+    const rejected = exchange.executeSignalGroup(legs).find(order => order.status === 'REJECTED');
+    if (rejected) {
+      console.warn(`Bot ${botId} order rejected: ${rejected.rejectReason}`);
+      this.circuitBreaker.recordExecutionError(rejected.rejectReason || 'Order rejected');
+    } else {
+      this.circuitBreaker.recordExecutionSuccess();
+    }
+  }
+
+  // Account-wide stop: cancels every open order, halts and pauses all bots and
+  // optionally closes every holding at market, buying back shorts. Accounts are
+  // kept, so re-arming and resuming a bot picks up where it stopped
+  activateKillSwitch(options: KillSwitchOptions = {}): KillSwitchResult {
+    let cancelledOrders = this.cancelAllOrders();
+    this.bots.forEach(running => this.setPaused(running, true));
+    this.circuitBreaker.trip('MANUAL', options.flatten ? 'Kill switch: positions flattened' : 'Kill switch activated');
+    let flattenedPositions = 0;
+
+    if (options.flatten) {
+      this.bots.forEach(({ exchange }) => {
+        const quoteCurrency = exchange.getConfig().quoteCurrency;
+        Object.entries(exchange.getBalances()).forEach(([symbol, amount]) => {
+          if (symbol === quoteCurrency || amount === 0) return;
+          const order = exchange.submitOrder({
+            symbol,
+            side: amount > 0 ? 'SELL' : 'BUY',
+            type: 'MARKET',
+            quantity: Math.abs(amount),
+            reason: 'Kill switch: flatten',
+          });
+          if (order.status === 'REJECTED') {
+            console.warn(`Kill switch could not flatten ${symbol}: ${order.rejectReason}`);
+          } else {
+            flattenedPositions++;
+            // Whatever the market could not absorb now must not rest on the book
+            if (exchange.cancelOrder(order.id)) cancelledOrders++;
+          }
+        });
+      });
+    }
+
+    this.publish();
+    return { cancelledOrders, flattenedPositions };
+  }
+
+  // Returns false while an automatic trip is still cooling down
+  rearm(): boolean {
+    const rearmed = this.circuitBreaker.rearm();
+    this.publish();
+    return rearmed;
+  }
+
+  isHalted(): boolean {
+    return this.circuitBreaker.isTripped();
+  }
+
+  getCircuitBreakerState(): CircuitBreakerState {
+    return this.circuitBreaker.getState();
+  }
+
+  private cancelAllOrders(): number {
+    let cancelled = 0;
+    this.bots.forEach(({ exchange }) => {
+      cancelled += exchange.cancelAllOrders();
+    });
+    return cancelled;
+  }
+
+  // Keeps the risk engine's view of this bot's account current
+  private syncAccount(botId: string, running: RunningBot): void {
+    this.riskEngine.updateAccount(botId, {
+      cash: running.exchange.getBalance(running.exchange.getConfig().quoteCurrency),
+      positions: running.bot.getNormalizedPositions(),
+    });
+  }
+
+  private applyFill(botId: string, running: RunningBot, fill: Fill, order: Order): void {
+    // Market and stop fills are compared with the quote they crossed; maker
+    // fills rest at their own limit price by design
+    const quote = running.exchange.getQuote(fill.symbol);
+    if (fill.liquidity === 'TAKER' && order.type !== 'LIMIT' && quote) {
+      this.circuitBreaker.recordFill(fill.price, quote.price);
+    }
+
+    const position = running.bot.getNormalizedPositions().find(p => p.symbol === fill.symbol);
+    running.bot.updatePosition(fill.symbol, fill.side, fill.quantity, fill.price);
+
+    const direction = closingDirection(position, fill.side);
+    const pnl = direction && position ? direction * (fill.price - position.entryPrice) * fill.quantity - fill.fee : -fill.fee;
+    const pnlPercentage = direction && position && position.entryPrice > 0
+      ? (direction * (fill.price - position.entryPrice) / position.entryPrice) * 100
+      : 0;
+
+    running.trades.unshift({
+      id: `${botId}-${++this.tradeCounter}`,
+      botId,
+      symbol: fill.symbol,
+      action: fill.side,
+      quantity: fill.quantity,
+      price: fill.price,
+      fee: fill.fee,
+      pnl,
+      pnlPercentage,
+      reason: fill.reason || '',
+      timestamp: fill.timestamp,
+    });
+    running.totalTrades++;
+    if (direction) {
+      running.closedTrades++;
+      if (pnl > 0) running.winningTrades++;
+    }
+
+    if (running.trades.length > BotRuntime.MAX_TRADES_PER_BOT) {
+      running.trades.length = BotRuntime.MAX_TRADES_PER_BOT;
+    }
+    this.syncAccount(botId, running);
+  }
+
+  getSnapshot(botId: string): BotRuntimeSnapshot | undefined {
+    const running = this.bots.get(botId);
+    if (running) return this.toSnapshot(botId, running);
+    const error = this.failedBots.get(botId);
+    return error !== undefined ? this.toFailedSnapshot(botId, error) : undefined;
+  }
+
+  getRiskSnapshot(): PortfolioRiskSnapshot {
+    return this.riskEngine.getSnapshot();
+  }
+
+  getRiskReport(): PortfolioRiskReport {
+    return this.riskEngine.getRiskReport();
+  }
+
+  // Latest quote of every traded symbol, streamed ones included
+  getMarketData(): MarketData[] {
+    return this.currentMarketData();
+  }
+
+  // Newest first
+  getAnomalies(): MarketDataAnomaly[] {
+    return this.marketDataGuard.getRecentAnomalies();
+  }
+
+  getSnapshots(): BotRuntimeSnapshot[] {
+    return [
+      ...Array.from(this.bots.entries()).map(([botId, running]) => this.toSnapshot(botId, running)),
+      ...Array.from(this.failedBots.entries()).map(([botId, error]) => this.toFailedSnapshot(botId, error)),
+    ];
+  }
+
+  subscribe(listener: RuntimeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private toSnapshot(botId: string, running: RunningBot): BotRuntimeSnapshot {
+    return {
+      botId,
+      positions: running.bot.getNormalizedPositions(),
+      performance: running.bot.getPerformance(),
+      trades: [...running.trades],
+      totalTrades: running.totalTrades,
+      closedTrades: running.closedTrades,
+      winningTrades: running.winningTrades,
+      allocation: running.bot.getConfig().allocation,
+      equity: running.exchange.getEquity(),
+      cash: running.exchange.getBalance(running.exchange.getConfig().quoteCurrency),
+      lastTick: running.lastTick,
+      lastError: running.lastError,
+    };
+  }
+
+  // A bot that never started has no account and has not traded
+  private toFailedSnapshot(botId: string, error: string): BotRuntimeSnapshot {
+    return {
+      botId,
+      positions: [],
+      performance: { totalPnL: 0, totalPnLPercentage: 0, winRate: 0, totalTrades: 0, maxDrawdown: 0, sharpeRatio: 0, lastUpdate: 0 },
+      trades: [],
+      totalTrades: 0,
+      closedTrades: 0,
+      winningTrades: 0,
+      allocation: 0,
+      equity: 0,
+      cash: 0,
+      lastTick: 0,
+      lastError: error,
+    };
+  }
+
+  private publish(): void {
+    const snapshots = this.getSnapshots();
+    this.listeners.forEach(listener => listener(snapshots));
+  }
+}
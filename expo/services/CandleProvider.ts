@@ -0,0 +1,114 @@
+import { barsToMarketData, OHLCVBar } from '@/algorithms/HistoricalDataImporter';
+import { MarketData } from '@/algorithms/MomentumTradingBot';
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+// volume is quote (USD) notional, the same unit as MarketData.volume
+export interface Candle extends OHLCVBar {
+  interval: CandleInterval;
+}
+
+export interface CandleQuery {
+  symbol: string;
+  interval: CandleInterval;
+  startTime: number;
+  endTime: number;
+  limit: number;
+}
+
+// A source of OHLCV candles. fetchCandlePage returns at most `limit` candles
+// opening in [startTime, endTime], oldest first; MarketService.fetchCandles
+// pages through longer ranges.
+export interface CandleProvider {
+  readonly name: string;
+  readonly maxCandlesPerRequest: number;
+  fetchCandlePage(query: CandleQuery): Promise<Candle[]>;
+}
+
+// Serves candles from in-memory fixtures so backtests and tests run offline.
+// Requests for a coarser interval than the fixture holds are resampled.
+export class LocalCandleProvider implements CandleProvider {
+  readonly name = 'local';
+  readonly maxCandlesPerRequest = 1000;
+
+  private candles: Map<string, Candle[]> = new Map();
+
+  constructor(fixtures: Candle[] = []) {
+    this.load(fixtures);
+  }
+
+  load(candles: Candle[]): void {
+    candles.forEach(candle => {
+      const key = candle.symbol.toUpperCase();
+      const series = this.candles.get(key) || [];
+      series.push({ ...candle, symbol: key });
+      this.candles.set(key, series);
+    });
+    this.candles.forEach(series => series.sort((a, b) => a.openTime - b.openTime));
+  }
+
+  symbols(): string[] {
+    return Array.from(this.candles.keys());
+  }
+
+  async fetchCandlePage(query: CandleQuery): Promise<Candle[]> {
+    const series = this.candles.get(query.symbol.toUpperCase()) || [];
+    const finest = series.filter(candle => CANDLE_INTERVAL_MS[candle.interval] <= CANDLE_INTERVAL_MS[query.interval]);
+    if (finest.length === 0) return [];
+
+    const sourceInterval = finest.reduce((min, candle) =>
+      CANDLE_INTERVAL_MS[candle.interval] < CANDLE_INTERVAL_MS[min] ? candle.interval : min, finest[0].interval);
+    const source = finest.filter(candle => candle.interval === sourceInterval);
+    const candles = sourceInterval === query.interval ? source : resampleCandles(source, query.interval);
+
+    return candles
+      .filter(candle => candle.openTime >= query.startTime && candle.openTime <= query.endTime)
+      .slice(0, query.limit);
+  }
+}
+
+// Aggregates oldest-first candles of one symbol into coarser buckets aligned to the interval
+export function resampleCandles(candles: Candle[], interval: CandleInterval): Candle[] {
+  const bucketMs = CANDLE_INTERVAL_MS[interval];
+  const buckets: Candle[] = [];
+
+  candles.forEach(candle => {
+    const openTime = Math.floor(candle.openTime / bucketMs) * bucketMs;
+    const current = buckets[buckets.length - 1];
+
+    if (current && current.openTime === openTime) {
+      current.high = Math.max(current.high, candle.high);
+      current.low = Math.min(current.low, candle.low);
+      current.close = candle.close;
+      current.volume += candle.volume;
+    } else {
+      buckets.push({
+        symbol: candle.symbol,
+        interval,
+        openTime,
+        closeTime: openTime + bucketMs - 1,
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume,
+      });
+    }
+  });
+
+  return buckets;
+}
+
+// Replays candles as the MarketData stream the bots consume
+export function candlesToMarketData(candles: Candle[]): MarketData[] {
+  return barsToMarketData(candles);
+}
@@ -0,0 +1,177 @@
+import { Candle, CandleInterval, CandleQuery } from './CandleProvider';
+import { MarketCoin, MarketDataProvider, MarketDataProviderError, SymbolInfo } from './MarketDataProvider';
+
+export interface ProviderHealth {
+  name: string;
+  available: boolean;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  requestsInWindow: number;
+  lastError?: string;
+}
+
+export interface MarketDataPoolOptions {
+  // Identical quote requests within this window share one upstream call
+  quoteCacheMs?: number;
+  failureThreshold?: number;
+  failureCooldownMs?: number;
+  rateLimitCooldownMs?: number;
+  clock?: () => number;
+}
+
+interface ProviderState {
+  provider: MarketDataProvider;
+  requests: number[];
+  consecutiveFailures: number;
+  rateLimitStrikes: number;
+  cooldownUntil: number;
+  lastError?: string;
+}
+
+// Tries providers in order. A provider is skipped while its rate-limit budget
+// is spent or it is cooling down after a 429 (honoring Retry-After, doubling
+// on repeats) or after too many consecutive failures.
+export class MarketDataPool implements MarketDataProvider {
+  private static readonly MAX_COOLDOWN_MS = 60 * 60 * 1000;
+
+  readonly name = 'pool';
+  readonly maxCandlesPerRequest: number;
+
+  private states: ProviderState[];
+  private quoteCacheMs: number;
+  private failureThreshold: number;
+  private failureCooldownMs: number;
+  private rateLimitCooldownMs: number;
+  private clock: () => number;
+  // Keyed on the page size requested: a provider listing fewer coins than
+  // asked for still answers the request
+  private quoteCache: { perPage: number; coins: MarketCoin[]; fetchedAt: number } | null = null;
+  private pendingQuotes: { perPage: number; promise: Promise<MarketCoin[]> } | null = null;
+
+  constructor(providers: MarketDataProvider[], options: MarketDataPoolOptions = {}) {
+    if (providers.length === 0) {
+      throw new Error('MarketDataPool needs at least one provider');
+    }
+    this.states = providers.map(provider => ({
+      provider,
+      requests: [],
+      consecutiveFailures: 0,
+      rateLimitStrikes: 0,
+      cooldownUntil: 0,
+    }));
+    this.maxCandlesPerRequest = Math.max(...providers.map(provider => provider.maxCandlesPerRequest));
+    this.quoteCacheMs = options.quoteCacheMs ?? 30 * 1000;
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.failureCooldownMs = options.failureCooldownMs ?? 60 * 1000;
+    this.rateLimitCooldownMs = options.rateLimitCooldownMs ?? 5 * 60 * 1000;
+    this.clock = options.clock ?? Date.now;
+  }
+
+  supportsInterval(interval: CandleInterval): boolean {
+    return this.states.some(state => state.provider.supportsInterval(interval));
+  }
+
+  async fetchQuotes(perPage: number): Promise<MarketCoin[]> {
+    const cached = this.quoteCache;
+    if (cached && cached.perPage >= perPage && this.clock() - cached.fetchedAt < this.quoteCacheMs) {
+      return cached.coins.slice(0, perPage);
+    }
+    if (this.pendingQuotes && this.pendingQuotes.perPage >= perPage) {
+      return (await this.pendingQuotes.promise).slice(0, perPage);
+    }
+
+    const promise = this.run('quotes', () => true, provider => provider.fetchQuotes(perPage));
+    this.pendingQuotes = { perPage, promise };
+    try {
+      const coins = await promise;
+      this.quoteCache = { perPage, coins, fetchedAt: this.clock() };
+      return coins;
+    } finally {
+      if (this.pendingQuotes?.promise === promise) {
+        this.pendingQuotes = null;
+      }
+    }
+  }
+
+  fetchSymbols(): Promise<SymbolInfo[]> {
+    return this.run('symbols', () => true, provider => provider.fetchSymbols());
+  }
+
+  fetchCandlePage(query: CandleQuery): Promise<Candle[]> {
+    return this.run('candles', provider => provider.supportsInterval(query.interval), provider => provider.fetchCandlePage(query));
+  }
+
+  getHealth(): ProviderHealth[] {
+    const now = this.clock();
+    return this.states.map(state => ({
+      name: state.provider.name,
+      available: this.isAvailable(state, now),
+      consecutiveFailures: state.consecutiveFailures,
+      cooldownUntil: state.cooldownUntil,
+      requestsInWindow: this.pruneRequests(state, now),
+      lastError: state.lastError,
+    }));
+  }
+
+  private async run<T>(
+    operation: string,
+    eligible: (provider: MarketDataProvider) => boolean,
+    call: (provider: MarketDataProvider) => Promise<T>,
+  ): Promise<T> {
+    const errors: string[] = [];
+
+    for (const state of this.states) {
+      const { provider } = state;
+      const now = this.clock();
+      if (!eligible(provider)) continue;
+
+      if (!this.isAvailable(state, now)) {
+        errors.push(`${provider.name}: ${state.cooldownUntil > now ? 'cooling down' : 'rate-limit budget spent'}`);
+        continue;
+      }
+
+      if (provider.rateLimit) state.requests.push(now);
+      try {
+        const result = await call(provider);
+        state.consecutiveFailures = 0;
+        state.rateLimitStrikes = 0;
+        state.lastError = undefined;
+        return result;
+      } catch (error) {
+        this.recordFailure(state, error);
+        errors.push(`${provider.name}: ${state.lastError}`);
+      }
+    }
+
+    throw new Error(`No market data provider could serve ${operation} (${errors.join('; ') || 'none eligible'})`);
+  }
+
+  private recordFailure(state: ProviderState, error: unknown): void {
+    const now = this.clock();
+    state.lastError = error instanceof Error ? error.message : String(error);
+    state.consecutiveFailures++;
+
+    if (error instanceof MarketDataProviderError && error.rateLimited) {
+      state.rateLimitStrikes++;
+      const backoff = Math.min(this.rateLimitCooldownMs * Math.pow(2, state.rateLimitStrikes - 1), MarketDataPool.MAX_COOLDOWN_MS);
+      state.cooldownUntil = now + Math.max(error.retryAfterMs ?? 0, backoff);
+    } else if (state.consecutiveFailures >= this.failureThreshold) {
+      state.cooldownUntil = now + this.failureCooldownMs;
+    }
+  }
+
+  private isAvailable(state: ProviderState, now: number): boolean {
+    if (state.cooldownUntil > now) return false;
+    const budget = state.provider.rateLimit;
+    return !budget || this.pruneRequests(state, now) < budget.maxRequests;
+  }
+
+  // Drops request timestamps that fell out of the budget window and returns how many remain
+  private pruneRequests(state: ProviderState, now: number): number {
+    const budget = state.provider.rateLimit;
+    if (budget) {
+      state.requests = state.requests.filter(time => now - time < budget.windowMs);
+    }
+    return state.requests.length;
+  }
+}
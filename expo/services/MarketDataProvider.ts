@@ -0,0 +1,81 @@
+import { CandleInterval, CandleProvider } from './CandleProvider';
+
+// Market screens and the react-query client refetch quotes on this cadence
+export const MARKET_REFETCH_INTERVAL_MS = 15 * 60 * 1000;
+
+export interface MarketCoin {
+  id: string;
+  symbol: string;
+  name: string;
+  image: string;
+  current_price: number;
+  total_volume?: number | null;
+  high_24h?: number | null;
+  low_24h?: number | null;
+  market_cap?: number | null;
+  price_change_percentage_1h_in_currency?: number | null;
+  price_change_percentage_24h_in_currency?: number | null;
+  price_change_percentage_7d_in_currency?: number | null;
+  // ISO time the provider last priced the coin
+  last_updated?: string | null;
+}
+
+export interface SymbolInfo {
+  symbol: string;
+  name: string;
+  id?: string;
+  image?: string;
+}
+
+// At most maxRequests calls per rolling windowMs
+export interface RateLimitBudget {
+  maxRequests: number;
+  windowMs: number;
+}
+
+// A source of snapshot quotes, OHLCV candles and symbol metadata.
+// Implementations throw MarketDataProviderError so the pool can tell
+// rate limiting apart from other failures.
+export interface MarketDataProvider extends CandleProvider {
+  readonly rateLimit?: RateLimitBudget;
+  supportsInterval(interval: CandleInterval): boolean;
+  fetchQuotes(perPage: number): Promise<MarketCoin[]>;
+  fetchSymbols(): Promise<SymbolInfo[]>;
+}
+
+export class MarketDataProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public status?: number,
+    public retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'MarketDataProviderError';
+  }
+
+  get rateLimited(): boolean {
+    return this.status === 429;
+  }
+}
+
+// Reads Retry-After (seconds or HTTP date) into milliseconds
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Throws a MarketDataProviderError for non-OK responses
+export async function ensureOk(resp: Response, provider: string, label: string): Promise<void> {
+  if (resp.ok) return;
+  const text = await resp.text();
+  throw new MarketDataProviderError(
+    `${label} error ${resp.status}: ${text}`,
+    provider,
+    resp.status,
+    parseRetryAfter(resp.headers.get('retry-after')),
+  );
+}
@@ -1,37 +1,118 @@
-export interface MarketCoin {
-  id: string;
-  symbol: string;
-  name: string;
-  image: string;
-  current_price: number;
-  price_change_percentage_24h_in_currency?: number | null;
-  price_change_percentage_7d_in_currency?: number | null;
-}
+import { MarketData } from '@/algorithms/MomentumTradingBot';
+import { Candle, CANDLE_INTERVAL_MS, CandleInterval, candlesToMarketData } from './CandleProvider';
+import { MarketDataPool, ProviderHealth } from './MarketDataPool';
+import { MarketCoin, MarketDataProvider, SymbolInfo } from './MarketDataProvider';
+import { BinanceProvider } from './marketData/BinanceProvider';
+import { CoinGeckoProvider } from './marketData/CoinGeckoProvider';
+import { createFixtureProvider } from './marketData/LocalFileProvider';
+
+export type { Candle, CandleInterval } from './CandleProvider';
+export { MARKET_REFETCH_INTERVAL_MS } from './MarketDataProvider';
+export type { MarketCoin, MarketDataProvider, SymbolInfo } from './MarketDataProvider';
+export type { ProviderHealth } from './MarketDataPool';
+
+const livePool = new MarketDataPool([
+  new CoinGeckoProvider(),
+  new BinanceProvider(),
+]);
 
 class MarketService {
-  private static readonly BASE_URL = 'https://api.coingecko.com/api/v3';
-
-  static async fetchMarkets(perPage: number = 100): Promise<MarketCoin[]> {
-    const url = `${this.BASE_URL}/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=${perPage}&page=1&sparkline=false&price_change_percentage=24h,7d`;
-
-    const headers: Record<string, string> = {};
-    // Optional API key support if provided via public env var
-    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-    // @ts-ignore
-    const apiKey: string | undefined = process.env.EXPO_PUBLIC_COINGECKO_API_KEY || undefined;
-    if (apiKey) {
-      headers['x-cg-demo-api-key'] = apiKey;
-    }
+  private static readonly MAX_CANDLE_PAGES = 500;
+  private static provider: MarketDataProvider = livePool;
+
+  // Swap the data source, e.g. a LocalFileProvider for offline runs
+  static setProvider(provider: MarketDataProvider): void {
+    this.provider = provider;
+  }
+
+  // Switches between the live provider pool and the bundled fixture candles
+  static setOfflineData(offline: boolean): void {
+    this.provider = offline ? createFixtureProvider() : livePool;
+  }
+
+  static isOfflineData(): boolean {
+    return this.provider !== livePool;
+  }
+
+  // Health of each provider behind the pool; empty for a single provider
+  static getProviderHealth(): ProviderHealth[] {
+    return this.provider instanceof MarketDataPool ? this.provider.getHealth() : [];
+  }
+
+  static getProvider(): MarketDataProvider {
+    return this.provider;
+  }
+
+  static fetchMarkets(perPage: number = 100): Promise<MarketCoin[]> {
+    return this.provider.fetchQuotes(perPage);
+  }
+
+  static fetchSymbols(): Promise<SymbolInfo[]> {
+    return this.provider.fetchSymbols();
+  }
+
+  // Current quotes in the MarketData shape the trading bots consume, stamped
+  // with the provider's pricing time so stale quotes stay recognisable
+  static async fetchMarketData(symbols?: string[], perPage: number = 100): Promise<MarketData[]> {
+    const coins = await this.fetchMarkets(perPage);
+    const fetchedAt = Date.now();
+    const wanted = symbols ? new Set(symbols.map(s => s.toUpperCase())) : null;
+
+    return coins
+      .filter(coin => !wanted || wanted.has(coin.symbol.toUpperCase()))
+      .map(coin => this.toMarketData(coin, fetchedAt));
+  }
+
+  // OHLCV candles for [startTime, endTime], oldest first, paging through the provider
+  static async fetchCandles(symbol: string, interval: CandleInterval, startTime: number, endTime: number = Date.now()): Promise<Candle[]> {
+    const provider = this.provider;
+    const intervalMs = CANDLE_INTERVAL_MS[interval];
+    const candles: Candle[] = [];
+    let cursor = startTime;
+
+    for (let page = 0; page < this.MAX_CANDLE_PAGES && cursor <= endTime; page++) {
+      const batch = await provider.fetchCandlePage({
+        symbol,
+        interval,
+        startTime: cursor,
+        endTime,
+        limit: provider.maxCandlesPerRequest,
+      });
+      if (batch.length === 0) break;
 
-    const resp = await fetch(url, { headers });
-    if (!resp.ok) {
-      const text = await resp.text();
-      throw new Error(`CoinGecko error ${resp.status}: ${text}`);
+      const lastOpenTime = candles.length > 0 ? candles[candles.length - 1].openTime : -Infinity;
+      batch.forEach(candle => {
+        if (candle.openTime > lastOpenTime) candles.push(candle);
+      });
+
+      const nextCursor = batch[batch.length - 1].openTime + intervalMs;
+      if (nextCursor <= cursor) break;
+      cursor = nextCursor;
     }
-    const data = await resp.json();
-    return data as MarketCoin[];
+
+    return candles;
+  }
+
+  static candlesToMarketData(candles: Candle[]): MarketData[] {
+    return candlesToMarketData(candles);
+  }
+
+  // fallbackTimestamp stands in for providers that do not say when they priced the coin
+  static toMarketData(coin: MarketCoin, fallbackTimestamp: number): MarketData {
+    const updated = coin.last_updated ? Date.parse(coin.last_updated) : NaN;
+    const timestamp = Number.isFinite(updated) ? updated : fallbackTimestamp;
+    return {
+      symbol: coin.symbol.toUpperCase(),
+      price: coin.current_price,
+      volume: coin.total_volume ?? 0,
+      timestamp,
+      change24h: coin.price_change_percentage_24h_in_currency ?? 0,
+      change1h: coin.price_change_percentage_1h_in_currency ?? 0,
+      high24h: coin.high_24h ?? coin.current_price,
+      low24h: coin.low_24h ?? coin.current_price,
+      marketCap: coin.market_cap ?? undefined,
+    };
   }
 }
 
 export default MarketService;
-
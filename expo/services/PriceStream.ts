@@ -0,0 +1,359 @@
+import { MarketData } from '@/algorithms/MomentumTradingBot';
+
+// The subset of the WebSocket API the stream relies on; the browser/React
+// Native WebSocket satisfies it, and tests can pass a mock.
+export interface WebSocketLike {
+  readonly readyState: number;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent<unknown>) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export type WebSocketFactory = (url: string) => WebSocketLike;
+
+// Partial quote decoded from one exchange message
+export interface StreamUpdate {
+  symbol: string;
+  price: number;
+  timestamp: number;
+  volume?: number;
+  change24h?: number;
+  high24h?: number;
+  low24h?: number;
+}
+
+// Exchange-specific wire format
+export interface StreamProtocol {
+  url: string;
+  subscribeMessage(symbols: string[], requestId: number): string;
+  unsubscribeMessage(symbols: string[], requestId: number): string;
+  parse(data: string): StreamUpdate[];
+}
+
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+export type TickListener = (ticks: MarketData[]) => void;
+export type StatusListener = (status: StreamStatus) => void;
+
+// What the bot runtime needs from a live feed
+export interface QuoteStream {
+  subscribe(symbols: string[], listener: TickListener): () => void;
+  getLatest(symbol: string): MarketData | undefined;
+}
+
+export interface PriceStreamOptions {
+  protocol?: StreamProtocol;
+  createSocket?: WebSocketFactory;
+  coalesceMs?: number;
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  clock?: () => number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// Binance combined ticker + trade channels against USDT pairs. Tickers carry
+// 24h stats; trades only move the price between ticker pushes.
+export class BinanceStreamProtocol implements StreamProtocol {
+  constructor(
+    public url: string = 'wss://stream.binance.com:9443/ws',
+    private quoteAsset: string = 'USDT',
+  ) {}
+
+  subscribeMessage(symbols: string[], requestId: number): string {
+    return JSON.stringify({ method: 'SUBSCRIBE', params: this.channels(symbols), id: requestId });
+  }
+
+  unsubscribeMessage(symbols: string[], requestId: number): string {
+    return JSON.stringify({ method: 'UNSUBSCRIBE', params: this.channels(symbols), id: requestId });
+  }
+
+  parse(data: string): StreamUpdate[] {
+    const message: unknown = JSON.parse(data);
+    // Combined streams wrap each event as { stream, data }
+    const events: unknown[] = Array.isArray(message) ? message : [isRecord(message) ? message.data ?? message : message];
+
+    return events.flatMap((event): StreamUpdate[] => {
+      if (!isRecord(event) || typeof event.s !== 'string' || !event.s.endsWith(this.quoteAsset)) return [];
+      const symbol = event.s.slice(0, -this.quoteAsset.length);
+
+      if (event.e === '24hrTicker') {
+        return [{
+          symbol,
+          price: Number(event.c),
+          timestamp: Number(event.E),
+          volume: Number(event.q),
+          change24h: Number(event.P),
+          high24h: Number(event.h),
+          low24h: Number(event.l),
+        }];
+      }
+      if (event.e === 'trade') {
+        return [{ symbol, price: Number(event.p), timestamp: Number(event.T) }];
+      }
+      return [];
+    });
+  }
+
+  private channels(symbols: string[]): string[] {
+    return symbols.flatMap(symbol => {
+      const pair = `${symbol}${this.quoteAsset}`.toLowerCase();
+      return [`${pair}@ticker`, `${pair}@trade`];
+    });
+  }
+}
+
+interface Subscription {
+  symbols: Set<string>;
+  listener: TickListener;
+}
+
+const OPEN = 1;
+
+// Streams live quotes over a WebSocket. Connects on the first subscription,
+// reference-counts symbols, reconnects with exponential backoff and
+// resubscribes, and coalesces bursts of updates into one MarketData tick per
+// symbol every coalesceMs.
+export class PriceStream implements QuoteStream {
+  private static readonly HOUR_MS = 60 * 60 * 1000;
+
+  private protocol: StreamProtocol;
+  private createSocket: WebSocketFactory;
+  private coalesceMs: number;
+  private initialBackoffMs: number;
+  private maxBackoffMs: number;
+  private clock: () => number;
+
+  private socket: WebSocketLike | null = null;
+  private status: StreamStatus = 'idle';
+  private subscriptions: Set<Subscription> = new Set();
+  private symbolRefs: Map<string, number> = new Map();
+  private latest: Map<string, MarketData> = new Map();
+  private hourHistory: Map<string, { time: number; price: number }[]> = new Map();
+  private dirty: Set<string> = new Set();
+  private statusListeners: Set<StatusListener> = new Set();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts: number = 0;
+  private requestId: number = 0;
+
+  constructor(options: PriceStreamOptions = {}) {
+    this.protocol = options.protocol || new BinanceStreamProtocol();
+    this.createSocket = options.createSocket || (url => new WebSocket(url));
+    this.coalesceMs = options.coalesceMs ?? 1000;
+    this.initialBackoffMs = options.initialBackoffMs ?? 1000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 30 * 1000;
+    this.clock = options.clock ?? Date.now;
+  }
+
+  subscribe(symbols: string[], listener: TickListener): () => void {
+    const subscription: Subscription = { symbols: new Set(symbols.map(s => s.toUpperCase())), listener };
+    this.subscriptions.add(subscription);
+
+    const added: string[] = [];
+    subscription.symbols.forEach(symbol => {
+      const refs = this.symbolRefs.get(symbol) || 0;
+      this.symbolRefs.set(symbol, refs + 1);
+      if (refs === 0) added.push(symbol);
+    });
+
+    if (!this.socket) {
+      // A pending reconnect picks up the new symbols when it opens
+      if (!this.reconnectTimer && this.symbolRefs.size > 0) this.connect();
+    } else if (added.length > 0 && this.socket.readyState === OPEN) {
+      this.socket.send(this.protocol.subscribeMessage(added, ++this.requestId));
+    }
+
+    return () => this.unsubscribe(subscription);
+  }
+
+  getLatest(symbol: string): MarketData | undefined {
+    return this.latest.get(symbol.toUpperCase());
+  }
+
+  getStatus(): StreamStatus {
+    return this.status;
+  }
+
+  onStatus(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  // Drops every subscription and closes the socket for good
+  close(): void {
+    this.subscriptions.clear();
+    this.symbolRefs.clear();
+    this.disconnect();
+  }
+
+  private unsubscribe(subscription: Subscription): void {
+    if (!this.subscriptions.delete(subscription)) return;
+
+    const removed: string[] = [];
+    subscription.symbols.forEach(symbol => {
+      const refs = (this.symbolRefs.get(symbol) || 0) - 1;
+      if (refs <= 0) {
+        this.symbolRefs.delete(symbol);
+        removed.push(symbol);
+      } else {
+        this.symbolRefs.set(symbol, refs);
+      }
+    });
+
+    if (this.symbolRefs.size === 0) {
+      this.disconnect();
+    } else if (removed.length > 0 && this.socket?.readyState === OPEN) {
+      this.socket.send(this.protocol.unsubscribeMessage(removed, ++this.requestId));
+    }
+  }
+
+  private connect(): void {
+    this.setStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    let socket: WebSocketLike;
+    try {
+      socket = this.createSocket(this.protocol.url);
+    } catch (error) {
+      console.error('Price stream connect error:', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.setStatus('open');
+      const symbols = Array.from(this.symbolRefs.keys());
+      if (symbols.length > 0) {
+        socket.send(this.protocol.subscribeMessage(symbols, ++this.requestId));
+      }
+    };
+
+    socket.onmessage = event => {
+      try {
+        const text = typeof event.data === 'string' ? event.data : String(event.data);
+        this.protocol.parse(text).forEach(update => this.applyUpdate(update));
+      } catch (error) {
+        console.warn('Price stream dropped malformed message:', error);
+      }
+    };
+
+    socket.onerror = error => {
+      console.warn('Price stream socket error:', error);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (this.symbolRefs.size > 0) {
+        this.scheduleReconnect();
+      } else {
+        this.setStatus('closed');
+      }
+    };
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.dirty.clear();
+    this.reconnectAttempts = 0;
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onopen = socket.onmessage = socket.onerror = socket.onclose = null;
+      socket.close();
+    }
+    this.setStatus('closed');
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+    const delay = Math.min(this.maxBackoffMs, this.initialBackoffMs * Math.pow(2, this.reconnectAttempts));
+    this.reconnectAttempts++;
+    this.setStatus('reconnecting');
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.symbolRefs.size > 0) this.connect();
+    }, delay);
+  }
+
+  private applyUpdate(update: StreamUpdate): void {
+    const symbol = update.symbol.toUpperCase();
+    if (!this.symbolRefs.has(symbol) || !(update.price > 0)) return;
+
+    const previous = this.latest.get(symbol);
+    this.latest.set(symbol, {
+      symbol,
+      price: update.price,
+      volume: update.volume ?? previous?.volume ?? 0,
+      timestamp: update.timestamp || this.clock(),
+      change24h: update.change24h ?? previous?.change24h ?? 0,
+      change1h: this.trackHourChange(symbol, update.price),
+      high24h: update.high24h ?? Math.max(previous?.high24h ?? update.price, update.price),
+      low24h: update.low24h ?? Math.min(previous?.low24h ?? update.price, update.price),
+    });
+
+    this.dirty.add(symbol);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.coalesceMs);
+    }
+  }
+
+  // The exchange ticker has no 1h change, so it is derived from streamed prices
+  private trackHourChange(symbol: string, price: number): number {
+    const now = this.clock();
+    const history = (this.hourHistory.get(symbol) || []).filter(point => now - point.time <= PriceStream.HOUR_MS);
+    const last = history[history.length - 1];
+    if (!last || now - last.time >= 60 * 1000) {
+      history.push({ time: now, price });
+    }
+    this.hourHistory.set(symbol, history);
+
+    const oldest = history[0].price;
+    return oldest > 0 ? ((price - oldest) / oldest) * 100 : 0;
+  }
+
+  private flush(): void {
+    this.flushTimer = null;
+    const ticks = Array.from(this.dirty)
+      .map(symbol => this.latest.get(symbol))
+      .filter((tick): tick is MarketData => tick !== undefined);
+    this.dirty.clear();
+    if (ticks.length === 0) return;
+
+    this.subscriptions.forEach(subscription => {
+      const relevant = ticks.filter(tick => subscription.symbols.has(tick.symbol));
+      if (relevant.length === 0) return;
+      try {
+        subscription.listener(relevant);
+      } catch (error) {
+        console.error('Price stream listener error:', error);
+      }
+    });
+  }
+
+  private setStatus(status: StreamStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+// Shared feed for screens and the bot runtime
+export const priceStream = new PriceStream();
@@ -0,0 +1,180 @@
+import { describe, expect, test } from 'bun:test';
+import { SimulatedClock } from '@/algorithms/Clock';
+import { BotConfig, MarketData } from '@/algorithms/MomentumTradingBot';
+import { BotRuntime } from '../BotRuntime';
+import { BinanceStreamProtocol, PriceStream } from '../PriceStream';
+
+function botConfig(id: string, overrides: Partial<BotConfig> = {}): BotConfig {
+  return {
+    id,
+    name: `Bot ${id}`,
+    type: 'dca',
+    allocation: 1000,
+    stopLoss: 3,
+    timeframe: '4h',
+    maxPositions: 5,
+    riskLevel: 'MODERATE',
+    enabledAssets: ['BTC'],
+    ...overrides,
+  };
+}
+
+async function btcQuote(): Promise<MarketData[]> {
+  return [{ symbol: 'BTC', price: 50000, volume: 1e9, timestamp: Date.now(), change24h: 0, change1h: 0, high24h: 50000, low24h: 50000 }];
+}
+
+describe('BotRuntime', () => {
+  test('a bot whose config the strategy rejects fails on its own', () => {
+    const runtime = new BotRuntime({ marketDataSource: async () => [] });
+    runtime.syncBots([
+      botConfig('good'),
+      botConfig('bad', { customParams: { amount: 0 } }),
+    ]);
+
+    expect(runtime.getSnapshot('good')?.lastError).toBeUndefined();
+    expect(runtime.getSnapshot('good')?.equity).toBe(1000);
+    expect(runtime.getSnapshot('bad')?.lastError).toContain('must be at least 1');
+    expect(runtime.getSnapshots().map(snapshot => snapshot.botId)).toEqual(['good', 'bad']);
+
+    runtime.syncBots([botConfig('good')]);
+    expect(runtime.getSnapshot('bad')).toBeUndefined();
+  });
+
+  test('a failing scheduled tick is reported instead of left unhandled', async () => {
+    const runtime = new BotRuntime({ marketDataSource: btcQuote, circuitBreaker: { maxConsecutiveErrors: 1 } });
+    runtime.syncBots([botConfig('a')]);
+    const unsubscribe = runtime.subscribe(() => {
+      unsubscribe();
+      throw new Error('listener failed');
+    });
+
+    runtime.start();
+    runtime.stop();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(runtime.getSnapshot('a')?.lastError).toBe('listener failed');
+    expect(runtime.getCircuitBreakerState().trigger).toBe('EXECUTION_ERRORS');
+  });
+
+  test('pausing keeps the trades; only removing the bot drops them', async () => {
+    const runtime = new BotRuntime({ marketDataSource: btcQuote });
+    runtime.syncBots([botConfig('a')]);
+    await runtime.tick();
+    const trades = runtime.getSnapshot('a')!.trades;
+    expect(trades.length).toBeGreaterThan(0);
+
+    runtime.syncBots([botConfig('a')], ['a']);
+    await runtime.tick();
+    expect(runtime.getSnapshot('a')?.trades).toEqual(trades);
+
+    runtime.syncBots([botConfig('a')]);
+    expect(runtime.getSnapshot('a')?.trades).toEqual(trades);
+
+    runtime.syncBots([]);
+    expect(runtime.getSnapshot('a')).toBeUndefined();
+  });
+
+  test('the kill switch pauses every bot but keeps its account', async () => {
+    const runtime = new BotRuntime({ marketDataSource: btcQuote });
+    runtime.syncBots([botConfig('a')]);
+    await runtime.tick();
+    const trades = runtime.getSnapshot('a')!.trades.length;
+
+    const result = runtime.activateKillSwitch({ flatten: true });
+    expect(result.flattenedPositions).toBe(1);
+    expect(runtime.rearm()).toBe(true);
+    await runtime.tick();
+
+    const snapshot = runtime.getSnapshot('a')!;
+    expect(snapshot.positions).toEqual([]);
+    expect(snapshot.trades.length).toBe(trades + 1);
+    expect(snapshot.equity).toBeGreaterThan(0);
+  });
+
+  test('halts trading when the provider keeps serving an old quote', async () => {
+    const clock = new SimulatedClock(Date.UTC(2024, 0, 1));
+    const pricedAt = clock.now();
+    const runtime = new BotRuntime({
+      marketDataSource: async () => [{ symbol: 'BTC', price: 100, volume: 1e9, timestamp: pricedAt, change24h: 0, change1h: 0, high24h: 100, low24h: 100 }],
+      clock,
+    });
+    runtime.syncBots([botConfig('a')]);
+
+    await runtime.tick();
+    expect(runtime.getCircuitBreakerState().status).toBe('ARMED');
+
+    clock.advance(11 * 60 * 1000);
+    await runtime.tick();
+    expect(runtime.getCircuitBreakerState().trigger).toBe('STALE_DATA');
+  });
+
+  test('counts every trade although it only keeps the most recent ones', async () => {
+    const clock = new SimulatedClock(Date.UTC(2024, 0, 1));
+    const runtime = new BotRuntime({
+      marketDataSource: async () => [{ symbol: 'BTC', price: 100, volume: 1e9, timestamp: clock.now(), change24h: 0, change1h: 0, high24h: 100, low24h: 100 }],
+      clock,
+    });
+    runtime.syncBots([botConfig('a', {
+      allocation: 1e6,
+      stopLoss: 0,
+      customParams: { frequency: 'CUSTOM', interval: 1, amount: 10 },
+    })]);
+
+    for (let hour = 0; hour < 60; hour++) {
+      await runtime.tick();
+      clock.advance(60 * 60 * 1000);
+    }
+
+    const snapshot = runtime.getSnapshot('a')!;
+    expect(snapshot.trades).toHaveLength(50);
+    expect(snapshot.totalTrades).toBe(60);
+    expect(snapshot.closedTrades).toBe(0);
+    expect(snapshot.allocation).toBe(1e6);
+    expect(runtime.getMarketData().map(data => data.symbol)).toEqual(['BTC']);
+  });
+
+  test('streamed trades borrow the polled volume and polling takes over once the stream drops', async () => {
+    const clock = new SimulatedClock(3000);
+    const server = Bun.serve({
+      port: 0,
+      fetch: (request, server) => (server.upgrade(request) ? undefined : new Response('Upgrade required', { status: 426 })),
+      websocket: {
+        message(ws) {
+          ws.send(JSON.stringify({ stream: 'btcusdt@trade', data: { e: 'trade', s: 'BTCUSDT', p: '101', T: 2000 } }));
+        },
+      },
+    });
+    const stream = new PriceStream({
+      protocol: new BinanceStreamProtocol(`ws://localhost:${server.port}`),
+      coalesceMs: 0,
+      initialBackoffMs: 60 * 1000,
+    });
+    let polled = { symbol: 'BTC', price: 100, volume: 5e8, timestamp: 1000, change24h: 0, change1h: 0, high24h: 100, low24h: 100 };
+    const runtime = new BotRuntime({
+      marketDataSource: async () => [polled],
+      quoteStream: stream,
+      tickIntervalMs: 60 * 60 * 1000,
+      clock,
+    });
+    runtime.syncBots([botConfig('a')]);
+
+    try {
+      runtime.start();
+      // The server answers the subscription with a single trade
+      const deadline = performance.now() + 2000;
+      while (!stream.getLatest('BTC') && performance.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      expect(runtime.getMarketData()).toMatchObject([{ price: 101, volume: 5e8, timestamp: 2000 }]);
+
+      server.stop(true);
+      polled = { ...polled, price: 102, volume: 6e8, timestamp: 3000 };
+      await runtime.tick();
+      expect(runtime.getMarketData()).toMatchObject([{ price: 102, volume: 6e8, timestamp: 3000 }]);
+    } finally {
+      runtime.stop();
+      stream.close();
+      server.stop(true);
+    }
+  });
+});
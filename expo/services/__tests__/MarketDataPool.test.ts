@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test';
+import { MarketDataPool } from '../MarketDataPool';
+import { MarketCoin, MarketDataProvider } from '../MarketDataProvider';
+
+function coin(symbol: string): MarketCoin {
+  return {
+    id: symbol,
+    symbol,
+    name: symbol.toUpperCase(),
+    image: '',
+    current_price: 1,
+    total_volume: 0,
+    high_24h: null,
+    low_24h: null,
+    market_cap: null,
+    price_change_percentage_1h_in_currency: null,
+    price_change_percentage_24h_in_currency: null,
+    price_change_percentage_7d_in_currency: null,
+  };
+}
+
+// Lists only three coins however many are asked for
+function smallProvider(calls: number[]): MarketDataProvider {
+  return {
+    name: 'small',
+    maxCandlesPerRequest: 100,
+    supportsInterval: () => true,
+    fetchQuotes: async perPage => {
+      calls.push(perPage);
+      return ['btc', 'eth', 'sol'].slice(0, perPage).map(coin);
+    },
+    fetchSymbols: async () => [],
+    fetchCandlePage: async () => [],
+  };
+}
+
+describe('MarketDataPool quote cache', () => {
+  test('serves repeat requests from the cache even when the provider lists fewer coins', async () => {
+    let now = 0;
+    const calls: number[] = [];
+    const pool = new MarketDataPool([smallProvider(calls)], { quoteCacheMs: 1000, clock: () => now });
+
+    expect(await pool.fetchQuotes(100)).toHaveLength(3);
+    expect(await pool.fetchQuotes(100)).toHaveLength(3);
+    expect(await pool.fetchQuotes(2)).toHaveLength(2);
+    expect(calls).toEqual([100]);
+
+    now = 1000;
+    await pool.fetchQuotes(100);
+    expect(calls).toEqual([100, 100]);
+  });
+
+  test('refetches when a larger page is requested', async () => {
+    const calls: number[] = [];
+    const pool = new MarketDataPool([smallProvider(calls)], { clock: () => 0 });
+
+    await pool.fetchQuotes(2);
+    await pool.fetchQuotes(100);
+    expect(calls).toEqual([2, 100]);
+  });
+});
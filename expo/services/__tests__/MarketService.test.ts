@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { CandleQuery } from '../CandleProvider';
+import MarketService from '../MarketService';
+import { createFixtureProvider } from '../marketData/LocalFileProvider';
+
+afterEach(() => {
+  MarketService.setOfflineData(false);
+});
+
+describe('MarketService', () => {
+  test('reports the health of every provider in the live pool', () => {
+    expect(MarketService.isOfflineData()).toBe(false);
+    expect(MarketService.getProviderHealth().map(health => health.name)).toEqual(['coingecko', 'binance']);
+  });
+
+  test('serves quotes from the bundled fixtures when offline', async () => {
+    MarketService.setOfflineData(true);
+    expect(MarketService.isOfflineData()).toBe(true);
+    expect(MarketService.getProviderHealth()).toEqual([]);
+
+    const quotes = await MarketService.fetchMarketData(['btc', 'SOL']);
+    expect(quotes.map(quote => quote.symbol).sort()).toEqual(['BTC', 'SOL']);
+    quotes.forEach(quote => expect(quote.price).toBeGreaterThan(0));
+  });
+
+  test('pages through candle ranges longer than one provider request', async () => {
+    const fixtures = createFixtureProvider();
+    const pages: CandleQuery[] = [];
+    MarketService.setProvider({
+      name: 'paged',
+      maxCandlesPerRequest: 10,
+      supportsInterval: interval => fixtures.supportsInterval(interval),
+      fetchQuotes: perPage => fixtures.fetchQuotes(perPage),
+      fetchSymbols: () => fixtures.fetchSymbols(),
+      fetchCandlePage: query => {
+        pages.push(query);
+        return fixtures.fetchCandlePage(query);
+      },
+    });
+
+    const start = Date.UTC(2025, 0, 1);
+    const hourly = await MarketService.fetchCandles('btc', '1h', start, start + 71 * 3600 * 1000);
+    expect(hourly).toHaveLength(72);
+    expect(pages).toHaveLength(8);
+    hourly.slice(1).forEach((candle, i) => expect(candle.openTime - hourly[i].openTime).toBe(3600 * 1000));
+
+    const fourHourly = await MarketService.fetchCandles('BTC', '4h', start, start + 24 * 3600 * 1000);
+    expect(fourHourly.map(candle => candle.openTime)).toEqual([0, 4, 8, 12, 16, 20, 24].map(h => start + h * 3600 * 1000));
+    expect(fourHourly[0].open).toBe(hourly[0].open);
+    expect(fourHourly[0].close).toBe(hourly[3].close);
+  });
+
+  test('keeps the time the provider priced each quote', async () => {
+    const fixtures = createFixtureProvider();
+    const [btc, eth] = await fixtures.fetchQuotes(2);
+    const pricedAt = Date.UTC(2025, 0, 1, 12);
+    MarketService.setProvider({
+      name: 'stamped',
+      maxCandlesPerRequest: fixtures.maxCandlesPerRequest,
+      supportsInterval: interval => fixtures.supportsInterval(interval),
+      fetchQuotes: async () => [{ ...btc, last_updated: new Date(pricedAt).toISOString() }, eth],
+      fetchSymbols: () => fixtures.fetchSymbols(),
+      fetchCandlePage: query => fixtures.fetchCandlePage(query),
+    });
+
+    const before = Date.now();
+    const [stamped, unstamped] = await MarketService.fetchMarketData();
+    expect(stamped.timestamp).toBe(pricedAt);
+    // Without a pricing time the quote is as fresh as the fetch
+    expect(unstamped.timestamp).toBeGreaterThanOrEqual(before);
+  });
+});
@@ -0,0 +1,148 @@
+import { ServerWebSocket } from 'bun';
+import { describe, expect, test } from 'bun:test';
+import { MarketData } from '@/algorithms/MomentumTradingBot';
+import { BinanceStreamProtocol, PriceStream } from '../PriceStream';
+
+const TICKER = { e: '24hrTicker', E: 1700000000000, s: 'BTCUSDT', c: '50000.5', q: '1000000', P: '2.5', h: '51000', l: '49000' };
+const TRADE = { e: 'trade', T: 1700000001000, s: 'ETHUSDT', p: '3000' };
+
+describe('BinanceStreamProtocol', () => {
+  const protocol = new BinanceStreamProtocol();
+
+  test('decodes ticker and trade events, bare or wrapped', () => {
+    expect(protocol.parse(JSON.stringify(TICKER))).toEqual([{
+      symbol: 'BTC',
+      price: 50000.5,
+      timestamp: 1700000000000,
+      volume: 1000000,
+      change24h: 2.5,
+      high24h: 51000,
+      low24h: 49000,
+    }]);
+    expect(protocol.parse(JSON.stringify({ stream: 'ethusdt@trade', data: TRADE }))).toEqual([
+      { symbol: 'ETH', price: 3000, timestamp: 1700000001000 },
+    ]);
+  });
+
+  test('ignores acknowledgements, other quote assets and non-objects', () => {
+    expect(protocol.parse(JSON.stringify({ result: null, id: 1 }))).toEqual([]);
+    expect(protocol.parse(JSON.stringify({ ...TRADE, s: 'ETHBTC' }))).toEqual([]);
+    expect(protocol.parse(JSON.stringify([null, 42, 'BTCUSDT']))).toEqual([]);
+  });
+});
+
+// A local stand-in for the exchange: records subscriptions, pushes events to
+// every client and can drop or refuse connections
+function streamServer() {
+  const clients = new Set<ServerWebSocket<unknown>>();
+  const subscriptions: string[][] = [];
+  const attempts: number[] = [];
+  let refusing = false;
+
+  const server = Bun.serve({
+    port: 0,
+    fetch(request, server) {
+      attempts.push(performance.now());
+      if (refusing) return new Response('Unavailable', { status: 503 });
+      return server.upgrade(request) ? undefined : new Response('Upgrade required', { status: 426 });
+    },
+    websocket: {
+      open(ws) {
+        clients.add(ws);
+      },
+      message(_ws, message) {
+        const request = JSON.parse(String(message));
+        if (request.method === 'SUBSCRIBE') subscriptions.push(request.params);
+      },
+      close(ws) {
+        clients.delete(ws);
+      },
+    },
+  });
+
+  return {
+    url: `ws://localhost:${server.port}`,
+    subscriptions,
+    attempts,
+    push: (event: object) => clients.forEach(ws => ws.send(JSON.stringify(event))),
+    dropAll: () => clients.forEach(ws => ws.close()),
+    refuse: (value: boolean) => {
+      refusing = value;
+    },
+    stop: () => server.stop(true),
+  };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const deadline = performance.now() + timeoutMs;
+  while (!condition()) {
+    if (performance.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('PriceStream', () => {
+  test('subscribes over a live socket and coalesces updates into ticks', async () => {
+    const server = streamServer();
+    const stream = new PriceStream({ protocol: new BinanceStreamProtocol(server.url), coalesceMs: 0 });
+    const ticks: MarketData[][] = [];
+
+    try {
+      const unsubscribe = stream.subscribe(['btc'], batch => ticks.push(batch));
+      await waitFor(() => server.subscriptions.length === 1);
+      expect(server.subscriptions[0]).toEqual(['btcusdt@ticker', 'btcusdt@trade']);
+      expect(stream.getStatus()).toBe('open');
+
+      server.push(TICKER);
+      await waitFor(() => ticks.length === 1);
+      expect(ticks[0][0]).toMatchObject({ symbol: 'BTC', price: 50000.5, volume: 1000000 });
+
+      server.push({ ...TICKER, s: 'BTCUSDT', e: 'trade', T: 1700000002000, p: '50100' });
+      await waitFor(() => ticks.length === 2);
+      // A trade moves the price and keeps the ticker's 24h figures
+      expect(ticks[1][0]).toMatchObject({ price: 50100, volume: 1000000, change24h: 2.5 });
+
+      unsubscribe();
+      expect(stream.getStatus()).toBe('closed');
+    } finally {
+      stream.close();
+      server.stop();
+    }
+  });
+
+  test('reconnects with exponential backoff and resubscribes', async () => {
+    const server = streamServer();
+    const stream = new PriceStream({
+      protocol: new BinanceStreamProtocol(server.url),
+      coalesceMs: 0,
+      initialBackoffMs: 40,
+      maxBackoffMs: 1000,
+    });
+
+    try {
+      stream.subscribe(['ETH'], () => {});
+      await waitFor(() => server.subscriptions.length === 1);
+
+      server.refuse(true);
+      server.dropAll();
+      const dropped = performance.now();
+      await waitFor(() => server.attempts.length === 4);
+      expect(stream.getStatus()).toBe('reconnecting');
+
+      // Waits of 40, 80 and 160ms between refused attempts
+      const attempts = [dropped, ...server.attempts.slice(1)];
+      const waits = attempts.slice(1).map((time, i) => time - attempts[i]);
+      expect(waits[0]).toBeGreaterThanOrEqual(35);
+      expect(waits[1]).toBeGreaterThanOrEqual(75);
+      expect(waits[2]).toBeGreaterThanOrEqual(155);
+
+      server.refuse(false);
+      await waitFor(() => server.subscriptions.length === 2);
+      expect(server.subscriptions[1]).toEqual(['ethusdt@ticker', 'ethusdt@trade']);
+      expect(stream.getStatus()).toBe('open');
+    } finally {
+      stream.close();
+      server.stop();
+    }
+  });
+});
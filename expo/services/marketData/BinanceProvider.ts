@@ -0,0 +1,86 @@
+import { Candle, CandleInterval, CandleQuery } from '../CandleProvider';
+import { ensureOk, MarketCoin, MarketDataProvider, SymbolInfo } from '../MarketDataProvider';
+
+interface BinanceTicker {
+  symbol: string;
+  lastPrice: string;
+  priceChangePercent: string;
+  highPrice: string;
+  lowPrice: string;
+  quoteVolume: string;
+  closeTime: number;
+}
+
+// Binance public REST API, quoting every asset against a USD stablecoin.
+// Has no names, logos or market caps, so quotes are thinner than CoinGecko's.
+export class BinanceProvider implements MarketDataProvider {
+  private static readonly BASE_URL = 'https://api.binance.com/api/v3';
+
+  readonly name = 'binance';
+  readonly maxCandlesPerRequest = 1000;
+  // The all-symbol 24h ticker weighs 80 of the 6000-per-minute allowance
+  readonly rateLimit = { maxRequests: 60, windowMs: 60 * 1000 };
+
+  constructor(private quoteAsset: string = 'USDT') {}
+
+  supportsInterval(_interval: CandleInterval): boolean {
+    return true;
+  }
+
+  async fetchQuotes(perPage: number): Promise<MarketCoin[]> {
+    const resp = await fetch(`${BinanceProvider.BASE_URL}/ticker/24hr`);
+    await ensureOk(resp, this.name, 'Binance');
+
+    const tickers = (await resp.json()) as BinanceTicker[];
+    return tickers
+      .filter(ticker => ticker.symbol.endsWith(this.quoteAsset))
+      .sort((a, b) => Number(b.quoteVolume) - Number(a.quoteVolume))
+      .slice(0, perPage)
+      .map(ticker => {
+        const base = ticker.symbol.slice(0, -this.quoteAsset.length);
+        return {
+          id: base.toLowerCase(),
+          symbol: base.toLowerCase(),
+          name: base,
+          image: '',
+          current_price: Number(ticker.lastPrice),
+          total_volume: Number(ticker.quoteVolume),
+          high_24h: Number(ticker.highPrice),
+          low_24h: Number(ticker.lowPrice),
+          market_cap: null,
+          price_change_percentage_1h_in_currency: null,
+          price_change_percentage_24h_in_currency: Number(ticker.priceChangePercent),
+          price_change_percentage_7d_in_currency: null,
+          last_updated: new Date(ticker.closeTime).toISOString(),
+        };
+      });
+  }
+
+  async fetchSymbols(): Promise<SymbolInfo[]> {
+    const coins = await this.fetchQuotes(250);
+    return coins.map(coin => ({ symbol: coin.symbol.toUpperCase(), name: coin.name }));
+  }
+
+  async fetchCandlePage(query: CandleQuery): Promise<Candle[]> {
+    const symbol = query.symbol.toUpperCase();
+    const url = `${BinanceProvider.BASE_URL}/klines?symbol=${symbol}${this.quoteAsset}&interval=${query.interval}`
+      + `&startTime=${query.startTime}&endTime=${query.endTime}&limit=${Math.min(query.limit, this.maxCandlesPerRequest)}`;
+
+    const resp = await fetch(url);
+    await ensureOk(resp, this.name, 'Binance');
+
+    // [openTime, open, high, low, close, baseVolume, closeTime, quoteVolume, ...]
+    const rows = (await resp.json()) as (string | number)[][];
+    return rows.map(row => ({
+      symbol,
+      interval: query.interval,
+      openTime: Number(row[0]),
+      closeTime: Number(row[6]),
+      open: Number(row[1]),
+      high: Number(row[2]),
+      low: Number(row[3]),
+      close: Number(row[4]),
+      volume: Number(row[7]),
+    }));
+  }
+}
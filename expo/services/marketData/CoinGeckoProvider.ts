@@ -0,0 +1,131 @@
+import { Candle, CANDLE_INTERVAL_MS, CandleInterval, CandleQuery } from '../CandleProvider';
+import { ensureOk, MARKET_REFETCH_INTERVAL_MS, MarketCoin, MarketDataProvider, MarketDataProviderError, SymbolInfo } from '../MarketDataProvider';
+
+// CoinGecko REST API. Candles are built from market_chart/range price points,
+// which come back hourly for ranges up to 90 days.
+export class CoinGeckoProvider implements MarketDataProvider {
+  private static readonly BASE_URL = 'https://api.coingecko.com/api/v3';
+  private static readonly MAX_RANGE_MS = 90 * CANDLE_INTERVAL_MS['1d'];
+  private static readonly INTERVALS: CandleInterval[] = ['1h', '4h', '1d'];
+
+  readonly name = 'coingecko';
+  readonly maxCandlesPerRequest = 90 * 24;
+  // Demo keys allow ~10k calls a month; 20 per refetch window leaves room for the bot runtime
+  readonly rateLimit = { maxRequests: 20, windowMs: MARKET_REFETCH_INTERVAL_MS };
+
+  private idsBySymbol: Map<string, string> = new Map();
+
+  supportsInterval(interval: CandleInterval): boolean {
+    return CoinGeckoProvider.INTERVALS.includes(interval);
+  }
+
+  async fetchQuotes(perPage: number): Promise<MarketCoin[]> {
+    const url = `${CoinGeckoProvider.BASE_URL}/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=${perPage}&page=1&sparkline=false&price_change_percentage=1h,24h,7d`;
+    const resp = await fetch(url, { headers: this.headers() });
+    await ensureOk(resp, this.name, 'CoinGecko');
+
+    const coins = (await resp.json()) as MarketCoin[];
+    this.rememberIds(coins);
+    return coins;
+  }
+
+  async fetchSymbols(): Promise<SymbolInfo[]> {
+    const coins = await this.fetchQuotes(250);
+    return coins.map(coin => ({
+      symbol: coin.symbol.toUpperCase(),
+      name: coin.name,
+      id: coin.id,
+      image: coin.image,
+    }));
+  }
+
+  async fetchCandlePage(query: CandleQuery): Promise<Candle[]> {
+    const intervalMs = CANDLE_INTERVAL_MS[query.interval];
+    const symbol = query.symbol.toUpperCase();
+    const id = await this.resolveId(symbol);
+    const to = Math.min(query.endTime, query.startTime + Math.min(query.limit * intervalMs, CoinGeckoProvider.MAX_RANGE_MS));
+
+    const url = `${CoinGeckoProvider.BASE_URL}/coins/${id}/market_chart/range?vs_currency=usd`
+      + `&from=${Math.floor(query.startTime / 1000)}&to=${Math.ceil(to / 1000)}`;
+    const resp = await fetch(url, { headers: this.headers() });
+    await ensureOk(resp, this.name, 'CoinGecko');
+
+    const data = (await resp.json()) as { prices: [number, number][]; total_volumes: [number, number][] };
+    return this.toCandles(symbol, query.interval, data.prices, data.total_volumes)
+      .filter(candle => candle.openTime >= query.startTime && candle.openTime <= query.endTime)
+      .slice(0, query.limit);
+  }
+
+  // Buckets price points into OHLC bars. total_volumes is a rolling 24h figure,
+  // so each bar gets its interval's share of the average daily volume.
+  private toCandles(symbol: string, interval: CandleInterval, prices: [number, number][], volumes: [number, number][]): Candle[] {
+    const intervalMs = CANDLE_INTERVAL_MS[interval];
+    const candles: Candle[] = [];
+    const volumesByBucket: Map<number, number[]> = new Map();
+
+    volumes.forEach(([time, volume]) => {
+      const openTime = Math.floor(time / intervalMs) * intervalMs;
+      const bucket = volumesByBucket.get(openTime) || [];
+      bucket.push(volume);
+      volumesByBucket.set(openTime, bucket);
+    });
+
+    prices.forEach(([time, price]) => {
+      const openTime = Math.floor(time / intervalMs) * intervalMs;
+      const current = candles[candles.length - 1];
+
+      if (current && current.openTime === openTime) {
+        current.high = Math.max(current.high, price);
+        current.low = Math.min(current.low, price);
+        current.close = price;
+      } else {
+        const bucket = volumesByBucket.get(openTime) || [];
+        const averageDaily = bucket.length > 0 ? bucket.reduce((sum, v) => sum + v, 0) / bucket.length : 0;
+        candles.push({
+          symbol,
+          interval,
+          openTime,
+          closeTime: openTime + intervalMs - 1,
+          open: price,
+          high: price,
+          low: price,
+          close: price,
+          volume: averageDaily * (intervalMs / CANDLE_INTERVAL_MS['1d']),
+        });
+      }
+    });
+
+    return candles;
+  }
+
+  private async resolveId(symbol: string): Promise<string> {
+    if (!this.idsBySymbol.has(symbol)) {
+      await this.fetchQuotes(250);
+    }
+    const id = this.idsBySymbol.get(symbol);
+    if (!id) {
+      throw new MarketDataProviderError(`CoinGecko has no coin for ${symbol}`, this.name);
+    }
+    return id;
+  }
+
+  // Several coins share a ticker; markets are ordered by market cap so the first wins
+  private rememberIds(coins: MarketCoin[]): void {
+    coins.forEach(coin => {
+      const symbol = coin.symbol.toUpperCase();
+      if (!this.idsBySymbol.has(symbol)) {
+        this.idsBySymbol.set(symbol, coin.id);
+      }
+    });
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = {};
+    // Optional API key support if provided via public env var
+    const apiKey = process.env.EXPO_PUBLIC_COINGECKO_API_KEY;
+    if (apiKey) {
+      headers['x-cg-demo-api-key'] = apiKey;
+    }
+    return headers;
+  }
+}
@@ -0,0 +1,184 @@
+import candleFixtures from '../fixtures/candles.json';
+import { Candle, CANDLE_INTERVAL_MS, CandleInterval, candlesToMarketData, CandleQuery, LocalCandleProvider } from '../CandleProvider';
+import { MarketCoin, MarketDataProvider, MarketDataProviderError, SymbolInfo } from '../MarketDataProvider';
+
+export interface LocalFileSources {
+  quotes?: string; // JSON array of MarketCoin, or CSV
+  candles?: string | Candle[]; // JSON array of Candle, CSV, or already parsed candles
+}
+
+// Required CSV headers. Quotes may also carry name, volume, change1h, change24h,
+// change7d, high24h, low24h and marketCap; candles may carry closeTime.
+const QUOTE_COLUMNS = ['symbol', 'price'];
+const CANDLE_COLUMNS = ['symbol', 'interval', 'openTime', 'open', 'high', 'low', 'close', 'volume'];
+
+// Offline provider reading quotes and candles from JSON or CSV file contents.
+// Without a quotes file, quotes are derived from the latest candle of each symbol.
+export class LocalFileProvider implements MarketDataProvider {
+  readonly name = 'local';
+  readonly maxCandlesPerRequest = 1000;
+
+  private candles: LocalCandleProvider;
+  private quotes: MarketCoin[];
+
+  constructor(sources: LocalFileSources) {
+    const candles = sources.candles ? parseCandles(sources.candles) : [];
+    this.candles = new LocalCandleProvider(candles);
+    this.quotes = sources.quotes ? parseQuotes(sources.quotes) : quotesFromCandles(candles);
+  }
+
+  // Loads file contents from URIs (file://, bundled asset URIs or http)
+  static async fromFiles(uris: { quotes?: string; candles?: string }): Promise<LocalFileProvider> {
+    const read = async (uri?: string) => {
+      if (!uri) return undefined;
+      const resp = await fetch(uri);
+      if (!resp.ok) {
+        throw new MarketDataProviderError(`Cannot read ${uri}: ${resp.status}`, 'local', resp.status);
+      }
+      return resp.text();
+    };
+
+    const [quotes, candles] = await Promise.all([read(uris.quotes), read(uris.candles)]);
+    return new LocalFileProvider({ quotes, candles });
+  }
+
+  supportsInterval(_interval: CandleInterval): boolean {
+    return true;
+  }
+
+  async fetchQuotes(perPage: number): Promise<MarketCoin[]> {
+    return this.quotes.slice(0, perPage);
+  }
+
+  async fetchSymbols(): Promise<SymbolInfo[]> {
+    const symbols = new Map<string, SymbolInfo>();
+    this.quotes.forEach(coin => {
+      symbols.set(coin.symbol.toUpperCase(), { symbol: coin.symbol.toUpperCase(), name: coin.name, id: coin.id, image: coin.image || undefined });
+    });
+    this.candles.symbols().forEach(symbol => {
+      if (!symbols.has(symbol)) symbols.set(symbol, { symbol, name: symbol });
+    });
+    return Array.from(symbols.values());
+  }
+
+  fetchCandlePage(query: CandleQuery): Promise<Candle[]> {
+    return this.candles.fetchCandlePage(query);
+  }
+}
+
+// Three days of hourly BTC/ETH/SOL candles bundled with the app
+export function createFixtureProvider(): LocalFileProvider {
+  return new LocalFileProvider({ candles: candleFixtures as Candle[] });
+}
+
+function parseQuotes(contents: string): MarketCoin[] {
+  if (isJson(contents)) {
+    return JSON.parse(contents) as MarketCoin[];
+  }
+
+  return parseCsv(contents, QUOTE_COLUMNS).map(row => {
+    const symbol = row.symbol.toLowerCase();
+    return {
+      id: symbol,
+      symbol,
+      name: row.name || row.symbol.toUpperCase(),
+      image: '',
+      current_price: Number(row.price),
+      total_volume: optionalNumber(row.volume),
+      high_24h: optionalNumber(row.high24h),
+      low_24h: optionalNumber(row.low24h),
+      market_cap: optionalNumber(row.marketCap),
+      price_change_percentage_1h_in_currency: optionalNumber(row.change1h),
+      price_change_percentage_24h_in_currency: optionalNumber(row.change24h),
+      price_change_percentage_7d_in_currency: optionalNumber(row.change7d),
+    };
+  });
+}
+
+function parseCandles(contents: string | Candle[]): Candle[] {
+  const candles = Array.isArray(contents)
+    ? contents
+    : isJson(contents)
+      ? (JSON.parse(contents) as Candle[])
+      : parseCsv(contents, CANDLE_COLUMNS).map(row => {
+          const interval = row.interval as CandleInterval;
+          const openTime = Number(row.openTime);
+          return {
+            symbol: row.symbol.toUpperCase(),
+            interval,
+            openTime,
+            closeTime: row.closeTime ? Number(row.closeTime) : openTime + CANDLE_INTERVAL_MS[interval] - 1,
+            open: Number(row.open),
+            high: Number(row.high),
+            low: Number(row.low),
+            close: Number(row.close),
+            volume: Number(row.volume),
+          };
+        });
+
+  candles.forEach((candle, i) => {
+    if (!(candle.interval in CANDLE_INTERVAL_MS)) {
+      throw new Error(`Candle ${i}: unknown interval ${candle.interval}`);
+    }
+    if ([candle.openTime, candle.open, candle.high, candle.low, candle.close].some(value => !isFinite(value))) {
+      throw new Error(`Candle ${i}: non-numeric field for ${candle.symbol}`);
+    }
+  });
+
+  return candles;
+}
+
+function quotesFromCandles(candles: Candle[]): MarketCoin[] {
+  const latest = new Map<string, MarketCoin>();
+
+  candlesToMarketData(candles).forEach(data => {
+    latest.set(data.symbol, {
+      id: data.symbol.toLowerCase(),
+      symbol: data.symbol.toLowerCase(),
+      name: data.symbol,
+      image: '',
+      current_price: data.price,
+      total_volume: data.volume,
+      high_24h: data.high24h,
+      low_24h: data.low24h,
+      market_cap: null,
+      price_change_percentage_1h_in_currency: data.change1h,
+      price_change_percentage_24h_in_currency: data.change24h,
+      price_change_percentage_7d_in_currency: null,
+    });
+  });
+
+  return Array.from(latest.values());
+}
+
+function isJson(contents: string): boolean {
+  const first = contents.trimStart()[0];
+  return first === '[' || first === '{';
+}
+
+// Minimal CSV: a header row, comma separated, no quoted fields
+function parseCsv(contents: string, requiredColumns: string[]): Record<string, string>[] {
+  const lines = contents.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map(cell => cell.trim());
+  const missing = requiredColumns.filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing columns: ${missing.join(', ')}`);
+  }
+
+  return lines.slice(1).map(line => {
+    const cells = line.split(',').map(cell => cell.trim());
+    const row: Record<string, string> = {};
+    header.forEach((column, i) => {
+      row[column] = cells[i] ?? '';
+    });
+    return row;
+  });
+}
+
+function optionalNumber(value: string | undefined): number | null {
+  if (value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return isFinite(parsed) ? parsed : null;
+}